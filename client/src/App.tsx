@@ -1,4 +1,4 @@
-import { Switch, Route } from "wouter";
+import { Switch, Route, Redirect } from "wouter";
 import { queryClient } from "./lib/queryClient";
 import { QueryClientProvider } from "@tanstack/react-query";
 import { Toaster } from "@/components/ui/toaster";
@@ -8,30 +8,82 @@ import Dashboard from "@/pages/dashboard";
 import ProductionUnits from "@/pages/production-units";
 import Expenses from "@/pages/expenses";
 import Revenue from "@/pages/revenue";
+import Invoices from "@/pages/invoices";
+import InvoicePage from "@/pages/invoice";
 import Inventory from "@/pages/inventory";
+import Customers from "@/pages/customers";
+import CustomerDetail from "@/pages/customer-detail";
+import Suppliers from "@/pages/suppliers";
+import SupplierDetail from "@/pages/supplier-detail";
+import Orders from "@/pages/orders";
 import ProfitLoss from "@/pages/profit-loss";
+import Receivables from "@/pages/receivables";
+import Gstr1 from "@/pages/gstr1";
+import Gstr3b from "@/pages/gstr3b";
+import Gstr2b from "@/pages/gstr2b";
+import TaxMaster from "@/pages/tax-master";
+import Stitching from "@/pages/stitching";
+import Deliveries from "@/pages/deliveries";
+import JobCardPage from "@/pages/job-card";
 import Reports from "@/pages/reports";
 import ImportExport from "@/pages/import-export";
+import RecycleBin from "@/pages/recycle-bin";
+import Users from "@/pages/users";
+import AuthPage from "@/pages/auth-page";
+import { AuthProvider, useAuth } from "@/hooks/use-auth";
+import { Loader2 } from "lucide-react";
 
 import { Sidebar } from "@/components/layout/sidebar";
 import { Header } from "@/components/layout/header";
 
-function Router() {
+// The app shell and its pages, shown only to signed-in users
+function AppLayout() {
+  const { user, isLoading } = useAuth();
+
+  if (isLoading) {
+    return (
+      <div className="h-screen flex items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary-700" />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <Redirect to="/auth" />;
+  }
+
   return (
-    <div className="h-screen flex overflow-hidden">
+    <div className="h-screen flex overflow-hidden print:h-auto print:overflow-visible">
       <Sidebar />
-      <div className="flex-1 flex flex-col overflow-hidden">
+      <div className="flex-1 flex flex-col overflow-hidden print:overflow-visible">
         <Header />
-        <main className="flex-1 overflow-y-auto p-4 lg:p-6 bg-secondary-50">
+        <main className="flex-1 overflow-y-auto p-4 lg:p-6 bg-secondary-50 print:overflow-visible print:p-0 print:bg-white">
           <Switch>
             <Route path="/" component={Dashboard} />
             <Route path="/production-units" component={ProductionUnits} />
             <Route path="/expenses" component={Expenses} />
             <Route path="/revenue" component={Revenue} />
+            <Route path="/invoices" component={Invoices} />
+            <Route path="/invoices/:id" component={InvoicePage} />
             <Route path="/inventory" component={Inventory} />
+            <Route path="/customers" component={Customers} />
+            <Route path="/customers/:id" component={CustomerDetail} />
+            <Route path="/suppliers" component={Suppliers} />
+            <Route path="/suppliers/:id" component={SupplierDetail} />
+            <Route path="/orders" component={Orders} />
             <Route path="/profit-loss" component={ProfitLoss} />
+            <Route path="/receivables" component={Receivables} />
+            <Route path="/gst/gstr1" component={Gstr1} />
+            <Route path="/gst/gstr3b" component={Gstr3b} />
+            <Route path="/gst/gstr2b" component={Gstr2b} />
+            <Route path="/tax-master" component={TaxMaster} />
+            <Route path="/stitching" component={Stitching} />
+            <Route path="/stitching/:id" component={JobCardPage} />
+            <Route path="/deliveries" component={Deliveries} />
             <Route path="/reports" component={Reports} />
             <Route path="/import-export" component={ImportExport} />
+            <Route path="/recycle-bin" component={RecycleBin} />
+            <Route path="/settings/users" component={Users} />
             <Route component={NotFound} />
           </Switch>
         </main>
@@ -40,13 +92,24 @@ function Router() {
   );
 }
 
+function Router() {
+  return (
+    <Switch>
+      <Route path="/auth" component={AuthPage} />
+      <Route component={AppLayout} />
+    </Switch>
+  );
+}
+
 function App() {
   return (
     <QueryClientProvider client={queryClient}>
-      <TooltipProvider>
-        <Toaster />
-        <Router />
-      </TooltipProvider>
+      <AuthProvider>
+        <TooltipProvider>
+          <Toaster />
+          <Router />
+        </TooltipProvider>
+      </AuthProvider>
     </QueryClientProvider>
   );
 }
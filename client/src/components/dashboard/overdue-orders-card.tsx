@@ -0,0 +1,68 @@
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { useDueOrders } from "@/hooks/use-due-orders";
+
+// Past-due orders still being worked on, most overdue first
+export function OverdueOrdersCard() {
+  const { data: dueOrders, isLoading } = useDueOrders();
+  const overdueOrders = (dueOrders?.orders || []).filter((order) => order.isOverdue);
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between py-4">
+        <CardTitle className="text-lg font-medium flex items-center">
+          <AlertTriangle
+            className={overdueOrders.length > 0 ? "h-5 w-5 mr-2 text-red-500" : "h-5 w-5 mr-2 text-secondary-400"}
+          />
+          Overdue Orders
+          {overdueOrders.length > 0 && (
+            <span className="ml-2 text-sm font-normal text-red-500">({overdueOrders.length})</span>
+          )}
+        </CardTitle>
+        <Button variant="link" asChild>
+          <Link href="/deliveries" className="text-primary-700 hover:text-primary-800 text-sm font-medium">
+            Delivery Calendar
+          </Link>
+        </Button>
+      </CardHeader>
+      <CardContent className="p-4 pt-0">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : overdueOrders.length === 0 ? (
+          <div className="p-4 text-center text-secondary-500">No overdue orders</div>
+        ) : (
+          <ul className="divide-y">
+            {overdueOrders.slice(0, 5).map((order) => (
+              <li key={order.orderId} className="flex items-center justify-between py-2 text-sm">
+                <div>
+                  <div className="font-medium">
+                    {order.orderNumber} · {order.customerName}
+                  </div>
+                  <div className="text-xs text-secondary-500">
+                    Due {format(new Date(order.deliveryDate), "MMM d, yyyy")}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-3">
+                  <OrderStatusBadge status={order.status} />
+                  <span className="text-red-500 font-medium whitespace-nowrap">
+                    {-order.daysUntilDue} {order.daysUntilDue === -1 ? "day" : "days"} late
+                  </span>
+                </div>
+              </li>
+            ))}
+            {overdueOrders.length > 5 && (
+              <li className="pt-2 text-xs text-secondary-500">
+                And {overdueOrders.length - 5} more
+              </li>
+            )}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,241 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Customer } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode, isValidGSTIN } from "@shared/gst-utils";
+
+// State left for the server to take from the GSTIN
+const STATE_FROM_GSTIN = "gstin";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  phone: z.string().optional(),
+  email: z.string().email("Enter a valid email address").or(z.literal("")).optional(),
+  address: z.string().optional(),
+  gstin: z
+    .string()
+    .optional()
+    .refine((value) => !value || isValidGSTIN(value.trim().toUpperCase()), {
+      message: "Enter a valid 15-character GSTIN",
+    }),
+  stateCode: z.string(),
+  notes: z.string().optional(),
+});
+
+export type CustomerFormData = {
+  name: string;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  gstin: string | null;
+  stateCode: string | null;
+  notes: string | null;
+};
+
+type CustomerFormProps = {
+  onSubmit: (data: CustomerFormData) => void;
+  customer?: Customer | null;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function CustomerForm({
+  onSubmit,
+  customer,
+  isLoading = false,
+  onCancel,
+}: CustomerFormProps) {
+  // Initialize form with default values or editing values
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: customer?.name || "",
+      phone: customer?.phone || "",
+      email: customer?.email || "",
+      address: customer?.address || "",
+      gstin: customer?.gstin || "",
+      stateCode: customer?.stateCode || STATE_FROM_GSTIN,
+      notes: customer?.notes || "",
+    },
+  });
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    // Blank optional fields are stored as null
+    onSubmit({
+      name: data.name,
+      phone: data.phone || null,
+      email: data.email || null,
+      address: data.address || null,
+      gstin: data.gstin ? data.gstin.trim().toUpperCase() : null,
+      stateCode: data.stateCode === STATE_FROM_GSTIN ? null : data.stateCode,
+      notes: data.notes || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Anita Desai" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="98765 43210" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="email"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email (Optional)</FormLabel>
+                <FormControl>
+                  <Input type="email" placeholder="anita@example.com" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Street, city and PIN code" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="gstin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>GSTIN (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="27AAPFU0939F1ZV"
+                  maxLength={15}
+                  className="uppercase"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Only needed for GST-registered business customers.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stateCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>State</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={STATE_FROM_GSTIN}>From GSTIN, else the unit's state</SelectItem>
+                  {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                    <SelectItem key={stateCode} value={stateCode}>
+                      {formatStateCode(stateCode)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Default place of supply for the customer's orders. Set it for out-of-state unregistered customers.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Preferences, referrals and so on" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? "Saving..."
+              : customer
+              ? "Update Customer"
+              : "Add Customer"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -19,26 +19,19 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
-import { Expense, ProductionUnit } from "@shared/schema";
+import { Expense, InsertExpense, ProductionUnit, Supplier } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode } from "@shared/gst-utils";
 import { format } from "date-fns";
 import { useEffect } from "react";
-import { calculateBaseFromTotal, calculateGSTFromTotal, expenseCategoryToGSTRate, categoryToHSNCode } from "@/lib/utils";
+import { calculateBaseFromTotal, calculateGSTFromTotal } from "@/lib/utils";
+import { useTaxMaster } from "@/hooks/use-tax-master";
+import { formatRateVersion } from "@shared/tax-master";
 
-// Expense categories - updated to match GST categories in utils.ts
-const EXPENSE_CATEGORIES = [
-  "raw_materials",
-  "equipment",
-  "office_supplies",
-  "utilities",
-  "rent",
-  "marketing",
-  "transportation",
-  "salaries",
-  "insurance",
-  "professional_services",
-  "maintenance",
-  "miscellaneous",
-];
+// Supplier in the unit's own state, so CGST + SGST applies
+const SAME_STATE = "same";
+
+// Expense not billed by a supplier in the supplier master
+const NO_SUPPLIER = "none";
 
 // Extend the schema for validation
 const formSchema = z.object({
@@ -57,13 +50,17 @@ const formSchema = z.object({
   gstAmount: z.string().optional(),
   hsn: z.string().optional(),
   invoiceNumber: z.string().optional(),
+  supplierId: z.string(),
+  supplierStateCode: z.string(),
+  paidDate: z.string().optional(),
   currency: z.string().optional(),
 });
 
 type ExpenseFormProps = {
-  onSubmit: (data: Omit<Expense, "id">) => void;
+  onSubmit: (data: InsertExpense) => void;
   expense?: Expense | null;
   productionUnits: ProductionUnit[];
+  suppliers: Supplier[];
   isLoading?: boolean;
   onCancel: () => void;
 };
@@ -72,6 +69,7 @@ export function ExpenseForm({
   onSubmit,
   expense,
   productionUnits,
+  suppliers,
   isLoading = false,
   onCancel,
 }: ExpenseFormProps) {
@@ -96,38 +94,46 @@ export function ExpenseForm({
       gstAmount: expense?.gstAmount?.toString() || "",
       hsn: expense?.hsn || "",
       invoiceNumber: expense?.invoiceNumber || "",
+      supplierId: expense?.supplierId?.toString() || NO_SUPPLIER,
+      supplierStateCode: expense?.supplierStateCode || SAME_STATE,
+      paidDate: expense?.paidDate ? formatDateForInput(expense.paidDate) : "",
       currency: "INR", // Always default to INR
     },
   });
   
-  // Auto-calculate GST when amount or category changes
+  // GST rate and HSN/SAC code of the chosen category on the expense's date, from the tax master
+  const taxMaster = useTaxMaster("expense");
+  const category = form.watch("category");
+  const categoryTax = taxMaster.getCategoryTax(category, form.watch("date"));
+
+  // Auto-calculate GST when amount, category or date changes
   useEffect(() => {
     const amount = form.watch("amount");
-    const category = form.watch("category");
     
-    if (amount && category) {
+    if (amount && category && !taxMaster.isLoading) {
       const totalAmount = parseFloat(amount);
       if (!isNaN(totalAmount) && totalAmount > 0) {
-        // Get the appropriate GST rate for this category directly using snake_case
-        const gstRate = expenseCategoryToGSTRate[category] || 18; // Default to 18% if not found
+        const { gstRate, hsn } = categoryTax;
         
         // Calculate GST amount and base amount
         const gstAmount = calculateGSTFromTotal(totalAmount, gstRate);
         const baseAmount = calculateBaseFromTotal(totalAmount, gstRate);
         
-        // Get the HSN code if available
-        const hsn = categoryToHSNCode[category] || "";
-        
         // Update form fields
         form.setValue("gstRate", gstRate.toString());
         form.setValue("gstAmount", gstAmount.toString());
         form.setValue("baseAmount", baseAmount.toString());
-        form.setValue("hsn", hsn);
+        form.setValue("hsn", hsn || "");
       }
     }
-  }, [form.watch("amount"), form.watch("category")]);
+  }, [form.watch("amount"), category, categoryTax.gstRate, categoryTax.hsn, taxMaster.isLoading]);
+
+  // A supplier from the master brings their own state
+  const supplierId = form.watch("supplierId");
+  const selectedSupplier = suppliers.find((supplier) => supplier.id.toString() === supplierId);
 
   const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    const hasSupplier = data.supplierId !== NO_SUPPLIER;
     onSubmit({
       productionUnitId: parseInt(data.productionUnitId),
       description: data.description,
@@ -139,7 +145,14 @@ export function ExpenseForm({
       gstAmount: data.gstAmount || null,
       hsn: data.hsn || null,
       invoiceNumber: data.invoiceNumber || null,
+      supplierId: hasSupplier ? parseInt(data.supplierId) : null,
+      supplierStateCode: hasSupplier || data.supplierStateCode === SAME_STATE ? null : data.supplierStateCode,
+      // Only bills from a supplier are tracked as paid or owed
+      paidDate: hasSupplier && data.paidDate ? new Date(data.paidDate) : null,
       currency: data.currency || "INR",
+      // Keep the link to the salary payment or maintenance record that booked this expense
+      salaryPaymentId: expense?.salaryPaymentId ?? null,
+      maintenanceRecordId: expense?.maintenanceRecordId ?? null,
     });
   };
 
@@ -234,6 +247,59 @@ export function ExpenseForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="supplierId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Supplier</FormLabel>
+              <Select
+                onValueChange={field.onChange}
+                defaultValue={field.value}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_SUPPLIER}>No supplier</SelectItem>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id.toString()}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                The vendor who billed this expense, to track what is owed to them.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {selectedSupplier && (
+          <FormField
+            control={form.control}
+            name="paidDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Paid On</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormDescription>
+                  Leave blank while the bill is unpaid.
+                  {selectedSupplier.paymentTermsDays > 0 &&
+                    ` Payment is due ${selectedSupplier.paymentTermsDays} days after the bill date.`}
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
         <FormField
           control={form.control}
           name="category"
@@ -250,9 +316,13 @@ export function ExpenseForm({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  {EXPENSE_CATEGORIES.map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ")}
+                  {/* A category no longer in the master stays selectable on the records saved with it */}
+                  {field.value && !taxMaster.categories.some((category) => category.name === field.value) && (
+                    <SelectItem value={field.value}>{field.value}</SelectItem>
+                  )}
+                  {taxMaster.categories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {category.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
@@ -289,8 +359,11 @@ export function ExpenseForm({
                 <FormItem>
                   <FormLabel>GST Rate (%)</FormLabel>
                   <FormControl>
-                    <Input {...field} />
+                    <Input readOnly {...field} />
                   </FormControl>
+                  {categoryTax.version && (
+                    <FormDescription>Rate change: {formatRateVersion(categoryTax.version)}</FormDescription>
+                  )}
                 </FormItem>
               )}
             />
@@ -315,7 +388,7 @@ export function ExpenseForm({
                 <FormItem>
                   <FormLabel>HSN Code</FormLabel>
                   <FormControl>
-                    <Input {...field} />
+                    <Input readOnly={!!categoryTax.hsn} {...field} />
                   </FormControl>
                 </FormItem>
               )}
@@ -334,6 +407,44 @@ export function ExpenseForm({
               )}
             />
             
+            {selectedSupplier ? (
+              <FormItem>
+                <FormLabel>Supplier State</FormLabel>
+                <Input
+                  readOnly
+                  value={selectedSupplier.stateCode ? formatStateCode(selectedSupplier.stateCode) : "Same state as the unit"}
+                />
+              </FormItem>
+            ) : (
+              <FormField
+                control={form.control}
+                name="supplierStateCode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Supplier State</FormLabel>
+                    <Select
+                      onValueChange={field.onChange}
+                      defaultValue={field.value}
+                    >
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={SAME_STATE}>Same state as the unit</SelectItem>
+                        {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                          <SelectItem key={stateCode} value={stateCode}>
+                            {formatStateCode(stateCode)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="currency"
@@ -360,6 +471,7 @@ export function ExpenseForm({
           </div>
           <p className="text-sm text-gray-500 mt-2">
             GST amounts are automatically calculated based on the category and total amount.
+            A supplier from another state charges IGST instead of CGST + SGST.
           </p>
         </div>
 
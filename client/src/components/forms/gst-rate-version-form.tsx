@@ -0,0 +1,235 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HsnCode, TaxCategory } from "@shared/schema";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  appliesTo: z.enum(["hsn", "category"]),
+  hsnCode: z.string(),
+  categoryId: z.string(),
+  gstRate: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
+    message: "Enter a rate between 0 and 100",
+  }),
+  effectiveFrom: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  notification: z.string(),
+}).refine((data) => data.appliesTo !== "hsn" || data.hsnCode !== "", {
+  message: "Choose the code whose rate changed",
+  path: ["hsnCode"],
+}).refine((data) => data.appliesTo !== "category" || data.categoryId !== "", {
+  message: "Choose the category whose rate changed",
+  path: ["categoryId"],
+});
+
+export type GstRateVersionFormData = {
+  hsnCode: string | null;
+  categoryId: number | null;
+  gstRate: number;
+  effectiveFrom: Date;
+  notification: string | null;
+};
+
+type GstRateVersionFormProps = {
+  onSubmit: (data: GstRateVersionFormData) => void;
+  hsnCodes: HsnCode[];
+  categories: TaxCategory[];
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function GstRateVersionForm({
+  onSubmit,
+  hsnCodes,
+  categories,
+  isLoading = false,
+  onCancel,
+}: GstRateVersionFormProps) {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      appliesTo: "hsn",
+      hsnCode: "",
+      categoryId: "",
+      gstRate: "",
+      effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+      notification: "",
+    },
+  });
+
+  const appliesTo = form.watch("appliesTo");
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    onSubmit({
+      hsnCode: data.appliesTo === "hsn" ? data.hsnCode : null,
+      categoryId: data.appliesTo === "category" ? parseInt(data.categoryId) : null,
+      gstRate: parseFloat(data.gstRate),
+      effectiveFrom: new Date(data.effectiveFrom),
+      notification: data.notification.trim() || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="appliesTo"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Applies To</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value="hsn">An HSN/SAC code</SelectItem>
+                  <SelectItem value="category">A category</SelectItem>
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {appliesTo === "hsn" ? (
+          <FormField
+            control={form.control}
+            name="hsnCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>HSN/SAC Code</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a code" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {hsnCodes.map((hsnCode) => (
+                      <SelectItem key={hsnCode.id} value={hsnCode.code}>
+                        {hsnCode.code} - {hsnCode.description}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  Applies to every category billed under the code without a rate of its own.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        ) : (
+          <FormField
+            control={form.control}
+            name="categoryId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {categories.map((category) => (
+                      <SelectItem key={category.id} value={category.id.toString()}>
+                        {category.name} ({category.kind})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="gstRate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>New GST Rate (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" max="100" step="0.01" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="effectiveFrom"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Effective From</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notification"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notification</FormLabel>
+              <FormControl>
+                <Input placeholder="09/2025-Central Tax (Rate)" {...field} />
+              </FormControl>
+              <FormDescription>
+                Entries dated before this keep the earlier rate, including ones backdated later.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Add Rate Change"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
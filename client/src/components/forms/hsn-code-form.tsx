@@ -0,0 +1,185 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { HsnCode } from "@shared/schema";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  code: z.string().regex(/^\d{4,8}$/, "HSN/SAC codes are 4 to 8 digits"),
+  description: z.string().min(2, "Description must be at least 2 characters"),
+  gstRate: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100, {
+    message: "Enter a rate between 0 and 100",
+  }),
+  effectiveFrom: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  notification: z.string(),
+});
+
+export type HsnCodeFormData = {
+  code: string;
+  description: string;
+  gstRate: number;
+  // When an edited rate takes effect; it is saved as a rate change rather than in place
+  effectiveFrom?: Date;
+  notification?: string | null;
+};
+
+type HsnCodeFormProps = {
+  onSubmit: (data: HsnCodeFormData) => void;
+  hsnCode?: HsnCode | null;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function HsnCodeForm({
+  onSubmit,
+  hsnCode,
+  isLoading = false,
+  onCancel,
+}: HsnCodeFormProps) {
+  // Initialize form with default values or editing values
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      code: hsnCode?.code || "",
+      description: hsnCode?.description || "",
+      gstRate: hsnCode?.gstRate || "",
+      effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+      notification: "",
+    },
+  });
+
+  const gstRate = form.watch("gstRate");
+  const rateChanged = !!hsnCode && gstRate !== "" && parseFloat(gstRate) !== parseFloat(hsnCode.gstRate);
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    onSubmit({
+      code: data.code,
+      description: data.description,
+      gstRate: parseFloat(data.gstRate),
+      ...(rateChanged && {
+        effectiveFrom: new Date(data.effectiveFrom),
+        notification: data.notification.trim() || null,
+      }),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="code"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>HSN/SAC Code</FormLabel>
+                <FormControl>
+                  {/* Categories refer to the code, so it can't be changed once saved */}
+                  <Input placeholder="5208" maxLength={8} disabled={!!hsnCode} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="gstRate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>GST Rate (%)</FormLabel>
+                <FormControl>
+                  <Input type="number" min="0" max="100" step="0.01" placeholder="5" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {rateChanged && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="effectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Rate Effective From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Entries dated earlier keep the current rate.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notification</FormLabel>
+                  <FormControl>
+                    <Input placeholder="09/2025-Central Tax (Rate)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="description"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Description</FormLabel>
+              <FormControl>
+                <Input placeholder="Woven cotton fabrics" {...field} />
+              </FormControl>
+              <FormDescription>
+                The rate applies to every category billed under this code until its first rate change. Record
+                notified changes under Rate Changes, so entries dated earlier keep this rate.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? "Saving..."
+              : hsnCode
+              ? "Update Code"
+              : "Add Code"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
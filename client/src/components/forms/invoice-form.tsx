@@ -0,0 +1,190 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { IssueInvoiceRequest } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode, isValidGSTIN } from "@shared/gst-utils";
+
+// Place of supply left for the server to work out from the buyer's GSTIN
+const AUTO_PLACE_OF_SUPPLY = "auto";
+
+const formSchema = z.object({
+  invoiceDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  buyerName: z.string().min(1, "Buyer name is required"),
+  buyerAddress: z.string().optional(),
+  buyerGstin: z
+    .string()
+    .optional()
+    .refine((value) => !value || isValidGSTIN(value.trim().toUpperCase()), {
+      message: "Enter a valid 15-character GSTIN",
+    }),
+  placeOfSupply: z.string(),
+});
+
+export type InvoiceFormData = Omit<IssueInvoiceRequest, "orderId" | "revenueId">;
+
+export type InvoiceBuyer = {
+  name: string;
+  address: string | null;
+  gstin: string | null;
+};
+
+type InvoiceFormProps = {
+  onSubmit: (data: InvoiceFormData) => void;
+  buyer?: InvoiceBuyer;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function InvoiceForm({ onSubmit, buyer, isLoading = false, onCancel }: InvoiceFormProps) {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      invoiceDate: format(new Date(), "yyyy-MM-dd"),
+      buyerName: buyer?.name || "",
+      buyerAddress: buyer?.address || "",
+      buyerGstin: buyer?.gstin || "",
+      placeOfSupply: AUTO_PLACE_OF_SUPPLY,
+    },
+  });
+
+  // What is printed is what the form shows, so blank buyer details are sent as blank
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    onSubmit({
+      invoiceDate: new Date(data.invoiceDate),
+      buyerName: data.buyerName,
+      buyerAddress: data.buyerAddress || "",
+      buyerGstin: data.buyerGstin ? data.buyerGstin.trim().toUpperCase() : null,
+      placeOfSupply: data.placeOfSupply === AUTO_PLACE_OF_SUPPLY ? undefined : data.placeOfSupply,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="invoiceDate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Invoice Date</FormLabel>
+              <FormControl>
+                <Input type="date" {...field} />
+              </FormControl>
+              <FormDescription>
+                The invoice is numbered in the financial year of this date.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="buyerName"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Bill To</FormLabel>
+              <FormControl>
+                <Input placeholder="Walk-in Customer" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="buyerAddress"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Buyer Address (Optional)</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="buyerGstin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Buyer GSTIN (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="27AAPFU0939F1ZV"
+                  maxLength={15}
+                  className="uppercase"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>Leave blank for unregistered buyers.</FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="placeOfSupply"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Place of Supply</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={AUTO_PLACE_OF_SUPPLY}>Buyer's state from GSTIN, else the unit's state</SelectItem>
+                  {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                    <SelectItem key={stateCode} value={stateCode}>
+                      {formatStateCode(stateCode)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                IGST applies when this differs from the production unit's state, CGST and SGST otherwise.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Issuing..." : "Issue Invoice"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,255 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { InsertMeasurementProfile, MeasurementProfile } from "@shared/schema";
+import {
+  GARMENT_LABELS,
+  GARMENT_MEASUREMENT_FIELDS,
+  GarmentType,
+  MEASUREMENT_UNIT_LABELS,
+  MeasurementUnit,
+  garmentTypes,
+  measurementUnits,
+  parseProfileMeasurements,
+} from "@shared/measurements";
+
+export type MeasurementProfileFormData = Omit<InsertMeasurementProfile, "customerId">;
+
+type MeasurementProfileFormProps = {
+  onSubmit: (data: MeasurementProfileFormData) => void;
+  // The customer's existing profiles; the form starts from the latest one for the garment
+  profiles: MeasurementProfile[];
+  initialGarmentType?: GarmentType;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+const formSchema = z.object({
+  garmentType: z.enum(garmentTypes),
+  unit: z.enum(measurementUnits),
+  takenAt: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  measurements: z
+    .record(z.string())
+    .refine((values) => Object.values(values).some((value) => value.trim() !== ""), {
+      message: "Enter at least one measurement",
+    })
+    .refine(
+      (values) =>
+        Object.values(values).every(
+          (value) => value.trim() === "" || parseFloat(value) > 0
+        ),
+      { message: "Measurements must be positive numbers" }
+    ),
+  notes: z.string().optional(),
+});
+
+/**
+ * The latest profile's values for a garment as form input strings
+ */
+function getLatestValues(profiles: MeasurementProfile[], garmentType: GarmentType) {
+  const latest = profiles
+    .filter((profile) => profile.garmentType === garmentType)
+    .sort((a, b) => b.version - a.version)[0];
+  if (!latest) return { values: {}, unit: undefined };
+
+  const values = Object.fromEntries(
+    Object.entries(parseProfileMeasurements(latest.measurements)).map(([key, value]) => [key, String(value)])
+  );
+  return { values, unit: latest.unit as MeasurementUnit };
+}
+
+export function MeasurementProfileForm({
+  onSubmit,
+  profiles,
+  initialGarmentType = "shirt",
+  isLoading = false,
+  onCancel,
+}: MeasurementProfileFormProps) {
+  const initial = getLatestValues(profiles, initialGarmentType);
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      garmentType: initialGarmentType,
+      unit: initial.unit || "in",
+      takenAt: format(new Date(), "yyyy-MM-dd"),
+      measurements: initial.values,
+      notes: "",
+    },
+  });
+
+  const garmentType = form.watch("garmentType");
+
+  // Switching garments starts from that garment's last measurements
+  const handleGarmentChange = (value: GarmentType) => {
+    const latest = getLatestValues(profiles, value);
+    form.setValue("garmentType", value);
+    form.setValue("measurements", latest.values);
+    if (latest.unit) form.setValue("unit", latest.unit);
+  };
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    // Only keep the fields measured for the garment that were filled in
+    const fieldKeys = GARMENT_MEASUREMENT_FIELDS[data.garmentType].map((field) => field.key);
+    const measurements = Object.fromEntries(
+      Object.entries(data.measurements)
+        .filter(([key, value]) => fieldKeys.includes(key) && value.trim() !== "")
+        .map(([key, value]) => [key, parseFloat(value)])
+    );
+
+    onSubmit({
+      garmentType: data.garmentType,
+      unit: data.unit,
+      takenAt: new Date(data.takenAt),
+      measurements: JSON.stringify(measurements),
+      notes: data.notes || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-3 gap-4">
+          <FormField
+            control={form.control}
+            name="garmentType"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Garment</FormLabel>
+                <Select
+                  onValueChange={(value) => handleGarmentChange(value as GarmentType)}
+                  value={field.value}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {garmentTypes.map((type) => (
+                      <SelectItem key={type} value={type}>
+                        {GARMENT_LABELS[type]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="unit"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Unit</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {measurementUnits.map((unit) => (
+                      <SelectItem key={unit} value={unit}>
+                        {MEASUREMENT_UNIT_LABELS[unit]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="takenAt"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Measured On</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="bg-slate-50 p-4 rounded-md border">
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {GARMENT_MEASUREMENT_FIELDS[garmentType].map((measurement) => (
+              <FormField
+                key={`${garmentType}.${measurement.key}`}
+                control={form.control}
+                name={`measurements.${measurement.key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{measurement.label}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.25" min="0" {...field} value={field.value || ""} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+          <FormField
+            control={form.control}
+            name="measurements"
+            render={() => (
+              <FormItem>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="Prefers a loose fit, slight right shoulder drop..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel} disabled={isLoading}>
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Measurements"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
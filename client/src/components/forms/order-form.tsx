@@ -0,0 +1,744 @@
+import { useForm } from "react-hook-form";
+import { useQuery } from "@tanstack/react-query";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Customer,
+  InsertOrder,
+  MeasurementProfile,
+  Order,
+  OrderStatus,
+  ProductionUnit,
+  orderStatuses,
+} from "@shared/schema";
+import {
+  GARMENT_LABELS,
+  GARMENT_MEASUREMENT_FIELDS,
+  GarmentType,
+  MEASUREMENT_UNIT_LABELS,
+  OrderMeasurements,
+  diffMeasurements,
+  garmentTypes,
+  measurementUnits,
+  parseOrderMeasurements,
+  parseProfileMeasurements,
+} from "@shared/measurements";
+import {
+  GST_STATE_CODES,
+  calculateBaseFromTotal,
+  calculateGSTFromTotal,
+  formatStateCode,
+} from "@shared/gst-utils";
+import { useTaxMaster } from "@/hooks/use-tax-master";
+import { formatRateVersion } from "@shared/tax-master";
+import { ORDER_STATUS_TRANSITIONS, canCreateOrderWithStatus } from "@shared/order-status";
+import { ORDER_STATUS_LABELS } from "@/components/orders/order-status-badge";
+import { MeasurementChanges } from "@/components/measurements/measurement-changes";
+import { format } from "date-fns";
+import { useEffect } from "react";
+
+// Place of supply left for the server to take from the customer's state
+const AUTO_PLACE_OF_SUPPLY = "auto";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  customerId: z.string().min(1, "Customer is required"),
+  productionUnitId: z.string().min(1, "Production unit is required"),
+  orderNumber: z.string().optional(),
+  orderDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  deliveryDate: z.string().refine((val) => val === "" || !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  status: z.enum(orderStatuses),
+  category: z.string().min(1, "Category is required"),
+  description: z.string().optional(),
+  totalAmount: z.string().refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, {
+    message: "Amount must be a positive number",
+  }),
+  // GST related fields
+  baseAmount: z.string().optional(),
+  gstRate: z.string().optional(),
+  gstAmount: z.string().optional(),
+  hsn: z.string().optional(),
+  invoiceNumber: z.string().optional(),
+  placeOfSupply: z.string(),
+  garmentType: z.enum(garmentTypes),
+  measurementUnit: z.enum(measurementUnits),
+  measurements: z.record(z.string()),
+  // The saved profile the measurements were copied from, if any
+  profileId: z.string().optional(),
+  fabricDetails: z.string().optional(),
+  specialInstructions: z.string().optional(),
+});
+
+type OrderFormProps = {
+  onSubmit: (data: InsertOrder) => void;
+  order?: Order | null;
+  customers: Customer[];
+  productionUnits: ProductionUnit[];
+  isLoading?: boolean;
+  // Number of the issued tax invoice, which locks what was billed
+  invoiceNumber?: string;
+  onCancel: () => void;
+};
+
+export function OrderForm({
+  onSubmit,
+  order,
+  customers,
+  productionUnits,
+  isLoading = false,
+  invoiceNumber,
+  onCancel,
+}: OrderFormProps) {
+  const isInvoiced = !!invoiceNumber;
+  // Format the date to YYYY-MM-DD for the date input
+  const formatDateForInput = (dateString: string | Date | null | undefined) => {
+    if (!dateString) return "";
+    return format(new Date(dateString), "yyyy-MM-dd");
+  };
+
+  const orderMeasurements = parseOrderMeasurements(order?.measurements);
+
+  // Initialize form with default values or editing values
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      customerId: order?.customerId.toString() || "",
+      productionUnitId: order?.productionUnitId.toString() || "",
+      orderNumber: order?.orderNumber || "",
+      orderDate: formatDateForInput(order?.orderDate) || format(new Date(), "yyyy-MM-dd"),
+      deliveryDate: formatDateForInput(order?.deliveryDate),
+      status: (order?.status as OrderStatus) || "pending",
+      category: order?.category || "",
+      description: order?.description || "",
+      totalAmount: order?.totalAmount.toString() || "",
+      baseAmount: order?.baseAmount?.toString() || "",
+      gstRate: order?.gstRate?.toString() || "",
+      gstAmount: order?.gstAmount?.toString() || "",
+      hsn: order?.hsn || "",
+      invoiceNumber: order?.invoiceNumber || "",
+      placeOfSupply: order?.placeOfSupply || AUTO_PLACE_OF_SUPPLY,
+      garmentType: orderMeasurements?.garmentType || "shirt",
+      measurementUnit: orderMeasurements?.unit || "in",
+      measurements: Object.fromEntries(
+        Object.entries(orderMeasurements?.values || {}).map(([key, value]) => [key, String(value)])
+      ),
+      profileId: orderMeasurements?.profileId?.toString() || "",
+      fabricDetails: order?.fabricDetails || "",
+      specialInstructions: order?.specialInstructions || "",
+    },
+  });
+
+  // GST rate and HSN/SAC code of the chosen category on the order date, from the tax master
+  const taxMaster = useTaxMaster("revenue");
+  const category = form.watch("category");
+  const categoryTax = taxMaster.getCategoryTax(category, form.watch("orderDate"));
+
+  // Auto-calculate GST when amount, category or order date changes
+  useEffect(() => {
+    const amount = form.watch("totalAmount");
+
+    if (amount && category && !taxMaster.isLoading) {
+      const totalAmount = parseFloat(amount);
+      if (!isNaN(totalAmount) && totalAmount > 0) {
+        const { gstRate, hsn } = categoryTax;
+
+        // Calculate GST amount and base amount
+        const gstAmount = calculateGSTFromTotal(totalAmount, gstRate);
+        const baseAmount = calculateBaseFromTotal(totalAmount, gstRate);
+
+        // Update form fields
+        form.setValue("gstRate", gstRate.toString());
+        form.setValue("gstAmount", gstAmount.toString());
+        form.setValue("baseAmount", baseAmount.toString());
+        form.setValue("hsn", hsn || "");
+      }
+    }
+  }, [form.watch("totalAmount"), category, categoryTax.gstRate, categoryTax.hsn, taxMaster.isLoading]);
+
+  // Saved measurements of the selected customer, newest first
+  const customerId = form.watch("customerId");
+  const { data: profiles } = useQuery<MeasurementProfile[]>({
+    queryKey: [`/api/customers/${customerId}/measurements`],
+    enabled: !!customerId,
+  });
+  const savedProfiles = [...(profiles || [])].sort(
+    (a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime() || b.version - a.version
+  );
+
+  const garmentType = form.watch("garmentType");
+  const profileId = form.watch("profileId");
+  const selectedProfile = profiles?.find((profile) => profile.id.toString() === profileId);
+  // The visit before the copied profile, to show what changed since
+  const previousProfile = selectedProfile
+    ? profiles
+        ?.filter(
+          (profile) =>
+            profile.garmentType === selectedProfile.garmentType &&
+            profile.version < selectedProfile.version
+        )
+        .sort((a, b) => b.version - a.version)[0]
+    : undefined;
+
+  // Copies a saved profile's garment, unit and values into the order
+  const handleProfileSelect = (value: string) => {
+    const profile = profiles?.find((p) => p.id.toString() === value);
+    if (!profile) return;
+
+    form.setValue("profileId", value);
+    form.setValue("garmentType", profile.garmentType as GarmentType);
+    form.setValue("measurementUnit", profile.unit === "cm" ? "cm" : "in");
+    form.setValue(
+      "measurements",
+      Object.fromEntries(
+        Object.entries(parseProfileMeasurements(profile.measurements)).map(([key, v]) => [key, String(v)])
+      )
+    );
+  };
+
+  // A different garment is measured differently, so start over
+  const handleGarmentChange = (value: GarmentType) => {
+    form.setValue("garmentType", value);
+    form.setValue("measurements", {});
+    form.setValue("profileId", "");
+  };
+
+  // New orders start as pending or in progress; existing ones only move along the workflow
+  const currentStatus = order?.status as OrderStatus | undefined;
+  const statusOptions: OrderStatus[] = currentStatus
+    ? [currentStatus, ...(ORDER_STATUS_TRANSITIONS[currentStatus] || [])]
+    : orderStatuses.filter(canCreateOrderWithStatus);
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    // Only keep the garment's measurements that were filled in
+    const fieldKeys = GARMENT_MEASUREMENT_FIELDS[data.garmentType].map((field) => field.key);
+    const values = Object.fromEntries(
+      Object.entries(data.measurements)
+        .filter(([key, value]) => fieldKeys.includes(key) && value.trim() !== "" && !isNaN(parseFloat(value)))
+        .map(([key, value]) => [key, parseFloat(value)])
+    );
+    const profile = profiles?.find((p) => p.id.toString() === data.profileId);
+    const measurements: OrderMeasurements = {
+      garmentType: data.garmentType,
+      unit: data.measurementUnit,
+      values,
+      profileId: profile?.id,
+      profileVersion: profile?.version,
+    };
+
+    onSubmit({
+      customerId: parseInt(data.customerId),
+      productionUnitId: parseInt(data.productionUnitId),
+      orderNumber: data.orderNumber || undefined,
+      orderDate: new Date(data.orderDate),
+      deliveryDate: data.deliveryDate ? new Date(data.deliveryDate) : null,
+      status: data.status,
+      category: data.category,
+      description: data.description || null,
+      totalAmount: data.totalAmount,
+      baseAmount: data.baseAmount || null,
+      gstRate: data.gstRate || null,
+      gstAmount: data.gstAmount || null,
+      hsn: data.hsn || null,
+      invoiceNumber: data.invoiceNumber || null,
+      placeOfSupply: data.placeOfSupply === AUTO_PLACE_OF_SUPPLY ? null : data.placeOfSupply,
+      currency: "INR",
+      measurements: Object.keys(values).length > 0 ? JSON.stringify(measurements) : null,
+      fabricDetails: data.fabricDetails || null,
+      specialInstructions: data.specialInstructions || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {isInvoiced && (
+          <p className="text-sm text-secondary-500">
+            Invoiced as {invoiceNumber}; cancel the invoice to change the customer, unit, category or amount.
+          </p>
+        )}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="customerId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Customer</FormLabel>
+                <Select
+                  onValueChange={(value) => {
+                    field.onChange(value);
+                    // A different customer may be in a different state
+                    form.setValue("placeOfSupply", AUTO_PLACE_OF_SUPPLY);
+                  }}
+                  value={field.value}
+                  disabled={isInvoiced}
+                >
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select customer" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {customers.map((customer) => (
+                      <SelectItem key={customer.id} value={customer.id.toString()}>
+                        {customer.name}
+                        {customer.phone ? ` (${customer.phone})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="productionUnitId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Production Unit</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isInvoiced}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select production unit" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {productionUnits.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="orderNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Order Number</FormLabel>
+                <FormControl>
+                  <Input placeholder="Auto-generated" disabled={!!order} {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="status"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Status</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select status" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {statusOptions.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ORDER_STATUS_LABELS[status]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="orderDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Order Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="deliveryDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Delivery Date (Optional)</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="category"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Category</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value} disabled={isInvoiced}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select order category" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {/* A category no longer in the master stays selectable on the orders saved with it */}
+                    {field.value && !taxMaster.categories.some((category) => category.name === field.value) && (
+                      <SelectItem value={field.value}>{field.value}</SelectItem>
+                    )}
+                    {taxMaster.categories.map((category) => (
+                      <SelectItem key={category.id} value={category.name}>
+                        {category.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="description"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Description (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="2 kurtas and 1 sherwani" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="totalAmount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Total Amount (₹)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" placeholder="2500.00" {...field} disabled={isInvoiced} />
+                </FormControl>
+                <FormDescription>Including GST. Advances are recorded as payments once the order is saved.</FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        {/* GST Details Section */}
+        <div className="bg-slate-50 p-4 rounded-md border">
+          <h3 className="text-lg font-medium mb-3">GST Details</h3>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="baseAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Base Amount (Excl. GST)</FormLabel>
+                  <FormControl>
+                    <Input readOnly {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gstRate"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>GST Rate (%)</FormLabel>
+                  <FormControl>
+                    <Input readOnly {...field} disabled={isInvoiced} />
+                  </FormControl>
+                  {categoryTax.version && (
+                    <FormDescription>Rate change: {formatRateVersion(categoryTax.version)}</FormDescription>
+                  )}
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="gstAmount"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>GST Amount</FormLabel>
+                  <FormControl>
+                    <Input readOnly {...field} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="hsn"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>HSN Code</FormLabel>
+                  <FormControl>
+                    <Input readOnly={!!categoryTax.hsn} {...field} disabled={isInvoiced} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="invoiceNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Invoice Number</FormLabel>
+                  <FormControl>
+                    <Input placeholder="INV-001" {...field} disabled={isInvoiced} />
+                  </FormControl>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="placeOfSupply"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Place of Supply</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value} disabled={isInvoiced}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={AUTO_PLACE_OF_SUPPLY}>Customer's state, else the unit's state</SelectItem>
+                      {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                        <SelectItem key={stateCode} value={stateCode}>
+                          {formatStateCode(stateCode)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+          <p className="text-sm text-gray-500 mt-2">
+            GST amounts are automatically calculated based on the category and total amount.
+            IGST applies when the place of supply is outside the unit's state, CGST + SGST otherwise.
+          </p>
+        </div>
+
+        {/* Measurements Section */}
+        <div className="bg-slate-50 p-4 rounded-md border">
+          <h3 className="text-lg font-medium mb-3">Measurements</h3>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-4">
+            <FormItem>
+              <FormLabel>Copy From Saved</FormLabel>
+              <Select
+                onValueChange={handleProfileSelect}
+                value={profileId || ""}
+                disabled={savedProfiles.length === 0}
+              >
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue
+                      placeholder={
+                        !customerId
+                          ? "Select a customer first"
+                          : savedProfiles.length === 0
+                          ? "None saved for this customer"
+                          : "Select measurements"
+                      }
+                    />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {savedProfiles.map((profile) => (
+                    <SelectItem key={profile.id} value={profile.id.toString()}>
+                      {GARMENT_LABELS[profile.garmentType as GarmentType] || profile.garmentType} v
+                      {profile.version} · {format(new Date(profile.takenAt), "MMM d, yyyy")}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </FormItem>
+
+            <FormField
+              control={form.control}
+              name="garmentType"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Garment</FormLabel>
+                  <Select
+                    onValueChange={(value) => handleGarmentChange(value as GarmentType)}
+                    value={field.value}
+                  >
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {garmentTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {GARMENT_LABELS[type]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="measurementUnit"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Unit</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      {measurementUnits.map((unit) => (
+                        <SelectItem key={unit} value={unit}>
+                          {MEASUREMENT_UNIT_LABELS[unit]}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </FormItem>
+              )}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {GARMENT_MEASUREMENT_FIELDS[garmentType].map((measurement) => (
+              <FormField
+                key={`${garmentType}.${measurement.key}`}
+                control={form.control}
+                name={`measurements.${measurement.key}`}
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{measurement.label}</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.25" min="0" {...field} value={field.value || ""} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            ))}
+          </div>
+
+          {selectedProfile && (
+            <div className="mt-3">
+              <p className="text-sm text-gray-500 mb-1">
+                Copied from version {selectedProfile.version}
+                {previousProfile ? `; changes since version ${previousProfile.version}:` : "."}
+              </p>
+              {previousProfile && (
+                <MeasurementChanges
+                  changes={diffMeasurements(
+                    selectedProfile.garmentType as GarmentType,
+                    parseProfileMeasurements(previousProfile.measurements),
+                    parseProfileMeasurements(selectedProfile.measurements)
+                  )}
+                  unit={selectedProfile.unit}
+                />
+              )}
+            </div>
+          )}
+        </div>
+
+        <FormField
+          control={form.control}
+          name="fabricDetails"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Fabric Details (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Fabric type, colour and who supplies it" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="specialInstructions"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Special Instructions (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Collar style, lining, embroidery and so on" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? "Saving..."
+              : order
+              ? "Update Order"
+              : "Create Order"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
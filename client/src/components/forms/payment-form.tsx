@@ -0,0 +1,173 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { InsertPayment, PaymentMethod, paymentMethods } from "@shared/schema";
+
+export const PAYMENT_METHOD_LABELS: Record<PaymentMethod, string> = {
+  cash: "Cash",
+  upi: "UPI",
+  card: "Card",
+  bank: "Bank Transfer",
+};
+
+export type PaymentFormData = Omit<InsertPayment, "orderId">;
+
+type PaymentFormProps = {
+  onSubmit: (data: PaymentFormData) => void;
+  // What is still due on the order; a payment can't be more than this
+  amountDue: number;
+  isLoading?: boolean;
+};
+
+export function PaymentForm({ onSubmit, amountDue, isLoading = false }: PaymentFormProps) {
+  const formSchema = z.object({
+    amount: z
+      .string()
+      .refine((val) => !isNaN(parseFloat(val)) && parseFloat(val) > 0, {
+        message: "Amount must be a positive number",
+      })
+      .refine((val) => parseFloat(val) <= amountDue, {
+        message: "Amount can't be more than what is due",
+      }),
+    paymentDate: z.string().refine((val) => !isNaN(Date.parse(val)), {
+      message: "Please enter a valid date",
+    }),
+    method: z.enum(paymentMethods),
+    reference: z.string().optional(),
+    notes: z.string().optional(),
+  });
+
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      amount: amountDue > 0 ? amountDue.toFixed(2) : "",
+      paymentDate: format(new Date(), "yyyy-MM-dd"),
+      method: "cash",
+      reference: "",
+      notes: "",
+    },
+  });
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    onSubmit({
+      amount: data.amount,
+      paymentDate: new Date(data.paymentDate),
+      method: data.method,
+      reference: data.reference || null,
+      notes: data.notes || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="amount"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Amount (₹)</FormLabel>
+                <FormControl>
+                  <Input type="number" step="0.01" min="0" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="paymentDate"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Date</FormLabel>
+                <FormControl>
+                  <Input type="date" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="method"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Method</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {paymentMethods.map((method) => (
+                      <SelectItem key={method} value={method}>
+                        {PAYMENT_METHOD_LABELS[method]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="reference"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Reference (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="UPI or bank transaction ID" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Input placeholder="Advance at booking, balance on delivery..." {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end">
+          <Button type="submit" disabled={isLoading || amountDue <= 0}>
+            {isLoading ? "Saving..." : "Record Payment"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
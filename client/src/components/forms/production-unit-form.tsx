@@ -20,16 +20,35 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { ProductionUnit } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode, isValidGSTIN } from "@shared/gst-utils";
+
+// State left for the server to take from the GSTIN
+const STATE_FROM_GSTIN = "gstin";
 
 // Extend the schema for validation
 const formSchema = z.object({
   name: z.string().min(2, "Name must be at least 2 characters"),
   location: z.string().min(2, "Location must be at least 2 characters"),
   status: z.enum(["active", "maintenance", "inactive"]),
+  gstin: z
+    .string()
+    .optional()
+    .refine((value) => !value || isValidGSTIN(value.trim().toUpperCase()), {
+      message: "Enter a valid 15-character GSTIN",
+    }),
+  stateCode: z.string(),
 });
 
+export type ProductionUnitFormData = {
+  name: string;
+  location: string;
+  status: "active" | "maintenance" | "inactive";
+  gstin: string | null;
+  stateCode: string | null;
+};
+
 type ProductionUnitFormProps = {
-  onSubmit: (data: z.infer<typeof formSchema>) => void;
+  onSubmit: (data: ProductionUnitFormData) => void;
   unit?: ProductionUnit | null;
   isLoading?: boolean;
   onCancel: () => void;
@@ -48,11 +67,17 @@ export function ProductionUnitForm({
       name: unit?.name || "",
       location: unit?.location || "",
       status: (unit?.status as "active" | "maintenance" | "inactive") || "active",
+      gstin: unit?.gstin || "",
+      stateCode: unit?.stateCode || STATE_FROM_GSTIN,
     },
   });
 
   const handleSubmit = (data: z.infer<typeof formSchema>) => {
-    onSubmit(data);
+    onSubmit({
+      ...data,
+      gstin: data.gstin ? data.gstin.trim().toUpperCase() : null,
+      stateCode: data.stateCode === STATE_FROM_GSTIN ? null : data.stateCode,
+    });
   };
 
   return (
@@ -121,6 +146,57 @@ export function ProductionUnitForm({
           )}
         />
 
+        <FormField
+          control={form.control}
+          name="gstin"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>GSTIN (Optional)</FormLabel>
+              <FormControl>
+                <Input
+                  placeholder="27AAPFU0939F1ZV"
+                  maxLength={15}
+                  className="uppercase"
+                  {...field}
+                />
+              </FormControl>
+              <FormDescription>
+                Printed as the seller's GSTIN on the unit's tax invoices.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="stateCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>State</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={STATE_FROM_GSTIN}>From GSTIN</SelectItem>
+                  {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                    <SelectItem key={stateCode} value={stateCode}>
+                      {formatStateCode(stateCode)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormDescription>
+                Decides between CGST + SGST and IGST. A GSTIN's state code takes precedence.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
         <div className="flex justify-end space-x-2 pt-4">
           <Button
             type="button"
@@ -0,0 +1,82 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { AuthUser } from "@/hooks/use-auth";
+
+const formSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+});
+
+type ProfileFormProps = {
+  onSubmit: (data: z.infer<typeof formSchema>) => void;
+  user: AuthUser;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function ProfileForm({
+  onSubmit,
+  user,
+  isLoading = false,
+  onCancel,
+}: ProfileFormProps) {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: user.name,
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+        <FormItem>
+          <FormLabel>Username</FormLabel>
+          <Input value={user.username} disabled />
+          <FormDescription>
+            Ask an administrator if your username or role needs to change.
+          </FormDescription>
+        </FormItem>
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full Name</FormLabel>
+              <FormControl>
+                <Input {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : "Save Profile"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
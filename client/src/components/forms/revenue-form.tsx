@@ -21,16 +21,7 @@ import {
 } from "@/components/ui/select";
 import { Revenue, ProductionUnit } from "@shared/schema";
 import { format } from "date-fns";
-
-// Revenue categories
-const REVENUE_CATEGORIES = [
-  "product_sales",
-  "service_fee",
-  "maintenance_contract",
-  "consulting",
-  "rental_income",
-  "other",
-];
+import { useTaxMaster } from "@/hooks/use-tax-master";
 
 // Extend the schema for validation
 const formSchema = z.object({
@@ -46,10 +37,12 @@ const formSchema = z.object({
 });
 
 type RevenueFormProps = {
-  onSubmit: (data: Omit<Revenue, "id">) => void;
+  onSubmit: (data: Omit<Revenue, "id" | "deletedAt">) => void;
   revenue?: Revenue | null;
   productionUnits: ProductionUnit[];
   isLoading?: boolean;
+  // Number of the issued tax invoice, which locks the amount and unit
+  invoiceNumber?: string;
   onCancel: () => void;
 };
 
@@ -58,6 +51,7 @@ export function RevenueForm({
   revenue,
   productionUnits,
   isLoading = false,
+  invoiceNumber,
   onCancel,
 }: RevenueFormProps) {
   // Format the date to YYYY-MM-DD for the date input
@@ -67,6 +61,9 @@ export function RevenueForm({
     return format(date, "yyyy-MM-dd");
   };
 
+  // Revenue categories come from the tax master
+  const taxMaster = useTaxMaster("revenue");
+
   // Initialize form with default values or editing values
   const form = useForm<z.infer<typeof formSchema>>({
     resolver: zodResolver(formSchema),
@@ -92,6 +89,12 @@ export function RevenueForm({
   return (
     <Form {...form}>
       <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        {invoiceNumber && (
+          <p className="text-sm text-secondary-500">
+            Invoiced as {invoiceNumber}; cancel the invoice to change the amount or production unit.
+          </p>
+        )}
+
         <FormField
           control={form.control}
           name="productionUnitId"
@@ -101,6 +104,7 @@ export function RevenueForm({
               <Select
                 onValueChange={field.onChange}
                 defaultValue={field.value}
+                disabled={!!invoiceNumber}
               >
                 <FormControl>
                   <SelectTrigger>
@@ -153,6 +157,7 @@ export function RevenueForm({
                   min="0"
                   placeholder="1000.00"
                   {...field}
+                  disabled={!!invoiceNumber}
                 />
               </FormControl>
               <FormDescription>
@@ -196,9 +201,13 @@ export function RevenueForm({
                   </SelectTrigger>
                 </FormControl>
                 <SelectContent>
-                  {REVENUE_CATEGORIES.map((category) => (
-                    <SelectItem key={category} value={category}>
-                      {category.split("_").map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(" ")}
+                  {/* A category no longer in the master stays selectable on the records saved with it */}
+                  {field.value && !taxMaster.categories.some((category) => category.name === field.value) && (
+                    <SelectItem value={field.value}>{field.value}</SelectItem>
+                  )}
+                  {taxMaster.categories.map((category) => (
+                    <SelectItem key={category.id} value={category.name}>
+                      {category.name}
                     </SelectItem>
                   ))}
                 </SelectContent>
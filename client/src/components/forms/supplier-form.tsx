@@ -0,0 +1,278 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Supplier } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode, isValidGSTIN } from "@shared/gst-utils";
+
+// State left for the server to take from the GSTIN
+const STATE_FROM_GSTIN = "gstin";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  gstin: z
+    .string()
+    .optional()
+    .refine((value) => !value || isValidGSTIN(value.trim().toUpperCase()), {
+      message: "Enter a valid 15-character GSTIN",
+    }),
+  stateCode: z.string(),
+  contactPerson: z.string().optional(),
+  phone: z.string().optional(),
+  email: z.string().email("Enter a valid email address").or(z.literal("")).optional(),
+  address: z.string().optional(),
+  paymentTermsDays: z.string().refine((val) => /^\d+$/.test(val), {
+    message: "Enter a whole number of days",
+  }),
+  notes: z.string().optional(),
+});
+
+export type SupplierFormData = {
+  name: string;
+  gstin: string | null;
+  stateCode: string | null;
+  contactPerson: string | null;
+  phone: string | null;
+  email: string | null;
+  address: string | null;
+  paymentTermsDays: number;
+  notes: string | null;
+};
+
+type SupplierFormProps = {
+  onSubmit: (data: SupplierFormData) => void;
+  supplier?: Supplier | null;
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function SupplierForm({
+  onSubmit,
+  supplier,
+  isLoading = false,
+  onCancel,
+}: SupplierFormProps) {
+  // Initialize form with default values or editing values
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: supplier?.name || "",
+      gstin: supplier?.gstin || "",
+      stateCode: supplier?.stateCode || STATE_FROM_GSTIN,
+      contactPerson: supplier?.contactPerson || "",
+      phone: supplier?.phone || "",
+      email: supplier?.email || "",
+      address: supplier?.address || "",
+      paymentTermsDays: (supplier?.paymentTermsDays ?? 0).toString(),
+      notes: supplier?.notes || "",
+    },
+  });
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    // Blank optional fields are stored as null
+    onSubmit({
+      name: data.name,
+      gstin: data.gstin ? data.gstin.trim().toUpperCase() : null,
+      stateCode: data.stateCode === STATE_FROM_GSTIN ? null : data.stateCode,
+      contactPerson: data.contactPerson || null,
+      phone: data.phone || null,
+      email: data.email || null,
+      address: data.address || null,
+      paymentTermsDays: parseInt(data.paymentTermsDays),
+      notes: data.notes || null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Sharma Textiles" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="gstin"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>GSTIN (Optional)</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="27AAPFU0939F1ZV"
+                    maxLength={15}
+                    className="uppercase"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="stateCode"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>State</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    <SelectItem value={STATE_FROM_GSTIN}>From GSTIN, else the unit's state</SelectItem>
+                    {Object.keys(GST_STATE_CODES).map((stateCode) => (
+                      <SelectItem key={stateCode} value={stateCode}>
+                        {formatStateCode(stateCode)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="contactPerson"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Contact Person (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="Rakesh Sharma" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="phone"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Phone (Optional)</FormLabel>
+                <FormControl>
+                  <Input placeholder="98765 43210" {...field} />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email (Optional)</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="accounts@sharmatextiles.in" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="address"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Address (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Street, city and PIN code" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="paymentTermsDays"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Payment Terms (Days)</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" step="1" {...field} />
+              </FormControl>
+              <FormDescription>
+                Days after the bill date that payment is due. Use 0 for immediate payment.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="notes"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Notes (Optional)</FormLabel>
+              <FormControl>
+                <Textarea placeholder="Bank details, what they supply and so on" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? "Saving..."
+              : supplier
+              ? "Update Supplier"
+              : "Add Supplier"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
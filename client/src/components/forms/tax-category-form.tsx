@@ -0,0 +1,214 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { format } from "date-fns";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { HsnCode, TaxCategory, TaxCategoryKind } from "@shared/schema";
+
+// Category billed without an HSN/SAC code
+const NO_CODE = "none";
+
+// Extend the schema for validation
+const formSchema = z.object({
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  hsnCode: z.string(),
+  gstRate: z.string().refine((val) => val === "" || (!isNaN(parseFloat(val)) && parseFloat(val) >= 0 && parseFloat(val) <= 100), {
+    message: "Enter a rate between 0 and 100",
+  }),
+  effectiveFrom: z.string().refine((val) => !isNaN(Date.parse(val)), {
+    message: "Please enter a valid date",
+  }),
+  notification: z.string(),
+}).refine((data) => data.hsnCode !== NO_CODE || data.gstRate !== "", {
+  message: "Enter a rate for a category without an HSN/SAC code",
+  path: ["gstRate"],
+});
+
+export type TaxCategoryFormData = {
+  kind: TaxCategoryKind;
+  name: string;
+  hsnCode: string | null;
+  gstRate: number | null;
+  // When an edited rate takes effect; it is saved as a rate change rather than in place
+  effectiveFrom?: Date;
+  notification?: string | null;
+};
+
+type TaxCategoryFormProps = {
+  onSubmit: (data: TaxCategoryFormData) => void;
+  kind: TaxCategoryKind;
+  category?: TaxCategory | null;
+  hsnCodes: HsnCode[];
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function TaxCategoryForm({
+  onSubmit,
+  kind,
+  category,
+  hsnCodes,
+  isLoading = false,
+  onCancel,
+}: TaxCategoryFormProps) {
+  // Initialize form with default values or editing values
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(formSchema),
+    defaultValues: {
+      name: category?.name || "",
+      hsnCode: category?.hsnCode || NO_CODE,
+      gstRate: category?.gstRate || "",
+      effectiveFrom: format(new Date(), "yyyy-MM-dd"),
+      notification: "",
+    },
+  });
+
+  const gstRate = form.watch("gstRate");
+  const rateChanged = !!category && gstRate !== "" && (category.gstRate === null || parseFloat(gstRate) !== parseFloat(category.gstRate));
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    // A blank rate means the category takes its code's rate
+    onSubmit({
+      kind,
+      name: data.name,
+      hsnCode: data.hsnCode === NO_CODE ? null : data.hsnCode,
+      gstRate: data.gstRate === "" ? null : parseFloat(data.gstRate),
+      ...(rateChanged && {
+        effectiveFrom: new Date(data.effectiveFrom),
+        notification: data.notification.trim() || null,
+      }),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Name</FormLabel>
+              <FormControl>
+                <Input placeholder={kind === "expense" ? "Fabric" : "Custom Tailoring"} {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="hsnCode"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>HSN/SAC Code</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  <SelectItem value={NO_CODE}>No code</SelectItem>
+                  {hsnCodes.map((hsnCode) => (
+                    <SelectItem key={hsnCode.id} value={hsnCode.code}>
+                      {hsnCode.code} - {hsnCode.description} ({hsnCode.gstRate}%)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="gstRate"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>GST Rate (%)</FormLabel>
+              <FormControl>
+                <Input type="number" min="0" max="100" step="0.01" {...field} />
+              </FormControl>
+              <FormDescription>
+                Leave blank to charge the code's rate. Set it for categories outside the code's rate, such as 0 for
+                salaries or zero-rated exports.
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {rateChanged && (
+          <div className="grid grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="effectiveFrom"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>New Rate Effective From</FormLabel>
+                  <FormControl>
+                    <Input type="date" {...field} />
+                  </FormControl>
+                  <FormDescription>Entries dated earlier keep the current rate.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="notification"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Notification</FormLabel>
+                  <FormControl>
+                    <Input placeholder="09/2025-Central Tax (Rate)" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading
+              ? "Saving..."
+              : category
+              ? "Update Category"
+              : "Add Category"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -0,0 +1,224 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ProductionUnit } from "@shared/schema";
+import { isUserRole, UserRole, userRoles, USER_ROLE_LABELS } from "@shared/permissions";
+import { AuthUser } from "@/hooks/use-auth";
+
+const formSchema = z
+  .object({
+    username: z.string().min(3, "Username must be at least 3 characters"),
+    name: z.string().min(2, "Name must be at least 2 characters"),
+    // Left blank when editing to keep the current password
+    password: z.string().min(8, "Password must be at least 8 characters").or(z.literal("")),
+    role: z.enum(userRoles),
+    productionUnitId: z.string().optional(),
+  })
+  .refine((data) => data.role !== "unit_supervisor" || !!data.productionUnitId, {
+    message: "A unit supervisor must be assigned a production unit",
+    path: ["productionUnitId"],
+  });
+
+export type UserFormData = {
+  username: string;
+  name: string;
+  password?: string;
+  role: UserRole;
+  productionUnitId: number | null;
+};
+
+type UserFormProps = {
+  onSubmit: (data: UserFormData) => void;
+  user?: AuthUser | null;
+  productionUnits: ProductionUnit[];
+  isLoading?: boolean;
+  onCancel: () => void;
+};
+
+export function UserForm({
+  onSubmit,
+  user,
+  productionUnits,
+  isLoading = false,
+  onCancel,
+}: UserFormProps) {
+  const form = useForm<z.infer<typeof formSchema>>({
+    resolver: zodResolver(
+      // New users need a starting password
+      user
+        ? formSchema
+        : formSchema.refine((data) => data.password !== "", {
+            message: "Password is required",
+            path: ["password"],
+          })
+    ),
+    defaultValues: {
+      username: user?.username || "",
+      name: user?.name || "",
+      password: "",
+      role: user && isUserRole(user.role) ? user.role : "data_entry_clerk",
+      productionUnitId: user?.productionUnitId?.toString() || "",
+    },
+  });
+
+  const role = form.watch("role");
+
+  const handleSubmit = (data: z.infer<typeof formSchema>) => {
+    onSubmit({
+      username: data.username,
+      name: data.name,
+      password: data.password || undefined,
+      role: data.role,
+      // Only unit supervisors are limited to a unit
+      productionUnitId:
+        data.role === "unit_supervisor" && data.productionUnitId
+          ? parseInt(data.productionUnitId)
+          : null,
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="username"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Username</FormLabel>
+              <FormControl>
+                <Input placeholder="jsharma" autoComplete="off" disabled={!!user} {...field} />
+              </FormControl>
+              {user && (
+                <FormDescription>
+                  Usernames can't be changed because the audit log refers to them.
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="name"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Full Name</FormLabel>
+              <FormControl>
+                <Input placeholder="Jaya Sharma" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="password"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{user ? "New Password" : "Temporary Password"}</FormLabel>
+              <FormControl>
+                <Input type="password" autoComplete="new-password" {...field} />
+              </FormControl>
+              <FormDescription>
+                {user
+                  ? "Leave blank to keep the current password."
+                  : "Share this with the user; they can change it after signing in."}
+              </FormDescription>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <FormField
+          control={form.control}
+          name="role"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Role</FormLabel>
+              <Select onValueChange={field.onChange} defaultValue={field.value}>
+                <FormControl>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select role" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {userRoles.map((userRole) => (
+                    <SelectItem key={userRole} value={userRole}>
+                      {USER_ROLE_LABELS[userRole]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {role === "unit_supervisor" && (
+          <FormField
+            control={form.control}
+            name="productionUnitId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Production Unit</FormLabel>
+                <Select onValueChange={field.onChange} defaultValue={field.value}>
+                  <FormControl>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select production unit" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {productionUnits.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormDescription>
+                  The supervisor only sees records of this unit.
+                </FormDescription>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4">
+          <Button
+            type="button"
+            variant="outline"
+            onClick={onCancel}
+            disabled={isLoading}
+          >
+            Cancel
+          </Button>
+          <Button type="submit" disabled={isLoading}>
+            {isLoading ? "Saving..." : user ? "Update User" : "Invite User"}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -8,6 +8,17 @@ import {
 } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Download, FileSpreadsheet } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { PermissionResource } from "@shared/permissions";
+
+// Data types that can be exported, each needing export permission on its resource
+export const EXPORT_TYPES: { value: PermissionResource; label: string }[] = [
+  { value: "production_units", label: "Production Units" },
+  { value: "expenses", label: "Expenses" },
+  { value: "revenues", label: "Revenues" },
+  { value: "inventory", label: "Inventory" },
+  { value: "financial_summary", label: "Financial Summary" },
+];
 
 type FileDownloadProps = {
   onDownload: () => Promise<void>;
@@ -22,6 +33,8 @@ export function FileDownload({
   exportType,
   setExportType,
 }: FileDownloadProps) {
+  const { can } = usePermissions();
+
   const handleExportTypeChange = (value: string) => {
     setExportType(value);
   };
@@ -35,11 +48,11 @@ export function FileDownload({
             <SelectValue placeholder="Select data type" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="production_units">Production Units</SelectItem>
-            <SelectItem value="expenses">Expenses</SelectItem>
-            <SelectItem value="revenues">Revenues</SelectItem>
-            <SelectItem value="inventory">Inventory</SelectItem>
-            <SelectItem value="financial_summary">Financial Summary</SelectItem>
+            {EXPORT_TYPES.filter((type) => can(type.value, "export")).map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -10,6 +10,16 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Upload, FileSpreadsheet } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { PermissionResource } from "@shared/permissions";
+
+// Data types that can be imported, each needing create permission on its resource
+export const IMPORT_TYPES: { value: PermissionResource; label: string }[] = [
+  { value: "production_units", label: "Production Units" },
+  { value: "expenses", label: "Expenses" },
+  { value: "revenues", label: "Revenues" },
+  { value: "inventory", label: "Inventory" },
+];
 
 type FileUploadProps = {
   onUpload: (file: File) => Promise<void>;
@@ -25,6 +35,7 @@ export function FileUpload({
   setImportType,
 }: FileUploadProps) {
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const { can } = usePermissions();
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     const files = event.target.files;
@@ -55,10 +66,11 @@ export function FileUpload({
             <SelectValue placeholder="Select data type" />
           </SelectTrigger>
           <SelectContent>
-            <SelectItem value="production_units">Production Units</SelectItem>
-            <SelectItem value="expenses">Expenses</SelectItem>
-            <SelectItem value="revenues">Revenues</SelectItem>
-            <SelectItem value="inventory">Inventory</SelectItem>
+            {IMPORT_TYPES.filter((type) => can(type.value, "create")).map((type) => (
+              <SelectItem key={type.value} value={type.value}>
+                {type.label}
+              </SelectItem>
+            ))}
           </SelectContent>
         </Select>
       </div>
@@ -0,0 +1,76 @@
+import { useMutation } from "@tanstack/react-query";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { InvoiceBuyer, InvoiceForm, InvoiceFormData } from "@/components/forms/invoice-form";
+import { Invoice } from "@shared/schema";
+
+// What the invoice is raised against: an order, or revenue booked without one
+export type InvoiceSource = { orderId: number } | { revenueId: number };
+
+type IssueInvoiceDialogProps = {
+  source: InvoiceSource | null;
+  // Shown in the description, e.g. the order number
+  label?: string;
+  buyer?: InvoiceBuyer;
+  onClose: () => void;
+};
+
+export function IssueInvoiceDialog({ source, label, buyer, onClose }: IssueInvoiceDialogProps) {
+  const { toast } = useToast();
+
+  // Issuing stamps the invoice number on the order and its revenue
+  const issueMutation = useMutation({
+    mutationFn: async (data: InvoiceFormData) => {
+      const response = await apiRequest("POST", "/api/invoices", { ...data, ...source });
+      return response.json() as Promise<Invoice>;
+    },
+    onSuccess: (invoice) => {
+      toast({
+        title: "Success",
+        description: `Tax invoice ${invoice.invoiceNumber} issued`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenues"] });
+      onClose();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to issue invoice: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <Dialog open={source !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="sm:max-w-[560px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Issue Tax Invoice</DialogTitle>
+          <DialogDescription>
+            {label ? `Invoice ${label}. ` : ""}
+            The next number in the unit's series is assigned when you issue it and cannot be reused.
+          </DialogDescription>
+        </DialogHeader>
+        {source && (
+          <InvoiceForm
+            // Start over for each record so the buyer defaults are its own
+            key={JSON.stringify(source)}
+            onSubmit={(data) => issueMutation.mutate(data)}
+            buyer={buyer}
+            isLoading={issueMutation.isPending}
+            onCancel={onClose}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
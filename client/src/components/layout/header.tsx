@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { useLocation } from "wouter";
+import { Link, useLocation } from "wouter";
+import { format } from "date-fns";
 import { Menu, Search, Bell, HelpCircle, Sun, Moon } from "lucide-react";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
@@ -7,14 +8,24 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { useTheme } from "@/components/ui/theme-provider";
+import { useDueOrders } from "@/hooks/use-due-orders";
+import { usePermissions } from "@/hooks/use-permissions";
+import { UserMenu } from "./user-menu";
 
 export function Header() {
   const [location] = useLocation();
   const { theme, setTheme } = useTheme();
   const [search, setSearch] = useState("");
+  const { can } = usePermissions();
+
+  // The bell counts past-due orders that are still being worked on
+  const { data: dueOrders } = useDueOrders();
+  const overdueOrders = (dueOrders?.orders || []).filter((order) => order.isOverdue);
 
   const getPageTitle = () => {
     switch (location) {
@@ -26,19 +37,48 @@ export function Header() {
         return "Expenses";
       case "/revenue":
         return "Revenue";
+      case "/invoices":
+        return "Tax Invoices";
+      case "/tax-master":
+        return "Tax Master";
       case "/inventory":
         return "Inventory";
+      case "/customers":
+        return "Customers";
+      case "/suppliers":
+        return "Suppliers";
+      case "/orders":
+        return "Orders";
+      case "/receivables":
+        return "Receivables Aging";
+      case "/gst/gstr1":
+        return "GSTR-1";
+      case "/gst/gstr3b":
+        return "GSTR-3B";
+      case "/gst/gstr2b":
+        return "GSTR-2B Reconciliation";
+      case "/deliveries":
+        return "Delivery Calendar";
+      case "/stitching":
+        return "Stitching";
       case "/reports":
         return "Reports";
       case "/import-export":
         return "Import/Export";
+      case "/recycle-bin":
+        return "Recycle Bin";
+      case "/settings/users":
+        return "Users";
       default:
-        return "Dashboard";
+        if (location.startsWith("/stitching/")) return "Job Card";
+        if (location.startsWith("/invoices/")) return "Tax Invoice";
+        if (location.startsWith("/suppliers/")) return "Supplier Ledger";
+        return location.startsWith("/customers/") ? "Customer Ledger" : "Dashboard";
     }
   };
 
   return (
-    <header className="bg-white border-b border-secondary-200 shadow-sm">
+    <header className="bg-white border-b border-secondary-200 shadow-sm print:hidden">
       <div className="flex items-center justify-between h-16 px-4 lg:px-6">
         <div className="flex items-center">
           <Menu className="lg:hidden text-secondary-500 hover:text-secondary-700 mr-2" />
@@ -59,14 +99,54 @@ export function Header() {
             <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-secondary-400 h-4 w-4" />
           </div>
 
-          <Button
-            variant="ghost"
-            size="icon"
-            className="text-secondary-500 hover:text-secondary-700 relative"
-          >
-            <Bell className="h-5 w-5" />
-            <span className="absolute top-0 right-0 w-2 h-2 rounded-full bg-red-500"></span>
-          </Button>
+          {can("orders", "view") && (
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="text-secondary-500 hover:text-secondary-700 relative"
+                  title={`${overdueOrders.length} overdue orders`}
+                >
+                  <Bell className="h-5 w-5" />
+                  {overdueOrders.length > 0 && (
+                    <span className="absolute -top-0.5 -right-0.5 min-w-[1.125rem] h-[1.125rem] px-1 rounded-full bg-red-500 text-white text-[10px] font-semibold leading-[1.125rem] text-center">
+                      {overdueOrders.length > 9 ? "9+" : overdueOrders.length}
+                    </span>
+                  )}
+                </Button>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end" className="w-72">
+                <DropdownMenuLabel>Overdue Orders</DropdownMenuLabel>
+                <DropdownMenuSeparator />
+                {overdueOrders.length === 0 ? (
+                  <div className="px-2 py-3 text-sm text-secondary-500">Nothing is overdue</div>
+                ) : (
+                  overdueOrders.slice(0, 5).map((order) => (
+                    <DropdownMenuItem key={order.orderId} asChild>
+                      <Link href={`/stitching/${order.orderId}`}>
+                        <div className="text-sm cursor-pointer">
+                          <div className="font-medium">
+                            {order.orderNumber} · {order.customerName}
+                          </div>
+                          <div className="text-xs text-red-500">
+                            Due {format(new Date(order.deliveryDate), "MMM d")},{" "}
+                            {-order.daysUntilDue} {order.daysUntilDue === -1 ? "day" : "days"} late
+                          </div>
+                        </div>
+                      </Link>
+                    </DropdownMenuItem>
+                  ))
+                )}
+                <DropdownMenuSeparator />
+                <DropdownMenuItem asChild>
+                  <Link href="/deliveries">
+                    <span className="text-sm cursor-pointer">View delivery calendar</span>
+                  </Link>
+                </DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
+          )}
 
           <Button
             variant="ghost"
@@ -101,6 +181,8 @@ export function Header() {
               </DropdownMenuItem>
             </DropdownMenuContent>
           </DropdownMenu>
+
+          <UserMenu />
         </div>
       </div>
     </header>
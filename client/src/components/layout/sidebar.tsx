@@ -15,11 +15,22 @@ import {
   Wallet,
   LogOut,
   TrendingUp,
+  Trash2,
+  UserCog,
+  HandCoins,
+  CalendarDays,
+  Receipt,
+  Landmark,
+  Truck,
+  Percent,
 } from "lucide-react";
 import { UserProfile } from "./user-profile";
 import { Button } from "@/components/ui/button";
 import { cn } from "@/lib/utils";
 import { useMobile } from "@/hooks/use-mobile";
+import { usePermissions } from "@/hooks/use-permissions";
+import { IMPORT_TYPES } from "@/components/import-export/file-upload";
+import { EXPORT_TYPES } from "@/components/import-export/file-download";
 
 type NavItemProps = {
   href: string;
@@ -59,6 +70,19 @@ export function Sidebar() {
   const [location] = useLocation();
   const { isMobile } = useMobile();
   const [isOpen, setIsOpen] = useState(!isMobile);
+  const { can, isUnitScoped } = usePermissions();
+
+  // Links are only shown for pages the user's role can use
+  const canImportExport =
+    (!isUnitScoped && IMPORT_TYPES.some((type) => can(type.value, "create"))) ||
+    EXPORT_TYPES.some((type) => can(type.value, "export"));
+  const showReportsSection =
+    can("financial_summary", "view") ||
+    can("ar_aging", "view") ||
+    can("gst_returns", "view") ||
+    can("reports", "view") ||
+    canImportExport ||
+    can("recycle_bin", "view");
 
   const toggleSidebar = () => {
     setIsOpen(!isOpen);
@@ -74,7 +98,7 @@ export function Sidebar() {
     <>
       <div
         className={cn(
-          "fixed inset-y-0 left-0 z-30 w-64 bg-white border-r border-secondary-200 shadow-sm transition-transform duration-200 ease-in-out lg:translate-x-0 lg:static lg:h-screen",
+          "fixed inset-y-0 left-0 z-30 w-64 bg-white border-r border-secondary-200 shadow-sm transition-transform duration-200 ease-in-out lg:translate-x-0 lg:static lg:h-screen print:hidden",
           isOpen ? "translate-x-0" : "-translate-x-full"
         )}
       >
@@ -126,41 +150,71 @@ export function Sidebar() {
               </h3>
             </div>
             
-            <NavItem
-              href="/production-units"
-              icon={<Factory size={20} />}
-              isActive={location === "/production-units"}
-              onClick={closeSidebarOnMobile}
-            >
-              Production Units
-            </NavItem>
+            {can("production_units", "view") && (
+              <NavItem
+                href="/production-units"
+                icon={<Factory size={20} />}
+                isActive={location === "/production-units"}
+                onClick={closeSidebarOnMobile}
+              >
+                Production Units
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/customers"
-              icon={<Users size={20} />}
-              isActive={location === "/customers"}
-              onClick={closeSidebarOnMobile}
-            >
-              Customers
-            </NavItem>
+            {can("customers", "view") && (
+              <NavItem
+                href="/customers"
+                icon={<Users size={20} />}
+                isActive={location === "/customers" || location.startsWith("/customers/")}
+                onClick={closeSidebarOnMobile}
+              >
+                Customers
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/orders"
-              icon={<ClipboardList size={20} />}
-              isActive={location === "/orders"}
-              onClick={closeSidebarOnMobile}
-            >
-              Orders
-            </NavItem>
+            {can("suppliers", "view") && (
+              <NavItem
+                href="/suppliers"
+                icon={<Truck size={20} />}
+                isActive={location === "/suppliers" || location.startsWith("/suppliers/")}
+                onClick={closeSidebarOnMobile}
+              >
+                Suppliers
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/stitching"
-              icon={<Scissors size={20} />}
-              isActive={location === "/stitching"}
-              onClick={closeSidebarOnMobile}
-            >
-              Stitching
-            </NavItem>
+            {can("orders", "view") && (
+              <NavItem
+                href="/orders"
+                icon={<ClipboardList size={20} />}
+                isActive={location === "/orders"}
+                onClick={closeSidebarOnMobile}
+              >
+                Orders
+              </NavItem>
+            )}
+            
+            {can("orders", "view") && (
+              <NavItem
+                href="/stitching"
+                icon={<Scissors size={20} />}
+                isActive={location === "/stitching" || location.startsWith("/stitching/")}
+                onClick={closeSidebarOnMobile}
+              >
+                Stitching
+              </NavItem>
+            )}
+
+            {can("orders", "view") && (
+              <NavItem
+                href="/deliveries"
+                icon={<CalendarDays size={20} />}
+                isActive={location === "/deliveries"}
+                onClick={closeSidebarOnMobile}
+              >
+                Deliveries
+              </NavItem>
+            )}
 
             {/* Finance Section */}
             <div className="pt-4 pb-2">
@@ -169,84 +223,199 @@ export function Sidebar() {
               </h3>
             </div>
             
-            <NavItem
-              href="/expenses"
-              icon={<DollarSign size={20} />}
-              isActive={location === "/expenses"}
-              onClick={closeSidebarOnMobile}
-            >
-              Expenses
-            </NavItem>
+            {can("expenses", "view") && (
+              <NavItem
+                href="/expenses"
+                icon={<DollarSign size={20} />}
+                isActive={location === "/expenses"}
+                onClick={closeSidebarOnMobile}
+              >
+                Expenses
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/revenue"
-              icon={<LineChart size={20} />}
-              isActive={location === "/revenue"}
-              onClick={closeSidebarOnMobile}
-            >
-              Revenue
-            </NavItem>
+            {can("revenues", "view") && (
+              <NavItem
+                href="/revenue"
+                icon={<LineChart size={20} />}
+                isActive={location === "/revenue"}
+                onClick={closeSidebarOnMobile}
+              >
+                Revenue
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/salary"
-              icon={<Wallet size={20} />}
-              isActive={location === "/salary"}
-              onClick={closeSidebarOnMobile}
-            >
-              Salary
-            </NavItem>
+            {can("invoices", "view") && (
+              <NavItem
+                href="/invoices"
+                icon={<Receipt size={20} />}
+                isActive={location.startsWith("/invoices")}
+                onClick={closeSidebarOnMobile}
+              >
+                Invoices
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/inventory"
-              icon={<Archive size={20} />}
-              isActive={location === "/inventory"}
-              onClick={closeSidebarOnMobile}
-            >
-              Inventory
-            </NavItem>
+            {can("tax_master", "view") && (
+              <NavItem
+                href="/tax-master"
+                icon={<Percent size={20} />}
+                isActive={location === "/tax-master"}
+                onClick={closeSidebarOnMobile}
+              >
+                Tax Master
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/maintenance"
-              icon={<Wrench size={20} />}
-              isActive={location === "/maintenance"}
-              onClick={closeSidebarOnMobile}
-            >
-              Maintenance
-            </NavItem>
+            {can("salary_payments", "view") && (
+              <NavItem
+                href="/salary"
+                icon={<Wallet size={20} />}
+                isActive={location === "/salary"}
+                onClick={closeSidebarOnMobile}
+              >
+                Salary
+              </NavItem>
+            )}
+            
+            {can("inventory", "view") && (
+              <NavItem
+                href="/inventory"
+                icon={<Archive size={20} />}
+                isActive={location === "/inventory"}
+                onClick={closeSidebarOnMobile}
+              >
+                Inventory
+              </NavItem>
+            )}
+            
+            {can("maintenance_records", "view") && (
+              <NavItem
+                href="/maintenance"
+                icon={<Wrench size={20} />}
+                isActive={location === "/maintenance"}
+                onClick={closeSidebarOnMobile}
+              >
+                Maintenance
+              </NavItem>
+            )}
 
             {/* Reports Section */}
-            <div className="pt-4 pb-2">
-              <h3 className="px-3 text-xs font-semibold uppercase tracking-wider text-secondary-500">
-                Reports
-              </h3>
-            </div>
+            {showReportsSection && (
+              <div className="pt-4 pb-2">
+                <h3 className="px-3 text-xs font-semibold uppercase tracking-wider text-secondary-500">
+                  Reports
+                </h3>
+              </div>
+            )}
             
-            <NavItem
-              href="/profit-loss"
-              icon={<TrendingUp size={20} />}
-              isActive={location === "/profit-loss"}
-              onClick={closeSidebarOnMobile}
-            >
-              Profit & Loss
-            </NavItem>
+            {can("financial_summary", "view") && (
+              <NavItem
+                href="/profit-loss"
+                icon={<TrendingUp size={20} />}
+                isActive={location === "/profit-loss"}
+                onClick={closeSidebarOnMobile}
+              >
+                Profit & Loss
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/reports"
-              icon={<FileText size={20} />}
-              isActive={location === "/reports"}
-              onClick={closeSidebarOnMobile}
-            >
-              Reports
-            </NavItem>
+            {can("ar_aging", "view") && (
+              <NavItem
+                href="/receivables"
+                icon={<HandCoins size={20} />}
+                isActive={location === "/receivables"}
+                onClick={closeSidebarOnMobile}
+              >
+                Receivables
+              </NavItem>
+            )}
             
-            <NavItem
-              href="/import-export"
-              icon={<FileSpreadsheet size={20} />}
-              isActive={location === "/import-export"}
-              onClick={closeSidebarOnMobile}
-            >
-              Import/Export
-            </NavItem>
+            {can("gst_returns", "view") && (
+              <NavItem
+                href="/gst/gstr1"
+                icon={<Landmark size={20} />}
+                isActive={location === "/gst/gstr1"}
+                onClick={closeSidebarOnMobile}
+              >
+                GSTR-1
+              </NavItem>
+            )}
+            
+            {can("gst_returns", "view") && (
+              <NavItem
+                href="/gst/gstr3b"
+                icon={<Landmark size={20} />}
+                isActive={location === "/gst/gstr3b"}
+                onClick={closeSidebarOnMobile}
+              >
+                GSTR-3B
+              </NavItem>
+            )}
+            
+            {can("gst_returns", "view") && (
+              <NavItem
+                href="/gst/gstr2b"
+                icon={<Landmark size={20} />}
+                isActive={location === "/gst/gstr2b"}
+                onClick={closeSidebarOnMobile}
+              >
+                GSTR-2B
+              </NavItem>
+            )}
+            
+            {can("reports", "view") && (
+              <NavItem
+                href="/reports"
+                icon={<FileText size={20} />}
+                isActive={location === "/reports"}
+                onClick={closeSidebarOnMobile}
+              >
+                Reports
+              </NavItem>
+            )}
+            
+            {canImportExport && (
+              <NavItem
+                href="/import-export"
+                icon={<FileSpreadsheet size={20} />}
+                isActive={location === "/import-export"}
+                onClick={closeSidebarOnMobile}
+              >
+                Import/Export
+              </NavItem>
+            )}
+            
+            {can("recycle_bin", "view") && (
+              <NavItem
+                href="/recycle-bin"
+                icon={<Trash2 size={20} />}
+                isActive={location === "/recycle-bin"}
+                onClick={closeSidebarOnMobile}
+              >
+                Recycle Bin
+              </NavItem>
+            )}
+
+            {/* Settings Section */}
+            {can("users", "view") && (
+              <>
+                <div className="pt-4 pb-2">
+                  <h3 className="px-3 text-xs font-semibold uppercase tracking-wider text-secondary-500">
+                    Settings
+                  </h3>
+                </div>
+
+                <NavItem
+                  href="/settings/users"
+                  icon={<UserCog size={20} />}
+                  isActive={location === "/settings/users"}
+                  onClick={closeSidebarOnMobile}
+                >
+                  Users
+                </NavItem>
+              </>
+            )}
           </nav>
 
           <div className="p-4 border-t border-secondary-200">
@@ -0,0 +1,130 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { LogOut, UserCog, Users } from "lucide-react";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, AuthUser } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { ProfileForm } from "@/components/forms/profile-form";
+import { isUserRole, USER_ROLE_LABELS } from "@shared/permissions";
+
+// Avatar menu in the header with the signed-in user's own settings
+export function UserMenu() {
+  const { user, logoutMutation } = useAuth();
+  const { can } = usePermissions();
+  const [openProfileDialog, setOpenProfileDialog] = useState(false);
+  const { toast } = useToast();
+
+  // Profile mutation
+  const profileMutation = useMutation({
+    mutationFn: async (data: { name: string }) => {
+      const response = await apiRequest("PUT", "/api/user", data);
+      return response.json();
+    },
+    onSuccess: (updatedUser: AuthUser) => {
+      toast({
+        title: "Success",
+        description: "Profile updated successfully",
+      });
+      queryClient.setQueryData(["/api/user"], updatedUser);
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setOpenProfileDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update profile: ${error.message}`,
+      });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const initials = user.name
+    .split(" ")
+    .map((part) => part.charAt(0))
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" className="rounded-full" title="Account">
+            <Avatar className="h-8 w-8 bg-primary-200 text-primary-700">
+              <AvatarFallback>{initials}</AvatarFallback>
+            </Avatar>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel>
+            <p className="text-sm font-medium truncate">{user.name}</p>
+            <p className="text-xs font-normal text-secondary-500 truncate">
+              {isUserRole(user.role) ? USER_ROLE_LABELS[user.role] : user.role}
+            </p>
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={() => setOpenProfileDialog(true)}>
+            <UserCog className="mr-2 h-4 w-4" />
+            <span>Edit Profile</span>
+          </DropdownMenuItem>
+          {can("users", "view") && (
+            <DropdownMenuItem asChild>
+              <Link href="/settings/users">
+                <Users className="mr-2 h-4 w-4" />
+                <span>Manage Users</span>
+              </Link>
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onClick={() => logoutMutation.mutate()}
+            disabled={logoutMutation.isPending}
+          >
+            <LogOut className="mr-2 h-4 w-4" />
+            <span>Sign Out</span>
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={openProfileDialog} onOpenChange={setOpenProfileDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Edit Profile</DialogTitle>
+            <DialogDescription>
+              Update how your name appears across the app.
+            </DialogDescription>
+          </DialogHeader>
+          <ProfileForm
+            onSubmit={(data) => profileMutation.mutate(data)}
+            user={user}
+            isLoading={profileMutation.isPending}
+            onCancel={() => setOpenProfileDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
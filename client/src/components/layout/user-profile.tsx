@@ -1,41 +1,108 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
-import { LogOut } from "lucide-react";
+import { KeyRound, LogOut } from "lucide-react";
 import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { ChangePasswordForm } from "@/components/forms/change-password-form";
+import { isUserRole, USER_ROLE_LABELS } from "@shared/permissions";
 
 export function UserProfile() {
-  // In a real app, this would come from an authentication context
-  const user = {
-    name: "John Doe",
-    role: "Financial Manager",
-    initials: "JD",
-  };
+  const { user, logoutMutation } = useAuth();
+  const [openPasswordDialog, setOpenPasswordDialog] = useState(false);
+  const { toast } = useToast();
 
-  const handleLogout = () => {
-    // In a real app, this would handle the logout process
-    console.log("Logout");
-  };
+  // Change password mutation
+  const changePasswordMutation = useMutation({
+    mutationFn: async (data: { currentPassword: string; newPassword: string }) => {
+      await apiRequest("POST", "/api/user/password", data);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Password changed successfully",
+      });
+      setOpenPasswordDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to change password: ${error.message}`,
+      });
+    },
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const initials = user.name
+    .split(" ")
+    .map((part) => part.charAt(0))
+    .join("")
+    .slice(0, 2)
+    .toUpperCase();
 
   return (
     <div className="flex items-center">
       <div className="flex-shrink-0">
         <Avatar className="h-8 w-8 bg-primary-200 text-primary-700">
-          <AvatarFallback>{user.initials}</AvatarFallback>
+          <AvatarFallback>{initials}</AvatarFallback>
         </Avatar>
       </div>
-      <div className="ml-3">
-        <p className="text-sm font-medium text-secondary-800">{user.name}</p>
-        <p className="text-xs text-secondary-500">{user.role}</p>
+      <div className="ml-3 min-w-0">
+        <p className="text-sm font-medium text-secondary-800 truncate">{user.name}</p>
+        <p className="text-xs text-secondary-500 truncate">
+          {isUserRole(user.role) ? USER_ROLE_LABELS[user.role] : user.role}
+        </p>
       </div>
-      <div className="ml-auto">
+      <div className="ml-auto flex">
         <Button
           variant="ghost"
           size="icon"
-          onClick={handleLogout}
+          title="Change password"
+          onClick={() => setOpenPasswordDialog(true)}
+          className="text-secondary-500 hover:text-secondary-700"
+        >
+          <KeyRound className="h-4 w-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="icon"
+          title="Sign out"
+          onClick={() => logoutMutation.mutate()}
+          disabled={logoutMutation.isPending}
           className="text-secondary-500 hover:text-secondary-700"
         >
           <LogOut className="h-4 w-4" />
         </Button>
       </div>
+
+      <Dialog open={openPasswordDialog} onOpenChange={setOpenPasswordDialog}>
+        <DialogContent className="sm:max-w-[425px]">
+          <DialogHeader>
+            <DialogTitle>Change Password</DialogTitle>
+            <DialogDescription>
+              Enter your current password and choose a new one.
+            </DialogDescription>
+          </DialogHeader>
+          <ChangePasswordForm
+            onSubmit={(data) => changePasswordMutation.mutate(data)}
+            isLoading={changePasswordMutation.isPending}
+            onCancel={() => setOpenPasswordDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
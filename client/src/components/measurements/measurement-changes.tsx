@@ -0,0 +1,40 @@
+import { cn } from "@/lib/utils";
+import { MeasurementChange } from "@shared/measurements";
+
+type MeasurementChangesProps = {
+  changes: MeasurementChange[];
+  unit: string;
+};
+
+// Fields whose value moved between two visits, with the difference
+export function MeasurementChanges({ changes, unit }: MeasurementChangesProps) {
+  const changed = changes.filter((change) => change.previous !== change.current);
+
+  if (changed.length === 0) {
+    return <p className="text-xs text-secondary-500">No change from the previous visit.</p>;
+  }
+
+  return (
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 text-xs">
+      {changed.map((change) => (
+        <li key={change.key}>
+          <span className="text-secondary-500">{change.label}:</span>{" "}
+          <span className="font-mono">
+            {change.previous ?? "-"} → {change.current ?? "-"} {unit}
+          </span>
+          {change.change !== 0 && (
+            <span
+              className={cn(
+                "font-mono ml-1",
+                change.change > 0 ? "text-amber-600" : "text-blue-600"
+              )}
+            >
+              ({change.change > 0 ? "+" : ""}
+              {change.change})
+            </span>
+          )}
+        </li>
+      ))}
+    </ul>
+  );
+}
@@ -0,0 +1,221 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Plus, Trash } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  MeasurementProfileForm,
+  MeasurementProfileFormData,
+} from "@/components/forms/measurement-profile-form";
+import { MeasurementChanges } from "@/components/measurements/measurement-changes";
+import { MeasurementProfile } from "@shared/schema";
+import {
+  GARMENT_LABELS,
+  GARMENT_MEASUREMENT_FIELDS,
+  GarmentType,
+  diffMeasurements,
+  garmentTypes,
+  parseProfileMeasurements,
+} from "@shared/measurements";
+
+type MeasurementProfilesCardProps = {
+  customerId: number;
+};
+
+// A customer's measurements per garment, newest visit first, with what changed at each visit
+export function MeasurementProfilesCard({ customerId }: MeasurementProfilesCardProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [openDialog, setOpenDialog] = useState(false);
+  const [selectedGarment, setSelectedGarment] = useState<GarmentType | null>(null);
+  const profilesKey = `/api/customers/${customerId}/measurements`;
+
+  const { data: profiles, isLoading } = useQuery<MeasurementProfile[]>({
+    queryKey: [profilesKey],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: MeasurementProfileFormData) => {
+      const response = await apiRequest("POST", profilesKey, data);
+      return response.json();
+    },
+    onSuccess: (profile: MeasurementProfile) => {
+      toast({
+        title: "Success",
+        description: `Measurements saved as version ${profile.version}`,
+      });
+      queryClient.invalidateQueries({ queryKey: [profilesKey] });
+      setSelectedGarment(profile.garmentType as GarmentType);
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to save measurements: ${error.message}`,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/measurement-profiles/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Measurements deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: [profilesKey] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete measurements: ${error.message}`,
+      });
+    },
+  });
+
+  const handleDelete = (profile: MeasurementProfile) => {
+    if (window.confirm(`Are you sure you want to delete version ${profile.version}?`)) {
+      deleteMutation.mutate(profile.id);
+    }
+  };
+
+  // Garments measured so far, defaulting to the one measured most recently
+  const measuredGarments = garmentTypes.filter((type) =>
+    profiles?.some((profile) => profile.garmentType === type)
+  );
+  const latestGarment = profiles && profiles.length > 0
+    ? ([...profiles].sort((a, b) => new Date(b.takenAt).getTime() - new Date(a.takenAt).getTime())[0]
+        .garmentType as GarmentType)
+    : null;
+  const garment = selectedGarment && measuredGarments.includes(selectedGarment)
+    ? selectedGarment
+    : latestGarment;
+
+  // Newest first, each paired with the visit before it
+  const versions = (profiles || []).filter((profile) => profile.garmentType === garment);
+  const history = versions
+    .map((profile, index) => ({ profile, previous: versions[index - 1] }))
+    .reverse();
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between space-y-0">
+        <CardTitle className="text-base">Measurements</CardTitle>
+        {can("customers", "update") && (
+          <Button size="sm" onClick={() => setOpenDialog(true)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Record Measurements
+          </Button>
+        )}
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-32 w-full" />
+        ) : !garment ? (
+          <p className="text-sm text-secondary-500">No measurements recorded yet.</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-2">
+              {measuredGarments.map((type) => (
+                <Button
+                  key={type}
+                  size="sm"
+                  variant={type === garment ? "default" : "outline"}
+                  onClick={() => setSelectedGarment(type)}
+                >
+                  {GARMENT_LABELS[type]}
+                </Button>
+              ))}
+            </div>
+
+            <ul className="divide-y border rounded-md">
+              {history.map(({ profile, previous }) => {
+                const values = parseProfileMeasurements(profile.measurements);
+
+                return (
+                  <li key={profile.id} className="p-3 text-sm space-y-2">
+                    <div className="flex items-center justify-between">
+                      <div>
+                        <span className="font-medium">Version {profile.version}</span>
+                        <span className="text-secondary-500">
+                          {" "}· {format(new Date(profile.takenAt), "MMM d, yyyy")}
+                        </span>
+                      </div>
+                      {can("customers", "delete") && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => handleDelete(profile)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-x-4 gap-y-1">
+                      {GARMENT_MEASUREMENT_FIELDS[garment]
+                        .filter((field) => values[field.key] !== undefined)
+                        .map((field) => (
+                          <div key={field.key}>
+                            <span className="text-secondary-500">{field.label}:</span>{" "}
+                            <span className="font-mono">
+                              {values[field.key]} {profile.unit}
+                            </span>
+                          </div>
+                        ))}
+                    </div>
+                    {previous && (
+                      <MeasurementChanges
+                        changes={diffMeasurements(
+                          garment,
+                          parseProfileMeasurements(previous.measurements),
+                          values
+                        )}
+                        unit={profile.unit}
+                      />
+                    )}
+                    {profile.notes && <p className="text-xs text-secondary-500">{profile.notes}</p>}
+                  </li>
+                );
+              })}
+            </ul>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={openDialog} onOpenChange={setOpenDialog}>
+        <DialogContent className="sm:max-w-[600px]">
+          <DialogHeader>
+            <DialogTitle>Record Measurements</DialogTitle>
+            <DialogDescription>
+              Saved as the next version for the garment. Earlier versions are kept.
+            </DialogDescription>
+          </DialogHeader>
+          <MeasurementProfileForm
+            profiles={profiles || []}
+            initialGarmentType={garment || undefined}
+            onSubmit={(data) => createMutation.mutate(data)}
+            isLoading={createMutation.isPending}
+            onCancel={() => setOpenDialog(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
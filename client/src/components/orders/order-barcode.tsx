@@ -0,0 +1,32 @@
+import { encodeCode128 } from "@shared/barcode";
+
+type OrderBarcodeProps = {
+  orderNumber: string;
+  height?: number;
+  className?: string;
+};
+
+// Scannable Code 128 barcode of an order number, with the number printed below
+export function OrderBarcode({ orderNumber, height = 48, className }: OrderBarcodeProps) {
+  const { bars, width } = encodeCode128(orderNumber);
+
+  return (
+    <div className={className}>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        width={width * 1.5}
+        height={height}
+        preserveAspectRatio="none"
+        shapeRendering="crispEdges"
+        role="img"
+        aria-label={`Barcode for order ${orderNumber}`}
+      >
+        <rect x={0} y={0} width={width} height={height} fill="white" />
+        {bars.map((bar) => (
+          <rect key={bar.x} x={bar.x} y={0} width={bar.width} height={height} fill="black" />
+        ))}
+      </svg>
+      <div className="text-center font-mono text-sm font-semibold mt-1">{orderNumber}</div>
+    </div>
+  );
+}
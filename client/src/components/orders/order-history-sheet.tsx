@@ -0,0 +1,71 @@
+import { useQuery } from "@tanstack/react-query";
+import { Order, OrderStatusChange } from "@shared/schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format } from "date-fns";
+import { OrderStatusBadge } from "./order-status-badge";
+
+type OrderHistorySheetProps = {
+  order: Order | null;
+  onClose: () => void;
+};
+
+// Timeline of an order's status changes, with who made each one
+export function OrderHistorySheet({ order, onClose }: OrderHistorySheetProps) {
+  const { data: history, isLoading } = useQuery<OrderStatusChange[]>({
+    queryKey: [`/api/orders/${order?.id}/history`],
+    enabled: order !== null,
+    // Always show the latest timeline when the drawer opens
+    staleTime: 0,
+  });
+
+  return (
+    <Sheet open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Order {order?.orderNumber} Timeline</SheetTitle>
+          <SheetDescription>
+            Every status the order has moved through, oldest first.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !history || history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No status changes recorded for this order.</p>
+          ) : (
+            <ol className="relative border-l ml-2 space-y-6">
+              {history.map((change, index) => (
+                <li key={index} className="ml-4">
+                  <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border bg-white" />
+                  <div className="flex items-center gap-2 text-sm">
+                    {change.fromStatus ? (
+                      <>
+                        <OrderStatusBadge status={change.fromStatus} />
+                        <span>→</span>
+                      </>
+                    ) : (
+                      <span className="text-muted-foreground">Created as</span>
+                    )}
+                    <OrderStatusBadge status={change.toStatus} />
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    {format(new Date(change.changedAt), "MMM d, yyyy h:mm a")} by{" "}
+                    {change.changedBy || "System"}
+                  </p>
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,181 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Order, Payment, PaymentMethod } from "@shared/schema";
+import { isOrderLocked } from "@shared/order-status";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { formatIndianCurrency } from "@/lib/utils";
+import { Trash } from "lucide-react";
+import { format } from "date-fns";
+import {
+  PaymentForm,
+  PaymentFormData,
+  PAYMENT_METHOD_LABELS,
+} from "@/components/forms/payment-form";
+
+type OrderPaymentsSheetProps = {
+  order: Order | null;
+  onClose: () => void;
+};
+
+// Receipts against an order, with what is still due and a form to record the next one
+export function OrderPaymentsSheet({ order, onClose }: OrderPaymentsSheetProps) {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  // Bumped after each payment so the form starts over with the new amount due
+  const [formKey, setFormKey] = useState(0);
+  const paymentsKey = `/api/orders/${order?.id}/payments`;
+
+  const { data: payments, isLoading } = useQuery<Payment[]>({
+    queryKey: [paymentsKey],
+    enabled: order !== null,
+    staleTime: 0,
+  });
+
+  // Payments change the order's paid amount and the customer's ledger
+  const invalidatePaymentQueries = () => {
+    queryClient.invalidateQueries({ queryKey: [paymentsKey] });
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/customers/${order?.customerId}/ledger`] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: PaymentFormData) => {
+      const response = await apiRequest("POST", paymentsKey, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payment recorded successfully",
+      });
+      invalidatePaymentQueries();
+      setFormKey((key) => key + 1);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to record payment: ${error.message}`,
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/payments/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Payment moved to the recycle bin",
+      });
+      invalidatePaymentQueries();
+      setFormKey((key) => key + 1);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete payment: ${error.message}`,
+      });
+    },
+  });
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this payment?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const total = parseFloat((order?.totalAmount || 0).toString());
+  const paid = (payments || []).reduce((sum, payment) => sum + parseFloat(payment.amount), 0);
+  const due = Math.max(0, Math.round((total - paid) * 100) / 100);
+  const canRecord = !!order && can("payments", "create") && !isOrderLocked(order.status) && due > 0;
+
+  return (
+    <Sheet open={order !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>Order {order?.orderNumber} Payments</SheetTitle>
+          <SheetDescription>
+            Advances and other receipts recorded against the order.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          <div className="grid grid-cols-3 gap-2 text-sm mb-6">
+            <div>
+              <p className="text-secondary-500">Total</p>
+              <p className="font-mono font-medium">{formatIndianCurrency(total)}</p>
+            </div>
+            <div>
+              <p className="text-secondary-500">Paid</p>
+              <p className="font-mono font-medium text-green-600">{formatIndianCurrency(paid)}</p>
+            </div>
+            <div>
+              <p className="text-secondary-500">Due</p>
+              <p className="font-mono font-medium text-red-500">{formatIndianCurrency(due)}</p>
+            </div>
+          </div>
+
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !payments || payments.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payments recorded for this order.</p>
+          ) : (
+            <ul className="divide-y border rounded-md">
+              {payments.map((payment) => (
+                <li key={payment.id} className="flex items-center justify-between p-3 text-sm">
+                  <div>
+                    <div className="font-mono font-medium">{formatIndianCurrency(payment.amount)}</div>
+                    <div className="text-xs text-secondary-500 mt-1">
+                      {format(new Date(payment.paymentDate), "MMM d, yyyy")} ·{" "}
+                      {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                      {payment.reference && ` · ${payment.reference}`}
+                    </div>
+                    {payment.notes && (
+                      <div className="text-xs text-secondary-500">{payment.notes}</div>
+                    )}
+                  </div>
+                  {can("payments", "delete") && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleDelete(payment.id)}
+                      disabled={deleteMutation.isPending}
+                    >
+                      <Trash className="h-4 w-4" />
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {canRecord && !isLoading && (
+            <div className="border-t mt-6 pt-6">
+              <h3 className="text-sm font-medium mb-4">Record a Payment</h3>
+              <PaymentForm
+                key={formKey}
+                amountDue={due}
+                onSubmit={(data) => createMutation.mutate(data)}
+                isLoading={createMutation.isPending}
+              />
+            </div>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -0,0 +1,43 @@
+import { Badge } from "@/components/ui/badge";
+import { cn } from "@/lib/utils";
+import { OrderStatus } from "@shared/schema";
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pending",
+  "in-progress": "In Progress",
+  ready: "Ready",
+  delivered: "Delivered",
+  cancelled: "Cancelled",
+};
+
+// Get status color based on order status
+export const getOrderStatusColor = (status: string) => {
+  switch (status) {
+    case "pending":
+      return "bg-amber-100 text-amber-800";
+    case "in-progress":
+      return "bg-sky-100 text-sky-800";
+    case "ready":
+      return "bg-indigo-100 text-indigo-800";
+    case "delivered":
+      return "bg-green-100 text-green-800";
+    case "cancelled":
+      return "bg-red-100 text-red-800";
+    default:
+      return "bg-secondary-100 text-secondary-800";
+  }
+};
+
+export function OrderStatusBadge({ status }: { status: string }) {
+  return (
+    <Badge
+      variant="outline"
+      className={cn(
+        "text-xs font-medium px-2 py-0.5 rounded-full",
+        getOrderStatusColor(status)
+      )}
+    >
+      {ORDER_STATUS_LABELS[status as OrderStatus] || status}
+    </Badge>
+  );
+}
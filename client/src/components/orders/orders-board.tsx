@@ -0,0 +1,151 @@
+import { useState } from "react";
+import { format, isBefore, startOfDay } from "date-fns";
+import { CalendarDays } from "lucide-react";
+import { Customer, Order, OrderStatus, orderStatuses } from "@shared/schema";
+import { canTransitionOrder, isOrderLocked } from "@shared/order-status";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { ORDER_STATUS_LABELS, getOrderStatusColor } from "./order-status-badge";
+
+type OrdersBoardProps = {
+  orders: Order[];
+  customers: Customer[];
+  onOpen?: (order: Order) => void;
+  onStatusChange?: (order: Order, status: OrderStatus) => void;
+};
+
+// Kanban board with one column per order status; cards are dragged between columns
+// along the order workflow
+export function OrdersBoard({
+  orders,
+  customers,
+  onOpen,
+  onStatusChange,
+}: OrdersBoardProps) {
+  const [draggedOrder, setDraggedOrder] = useState<Order | null>(null);
+  const [dragOverStatus, setDragOverStatus] = useState<OrderStatus | null>(null);
+
+  // Get customer name by ID
+  const getCustomerName = (customerId: number) => {
+    const customer = customers.find((c) => c.id === customerId);
+    return customer?.name || "Unknown Customer";
+  };
+
+  // Cards can only be dropped on a status the workflow allows next
+  const canDropOn = (status: OrderStatus) =>
+    !!draggedOrder && canTransitionOrder(draggedOrder.status, status);
+
+  const handleDrop = (event: React.DragEvent, status: OrderStatus) => {
+    event.preventDefault();
+    setDragOverStatus(null);
+    if (draggedOrder && canDropOn(status)) {
+      onStatusChange?.(draggedOrder, status);
+    }
+    setDraggedOrder(null);
+  };
+
+  const today = startOfDay(new Date());
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+      {orderStatuses.map((status) => {
+        const columnOrders = orders.filter((order) => order.status === status);
+
+        return (
+          <div
+            key={status}
+            className={cn(
+              "rounded-md border bg-secondary-50 flex flex-col min-h-[200px]",
+              dragOverStatus === status && "ring-2 ring-primary-400",
+              draggedOrder && !canDropOn(status) && draggedOrder.status !== status && "opacity-50"
+            )}
+            onDragOver={(event) => {
+              if (!onStatusChange || !canDropOn(status)) return;
+              event.preventDefault();
+              setDragOverStatus(status);
+            }}
+            onDragLeave={() => setDragOverStatus(null)}
+            onDrop={(event) => handleDrop(event, status)}
+          >
+            <div className="flex items-center justify-between px-3 py-2 border-b">
+              <span
+                className={cn(
+                  "text-xs font-semibold px-2 py-0.5 rounded-full",
+                  getOrderStatusColor(status)
+                )}
+              >
+                {ORDER_STATUS_LABELS[status]}
+              </span>
+              <span className="text-xs text-secondary-500">{columnOrders.length}</span>
+            </div>
+
+            <div className="p-2 space-y-2 flex-1">
+              {columnOrders.map((order) => {
+                const isOverdue =
+                  !!order.deliveryDate &&
+                  status !== "delivered" &&
+                  status !== "cancelled" &&
+                  isBefore(new Date(order.deliveryDate), today);
+
+                return (
+                  <div
+                    key={order.id}
+                    draggable={!!onStatusChange && !isOrderLocked(order.status)}
+                    onDragStart={(event) => {
+                      event.dataTransfer.setData("text/plain", order.id.toString());
+                      setDraggedOrder(order);
+                    }}
+                    onDragEnd={() => {
+                      setDraggedOrder(null);
+                      setDragOverStatus(null);
+                    }}
+                    onClick={() => onOpen?.(order)}
+                    className={cn(
+                      "rounded-md border bg-white p-3 shadow-sm text-sm",
+                      onOpen && "cursor-pointer hover:shadow-md transition-shadow"
+                    )}
+                  >
+                    <div className="flex justify-between items-start">
+                      <span className="font-medium">{order.orderNumber}</span>
+                      <span className="font-mono text-xs">
+                        {formatIndianCurrency(order.totalAmount)}
+                      </span>
+                    </div>
+                    <div className="text-secondary-600 mt-1">
+                      {getCustomerName(order.customerId)}
+                    </div>
+                    {order.description && (
+                      <div className="text-xs text-secondary-500 mt-1 truncate">
+                        {order.description}
+                      </div>
+                    )}
+                    {status !== "cancelled" &&
+                      parseFloat(order.paidAmount || "0") < parseFloat(order.totalAmount) && (
+                        <div className="text-xs text-secondary-500 mt-1">
+                          Due{" "}
+                          {formatIndianCurrency(
+                            parseFloat(order.totalAmount) - parseFloat(order.paidAmount || "0")
+                          )}
+                        </div>
+                      )}
+                    {order.deliveryDate && (
+                      <div
+                        className={cn(
+                          "flex items-center text-xs mt-2",
+                          isOverdue ? "text-red-500 font-medium" : "text-secondary-500"
+                        )}
+                      >
+                        <CalendarDays className="h-3 w-3 mr-1" />
+                        {format(new Date(order.deliveryDate), "MMM d")}
+                        {isOverdue && " (overdue)"}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,122 @@
+import { useQuery } from "@tanstack/react-query";
+import { AuditEntity, AuditEntry } from "@shared/schema";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetHeader,
+  SheetTitle,
+} from "@/components/ui/sheet";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { format } from "date-fns";
+
+type AuditHistorySheetProps = {
+  entity: AuditEntity;
+  entityId: number | null;
+  title: string;
+  onClose: () => void;
+};
+
+type FieldChange = {
+  field: string;
+  from: unknown;
+  to: unknown;
+};
+
+// Fields that changed between two JSON snapshots of a record
+const getFieldChanges = (entry: AuditEntry): FieldChange[] => {
+  const previous = entry.previousValues ? JSON.parse(entry.previousValues) : {};
+  const current = entry.newValues ? JSON.parse(entry.newValues) : {};
+  const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(current)]));
+
+  return fields
+    .filter((field) => JSON.stringify(previous[field]) !== JSON.stringify(current[field]))
+    .map((field) => ({ field, from: previous[field], to: current[field] }));
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === "") return "—";
+  return String(value);
+};
+
+const getActionColor = (action: string) => {
+  switch (action) {
+    case "create":
+      return "bg-green-100 text-green-800";
+    case "update":
+      return "bg-blue-100 text-blue-800";
+    case "delete":
+      return "bg-red-100 text-red-800";
+    case "restore":
+      return "bg-amber-100 text-amber-800";
+    case "purge":
+      return "bg-red-200 text-red-900";
+    default:
+      return "bg-secondary-100 text-secondary-800";
+  }
+};
+
+export function AuditHistorySheet({
+  entity,
+  entityId,
+  title,
+  onClose,
+}: AuditHistorySheetProps) {
+  const { data: entries, isLoading } = useQuery<AuditEntry[]>({
+    queryKey: [`/api/audit?entity=${entity}&id=${entityId}`],
+    enabled: entityId !== null,
+    // Always show the latest history when the drawer opens
+    staleTime: 0,
+  });
+
+  return (
+    <Sheet open={entityId !== null} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="sm:max-w-lg">
+        <SheetHeader>
+          <SheetTitle>{title}</SheetTitle>
+          <SheetDescription>
+            Every change made to this record, newest first.
+          </SheetDescription>
+        </SheetHeader>
+        <ScrollArea className="h-[calc(100vh-8rem)] mt-4 pr-4">
+          {isLoading ? (
+            <Skeleton className="h-32 w-full" />
+          ) : !entries || entries.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No history recorded for this record.</p>
+          ) : (
+            <ol className="space-y-4">
+              {entries.map((entry) => (
+                <li key={entry.id} className="rounded-md border p-3">
+                  <div className="flex items-center justify-between">
+                    <Badge variant="outline" className={getActionColor(entry.action)}>
+                      {entry.action.charAt(0).toUpperCase() + entry.action.slice(1)}
+                    </Badge>
+                    <span className="text-xs text-muted-foreground">
+                      {format(new Date(entry.changedAt), "MMM d, yyyy h:mm a")}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground mt-1">
+                    By {entry.changedBy || "System"}
+                  </p>
+                  {entry.action === "update" && (
+                    <ul className="mt-2 space-y-1 text-sm">
+                      {getFieldChanges(entry).map((change) => (
+                        <li key={change.field}>
+                          <span className="font-medium">{change.field}</span>:{" "}
+                          <span className="text-red-600 line-through">{formatValue(change.from)}</span>{" "}
+                          → <span className="text-green-700">{formatValue(change.to)}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </li>
+              ))}
+            </ol>
+          )}
+        </ScrollArea>
+      </SheetContent>
+    </Sheet>
+  );
+}
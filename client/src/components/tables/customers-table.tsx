@@ -0,0 +1,103 @@
+import { Customer } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Edit, Eye, Trash } from "lucide-react";
+import { format } from "date-fns";
+
+type CustomersTableProps = {
+  customers: Customer[];
+  onView: (customer: Customer) => void;
+  onEdit?: (customer: Customer) => void;
+  onDelete?: (id: number) => void;
+};
+
+export function CustomersTable({
+  customers,
+  onView,
+  onEdit,
+  onDelete,
+}: CustomersTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Phone</TableHead>
+            <TableHead>Email</TableHead>
+            <TableHead>GSTIN</TableHead>
+            <TableHead>Customer Since</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {customers.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                No customers found
+              </TableCell>
+            </TableRow>
+          ) : (
+            customers.map((customer) => (
+              <TableRow key={customer.id}>
+                <TableCell className="font-medium">
+                  <div>
+                    <div>{customer.name}</div>
+                    {customer.address && (
+                      <div className="text-xs text-secondary-500 mt-1">
+                        {customer.address}
+                      </div>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{customer.phone || "-"}</TableCell>
+                <TableCell>{customer.email || "-"}</TableCell>
+                <TableCell className="font-mono">{customer.gstin || "-"}</TableCell>
+                <TableCell>
+                  {format(new Date(customer.createdAt), "MMM d, yyyy")}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="View ledger"
+                      onClick={() => onView(customer)}
+                    >
+                      <Eye className="h-4 w-4" />
+                    </Button>
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(customer)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(customer.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -9,14 +9,17 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash } from "lucide-react";
+import { Edit, History, Trash } from "lucide-react";
 import { format } from "date-fns";
+import { useState } from "react";
+import { AuditHistorySheet } from "./audit-history-sheet";
+import { usePermissions } from "@/hooks/use-permissions";
 
 type ExpensesTableProps = {
   expenses: Expense[];
   productionUnits: ProductionUnit[];
-  onEdit: (expense: Expense) => void;
-  onDelete: (id: number) => void;
+  onEdit?: (expense: Expense) => void;
+  onDelete?: (id: number) => void;
 };
 
 export function ExpensesTable({
@@ -25,6 +28,10 @@ export function ExpensesTable({
   onEdit,
   onDelete,
 }: ExpensesTableProps) {
+  // Record whose change history is open in the drawer
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const { can } = usePermissions();
+
   // Get production unit name by ID
   const getUnitName = (unitId: number) => {
     const unit = productionUnits.find((u) => u.id === unitId);
@@ -87,20 +94,34 @@ export function ExpensesTable({
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onEdit(expense)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onDelete(expense.id)}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
+                    {can("audit", "view") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="View history"
+                        onClick={() => setHistoryId(expense.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(expense)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(expense.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -108,6 +129,12 @@ export function ExpensesTable({
           )}
         </TableBody>
       </Table>
+      <AuditHistorySheet
+        entity="expenses"
+        entityId={historyId}
+        title="Expense History"
+        onClose={() => setHistoryId(null)}
+      />
     </div>
   );
 }
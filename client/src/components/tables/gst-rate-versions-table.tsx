@@ -0,0 +1,97 @@
+import { format } from "date-fns";
+import { GstRateVersion, TaxMaster } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Trash } from "lucide-react";
+
+type GstRateVersionsTableProps = {
+  master: TaxMaster;
+  onDelete?: (id: number) => void;
+};
+
+export function GstRateVersionsTable({
+  master,
+  onDelete,
+}: GstRateVersionsTableProps) {
+  const now = new Date();
+
+  // What the change applies to; a deleted category's changes stay for the records charged by them
+  const getTarget = (version: GstRateVersion) => {
+    if (version.hsnCode) {
+      const hsnCode = master.hsnCodes.find((code) => code.code === version.hsnCode);
+      return { label: version.hsnCode, detail: hsnCode?.description || "" };
+    }
+    const category = master.categories.find((category) => category.id === version.categoryId);
+    return category
+      ? { label: category.name, detail: `${category.kind === "expense" ? "Expense" : "Revenue"} category` }
+      : { label: "Deleted category", detail: "" };
+  };
+
+  // Newest first
+  const versions = [...master.rateVersions].reverse();
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Applies To</TableHead>
+            <TableHead className="text-right">GST Rate</TableHead>
+            <TableHead>Effective From</TableHead>
+            <TableHead>Notification</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {versions.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">
+                No rate changes recorded
+              </TableCell>
+            </TableRow>
+          ) : (
+            versions.map((version) => {
+              const target = getTarget(version);
+
+              return (
+                <TableRow key={version.id}>
+                  <TableCell>
+                    <div className={version.hsnCode ? "font-mono font-medium" : "font-medium"}>{target.label}</div>
+                    {target.detail && <div className="text-xs text-secondary-500">{target.detail}</div>}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">{parseFloat(version.gstRate)}%</TableCell>
+                  <TableCell>
+                    {format(new Date(version.effectiveFrom), "MMM d, yyyy")}
+                    {new Date(version.effectiveFrom) > now && (
+                      <Badge variant="outline" className="ml-2">Upcoming</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell>{version.notification || "-"}</TableCell>
+                  <TableCell className="text-right">
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(version.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
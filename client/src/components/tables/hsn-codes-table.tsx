@@ -0,0 +1,108 @@
+import { format } from "date-fns";
+import { GstRateVersion, HsnCode, TaxCategory } from "@shared/schema";
+import { findRateVersion } from "@shared/tax-master";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Edit, Trash } from "lucide-react";
+
+type HsnCodesTableProps = {
+  hsnCodes: HsnCode[];
+  categories: TaxCategory[];
+  rateVersions: GstRateVersion[];
+  onEdit?: (hsnCode: HsnCode) => void;
+  onDelete?: (id: number) => void;
+};
+
+export function HsnCodesTable({
+  hsnCodes,
+  categories,
+  rateVersions,
+  onEdit,
+  onDelete,
+}: HsnCodesTableProps) {
+  const getCategoryNames = (code: string) =>
+    categories.filter((category) => category.hsnCode === code).map((category) => category.name);
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Code</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead className="text-right">GST Rate</TableHead>
+            <TableHead>Used By</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {hsnCodes.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={5} className="h-24 text-center">
+                No HSN/SAC codes found
+              </TableCell>
+            </TableRow>
+          ) : (
+            hsnCodes.map((hsnCode) => {
+              const categoryNames = getCategoryNames(hsnCode.code);
+              const codeVersions = rateVersions.filter((version) => version.hsnCode === hsnCode.code);
+              const currentVersion = findRateVersion(codeVersions, new Date());
+
+              return (
+                <TableRow key={hsnCode.id}>
+                  <TableCell className="font-mono font-medium">{hsnCode.code}</TableCell>
+                  <TableCell>{hsnCode.description}</TableCell>
+                  <TableCell className="text-right">
+                    {/* The code's own rate applies until its first rate change */}
+                    <span className="font-mono">{parseFloat((currentVersion || hsnCode).gstRate)}%</span>
+                    {currentVersion && (
+                      <div className="text-xs text-secondary-500">
+                        since {format(new Date(currentVersion.effectiveFrom), "MMM d, yyyy")}
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm text-secondary-500">
+                    {categoryNames.length > 0 ? categoryNames.join(", ") : "-"}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-2">
+                      {onEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onEdit(hsnCode)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {onDelete && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={categoryNames.length > 0 || codeVersions.length > 0}
+                          title={categoryNames.length > 0 || codeVersions.length > 0
+                            ? "Codes used by a category or with rate changes can't be deleted"
+                            : undefined}
+                          onClick={() => onDelete(hsnCode.id)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
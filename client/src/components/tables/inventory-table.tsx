@@ -14,8 +14,8 @@ import { format } from "date-fns";
 type InventoryTableProps = {
   inventoryItems: InventoryItem[];
   productionUnits: ProductionUnit[];
-  onEdit: (item: InventoryItem) => void;
-  onDelete: (id: number) => void;
+  onEdit?: (item: InventoryItem) => void;
+  onDelete?: (id: number) => void;
 };
 
 export function InventoryTable({
@@ -96,20 +96,24 @@ export function InventoryTable({
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onEdit(item)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onDelete(item.id)}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(item)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(item.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
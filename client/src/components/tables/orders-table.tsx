@@ -0,0 +1,189 @@
+import { Customer, Invoice, Order, ProductionUnit } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Edit, FileText, History, IndianRupee, Trash } from "lucide-react";
+import { format } from "date-fns";
+import { formatIndianCurrency } from "@/lib/utils";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { isOrderLocked } from "@shared/order-status";
+
+type OrdersTableProps = {
+  orders: Order[];
+  customers: Customer[];
+  productionUnits: ProductionUnit[];
+  onEdit?: (order: Order) => void;
+  onDelete?: (id: number) => void;
+  onHistory: (order: Order) => void;
+  onPayments?: (order: Order) => void;
+  // Issued invoices, to mark invoiced orders and lock them
+  invoices?: Invoice[];
+  onInvoice?: (order: Order) => void;
+};
+
+export function OrdersTable({
+  orders,
+  customers,
+  productionUnits,
+  onEdit,
+  onDelete,
+  onHistory,
+  onPayments,
+  invoices = [],
+  onInvoice,
+}: OrdersTableProps) {
+  // Get customer name by ID
+  const getCustomerName = (customerId: number) => {
+    const customer = customers.find((c) => c.id === customerId);
+    return customer?.name || "Unknown Customer";
+  };
+
+  // Get production unit name by ID
+  const getUnitName = (unitId: number) => {
+    const unit = productionUnits.find((u) => u.id === unitId);
+    return unit?.name || "Unknown Unit";
+  };
+
+  // Get the issued tax invoice for an order, if any
+  const getInvoice = (orderId: number) =>
+    invoices.find((invoice) => invoice.orderId === orderId && invoice.status === "issued");
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Order</TableHead>
+            <TableHead>Customer</TableHead>
+            <TableHead>Production Unit</TableHead>
+            <TableHead>Order Date</TableHead>
+            <TableHead>Delivery</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Total</TableHead>
+            <TableHead className="text-right">Paid</TableHead>
+            <TableHead className="text-right">Due</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {orders.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={10} className="h-24 text-center">
+                No orders found
+              </TableCell>
+            </TableRow>
+          ) : (
+            orders.map((order) => {
+              const invoice = getInvoice(order.id);
+
+              return (
+              <TableRow key={order.id}>
+                <TableCell className="font-medium">
+                  <div>
+                    <div>{order.orderNumber}</div>
+                    {order.description && (
+                      <div className="text-xs text-secondary-500 mt-1">
+                        {order.description}
+                      </div>
+                    )}
+                    {invoice && (
+                      <div className="text-xs text-primary-700 mt-1">
+                        Invoice {invoice.invoiceNumber}
+                      </div>
+                    )}
+                  </div>
+                </TableCell>
+                <TableCell>{getCustomerName(order.customerId)}</TableCell>
+                <TableCell>{getUnitName(order.productionUnitId)}</TableCell>
+                <TableCell>
+                  {format(new Date(order.orderDate), "MMM d, yyyy")}
+                </TableCell>
+                <TableCell>
+                  {order.deliveryDate
+                    ? format(new Date(order.deliveryDate), "MMM d, yyyy")
+                    : "-"}
+                </TableCell>
+                <TableCell>
+                  <OrderStatusBadge status={order.status} />
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatIndianCurrency(order.totalAmount)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatIndianCurrency(order.paidAmount)}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {/* Cancelled orders aren't owed */}
+                  {order.status === "cancelled"
+                    ? "-"
+                    : formatIndianCurrency(
+                        parseFloat(order.totalAmount) - parseFloat(order.paidAmount || "0")
+                      )}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    {onPayments && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Payments"
+                        onClick={() => onPayments(order)}
+                      >
+                        <IndianRupee className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onInvoice && !invoice && order.status !== "cancelled" && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Issue tax invoice"
+                        onClick={() => onInvoice(order)}
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Status timeline"
+                      onClick={() => onHistory(order)}
+                    >
+                      <History className="h-4 w-4" />
+                    </Button>
+                    {/* Cancelled orders can't be edited */}
+                    {onEdit && !isOrderLocked(order.status) && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(order)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {/* Invoiced orders stay until the invoice is cancelled */}
+                    {onDelete && !invoice && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(order.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -9,20 +9,22 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash } from "lucide-react";
+import { Edit, RefreshCw, Trash } from "lucide-react";
 import { format } from "date-fns";
 import { cn } from "@/lib/utils";
 
 type ProductionUnitsTableProps = {
   productionUnits: ProductionUnit[];
-  onEdit: (unit: ProductionUnit) => void;
-  onDelete: (id: number) => void;
+  onEdit?: (unit: ProductionUnit) => void;
+  onDelete?: (id: number) => void;
+  onRecalculate?: (id: number) => void;
 };
 
 export function ProductionUnitsTable({
   productionUnits,
   onEdit,
   onDelete,
+  onRecalculate,
 }: ProductionUnitsTableProps) {
   // Get status color based on status value
   const getStatusColor = (status: string) => {
@@ -93,20 +95,34 @@ export function ProductionUnitsTable({
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onEdit(unit)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onDelete(unit.id)}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
+                    {onRecalculate && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Recalculate cost from expenses"
+                        onClick={() => onRecalculate(unit.id)}
+                      >
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(unit)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(unit.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
@@ -0,0 +1,119 @@
+import { DeletedRecord, ProductionUnit, RecycleBinEntity } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { RotateCcw, Trash } from "lucide-react";
+import { format } from "date-fns";
+
+// Display names of the record types that have a recycle bin
+export const RECYCLE_BIN_ENTITY_LABELS: Record<RecycleBinEntity, string> = {
+  expenses: "Expense",
+  revenues: "Revenue",
+  orders: "Order",
+  payments: "Payment",
+  salary_payments: "Salary Payment",
+  maintenance_records: "Maintenance",
+};
+
+type RecycleBinTableProps = {
+  records: DeletedRecord[];
+  productionUnits: ProductionUnit[];
+  onRestore: (record: DeletedRecord) => void;
+  onPurge?: (record: DeletedRecord) => void;
+};
+
+export function RecycleBinTable({
+  records,
+  productionUnits,
+  onRestore,
+  onPurge,
+}: RecycleBinTableProps) {
+  // Get production unit name by ID
+  const getUnitName = (unitId: number) => {
+    const unit = productionUnits.find((u) => u.id === unitId);
+    return unit?.name || "Unknown Unit";
+  };
+
+  // Format currency for amount in Indian Rupees
+  const formatCurrency = (value: number) => {
+    return new Intl.NumberFormat("en-IN", {
+      style: "currency",
+      currency: "INR",
+      minimumFractionDigits: 2,
+      maximumFractionDigits: 2,
+    }).format(value);
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Deleted</TableHead>
+            <TableHead>Type</TableHead>
+            <TableHead>Description</TableHead>
+            <TableHead>Production Unit</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {records.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                The recycle bin is empty
+              </TableCell>
+            </TableRow>
+          ) : (
+            records.map((record) => (
+              <TableRow key={`${record.entity}-${record.id}`}>
+                <TableCell>
+                  {format(new Date(record.deletedAt), "MMM d, yyyy h:mm a")}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className="text-xs font-medium px-2 py-0.5 rounded-full">
+                    {RECYCLE_BIN_ENTITY_LABELS[record.entity]}
+                  </Badge>
+                </TableCell>
+                <TableCell className="font-medium">{record.description}</TableCell>
+                <TableCell>{getUnitName(record.productionUnitId)}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatCurrency(record.amount)}
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Restore"
+                      onClick={() => onRestore(record)}
+                    >
+                      <RotateCcw className="h-4 w-4" />
+                    </Button>
+                    {onPurge && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Delete permanently"
+                        onClick={() => onPurge(record)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -15,7 +15,7 @@ import path from "path";
 type ReportsTableProps = {
   reports: Report[];
   onDownload: (filename: string) => void;
-  onDelete: (id: number) => void;
+  onDelete?: (id: number) => void;
   isDownloading: boolean;
 };
 
@@ -71,13 +71,15 @@ export function ReportsTable({
                     >
                       <Download className="h-4 w-4" />
                     </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onDelete(report.id)}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
+                    {onDelete && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(report.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
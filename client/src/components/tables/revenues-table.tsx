@@ -1,4 +1,4 @@
-import { Revenue, ProductionUnit } from "@shared/schema";
+import { Invoice, Revenue, ProductionUnit } from "@shared/schema";
 import {
   Table,
   TableBody,
@@ -9,14 +9,20 @@ import {
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
-import { Edit, Trash } from "lucide-react";
+import { Edit, FileText, History, Trash } from "lucide-react";
 import { format } from "date-fns";
+import { useState } from "react";
+import { AuditHistorySheet } from "./audit-history-sheet";
+import { usePermissions } from "@/hooks/use-permissions";
 
 type RevenuesTableProps = {
   revenues: Revenue[];
   productionUnits: ProductionUnit[];
-  onEdit: (revenue: Revenue) => void;
-  onDelete: (id: number) => void;
+  onEdit?: (revenue: Revenue) => void;
+  onDelete?: (id: number) => void;
+  // Issued invoices, to mark invoiced revenue and lock it
+  invoices?: Invoice[];
+  onInvoice?: (revenue: Revenue) => void;
 };
 
 export function RevenuesTable({
@@ -24,13 +30,27 @@ export function RevenuesTable({
   productionUnits,
   onEdit,
   onDelete,
+  invoices = [],
+  onInvoice,
 }: RevenuesTableProps) {
+  // Record whose change history is open in the drawer
+  const [historyId, setHistoryId] = useState<number | null>(null);
+  const { can } = usePermissions();
+
   // Get production unit name by ID
   const getUnitName = (unitId: number) => {
     const unit = productionUnits.find((u) => u.id === unitId);
     return unit?.name || "Unknown Unit";
   };
 
+  // Revenue booked by an order is invoiced through the order
+  const getInvoice = (revenue: Revenue) =>
+    invoices.find(
+      (invoice) =>
+        invoice.status === "issued" &&
+        (revenue.orderId ? invoice.orderId === revenue.orderId : invoice.revenueId === revenue.id)
+    );
+
   // Format currency for amount in Indian Rupees
   const formatCurrency = (value: string | number) => {
     const numValue = typeof value === "string" ? parseFloat(value) : value;
@@ -68,13 +88,21 @@ export function RevenuesTable({
               </TableCell>
             </TableRow>
           ) : (
-            revenues.map((revenue) => (
+            revenues.map((revenue) => {
+              const invoice = getInvoice(revenue);
+
+              return (
               <TableRow key={revenue.id}>
                 <TableCell>
                   {format(new Date(revenue.date), "MMM d, yyyy")}
                 </TableCell>
                 <TableCell className="font-medium">
-                  {revenue.description}
+                  <div>{revenue.description}</div>
+                  {invoice && (
+                    <div className="text-xs text-primary-700 mt-1">
+                      Invoice {invoice.invoiceNumber}
+                    </div>
+                  )}
                 </TableCell>
                 <TableCell>{getUnitName(revenue.productionUnitId)}</TableCell>
                 <TableCell>
@@ -87,27 +115,59 @@ export function RevenuesTable({
                 </TableCell>
                 <TableCell className="text-right">
                   <div className="flex justify-end space-x-2">
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onEdit(revenue)}
-                    >
-                      <Edit className="h-4 w-4" />
-                    </Button>
-                    <Button
-                      variant="ghost"
-                      size="icon"
-                      onClick={() => onDelete(revenue.id)}
-                    >
-                      <Trash className="h-4 w-4" />
-                    </Button>
+                    {can("audit", "view") && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="View history"
+                        onClick={() => setHistoryId(revenue.id)}
+                      >
+                        <History className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onInvoice && !invoice && !revenue.orderId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Issue tax invoice"
+                        onClick={() => onInvoice(revenue)}
+                      >
+                        <FileText className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onEdit(revenue)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {/* Invoiced revenue stays until the invoice is cancelled */}
+                    {onDelete && !invoice && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => onDelete(revenue.id)}
+                      >
+                        <Trash className="h-4 w-4" />
+                      </Button>
+                    )}
                   </div>
                 </TableCell>
               </TableRow>
-            ))
+              );
+            })
           )}
         </TableBody>
       </Table>
+      <AuditHistorySheet
+        entity="revenues"
+        entityId={historyId}
+        title="Revenue History"
+        onClose={() => setHistoryId(null)}
+      />
     </div>
   );
 }
@@ -0,0 +1,130 @@
+import { Supplier, SupplierBalance } from "@shared/schema";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Edit, Eye, Trash } from "lucide-react";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { formatStateCode } from "@shared/gst-utils";
+
+type SuppliersTableProps = {
+  suppliers: Supplier[];
+  balances: SupplierBalance[];
+  onView: (supplier: Supplier) => void;
+  onEdit?: (supplier: Supplier) => void;
+  onDelete?: (id: number) => void;
+};
+
+export function SuppliersTable({
+  suppliers,
+  balances,
+  onView,
+  onEdit,
+  onDelete,
+}: SuppliersTableProps) {
+  const getBalance = (supplierId: number) =>
+    balances.find((balance) => balance.supplierId === supplierId);
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>GSTIN</TableHead>
+            <TableHead>State</TableHead>
+            <TableHead>Terms</TableHead>
+            <TableHead className="text-right">Purchases</TableHead>
+            <TableHead className="text-right">GST Paid</TableHead>
+            <TableHead className="text-right">Outstanding</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {suppliers.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={8} className="h-24 text-center">
+                No suppliers found
+              </TableCell>
+            </TableRow>
+          ) : (
+            suppliers.map((supplier) => {
+              const balance = getBalance(supplier.id);
+
+              return (
+                <TableRow key={supplier.id}>
+                  <TableCell className="font-medium">
+                    <div>
+                      <div>{supplier.name}</div>
+                      {(supplier.contactPerson || supplier.phone) && (
+                        <div className="text-xs text-secondary-500 mt-1">
+                          {[supplier.contactPerson, supplier.phone].filter(Boolean).join(" · ")}
+                        </div>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="font-mono">{supplier.gstin || "-"}</TableCell>
+                  <TableCell>{supplier.stateCode ? formatStateCode(supplier.stateCode) : "-"}</TableCell>
+                  <TableCell>
+                    {supplier.paymentTermsDays > 0 ? `${supplier.paymentTermsDays} days` : "Immediate"}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatIndianCurrency(balance?.totalPurchases || 0)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    {formatIndianCurrency(balance?.gstPaid || 0)}
+                  </TableCell>
+                  <TableCell className="text-right font-mono">
+                    <div className={cn(balance && balance.outstanding > 0 && "text-red-500")}>
+                      {formatIndianCurrency(balance?.outstanding || 0)}
+                    </div>
+                    {balance && balance.overdue > 0 && (
+                      <div className="text-xs text-red-600 mt-1">
+                        {formatIndianCurrency(balance.overdue)} overdue
+                      </div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-2">
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="View purchases"
+                        onClick={() => onView(supplier)}
+                      >
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {onEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onEdit(supplier)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {onDelete && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onDelete(supplier.id)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
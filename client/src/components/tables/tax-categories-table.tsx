@@ -0,0 +1,102 @@
+import { TaxCategory, TaxCategoryKind, TaxMaster } from "@shared/schema";
+import { getCategoryTax } from "@shared/tax-master";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, Trash } from "lucide-react";
+
+type TaxCategoriesTableProps = {
+  kind: TaxCategoryKind;
+  categories: TaxCategory[];
+  master: TaxMaster;
+  onEdit?: (category: TaxCategory) => void;
+  onDelete?: (id: number) => void;
+};
+
+export function TaxCategoriesTable({
+  kind,
+  categories,
+  master,
+  onEdit,
+  onDelete,
+}: TaxCategoriesTableProps) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>HSN/SAC Code</TableHead>
+            <TableHead className="text-right">GST Rate</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {categories.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={4} className="h-24 text-center">
+                No categories found
+              </TableCell>
+            </TableRow>
+          ) : (
+            categories.map((category) => {
+              const hsnCode = master.hsnCodes.find((code) => code.code === category.hsnCode);
+              const { gstRate } = getCategoryTax(master, kind, category.name);
+
+              return (
+                <TableRow key={category.id}>
+                  <TableCell className="font-medium">{category.name}</TableCell>
+                  <TableCell>
+                    {hsnCode ? (
+                      <div>
+                        <div className="font-mono">{hsnCode.code}</div>
+                        <div className="text-xs text-secondary-500">{hsnCode.description}</div>
+                      </div>
+                    ) : (
+                      "-"
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <span className="font-mono">{gstRate}%</span>
+                    {category.gstRate !== null && hsnCode && (
+                      <Badge variant="outline" className="ml-2">Override</Badge>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    <div className="flex justify-end space-x-2">
+                      {onEdit && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onEdit(category)}
+                        >
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {onDelete && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          onClick={() => onDelete(category.id)}
+                        >
+                          <Trash className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              );
+            })
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
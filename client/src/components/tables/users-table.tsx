@@ -0,0 +1,123 @@
+import { ProductionUnit } from "@shared/schema";
+import { isUserRole, USER_ROLE_LABELS } from "@shared/permissions";
+import { AuthUser } from "@/hooks/use-auth";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Edit, UserCheck, UserX } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+type UsersTableProps = {
+  users: AuthUser[];
+  productionUnits: ProductionUnit[];
+  currentUserId?: number;
+  onEdit?: (user: AuthUser) => void;
+  onDeactivate?: (user: AuthUser) => void;
+  onReactivate?: (user: AuthUser) => void;
+};
+
+export function UsersTable({
+  users,
+  productionUnits,
+  currentUserId,
+  onEdit,
+  onDeactivate,
+  onReactivate,
+}: UsersTableProps) {
+  // Get production unit name by ID
+  const getUnitName = (unitId: number | null) => {
+    if (!unitId) return "All Units";
+    const unit = productionUnits.find((u) => u.id === unitId);
+    return unit?.name || "Unknown Unit";
+  };
+
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Name</TableHead>
+            <TableHead>Username</TableHead>
+            <TableHead>Role</TableHead>
+            <TableHead>Production Unit</TableHead>
+            <TableHead>Status</TableHead>
+            <TableHead className="text-right">Actions</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {users.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={6} className="h-24 text-center">
+                No users found
+              </TableCell>
+            </TableRow>
+          ) : (
+            users.map((user) => (
+              <TableRow key={user.id} className={cn(!user.active && "text-secondary-400")}>
+                <TableCell className="font-medium">{user.name}</TableCell>
+                <TableCell>{user.username}</TableCell>
+                <TableCell>
+                  {isUserRole(user.role) ? USER_ROLE_LABELS[user.role] : user.role}
+                </TableCell>
+                <TableCell>{getUnitName(user.productionUnitId)}</TableCell>
+                <TableCell>
+                  <Badge
+                    variant="outline"
+                    className={cn(
+                      "text-xs font-medium px-2 py-0.5 rounded-full",
+                      user.active ? "bg-green-100 text-green-800" : "bg-red-100 text-red-800"
+                    )}
+                  >
+                    {user.active ? "Active" : "Deactivated"}
+                  </Badge>
+                </TableCell>
+                <TableCell className="text-right">
+                  <div className="flex justify-end space-x-2">
+                    {onEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Edit user"
+                        onClick={() => onEdit(user)}
+                      >
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {/* Users can't deactivate their own account */}
+                    {user.active && onDeactivate && user.id !== currentUserId && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Deactivate"
+                        onClick={() => onDeactivate(user)}
+                      >
+                        <UserX className="h-4 w-4" />
+                      </Button>
+                    )}
+                    {!user.active && onReactivate && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        title="Reactivate"
+                        onClick={() => onReactivate(user)}
+                      >
+                        <UserCheck className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { usePermissions } from "@/hooks/use-permissions";
+import { DueOrdersReport } from "@shared/schema";
+
+/**
+ * Open orders due within the given number of days, plus any past due,
+ * for the delivery calendar, the dashboard and the header bell
+ */
+export function useDueOrders(withinDays = 7) {
+  const { can } = usePermissions();
+
+  return useQuery<DueOrdersReport>({
+    queryKey: [`/api/orders/due?within=${withinDays}d`],
+    enabled: can("orders", "view"),
+    // Orders fall overdue as time passes, not only when they are edited
+    refetchInterval: 5 * 60 * 1000,
+  });
+}
+
+// Every due-orders window changes when an order's status or delivery date does
+export function invalidateDueOrders() {
+  queryClient.invalidateQueries({
+    predicate: (query) => String(query.queryKey[0]).startsWith("/api/orders/due"),
+  });
+}
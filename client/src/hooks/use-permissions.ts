@@ -0,0 +1,18 @@
+import { useAuth } from "@/hooks/use-auth";
+import { hasPermission, PermissionAction, PermissionResource } from "@shared/permissions";
+
+/**
+ * Checks the signed-in user's role against the permission matrix, so pages
+ * can hide controls the server would reject anyway
+ */
+export function usePermissions() {
+  const { user } = useAuth();
+
+  const can = (resource: PermissionResource, action: PermissionAction) =>
+    hasPermission(user?.role, resource, action);
+
+  // Unit supervisors only see their own production unit's records
+  const isUnitScoped = user?.role === "unit_supervisor";
+
+  return { can, isUnitScoped };
+}
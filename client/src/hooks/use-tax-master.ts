@@ -0,0 +1,24 @@
+import { useQuery } from "@tanstack/react-query";
+import { TaxCategoryKind, TaxMaster } from "@shared/schema";
+import { findTaxCategory, getCategoryTax } from "@shared/tax-master";
+
+const EMPTY_MASTER: TaxMaster = { hsnCodes: [], categories: [], rateVersions: [] };
+
+/**
+ * The HSN/SAC and category master, with the categories of one kind and
+ * their GST rate and code on a date, for the expense, revenue and order forms
+ */
+export function useTaxMaster(kind: TaxCategoryKind) {
+  const { data: master = EMPTY_MASTER, isLoading } = useQuery<TaxMaster>({
+    queryKey: ["/api/tax-master"],
+  });
+
+  return {
+    isLoading,
+    categories: master.categories.filter((category) => category.kind === kind),
+    // The master's spelling of a category, so records saved as "raw_materials" select "Raw Materials"
+    findCategory: (name: string) => findTaxCategory(master, kind, name),
+    // Backdated entries take the rate that applied on their date
+    getCategoryTax: (name: string, date?: Date | string) => getCategoryTax(master, kind, name, date),
+  };
+}
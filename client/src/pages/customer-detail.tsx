@@ -0,0 +1,279 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Mail, MapPin, Phone, Receipt } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { PAYMENT_METHOD_LABELS } from "@/components/forms/payment-form";
+import { MeasurementProfilesCard } from "@/components/measurements/measurement-profiles-card";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { CustomerLedger, PaymentMethod, ProductionUnit } from "@shared/schema";
+
+export default function CustomerDetail() {
+  const { id } = useParams<{ id: string }>();
+
+  // Fetch the customer with their orders and balances
+  const { data: ledger, isLoading: ledgerLoading, error } = useQuery<CustomerLedger>({
+    queryKey: [`/api/customers/${id}/ledger`],
+  });
+
+  // Fetch production units to name the unit of each order
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  const getUnitName = (unitId: number) => {
+    const unit = productionUnits?.find((u) => u.id === unitId);
+    return unit?.name || "Unknown Unit";
+  };
+
+  if (ledgerLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !ledger) {
+    return (
+      <div className="space-y-6">
+        <Link href="/customers">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Customers
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="p-6 text-center text-secondary-500">
+            Customer not found
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { customer, orders, payments } = ledger;
+
+  const getOrderNumber = (orderId: number) =>
+    orders.find((order) => order.id === orderId)?.orderNumber || "-";
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{customer.name}</h1>
+          <p className="text-sm text-secondary-500">
+            Customer since {format(new Date(customer.createdAt), "MMM d, yyyy")}
+          </p>
+        </div>
+        <Link href="/customers">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Customers
+          </Button>
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Contact info */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center">
+              <Phone className="h-4 w-4 mr-2 text-secondary-400" />
+              {customer.phone || "No phone"}
+            </div>
+            <div className="flex items-center">
+              <Mail className="h-4 w-4 mr-2 text-secondary-400" />
+              {customer.email || "No email"}
+            </div>
+            <div className="flex items-start">
+              <MapPin className="h-4 w-4 mr-2 mt-0.5 text-secondary-400" />
+              <span className="whitespace-pre-line">{customer.address || "No address"}</span>
+            </div>
+            <div className="flex items-center">
+              <Receipt className="h-4 w-4 mr-2 text-secondary-400" />
+              <span className="font-mono">{customer.gstin || "Unregistered"}</span>
+            </div>
+            {customer.notes && (
+              <p className="text-secondary-500 border-t pt-3">{customer.notes}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Balances */}
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">Total Billed</p>
+            <p className="text-2xl font-semibold font-mono mt-2">
+              {formatIndianCurrency(ledger.totalBilled)}
+            </p>
+            <p className="text-xs text-secondary-500 mt-1">
+              Across {orders.filter((order) => order.status !== "cancelled").length} orders
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">Paid</p>
+            <p className="text-2xl font-semibold font-mono mt-2 text-green-600">
+              {formatIndianCurrency(ledger.totalPaid)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">Outstanding</p>
+            <p
+              className={cn(
+                "text-2xl font-semibold font-mono mt-2",
+                ledger.outstanding > 0 ? "text-red-500" : "text-secondary-900"
+              )}
+            >
+              {formatIndianCurrency(ledger.outstanding)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <MeasurementProfilesCard customerId={customer.id} />
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Orders</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Delivery</TableHead>
+                  <TableHead>Production Unit</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead className="text-right">Paid</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {orders.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No orders yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  orders.map((order) => {
+                    const total = parseFloat(order.totalAmount.toString());
+                    const paid = parseFloat((order.paidAmount || 0).toString());
+                    const isCancelled = order.status === "cancelled";
+
+                    return (
+                      <TableRow key={order.id} className={cn(isCancelled && "text-secondary-400")}>
+                        <TableCell className="font-medium">
+                          <div>
+                            <div>{order.orderNumber}</div>
+                            {order.description && (
+                              <div className="text-xs text-secondary-500 mt-1">
+                                {order.description}
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {format(new Date(order.orderDate), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell>
+                          {order.deliveryDate
+                            ? format(new Date(order.deliveryDate), "MMM d, yyyy")
+                            : "-"}
+                        </TableCell>
+                        <TableCell>{getUnitName(order.productionUnitId)}</TableCell>
+                        <TableCell>
+                          <OrderStatusBadge status={order.status} />
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatIndianCurrency(total)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatIndianCurrency(paid)}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {/* Cancelled orders aren't owed */}
+                          {isCancelled ? "-" : formatIndianCurrency(total - paid)}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Payments</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Order</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead>Reference</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="h-24 text-center">
+                      No payments yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  payments.map((payment) => (
+                    <TableRow key={payment.id}>
+                      <TableCell>
+                        {format(new Date(payment.paymentDate), "MMM d, yyyy")}
+                      </TableCell>
+                      <TableCell>{getOrderNumber(payment.orderId)}</TableCell>
+                      <TableCell>
+                        {PAYMENT_METHOD_LABELS[payment.method as PaymentMethod] || payment.method}
+                      </TableCell>
+                      <TableCell>{payment.reference || "-"}</TableCell>
+                      <TableCell className="text-right font-mono">
+                        {formatIndianCurrency(payment.amount)}
+                      </TableCell>
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,215 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Plus, Search } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { CustomerForm, CustomerFormData } from "@/components/forms/customer-form";
+import { CustomersTable } from "@/components/tables/customers-table";
+import { Customer } from "@shared/schema";
+
+export default function Customers() {
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editCustomer, setEditCustomer] = useState<Customer | null>(null);
+  const [search, setSearch] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch customers
+  const { data: customers, isLoading: customersLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: async (data: CustomerFormData) => {
+      const response = await apiRequest("POST", "/api/customers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Customer added successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to add customer: ${error.message}`,
+      });
+    },
+  });
+
+  // Update mutation
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<CustomerFormData>;
+    }) => {
+      const response = await apiRequest("PUT", `/api/customers/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      toast({
+        title: "Success",
+        description: "Customer updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/customers/${id}/ledger`] });
+      setOpenDialog(false);
+      setEditCustomer(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update customer: ${error.message}`,
+      });
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/customers/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Customer deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/customers"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete customer: ${error.message}`,
+      });
+    },
+  });
+
+  const handleView = (customer: Customer) => {
+    setLocation(`/customers/${customer.id}`);
+  };
+
+  const handleEdit = (customer: Customer) => {
+    setEditCustomer(customer);
+    setOpenDialog(true);
+  };
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this customer? Customers with orders can't be deleted.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (data: CustomerFormData) => {
+    if (editCustomer) {
+      updateMutation.mutate({ id: editCustomer.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpenDialog(false);
+    setEditCustomer(null);
+  };
+
+  // Match the search text against name, phone, email and GSTIN
+  const searchText = search.trim().toLowerCase();
+  const filteredCustomers = customers?.filter((customer) => {
+    if (!searchText) return true;
+    return [customer.name, customer.phone, customer.email, customer.gstin].some(
+      (value) => value?.toLowerCase().includes(searchText)
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-secondary-900">Customers</h1>
+        <div className="flex space-x-2">
+          <div className="relative">
+            <Input
+              type="search"
+              placeholder="Search customers..."
+              className="pl-9 w-64"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-secondary-400 h-4 w-4" />
+          </div>
+
+          <Dialog
+            open={openDialog}
+            onOpenChange={(open) => (open ? setOpenDialog(true) : handleDialogClose())}
+          >
+            {can("customers", "create") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Customer
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editCustomer ? "Edit Customer" : "Add Customer"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editCustomer
+                    ? "Update the customer's contact and GST details below."
+                    : "Enter the details for the new customer."}
+                </DialogDescription>
+              </DialogHeader>
+              <CustomerForm
+                onSubmit={handleSubmit}
+                customer={editCustomer}
+                isLoading={createMutation.isPending || updateMutation.isPending}
+                onCancel={handleDialogClose}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {customersLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <CustomersTable
+              customers={filteredCustomers || []}
+              onView={handleView}
+              onEdit={can("customers", "update") ? handleEdit : undefined}
+              onDelete={can("customers", "delete") ? handleDelete : undefined}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
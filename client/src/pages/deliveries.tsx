@@ -0,0 +1,247 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import {
+  addDays,
+  differenceInCalendarDays,
+  endOfWeek,
+  format,
+  isSameDay,
+  startOfWeek,
+} from "date-fns";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { useDueOrders } from "@/hooks/use-due-orders";
+import { usePermissions } from "@/hooks/use-permissions";
+import { cn } from "@/lib/utils";
+import { DueOrder, ProductionUnit } from "@shared/schema";
+
+// How far ahead the calendar looks, in days
+const WINDOW_OPTIONS = [
+  { days: 7, label: "Next 7 days" },
+  { days: 14, label: "Next 2 weeks" },
+  { days: 28, label: "Next 4 weeks" },
+  { days: 56, label: "Next 8 weeks" },
+];
+
+// Each production unit's deliveries get their own colour
+const UNIT_COLORS = [
+  "bg-sky-50 border-sky-300 text-sky-900",
+  "bg-emerald-50 border-emerald-300 text-emerald-900",
+  "bg-violet-50 border-violet-300 text-violet-900",
+  "bg-amber-50 border-amber-300 text-amber-900",
+  "bg-rose-50 border-rose-300 text-rose-900",
+  "bg-teal-50 border-teal-300 text-teal-900",
+];
+
+const WEEKDAYS = ["Mon", "Tue", "Wed", "Thu", "Fri", "Sat", "Sun"];
+
+export default function Deliveries() {
+  const [withinDays, setWithinDays] = useState(28);
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const { isUnitScoped } = usePermissions();
+
+  const { data: dueOrders, isLoading } = useDueOrders(withinDays);
+
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  const getUnitColor = (unitId: number) => {
+    const index = productionUnits?.findIndex((unit) => unit.id === unitId) ?? -1;
+    return UNIT_COLORS[Math.max(index, 0) % UNIT_COLORS.length];
+  };
+
+  const getUnitName = (unitId: number) =>
+    productionUnits?.find((unit) => unit.id === unitId)?.name || "Unknown Unit";
+
+  const orders = (dueOrders?.orders || []).filter(
+    (order) => unitFilter === "all" || order.productionUnitId.toString() === unitFilter
+  );
+  const pastDueOrders = orders.filter((order) => order.daysUntilDue < 0);
+
+  // Whole weeks from this week to the end of the window
+  const today = new Date();
+  const calendarStart = startOfWeek(today, { weekStartsOn: 1 });
+  const calendarEnd = endOfWeek(addDays(today, withinDays), { weekStartsOn: 1 });
+  const days = Array.from(
+    { length: differenceInCalendarDays(calendarEnd, calendarStart) + 1 },
+    (_, index) => addDays(calendarStart, index)
+  );
+
+  const getOrdersOn = (day: Date) =>
+    orders.filter((order) => isSameDay(new Date(order.deliveryDate), day));
+
+  const renderOrder = (order: DueOrder) => (
+    <Link key={order.orderId} href={`/stitching/${order.orderId}`}>
+      <div
+        className={cn(
+          "border rounded px-1.5 py-1 text-xs cursor-pointer hover:shadow-sm",
+          getUnitColor(order.productionUnitId),
+          order.isOverdue && "border-red-500"
+        )}
+        title={`${order.orderNumber} · ${order.customerName} · ${getUnitName(order.productionUnitId)}`}
+      >
+        <div className="font-medium truncate">{order.orderNumber}</div>
+        <div className="truncate">{order.customerName}</div>
+        {order.status === "ready" && <div className="font-medium">Ready</div>}
+      </div>
+    </Link>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Delivery Calendar</h1>
+        <p className="text-sm text-secondary-500">
+          Open orders by delivery date. Click an order to open its job card.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label className="mb-1 block">Show</Label>
+              <Select
+                value={withinDays.toString()}
+                onValueChange={(value) => setWithinDays(parseInt(value))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {WINDOW_OPTIONS.map((option) => (
+                    <SelectItem key={option.days} value={option.days.toString()}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {!isUnitScoped && (
+              <div>
+                <Label className="mb-1 block">Production Unit</Label>
+                <Select value={unitFilter} onValueChange={setUnitFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All units</SelectItem>
+                    {productionUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {unitFilter === "all" && productionUnits && productionUnits.length > 1 && (
+            <div className="flex flex-wrap gap-2 mt-4 text-xs">
+              {productionUnits.map((unit) => (
+                <span key={unit.id} className={cn("border rounded px-2 py-0.5", getUnitColor(unit.id))}>
+                  {unit.name}
+                </span>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-96 w-full" />
+      ) : (
+        <>
+          {pastDueOrders.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">Past Due</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="divide-y border rounded-md">
+                  {pastDueOrders.map((order) => (
+                    <li key={order.orderId} className="flex items-center justify-between p-3 text-sm">
+                      <Link href={`/stitching/${order.orderId}`}>
+                        <div className="cursor-pointer">
+                          <div className="font-medium">
+                            {order.orderNumber} · {order.customerName}
+                          </div>
+                          <div className="text-xs text-secondary-500">
+                            {getUnitName(order.productionUnitId)} · due{" "}
+                            {format(new Date(order.deliveryDate), "MMM d, yyyy")}
+                          </div>
+                        </div>
+                      </Link>
+                      <div className="flex items-center space-x-3">
+                        <OrderStatusBadge status={order.status} />
+                        {/* Ready orders are only waiting for the customer to collect them */}
+                        <span
+                          className={cn(
+                            "font-medium whitespace-nowrap",
+                            order.isOverdue ? "text-red-500" : "text-secondary-500"
+                          )}
+                        >
+                          {order.isOverdue
+                            ? `${-order.daysUntilDue} ${order.daysUntilDue === -1 ? "day" : "days"} late`
+                            : "Awaiting pickup"}
+                        </span>
+                      </div>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+          )}
+
+          <Card>
+            <CardContent className="p-4 overflow-x-auto">
+              <div className="grid grid-cols-7 gap-px bg-secondary-200 border border-secondary-200 min-w-[700px]">
+                {WEEKDAYS.map((weekday) => (
+                  <div key={weekday} className="bg-secondary-50 px-2 py-1 text-xs font-semibold text-secondary-600">
+                    {weekday}
+                  </div>
+                ))}
+                {days.map((day) => {
+                  // Past days and days beyond the window are greyed out
+                  const daysAhead = differenceInCalendarDays(day, today);
+                  const isOutsideWindow = daysAhead < 0 || daysAhead > withinDays;
+                  const dayOrders = isOutsideWindow ? [] : getOrdersOn(day);
+
+                  return (
+                    <div
+                      key={day.toISOString()}
+                      className={cn("bg-white min-h-[96px] p-1.5 space-y-1", isOutsideWindow && "bg-secondary-50")}
+                    >
+                      <div
+                        className={cn(
+                          "text-xs",
+                          isSameDay(day, today)
+                            ? "inline-block rounded-full bg-primary-700 text-white px-1.5 font-semibold"
+                            : "text-secondary-500"
+                        )}
+                      >
+                        {format(day, day.getDate() === 1 ? "MMM d" : "d")}
+                      </div>
+                      {dayOrders.map(renderOrder)}
+                    </div>
+                  );
+                })}
+              </div>
+            </CardContent>
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
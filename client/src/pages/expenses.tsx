@@ -12,11 +12,12 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Plus, Filter } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { ExpenseForm } from "@/components/forms/expense-form";
 import { ExpensesTable } from "@/components/tables/expenses-table";
-import { Expense, ProductionUnit } from "@shared/schema";
+import { Expense, InsertExpense, ProductionUnit, Supplier } from "@shared/schema";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -32,6 +33,7 @@ export default function Expenses() {
   const [editExpense, setEditExpense] = useState<Expense | null>(null);
   const [unitFilter, setUnitFilter] = useState<string>("all");
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   // Fetch expenses
   const { data: expenses, isLoading: expensesLoading } = useQuery<Expense[]>({
@@ -43,13 +45,19 @@ export default function Expenses() {
     queryKey: ["/api/production-units"],
   });
 
+  // Fetch suppliers for the form's vendor picker
+  const { data: suppliers } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: can("suppliers", "view"),
+  });
+
   // Create mutation
   const createMutation = useMutation({
-    mutationFn: async (data: Omit<Expense, "id">) => {
+    mutationFn: async (data: InsertExpense) => {
       const response = await apiRequest("POST", "/api/expenses", data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (newExpense: Expense) => {
       toast({
         title: "Success",
         description: "Expense recorded successfully",
@@ -60,6 +68,10 @@ export default function Expenses() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/cost-trends"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-loss"] });
       queryClient.invalidateQueries({ queryKey: ["/api/production-units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      if (newExpense.supplierId) {
+        queryClient.invalidateQueries({ queryKey: [`/api/suppliers/${newExpense.supplierId}/ledger`] });
+      }
       setOpenDialog(false);
     },
     onError: (error) => {
@@ -83,7 +95,7 @@ export default function Expenses() {
       const response = await apiRequest("PUT", `/api/expenses/${id}`, data);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (updatedExpense: Expense) => {
       toast({
         title: "Success",
         description: "Expense updated successfully",
@@ -94,6 +106,13 @@ export default function Expenses() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/cost-trends"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-loss"] });
       queryClient.invalidateQueries({ queryKey: ["/api/production-units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      // The expense may have moved from one supplier to another
+      for (const supplierId of [editExpense?.supplierId, updatedExpense.supplierId]) {
+        if (supplierId) {
+          queryClient.invalidateQueries({ queryKey: [`/api/suppliers/${supplierId}/ledger`] });
+        }
+      }
       setOpenDialog(false);
       setEditExpense(null);
     },
@@ -122,6 +141,8 @@ export default function Expenses() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/cost-trends"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-loss"] });
       queryClient.invalidateQueries({ queryKey: ["/api/production-units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
     },
     onError: (error) => {
       toast({
@@ -138,12 +159,12 @@ export default function Expenses() {
   };
 
   const handleDelete = (id: number) => {
-    if (window.confirm("Are you sure you want to delete this expense?")) {
+    if (window.confirm("Move this expense to the recycle bin?")) {
       deleteMutation.mutate(id);
     }
   };
 
-  const handleSubmit = (data: Omit<Expense, "id">) => {
+  const handleSubmit = (data: InsertExpense) => {
     if (editExpense) {
       updateMutation.mutate({ id: editExpense.id, data });
     } else {
@@ -194,12 +215,14 @@ export default function Expenses() {
           </DropdownMenu>
 
           <Dialog open={openDialog} onOpenChange={setOpenDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Record Expense
-              </Button>
-            </DialogTrigger>
+            {can("expenses", "create") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Expense
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[425px]">
               <DialogHeader>
                 <DialogTitle>
@@ -215,6 +238,7 @@ export default function Expenses() {
                 onSubmit={handleSubmit}
                 expense={editExpense}
                 productionUnits={productionUnits || []}
+                suppliers={suppliers || []}
                 isLoading={
                   createMutation.isPending ||
                   updateMutation.isPending ||
@@ -235,8 +259,8 @@ export default function Expenses() {
             <ExpensesTable
               expenses={filteredExpenses || []}
               productionUnits={productionUnits || []}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
+              onEdit={can("expenses", "update") ? handleEdit : undefined}
+              onDelete={can("expenses", "delete") ? handleDelete : undefined}
             />
           )}
         </CardContent>
@@ -0,0 +1,397 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AlertTriangle, FileJson, FileSpreadsheet } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDownload } from "@/hooks/use-download";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { Gstr1Document, Gstr1Report, ProductionUnit } from "@shared/schema";
+import { formatStateCode } from "@shared/gst-utils";
+import { GSTR1_ISSUE_LABELS, GSTR1_SECTION_LABELS, isValidTaxPeriod } from "@shared/gst-returns";
+import { formatRateVersion } from "@shared/tax-master";
+
+// Flagged rows first, so they are fixed before filing
+function flaggedFirst(documents: Gstr1Document[]) {
+  return [...documents].sort((a, b) => Number(b.issues.length > 0) - Number(a.issues.length > 0));
+}
+
+function DocumentsTable({ documents, showGstin }: { documents: Gstr1Document[]; showGstin: boolean }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Date</TableHead>
+            <TableHead>Customer</TableHead>
+            <TableHead>Place of Supply</TableHead>
+            <TableHead className="text-right">Rate</TableHead>
+            <TableHead className="text-right">Taxable Value</TableHead>
+            <TableHead className="text-right">Tax</TableHead>
+            <TableHead className="text-right">Invoice Value</TableHead>
+            <TableHead>Issues</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {documents.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={9} className="h-24 text-center">
+                No invoices in this section
+              </TableCell>
+            </TableRow>
+          ) : (
+            flaggedFirst(documents).map((document) => (
+              <TableRow key={document.revenueId} className={cn(document.issues.length > 0 && "bg-amber-50")}>
+                <TableCell className="font-medium">{document.invoiceNumber || "-"}</TableCell>
+                <TableCell>{format(new Date(document.invoiceDate), "MMM d, yyyy")}</TableCell>
+                <TableCell>
+                  <div>{document.customerName}</div>
+                  {showGstin && <div className="text-xs text-secondary-500">{document.customerGstin}</div>}
+                </TableCell>
+                <TableCell>{document.placeOfSupply ? formatStateCode(document.placeOfSupply) : "-"}</TableCell>
+                <TableCell className="text-right">
+                  {document.gstRate}%
+                  {document.gstRateVersion && (
+                    <div className="text-xs text-secondary-500" title={formatRateVersion(document.gstRateVersion)}>
+                      from {format(new Date(document.gstRateVersion.effectiveFrom), "MMM d, yyyy")}
+                    </div>
+                  )}
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatIndianCurrency(document.taxableValue)}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {formatIndianCurrency(document.cgst + document.sgst + document.igst)}
+                  <div className="text-xs text-secondary-500">{document.isInterState ? "IGST" : "CGST + SGST"}</div>
+                </TableCell>
+                <TableCell className="text-right font-mono">{formatIndianCurrency(document.invoiceValue)}</TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {document.issues.map((issue) => (
+                      <Badge key={issue} variant="outline" className="bg-amber-100 text-amber-800">
+                        {GSTR1_ISSUE_LABELS[issue]}
+                      </Badge>
+                    ))}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// GSTR-1 working report for a month, with its portal JSON and Excel exports
+export default function Gstr1() {
+  const [period, setPeriod] = useState(format(new Date(), "yyyy-MM"));
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const { toast } = useToast();
+  const { can, isUnitScoped } = usePermissions();
+  const { downloadFile, isDownloading } = useDownload();
+
+  const unitQuery = unitFilter === "all" ? "" : `&productionUnitId=${unitFilter}`;
+
+  const { data: report, isLoading } = useQuery<Gstr1Report>({
+    queryKey: [`/api/gst/gstr1?period=${period}${unitQuery}`],
+    enabled: isValidTaxPeriod(period),
+  });
+
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Saves the workbook to the reports list and downloads it
+  const excelMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/gst/gstr1/excel", {
+        period,
+        productionUnitId: unitFilter === "all" ? undefined : parseInt(unitFilter),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: "GSTR-1 workbook generated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      if (data.downloadUrl) {
+        downloadFile(data.downloadUrl);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to generate GSTR-1: ${error.message}`,
+      });
+    },
+  });
+
+  // Flagged rows would be filed incomplete, so exporting them takes a confirmation
+  const confirmExport = () =>
+    !report?.flaggedCount ||
+    window.confirm(`${report.flaggedCount} row(s) are flagged and would be exported as they are. Export anyway?`);
+
+  const handleExportJson = () => {
+    if (confirmExport()) {
+      downloadFile(`/api/gst/gstr1/json?period=${period}${unitQuery}`);
+    }
+  };
+
+  const handleExportExcel = () => {
+    if (confirmExport()) {
+      excelMutation.mutate();
+    }
+  };
+
+  // The portal takes one return per GSTIN
+  const jsonBlockedReason = !report
+    ? undefined
+    : report.sellerGstins.length === 0
+    ? "None of these production units has a GSTIN"
+    : report.sellerGstins.length > 1
+    ? "These production units file under different GSTINs; choose one unit"
+    : undefined;
+
+  const sectionDocuments = (section: "b2b" | "b2cl") =>
+    report?.documents.filter((document) => document.section === section) || [];
+  const flaggedDocuments = report?.documents.filter((document) => document.issues.length > 0) || [];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">GSTR-1</h1>
+          <p className="text-sm text-secondary-500">
+            Outward supplies for the month from the revenue ledger, using issued tax invoices where there are any.
+          </p>
+        </div>
+        {can("gst_returns", "export") && (
+          <div className="flex space-x-2">
+            <Button
+              variant="outline"
+              onClick={handleExportJson}
+              disabled={!report || !!jsonBlockedReason || isDownloading}
+              title={jsonBlockedReason}
+            >
+              <FileJson className="h-4 w-4 mr-2" />
+              Export JSON
+            </Button>
+            <Button onClick={handleExportExcel} disabled={!report || excelMutation.isPending}>
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              {excelMutation.isPending ? "Generating..." : "Export to Excel"}
+            </Button>
+          </div>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="gstr1-period" className="mb-1 block">Tax Period</Label>
+              <Input
+                id="gstr1-period"
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+              />
+            </div>
+            {!isUnitScoped && (
+              <div>
+                <Label className="mb-1 block">Production Unit</Label>
+                <Select value={unitFilter} onValueChange={setUnitFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All units</SelectItem>
+                    {productionUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                        {unit.gstin ? ` (${unit.gstin})` : ""}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+          {jsonBlockedReason && (
+            <p className="text-sm text-secondary-500 mt-3">{jsonBlockedReason} to export the portal JSON.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {isLoading || !report ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {([
+              ["Taxable Value", report.totals.taxableValue],
+              ["CGST", report.totals.cgst],
+              ["SGST", report.totals.sgst],
+              ["IGST", report.totals.igst],
+            ] as [string, number][]).map(([label, value]) => (
+              <Card key={label}>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-secondary-500">{label}</p>
+                  <p className="text-xl font-semibold font-mono mt-1">{formatIndianCurrency(value)}</p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm font-medium text-secondary-500">Flagged Rows</p>
+                <p className={cn("text-xl font-semibold mt-1", report.flaggedCount > 0 && "text-amber-600")}>
+                  {report.flaggedCount} of {report.documents.length}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          {flaggedDocuments.length > 0 && (
+            <Card className="border-amber-300">
+              <CardHeader>
+                <CardTitle className="text-base flex items-center">
+                  <AlertTriangle className="h-4 w-4 mr-2 text-amber-600" />
+                  Fix Before Filing
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <DocumentsTable documents={flaggedDocuments} showGstin />
+              </CardContent>
+            </Card>
+          )}
+
+          <Tabs defaultValue="b2b" className="space-y-4">
+            <TabsList>
+              <TabsTrigger value="b2b">
+                {GSTR1_SECTION_LABELS.b2b} ({sectionDocuments("b2b").length})
+              </TabsTrigger>
+              <TabsTrigger value="b2cl">
+                {GSTR1_SECTION_LABELS.b2cl} ({sectionDocuments("b2cl").length})
+              </TabsTrigger>
+              <TabsTrigger value="b2cs">
+                {GSTR1_SECTION_LABELS.b2cs} ({report.b2cs.length})
+              </TabsTrigger>
+              <TabsTrigger value="hsn">HSN Summary ({report.hsn.length})</TabsTrigger>
+            </TabsList>
+
+            <TabsContent value="b2b">
+              <DocumentsTable documents={sectionDocuments("b2b")} showGstin />
+            </TabsContent>
+
+            <TabsContent value="b2cl">
+              <DocumentsTable documents={sectionDocuments("b2cl")} showGstin={false} />
+            </TabsContent>
+
+            <TabsContent value="b2cs">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Place of Supply</TableHead>
+                      <TableHead>Supply Type</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.b2cs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          No small B2C supplies
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      report.b2cs.map((row) => (
+                        <TableRow key={`${row.placeOfSupply}|${row.gstRate}|${row.isInterState}`}>
+                          <TableCell>{row.placeOfSupply ? formatStateCode(row.placeOfSupply) : "-"}</TableCell>
+                          <TableCell>{row.isInterState ? "Inter-state" : "Intra-state"}</TableCell>
+                          <TableCell className="text-right">{row.gstRate}%</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.taxableValue)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.cgst)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.sgst)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.igst)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+
+            <TabsContent value="hsn">
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>HSN/SAC</TableHead>
+                      <TableHead className="text-right">Rate</TableHead>
+                      <TableHead className="text-right">Taxable Value</TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                      <TableHead className="text-right">Total Value</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.hsn.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="h-24 text-center">
+                          No supplies in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      report.hsn.map((row) => (
+                        <TableRow key={`${row.hsn}@${row.gstRate}`} className={cn(row.hsn === "-" && "bg-amber-50")}>
+                          <TableCell className="font-medium">{row.hsn === "-" ? "No HSN/SAC" : row.hsn}</TableCell>
+                          <TableCell className="text-right">{row.gstRate}%</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.taxableValue)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.cgst)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.sgst)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.igst)}</TableCell>
+                          <TableCell className="text-right font-mono">{formatIndianCurrency(row.totalValue)}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </TabsContent>
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
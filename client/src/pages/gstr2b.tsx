@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format, parseISO } from "date-fns";
+import { Upload } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useFileUpload } from "@/hooks/use-file-upload";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { Gstr2bMismatch, Gstr2bReconciliation, Gstr2bRow, ProductionUnit, gstr2bMatchStatuses } from "@shared/schema";
+import { GSTR2B_STATUS_LABELS, isValidTaxPeriod } from "@shared/gst-returns";
+
+const MISMATCH_LABELS: Record<Gstr2bMismatch, string> = {
+  date: "Date differs",
+  tax: "Tax differs",
+};
+
+function formatDate(date: Date | string) {
+  return format(new Date(date), "MMM d, yyyy");
+}
+
+function ReconciliationTable({ rows }: { rows: Gstr2bRow[] }) {
+  return (
+    <div className="rounded-md border">
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Supplier</TableHead>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Date in 2B</TableHead>
+            <TableHead>Date in Books</TableHead>
+            <TableHead className="text-right">Tax in 2B</TableHead>
+            <TableHead className="text-right">Tax in Books</TableHead>
+            <TableHead className="text-right">Difference</TableHead>
+            <TableHead>Notes</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {rows.length === 0 ? (
+            <TableRow>
+              <TableCell colSpan={8} className="h-24 text-center">
+                No invoices
+              </TableCell>
+            </TableRow>
+          ) : (
+            rows.map((row) => (
+              <TableRow key={`${row.portal ? "2b" : "books"}-${row.supplierGstin}-${row.invoiceNumber}-${row.book?.expenseId ?? ""}`}>
+                <TableCell>
+                  <div className="font-medium">
+                    {row.book ? (
+                      <Link href={`/suppliers/${row.book.supplierId}`} className="hover:underline">
+                        {row.supplierName}
+                      </Link>
+                    ) : (
+                      row.supplierName || "-"
+                    )}
+                  </div>
+                  <div className="text-xs font-mono text-secondary-500">{row.supplierGstin}</div>
+                </TableCell>
+                <TableCell>
+                  <div>{row.invoiceNumber || "-"}</div>
+                  {row.book && (
+                    <div className="text-xs text-secondary-500">{row.book.description}</div>
+                  )}
+                </TableCell>
+                <TableCell>{row.portal ? formatDate(parseISO(row.portal.invoiceDate)) : "-"}</TableCell>
+                <TableCell>{row.book ? formatDate(row.book.date) : "-"}</TableCell>
+                <TableCell className="text-right font-mono">
+                  {row.portal ? formatIndianCurrency(row.portal.igst + row.portal.cgst + row.portal.sgst) : "-"}
+                </TableCell>
+                <TableCell className="text-right font-mono">
+                  {row.book ? formatIndianCurrency(row.book.gstAmount) : "-"}
+                </TableCell>
+                <TableCell className={cn("text-right font-mono", row.taxDifference < 0 && "text-red-600")}>
+                  {formatIndianCurrency(row.taxDifference)}
+                </TableCell>
+                <TableCell>
+                  <div className="flex flex-wrap gap-1">
+                    {row.mismatches.map((mismatch) => (
+                      <Badge key={mismatch} variant="outline" className="bg-amber-100 text-amber-800">
+                        {MISMATCH_LABELS[mismatch]}
+                      </Badge>
+                    ))}
+                    {row.portal && !row.portal.itcAvailable && (
+                      <Badge variant="destructive">ITC not available</Badge>
+                    )}
+                  </div>
+                </TableCell>
+              </TableRow>
+            ))
+          )}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+// GSTR-2B reconciliation: the purchase invoices suppliers filed against the expenses booked
+export default function Gstr2b() {
+  const [period, setPeriod] = useState(format(new Date(), "yyyy-MM"));
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [reconciliation, setReconciliation] = useState<Gstr2bReconciliation | null>(null);
+  const { isUnitScoped } = usePermissions();
+
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  const { uploadFile, isUploading, progress } = useFileUpload({
+    url: "/api/gst/gstr2b/reconcile",
+    additionalData: {
+      period,
+      ...(unitFilter === "all" ? {} : { productionUnitId: unitFilter }),
+    },
+    onSuccess: (data) => setReconciliation(data),
+  });
+
+  // A reconciliation only holds for the period and unit it was run for
+  const handlePeriodChange = (value: string) => {
+    setPeriod(value);
+    setReconciliation(null);
+  };
+
+  const handleUnitChange = (value: string) => {
+    setUnitFilter(value);
+    setReconciliation(null);
+  };
+
+  const handleReconcile = async () => {
+    if (!selectedFile) return;
+    // Failures are already reported by the upload hook's toast
+    await uploadFile(selectedFile).catch(() => undefined);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">GSTR-2B Reconciliation</h1>
+        <p className="text-sm text-secondary-500">
+          Upload the GSTR-2B JSON or Excel downloaded from the GST portal to match it against expenses billed by
+          suppliers with a GSTIN. Don't claim credit on invoices missing in 2B until the supplier files them.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="gstr2b-period" className="mb-1 block">Tax Period</Label>
+              <Input
+                id="gstr2b-period"
+                type="month"
+                value={period}
+                onChange={(e) => handlePeriodChange(e.target.value)}
+              />
+            </div>
+            {!isUnitScoped && (
+              <div>
+                <Label className="mb-1 block">Production Unit</Label>
+                <Select value={unitFilter} onValueChange={handleUnitChange}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All units</SelectItem>
+                    {productionUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label htmlFor="gstr2b-file" className="mb-1 block">GSTR-2B File</Label>
+              <Input
+                id="gstr2b-file"
+                type="file"
+                accept=".json,.xlsx"
+                onChange={(e) => setSelectedFile(e.target.files?.[0] || null)}
+              />
+            </div>
+          </div>
+          <div className="flex items-center justify-end gap-4">
+            {isUploading && <Progress value={progress} className="w-48" />}
+            <Button
+              onClick={handleReconcile}
+              disabled={!selectedFile || !isValidTaxPeriod(period) || isUploading}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {isUploading ? "Reconciling..." : "Reconcile"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {reconciliation && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {gstr2bMatchStatuses.map((status) => (
+              <Card key={status}>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-secondary-500">{GSTR2B_STATUS_LABELS[status]}</p>
+                  <p className="text-xl font-semibold mt-1">{reconciliation.counts[status]}</p>
+                </CardContent>
+              </Card>
+            ))}
+            <Card>
+              <CardContent className="p-4">
+                <p className="text-sm font-medium text-secondary-500">ITC at Risk</p>
+                <p className={cn("text-xl font-semibold font-mono mt-1", reconciliation.itcAtRisk > 0 && "text-red-600")}>
+                  {formatIndianCurrency(reconciliation.itcAtRisk)}
+                </p>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Tabs defaultValue="mismatched" className="space-y-4">
+            <TabsList>
+              {gstr2bMatchStatuses.map((status) => (
+                <TabsTrigger key={status} value={status}>
+                  {GSTR2B_STATUS_LABELS[status]} ({reconciliation.counts[status]})
+                </TabsTrigger>
+              ))}
+            </TabsList>
+            {gstr2bMatchStatuses.map((status) => (
+              <TabsContent key={status} value={status}>
+                <ReconciliationTable rows={reconciliation.rows.filter((row) => row.status === status)} />
+              </TabsContent>
+            ))}
+          </Tabs>
+        </>
+      )}
+    </div>
+  );
+}
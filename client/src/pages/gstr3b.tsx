@@ -0,0 +1,312 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDownload } from "@/hooks/use-download";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { GstTaxHeads, Gstr3bReport, ProductionUnit } from "@shared/schema";
+import { ITC_BLOCK_REASON_LABELS, isValidTaxPeriod } from "@shared/gst-returns";
+import { formatRateVersion } from "@shared/tax-master";
+
+const TAX_HEADS: (keyof GstTaxHeads)[] = ["cgst", "sgst", "igst"];
+
+const sumHeads = (tax: GstTaxHeads) => tax.cgst + tax.sgst + tax.igst;
+
+// GSTR-3B working for a month: output tax, input tax credit and what is left to pay
+export default function Gstr3b() {
+  const [period, setPeriod] = useState(format(new Date(), "yyyy-MM"));
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const { toast } = useToast();
+  const { can, isUnitScoped } = usePermissions();
+  const { downloadFile } = useDownload();
+
+  const unitQuery = unitFilter === "all" ? "" : `&productionUnitId=${unitFilter}`;
+
+  const { data: report, isLoading } = useQuery<Gstr3bReport>({
+    queryKey: [`/api/gst/gstr3b?period=${period}${unitQuery}`],
+    enabled: isValidTaxPeriod(period),
+  });
+
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Saves the working to the reports list as an Excel file and downloads it
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reports/generate", {
+        type: "gstr3b",
+        period,
+        productionUnitId: unitFilter === "all" ? undefined : parseInt(unitFilter),
+      });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: "GSTR-3B report generated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      if (data.downloadUrl) {
+        downloadFile(data.downloadUrl);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to generate report: ${error.message}`,
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">GSTR-3B</h1>
+          <p className="text-sm text-secondary-500">
+            Output tax on the month's sales less input tax credit on its expenses. Blocked categories such
+            as salaries, and bills from suppliers without a GSTIN, earn no credit.
+          </p>
+        </div>
+        {can("gst_returns", "export") && can("reports", "create") && (
+          <Button onClick={() => exportMutation.mutate()} disabled={!report || exportMutation.isPending}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {exportMutation.isPending ? "Generating..." : "Export to Excel"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="gstr3b-period" className="mb-1 block">Tax Period</Label>
+              <Input
+                id="gstr3b-period"
+                type="month"
+                value={period}
+                onChange={(e) => setPeriod(e.target.value)}
+              />
+            </div>
+            {!isUnitScoped && (
+              <div>
+                <Label className="mb-1 block">Production Unit</Label>
+                <Select value={unitFilter} onValueChange={setUnitFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All units</SelectItem>
+                    {productionUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading || !report ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {([
+              ["Output Tax", sumHeads(report.outputTax), ""],
+              ["Eligible ITC", sumHeads(report.eligibleItc), "text-green-600"],
+              ["Payable in Cash", sumHeads(report.payable), "text-red-600"],
+              ["Credit Carried Forward", sumHeads(report.creditCarriedForward), ""],
+            ] as [string, number, string][]).map(([label, value, color]) => (
+              <Card key={label}>
+                <CardContent className="p-4">
+                  <p className="text-sm font-medium text-secondary-500">{label}</p>
+                  <p className={cn("text-xl font-semibold font-mono mt-1", value > 0 && color)}>
+                    {formatIndianCurrency(value)}
+                  </p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">By Rate Slab</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Rate</TableHead>
+                      <TableHead className="text-right">Outward Taxable</TableHead>
+                      <TableHead className="text-right">Output Tax</TableHead>
+                      <TableHead className="text-right">Inward Taxable</TableHead>
+                      <TableHead className="text-right">Eligible ITC</TableHead>
+                      <TableHead className="text-right">Net</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {report.slabs.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={6} className="h-24 text-center">
+                          No taxable sales or purchases in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      report.slabs.map((slab) => {
+                        const net = sumHeads(slab.net);
+
+                        return (
+                          <TableRow key={slab.gstRate}>
+                            <TableCell className="font-medium">
+                              {slab.gstRate}%
+                              {slab.rateVersions.map((version) => (
+                                <div key={version.id} className="text-xs font-normal text-secondary-500" title={formatRateVersion(version)}>
+                                  from {format(new Date(version.effectiveFrom), "MMM d, yyyy")}
+                                </div>
+                              ))}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatIndianCurrency(slab.outwardTaxableValue)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatIndianCurrency(sumHeads(slab.outputTax))}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatIndianCurrency(slab.inwardTaxableValue)}
+                            </TableCell>
+                            <TableCell className="text-right font-mono">
+                              {formatIndianCurrency(sumHeads(slab.eligibleItc))}
+                            </TableCell>
+                            <TableCell className={cn("text-right font-mono", net < 0 && "text-green-600")}>
+                              {formatIndianCurrency(net)}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })
+                    )}
+                  </TableBody>
+                </Table>
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card>
+            <CardHeader>
+              <CardTitle className="text-base">Set-off by Tax Head</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead></TableHead>
+                      <TableHead className="text-right">CGST</TableHead>
+                      <TableHead className="text-right">SGST</TableHead>
+                      <TableHead className="text-right">IGST</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {([
+                      ["Output Tax", report.outputTax],
+                      ["Eligible ITC", report.eligibleItc],
+                      ["Payable in Cash", report.payable],
+                      ["Credit Carried Forward", report.creditCarriedForward],
+                    ] as [string, GstTaxHeads][]).map(([label, tax]) => (
+                      <TableRow key={label}>
+                        <TableCell className="font-medium">{label}</TableCell>
+                        {TAX_HEADS.map((head) => (
+                          <TableCell key={head} className="text-right font-mono">
+                            {formatIndianCurrency(tax[head])}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              <p className="text-sm text-secondary-500 mt-2">
+                IGST credit is used first, against IGST and then CGST and SGST. CGST and SGST credit are
+                never used against each other.
+              </p>
+            </CardContent>
+          </Card>
+
+          {report.blockedExpenses.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-base">
+                  Blocked ITC ({formatIndianCurrency(report.blockedItc)})
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="rounded-md border">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Description</TableHead>
+                        <TableHead>Category</TableHead>
+                        <TableHead>Reason</TableHead>
+                        <TableHead className="text-right">GST</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.blockedExpenses.map((expense) => (
+                        <TableRow key={expense.expenseId}>
+                          <TableCell>{format(new Date(expense.date), "MMM d, yyyy")}</TableCell>
+                          <TableCell>{expense.description}</TableCell>
+                          <TableCell>
+                            {expense.category}
+                            {expense.gstRateVersion && (
+                              <div className="text-xs text-secondary-500">
+                                Rate change: {formatRateVersion(expense.gstRateVersion)}
+                              </div>
+                            )}
+                          </TableCell>
+                          <TableCell>{ITC_BLOCK_REASON_LABELS[expense.reason]}</TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatIndianCurrency(expense.gstAmount)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
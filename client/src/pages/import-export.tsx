@@ -4,17 +4,24 @@ import { useFileUpload } from "@/hooks/use-file-upload";
 import { useDownload } from "@/hooks/use-download";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
-import { FileUpload } from "@/components/import-export/file-upload";
-import { FileDownload } from "@/components/import-export/file-download";
+import { FileUpload, IMPORT_TYPES } from "@/components/import-export/file-upload";
+import { FileDownload, EXPORT_TYPES } from "@/components/import-export/file-download";
 import { Progress } from "@/components/ui/progress";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { FileSpreadsheet, Upload, Download, AlertCircle } from "lucide-react";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { usePermissions } from "@/hooks/use-permissions";
 
 export default function ImportExport() {
   const { toast } = useToast();
-  const [importType, setImportType] = useState("production_units");
-  const [exportType, setExportType] = useState("production_units");
+  const { can, isUnitScoped } = usePermissions();
+
+  // Imported rows may belong to any unit, so unit-scoped users can't import
+  const importTypes = isUnitScoped ? [] : IMPORT_TYPES.filter((type) => can(type.value, "create"));
+  const exportTypes = EXPORT_TYPES.filter((type) => can(type.value, "export"));
+
+  const [importType, setImportType] = useState<string>(importTypes[0]?.value ?? "production_units");
+  const [exportType, setExportType] = useState<string>(exportTypes[0]?.value ?? "production_units");
 
   // File upload for import
   const { uploadFile, isUploading, progress } = useFileUpload({
@@ -75,10 +82,10 @@ export default function ImportExport() {
         </AlertDescription>
       </Alert>
 
-      <Tabs defaultValue="import" className="space-y-4">
+      <Tabs defaultValue={importTypes.length > 0 ? "import" : "export"} className="space-y-4">
         <TabsList>
-          <TabsTrigger value="import">Import</TabsTrigger>
-          <TabsTrigger value="export">Export</TabsTrigger>
+          {importTypes.length > 0 && <TabsTrigger value="import">Import</TabsTrigger>}
+          {exportTypes.length > 0 && <TabsTrigger value="export">Export</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="import" className="space-y-4">
@@ -12,6 +12,7 @@ import {
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Plus, Filter } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { InventoryForm } from "@/components/forms/inventory-form";
@@ -32,6 +33,7 @@ export default function Inventory() {
   const [editItem, setEditItem] = useState<InventoryItem | null>(null);
   const [unitFilter, setUnitFilter] = useState<string>("all");
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   // Fetch inventory items
   const { data: inventoryItems, isLoading: inventoryLoading } = useQuery<InventoryItem[]>({
@@ -183,12 +185,14 @@ export default function Inventory() {
           </DropdownMenu>
 
           <Dialog open={openDialog} onOpenChange={setOpenDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Inventory Item
-              </Button>
-            </DialogTrigger>
+            {can("inventory", "create") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Inventory Item
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[425px]">
               <DialogHeader>
                 <DialogTitle>
@@ -224,8 +228,8 @@ export default function Inventory() {
             <InventoryTable
               inventoryItems={filteredItems || []}
               productionUnits={productionUnits || []}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
+              onEdit={can("inventory", "update") ? handleEdit : undefined}
+              onDelete={can("inventory", "delete") ? handleDelete : undefined}
             />
           )}
         </CardContent>
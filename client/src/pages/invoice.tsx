@@ -0,0 +1,232 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useDownload } from "@/hooks/use-download";
+import { Invoice } from "@shared/schema";
+import { amountInWords, formatStateCode, getStateCodeFromGSTIN } from "@shared/gst-utils";
+import { parseInvoiceLines, summarizeByHsn } from "@shared/invoices";
+
+function formatAmount(amount: number | string) {
+  return Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+// Print view of a tax invoice; everything but the invoice is hidden when printing
+export default function InvoicePage() {
+  const { id } = useParams<{ id: string }>();
+  const { downloadFile, isDownloading } = useDownload();
+
+  const { data: invoice, isLoading, error } = useQuery<Invoice>({
+    queryKey: [`/api/invoices/${id}`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !invoice) {
+    return (
+      <div className="space-y-6">
+        <Link href="/invoices">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Invoices
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="p-6 text-center text-secondary-500">Invoice not found</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const lines = parseInvoiceLines(invoice.lines);
+  const sellerState = getStateCodeFromGSTIN(invoice.sellerGstin);
+  const buyerState = getStateCodeFromGSTIN(invoice.buyerGstin);
+  const taxLabels = invoice.isInterState ? ["IGST"] : ["CGST", "SGST"];
+
+  const details: [string, string][] = [
+    ["Invoice No.", invoice.invoiceNumber],
+    ["Invoice Date", format(new Date(invoice.invoiceDate), "dd MMM yyyy")],
+    ["Place of Supply", formatStateCode(invoice.placeOfSupply)],
+    ["Reverse Charge", "No"],
+  ];
+
+  const totals: [string, string][] = [
+    ["Taxable Value", invoice.taxableValue],
+    ...(invoice.isInterState
+      ? [["IGST", invoice.igstAmount] as [string, string]]
+      : [["CGST", invoice.cgstAmount], ["SGST", invoice.sgstAmount]] as [string, string][]),
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center print:hidden">
+        <Link href="/invoices">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Invoices
+          </Button>
+        </Link>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            disabled={isDownloading}
+            onClick={() => downloadFile(`/api/invoices/${invoice.id}/pdf`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-md p-8 max-w-4xl mx-auto text-black print:border-0 print:p-0 print:max-w-none">
+        <div className="relative text-center">
+          <h1 className="text-3xl font-bold tracking-wide">TAX INVOICE</h1>
+          {invoice.status === "cancelled" && (
+            <span className="absolute right-0 top-1 border-2 border-red-600 text-red-600 font-bold px-2">
+              CANCELLED
+            </span>
+          )}
+        </div>
+
+        {/* Seller and invoice details */}
+        <div className="grid grid-cols-2 gap-8 mt-6 text-sm">
+          <div>
+            <p className="text-base font-bold">{invoice.sellerName}</p>
+            {invoice.sellerAddress && <p className="whitespace-pre-line">{invoice.sellerAddress}</p>}
+            <p>GSTIN: {invoice.sellerGstin}</p>
+            {sellerState && <p>State: {formatStateCode(sellerState)}</p>}
+          </div>
+          <div className="space-y-1">
+            {details.map(([label, value]) => (
+              <div key={label} className="flex">
+                <span className="font-semibold w-32 shrink-0">{label}:</span>
+                <span>{value}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        <div className="border-t border-black mt-4 pt-3 text-sm">
+          <p className="text-xs font-semibold">Bill To</p>
+          <p className="text-base font-bold">{invoice.buyerName}</p>
+          {invoice.buyerAddress && <p className="whitespace-pre-line">{invoice.buyerAddress}</p>}
+          <p>GSTIN: {invoice.buyerGstin || "Unregistered"}</p>
+          {buyerState && <p>State: {formatStateCode(buyerState)}</p>}
+        </div>
+
+        <table className="w-full mt-6 text-sm border-collapse">
+          <thead>
+            <tr className="border-y border-black">
+              <th className="text-left py-1.5 pr-2">#</th>
+              <th className="text-left py-1.5 pr-2">Description</th>
+              <th className="text-left py-1.5 pr-2">HSN/SAC</th>
+              <th className="text-right py-1.5 pr-2">Taxable Value</th>
+              <th className="text-right py-1.5 pr-2">Rate</th>
+              {taxLabels.map((label) => (
+                <th key={label} className="text-right py-1.5 pr-2">{label}</th>
+              ))}
+              <th className="text-right py-1.5">Total</th>
+            </tr>
+          </thead>
+          <tbody>
+            {lines.map((line, index) => (
+              <tr key={index} className="border-b border-black">
+                <td className="py-1.5 pr-2 align-top">{index + 1}</td>
+                <td className="py-1.5 pr-2">{line.description}</td>
+                <td className="py-1.5 pr-2">{line.hsn || "-"}</td>
+                <td className="text-right font-mono py-1.5 pr-2">{formatAmount(line.taxableValue)}</td>
+                <td className="text-right py-1.5 pr-2">{line.gstRate}%</td>
+                {invoice.isInterState ? (
+                  <td className="text-right font-mono py-1.5 pr-2">{formatAmount(line.igst)}</td>
+                ) : (
+                  <>
+                    <td className="text-right font-mono py-1.5 pr-2">{formatAmount(line.cgst)}</td>
+                    <td className="text-right font-mono py-1.5 pr-2">{formatAmount(line.sgst)}</td>
+                  </>
+                )}
+                <td className="text-right font-mono py-1.5">{formatAmount(line.total)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        <div className="flex justify-end mt-4">
+          <div className="w-72 text-sm space-y-1">
+            {totals.map(([label, value]) => (
+              <div key={label} className="flex justify-between">
+                <span>{label}</span>
+                <span className="font-mono">{formatAmount(value)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between font-bold border-t border-black pt-1">
+              <span>Invoice Total (Rs.)</span>
+              <span className="font-mono">{formatAmount(invoice.totalAmount)}</span>
+            </div>
+          </div>
+        </div>
+
+        <p className="text-sm font-semibold mt-4">
+          Amount in words: {amountInWords(parseFloat(invoice.totalAmount))}
+        </p>
+
+        <h2 className="text-base font-bold border-b border-black pb-1 mt-8 mb-2">HSN/SAC Summary</h2>
+        <table className="w-full text-sm border-collapse">
+          <thead>
+            <tr className="border-b border-black">
+              <th className="text-left py-1.5 pr-2">HSN/SAC</th>
+              <th className="text-right py-1.5 pr-2">Taxable Value</th>
+              <th className="text-right py-1.5 pr-2">Rate</th>
+              {taxLabels.map((label) => (
+                <th key={label} className="text-right py-1.5 pr-2">{label}</th>
+              ))}
+              <th className="text-right py-1.5">Total Tax</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summarizeByHsn(lines).map((row) => (
+              <tr key={`${row.hsn}@${row.gstRate}`} className="border-b border-black">
+                <td className="py-1.5 pr-2">{row.hsn}</td>
+                <td className="text-right font-mono py-1.5 pr-2">{formatAmount(row.taxableValue)}</td>
+                <td className="text-right py-1.5 pr-2">{row.gstRate}%</td>
+                {invoice.isInterState ? (
+                  <td className="text-right font-mono py-1.5 pr-2">{formatAmount(row.igst)}</td>
+                ) : (
+                  <>
+                    <td className="text-right font-mono py-1.5 pr-2">{formatAmount(row.cgst)}</td>
+                    <td className="text-right font-mono py-1.5 pr-2">{formatAmount(row.sgst)}</td>
+                  </>
+                )}
+                <td className="text-right font-mono py-1.5">{formatAmount(row.totalTax)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+
+        {invoice.status === "cancelled" && invoice.cancelReason && (
+          <p className="text-xs mt-4">Cancelled: {invoice.cancelReason}</p>
+        )}
+
+        <div className="flex justify-end mt-12 text-sm">
+          <div className="text-right">
+            <p className="font-bold">For {invoice.sellerName}</p>
+            <div className="border-t border-black w-48 mt-12 pt-1 text-xs">Authorised Signatory</div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
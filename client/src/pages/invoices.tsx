@@ -0,0 +1,288 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Ban, Download, Eye } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDownload } from "@/hooks/use-download";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { Invoice, ProductionUnit } from "@shared/schema";
+
+export default function Invoices() {
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const [statusFilter, setStatusFilter] = useState<string>("all");
+  const [cancelInvoice, setCancelInvoice] = useState<Invoice | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const { toast } = useToast();
+  const { can, isUnitScoped } = usePermissions();
+  const { downloadFile, isDownloading } = useDownload();
+
+  const { data: invoices, isLoading } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+  });
+
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Cancelling frees the order or revenue to be edited and invoiced again
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: number; reason: string }) => {
+      const response = await apiRequest("POST", `/api/invoices/${id}/cancel`, { reason });
+      return response.json();
+    },
+    onSuccess: (invoice: Invoice) => {
+      toast({
+        title: "Success",
+        description: `Invoice ${invoice.invoiceNumber} cancelled`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/invoices"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/invoices/${invoice.id}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/revenues"] });
+      closeCancelDialog();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to cancel invoice: ${error.message}`,
+      });
+    },
+  });
+
+  const closeCancelDialog = () => {
+    setCancelInvoice(null);
+    setCancelReason("");
+  };
+
+  const getUnitName = (unitId: number) =>
+    productionUnits?.find((unit) => unit.id === unitId)?.name || "Unknown Unit";
+
+  // Newest first, as numbers only grow within a unit's series
+  const filteredInvoices = (invoices || [])
+    .filter((invoice) => unitFilter === "all" || invoice.productionUnitId.toString() === unitFilter)
+    .filter((invoice) => statusFilter === "all" || invoice.status === statusFilter)
+    .sort((a, b) => new Date(b.invoiceDate).getTime() - new Date(a.invoiceDate).getTime() || b.id - a.id);
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Tax Invoices</h1>
+        <p className="text-sm text-secondary-500">
+          GST invoices issued from orders and revenue. Issue them from the Orders or Revenue page.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {!isUnitScoped && (
+              <div>
+                <Label className="mb-1 block">Production Unit</Label>
+                <Select value={unitFilter} onValueChange={setUnitFilter}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All units</SelectItem>
+                    {productionUnits?.map((unit) => (
+                      <SelectItem key={unit.id} value={unit.id.toString()}>
+                        {unit.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div>
+              <Label className="mb-1 block">Status</Label>
+              <Select value={statusFilter} onValueChange={setStatusFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All invoices</SelectItem>
+                  <SelectItem value="issued">Issued</SelectItem>
+                  <SelectItem value="cancelled">Cancelled</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardContent className="p-6">
+          {isLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <div className="rounded-md border">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Invoice</TableHead>
+                    <TableHead>Date</TableHead>
+                    <TableHead>Buyer</TableHead>
+                    <TableHead>Production Unit</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Taxable Value</TableHead>
+                    <TableHead className="text-right">GST</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredInvoices.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={9} className="h-24 text-center">
+                        No invoices found
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredInvoices.map((invoice) => {
+                      const tax =
+                        parseFloat(invoice.cgstAmount) +
+                        parseFloat(invoice.sgstAmount) +
+                        parseFloat(invoice.igstAmount);
+                      const isCancelled = invoice.status === "cancelled";
+
+                      return (
+                        <TableRow key={invoice.id} className={cn(isCancelled && "text-secondary-500")}>
+                          <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+                          <TableCell>{format(new Date(invoice.invoiceDate), "MMM d, yyyy")}</TableCell>
+                          <TableCell>
+                            <div>{invoice.buyerName}</div>
+                            <div className="text-xs text-secondary-500">
+                              {invoice.buyerGstin || "Unregistered"}
+                            </div>
+                          </TableCell>
+                          <TableCell>{getUnitName(invoice.productionUnitId)}</TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={isCancelled ? "bg-red-50 text-red-700" : "bg-green-50 text-green-700"}
+                              title={invoice.cancelReason || undefined}
+                            >
+                              {isCancelled ? "Cancelled" : "Issued"}
+                            </Badge>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatIndianCurrency(invoice.taxableValue)}
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatIndianCurrency(tax)}
+                            <div className="text-xs text-secondary-500">
+                              {invoice.isInterState ? "IGST" : "CGST + SGST"}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right font-mono">
+                            {formatIndianCurrency(invoice.totalAmount)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <div className="flex justify-end space-x-2">
+                              <Link href={`/invoices/${invoice.id}`}>
+                                <Button variant="ghost" size="icon" title="View invoice">
+                                  <Eye className="h-4 w-4" />
+                                </Button>
+                              </Link>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                title="Download PDF"
+                                disabled={isDownloading}
+                                onClick={() => downloadFile(`/api/invoices/${invoice.id}/pdf`)}
+                              >
+                                <Download className="h-4 w-4" />
+                              </Button>
+                              {can("invoices", "update") && !isCancelled && (
+                                <Button
+                                  variant="ghost"
+                                  size="icon"
+                                  title="Cancel invoice"
+                                  onClick={() => setCancelInvoice(invoice)}
+                                >
+                                  <Ban className="h-4 w-4" />
+                                </Button>
+                              )}
+                            </div>
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={cancelInvoice !== null} onOpenChange={(open) => !open && closeCancelDialog()}>
+        <DialogContent className="sm:max-w-[480px]">
+          <DialogHeader>
+            <DialogTitle>Cancel Invoice {cancelInvoice?.invoiceNumber}</DialogTitle>
+            <DialogDescription>
+              The invoice keeps its number and stays on record as cancelled. Its order or revenue can
+              then be corrected and invoiced again under a new number.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancel-reason">Reason</Label>
+            <Textarea
+              id="cancel-reason"
+              value={cancelReason}
+              onChange={(e) => setCancelReason(e.target.value)}
+              placeholder="Wrong amount billed"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={closeCancelDialog} disabled={cancelMutation.isPending}>
+              Keep Invoice
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={!cancelReason.trim() || cancelMutation.isPending}
+              onClick={() =>
+                cancelInvoice && cancelMutation.mutate({ id: cancelInvoice.id, reason: cancelReason.trim() })
+              }
+            >
+              {cancelMutation.isPending ? "Cancelling..." : "Cancel Invoice"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
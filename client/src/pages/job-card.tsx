@@ -0,0 +1,165 @@
+import { useQuery } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { OrderBarcode } from "@/components/orders/order-barcode";
+import { useDownload } from "@/hooks/use-download";
+import { JobCard } from "@shared/schema";
+import {
+  GARMENT_LABELS,
+  GARMENT_MEASUREMENT_FIELDS,
+  MEASUREMENT_UNIT_LABELS,
+} from "@shared/measurements";
+
+// Print view of an order's job card; everything but the card is hidden when printing
+export default function JobCardPage() {
+  const { id } = useParams<{ id: string }>();
+  const { downloadFile, isDownloading } = useDownload();
+
+  const { data: jobCard, isLoading, error } = useQuery<JobCard>({
+    queryKey: [`/api/orders/${id}/job-card`],
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-96 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !jobCard) {
+    return (
+      <div className="space-y-6">
+        <Link href="/stitching">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Stitching
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="p-6 text-center text-secondary-500">Order not found</CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { order, measurements } = jobCard;
+  const fields = measurements
+    ? GARMENT_MEASUREMENT_FIELDS[measurements.garmentType].filter(
+        (field) => measurements.values[field.key] !== undefined
+      )
+    : [];
+
+  const details: [string, string][] = [
+    ["Order No.", order.orderNumber],
+    ["Customer", jobCard.customerName],
+    ["Order Date", format(new Date(order.orderDate), "MMM d, yyyy")],
+    ["Phone", jobCard.customerPhone || "-"],
+    ["Due Date", order.deliveryDate ? format(new Date(order.deliveryDate), "EEE, MMM d, yyyy") : "Not set"],
+    ["Category", order.category],
+  ];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center print:hidden">
+        <Link href="/stitching">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Stitching
+          </Button>
+        </Link>
+        <div className="flex space-x-2">
+          <Button
+            variant="outline"
+            disabled={isDownloading}
+            onClick={() => downloadFile(`/api/orders/${order.id}/job-card/pdf`)}
+          >
+            <Download className="h-4 w-4 mr-2" />
+            Download PDF
+          </Button>
+          <Button onClick={() => window.print()}>
+            <Printer className="h-4 w-4 mr-2" />
+            Print
+          </Button>
+        </div>
+      </div>
+
+      <div className="bg-white border rounded-md p-8 max-w-3xl mx-auto text-black print:border-0 print:p-0 print:max-w-none">
+        <div className="flex justify-between items-start">
+          <div>
+            <h1 className="text-3xl font-bold tracking-wide">JOB CARD</h1>
+            <p className="text-sm mt-1">{jobCard.productionUnitName}</p>
+          </div>
+          <OrderBarcode orderNumber={order.orderNumber} />
+        </div>
+
+        <div className="grid grid-cols-2 gap-x-8 gap-y-2 mt-6 text-sm">
+          {details.map(([label, value]) => (
+            <div key={label} className="flex">
+              <span className="font-semibold w-24 shrink-0">{label}:</span>
+              <span>{value}</span>
+            </div>
+          ))}
+          {order.description && (
+            <div className="flex col-span-2">
+              <span className="font-semibold w-24 shrink-0">Description:</span>
+              <span>{order.description}</span>
+            </div>
+          )}
+        </div>
+
+        <h2 className="text-base font-bold border-b border-black pb-1 mt-8 mb-3">
+          Measurements
+          {measurements &&
+            ` - ${GARMENT_LABELS[measurements.garmentType]} (${MEASUREMENT_UNIT_LABELS[measurements.unit]})`}
+        </h2>
+        {fields.length === 0 ? (
+          <p className="text-sm">No measurements recorded</p>
+        ) : (
+          <>
+            <div className="grid grid-cols-3 border-l border-t border-black">
+              {fields.map((field) => (
+                <div
+                  key={field.key}
+                  className="flex justify-between items-center border-r border-b border-black px-2 py-1.5 text-sm"
+                >
+                  <span>{field.label}</span>
+                  <span className="font-mono font-bold text-base">
+                    {measurements!.values[field.key]}
+                  </span>
+                </div>
+              ))}
+            </div>
+            {measurements!.profileVersion && (
+              <p className="text-xs mt-1">
+                From saved measurements, version {measurements!.profileVersion}
+              </p>
+            )}
+          </>
+        )}
+
+        <h2 className="text-base font-bold border-b border-black pb-1 mt-8 mb-3">Fabric Details</h2>
+        <p className="text-sm whitespace-pre-line">{order.fabricDetails || "None"}</p>
+
+        <h2 className="text-base font-bold border-b border-black pb-1 mt-8 mb-3">
+          Special Instructions
+        </h2>
+        <p className="text-sm whitespace-pre-line">{order.specialInstructions || "None"}</p>
+
+        {/* Sign-off for each stage of work */}
+        <div className="grid grid-cols-4 gap-4 mt-16 text-xs">
+          {["Cut by", "Stitched by", "Finished by", "Checked by"].map((stage) => (
+            <div key={stage} className="border-t border-black pt-1">
+              {stage}
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
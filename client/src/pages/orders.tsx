@@ -0,0 +1,384 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Plus } from "lucide-react";
+import { invalidateDueOrders } from "@/hooks/use-due-orders";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { OrderForm } from "@/components/forms/order-form";
+import { OrdersTable } from "@/components/tables/orders-table";
+import { OrdersBoard } from "@/components/orders/orders-board";
+import { OrderHistorySheet } from "@/components/orders/order-history-sheet";
+import { OrderPaymentsSheet } from "@/components/orders/order-payments-sheet";
+import { IssueInvoiceDialog } from "@/components/invoices/issue-invoice-dialog";
+import { isOrderLocked } from "@shared/order-status";
+import { Customer, InsertOrder, Invoice, Order, OrderStatus, ProductionUnit } from "@shared/schema";
+
+export default function Orders() {
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editOrder, setEditOrder] = useState<Order | null>(null);
+  const [historyOrder, setHistoryOrder] = useState<Order | null>(null);
+  const [paymentsOrder, setPaymentsOrder] = useState<Order | null>(null);
+  const [invoiceOrder, setInvoiceOrder] = useState<Order | null>(null);
+  const [customerFilter, setCustomerFilter] = useState<string>("all");
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const [deliveryFrom, setDeliveryFrom] = useState("");
+  const [deliveryTo, setDeliveryTo] = useState("");
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch orders
+  const { data: orders, isLoading: ordersLoading } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+  });
+
+  // Fetch customers and production units for names, filters and the form
+  const { data: customers, isLoading: customersLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: productionUnits, isLoading: unitsLoading } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Issued invoices lock the billed details of their orders
+  const { data: invoices } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+    enabled: can("invoices", "view"),
+  });
+
+  const getIssuedInvoice = (order: Order) =>
+    invoices?.find((invoice) => invoice.orderId === order.id && invoice.status === "issued");
+
+  const invoiceCustomer = customers?.find((customer) => customer.id === invoiceOrder?.customerId);
+
+  // Orders also book revenue, so both lists change together
+  const invalidateOrderQueries = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/orders"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/revenues"] });
+    invalidateDueOrders();
+  };
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: async (data: InsertOrder) => {
+      const response = await apiRequest("POST", "/api/orders", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Order created successfully",
+      });
+      invalidateOrderQueries();
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to create order: ${error.message}`,
+      });
+    },
+  });
+
+  // Update mutation, also used when a card is moved on the board
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<InsertOrder>;
+    }) => {
+      const response = await apiRequest("PUT", `/api/orders/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      toast({
+        title: "Success",
+        description: "Order updated successfully",
+      });
+      invalidateOrderQueries();
+      queryClient.invalidateQueries({ queryKey: [`/api/orders/${id}/history`] });
+      setOpenDialog(false);
+      setEditOrder(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update order: ${error.message}`,
+      });
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/orders/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Order moved to the recycle bin",
+      });
+      invalidateOrderQueries();
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete order: ${error.message}`,
+      });
+    },
+  });
+
+  const handleEdit = (order: Order) => {
+    setEditOrder(order);
+    setOpenDialog(true);
+  };
+
+  // Cancelled orders are read-only, so their board cards open the timeline instead
+  const handleOpen = (order: Order) => {
+    if (isOrderLocked(order.status) || !can("orders", "update")) {
+      setHistoryOrder(order);
+    } else {
+      handleEdit(order);
+    }
+  };
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this order?")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleStatusChange = (order: Order, status: OrderStatus) => {
+    updateMutation.mutate({ id: order.id, data: { status } });
+  };
+
+  const handleSubmit = (data: InsertOrder) => {
+    if (editOrder) {
+      updateMutation.mutate({ id: editOrder.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpenDialog(false);
+    setEditOrder(null);
+  };
+
+  // Filter orders by customer, production unit and delivery date range
+  const filteredOrders = orders?.filter((order) => {
+    if (customerFilter !== "all" && order.customerId.toString() !== customerFilter) return false;
+    if (unitFilter !== "all" && order.productionUnitId.toString() !== unitFilter) return false;
+    if (deliveryFrom || deliveryTo) {
+      if (!order.deliveryDate) return false;
+      const deliveryDate = new Date(order.deliveryDate).toISOString().slice(0, 10);
+      if (deliveryFrom && deliveryDate < deliveryFrom) return false;
+      if (deliveryTo && deliveryDate > deliveryTo) return false;
+    }
+    return true;
+  });
+
+  const hasFilters = customerFilter !== "all" || unitFilter !== "all" || !!deliveryFrom || !!deliveryTo;
+
+  const clearFilters = () => {
+    setCustomerFilter("all");
+    setUnitFilter("all");
+    setDeliveryFrom("");
+    setDeliveryTo("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-secondary-900">Orders</h1>
+        <Dialog
+          open={openDialog}
+          onOpenChange={(open) => (open ? setOpenDialog(true) : handleDialogClose())}
+        >
+          {can("orders", "create") && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                New Order
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="sm:max-w-[720px] max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>{editOrder ? "Edit Order" : "New Order"}</DialogTitle>
+              <DialogDescription>
+                {editOrder
+                  ? `Update order ${editOrder.orderNumber}.`
+                  : "Record the customer's order, measurements and fabric."}
+              </DialogDescription>
+            </DialogHeader>
+            <OrderForm
+              onSubmit={handleSubmit}
+              order={editOrder}
+              customers={customers || []}
+              productionUnits={productionUnits || []}
+              invoiceNumber={editOrder ? getIssuedInvoice(editOrder)?.invoiceNumber : undefined}
+              isLoading={
+                createMutation.isPending ||
+                updateMutation.isPending ||
+                customersLoading ||
+                unitsLoading
+              }
+              onCancel={handleDialogClose}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Customer</Label>
+              <Select value={customerFilter} onValueChange={setCustomerFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Customers</SelectItem>
+                  {customers?.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Production Unit</Label>
+              <Select value={unitFilter} onValueChange={setUnitFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All Units</SelectItem>
+                  {productionUnits?.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id.toString()}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-from">Delivery From</Label>
+              <Input
+                id="delivery-from"
+                type="date"
+                value={deliveryFrom}
+                onChange={(e) => setDeliveryFrom(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="delivery-to">Delivery To</Label>
+              <Input
+                id="delivery-to"
+                type="date"
+                value={deliveryTo}
+                onChange={(e) => setDeliveryTo(e.target.value)}
+              />
+            </div>
+            <Button variant="outline" onClick={clearFilters} disabled={!hasFilters}>
+              Clear Filters
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <Tabs defaultValue="board" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="board">Board</TabsTrigger>
+          <TabsTrigger value="list">List</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="board">
+          {ordersLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <>
+              <OrdersBoard
+                orders={filteredOrders || []}
+                customers={customers || []}
+                onOpen={handleOpen}
+                onStatusChange={can("orders", "update") ? handleStatusChange : undefined}
+              />
+              {can("orders", "update") && (
+                <p className="text-sm text-secondary-500 mt-2">
+                  Drag a card to another column to move it along the workflow, or click it to edit the order.
+                </p>
+              )}
+            </>
+          )}
+        </TabsContent>
+
+        <TabsContent value="list">
+          <Card>
+            <CardContent className="p-6">
+              {ordersLoading ? (
+                <Skeleton className="h-64 w-full" />
+              ) : (
+                <OrdersTable
+                  orders={filteredOrders || []}
+                  customers={customers || []}
+                  productionUnits={productionUnits || []}
+                  onEdit={can("orders", "update") ? handleEdit : undefined}
+                  onDelete={can("orders", "delete") ? handleDelete : undefined}
+                  onHistory={setHistoryOrder}
+                  onPayments={can("payments", "view") ? setPaymentsOrder : undefined}
+                  invoices={invoices}
+                  onInvoice={can("invoices", "create") ? setInvoiceOrder : undefined}
+                />
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <OrderHistorySheet order={historyOrder} onClose={() => setHistoryOrder(null)} />
+      <OrderPaymentsSheet order={paymentsOrder} onClose={() => setPaymentsOrder(null)} />
+      <IssueInvoiceDialog
+        source={invoiceOrder ? { orderId: invoiceOrder.id } : null}
+        label={invoiceOrder ? `order ${invoiceOrder.orderNumber}` : undefined}
+        buyer={
+          invoiceCustomer
+            ? { name: invoiceCustomer.name, address: invoiceCustomer.address, gstin: invoiceCustomer.gstin }
+            : undefined
+        }
+        onClose={() => setInvoiceOrder(null)}
+      />
+    </div>
+  );
+}
@@ -12,23 +12,31 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { useToast } from "@/hooks/use-toast";
-import { Plus } from "lucide-react";
+import { usePermissions } from "@/hooks/use-permissions";
+import { AlertCircle, Plus } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { ProductionUnitForm } from "@/components/forms/production-unit-form";
 import { ProductionUnitsTable } from "@/components/tables/production-units-table";
-import { ProductionUnit } from "@shared/schema";
+import { CostDiscrepancy, ProductionUnit } from "@shared/schema";
 
 export default function ProductionUnits() {
   const [openDialog, setOpenDialog] = useState(false);
   const [editUnit, setEditUnit] = useState<ProductionUnit | null>(null);
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   // Fetch production units
   const { data: productionUnits, isLoading } = useQuery<ProductionUnit[]>({
     queryKey: ["/api/production-units"],
   });
 
+  // Units whose stored cost doesn't match their expense ledger
+  const { data: costDiscrepancies } = useQuery<CostDiscrepancy[]>({
+    queryKey: ["/api/production-units/cost-check"],
+  });
+
   // Create mutation
   const createMutation = useMutation({
     mutationFn: async (data: Omit<ProductionUnit, "id" | "createdAt" | "costToDate">) => {
@@ -103,6 +111,29 @@ export default function ProductionUnits() {
     },
   });
 
+  // Recalculate mutation
+  const recalculateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const response = await apiRequest("POST", `/api/production-units/${id}/recalculate`);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Cost to date recalculated from expenses",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/production-units"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/production-units/cost-check"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to recalculate cost: ${error.message}`,
+      });
+    },
+  });
+
   const handleEdit = (unit: ProductionUnit) => {
     setEditUnit(unit);
     setOpenDialog(true);
@@ -127,6 +158,15 @@ export default function ProductionUnits() {
     setEditUnit(null);
   };
 
+  // Row actions the user's role allows
+  const tableActions = {
+    onEdit: can("production_units", "update") ? handleEdit : undefined,
+    onDelete: can("production_units", "delete") ? handleDelete : undefined,
+    onRecalculate: can("production_units", "update")
+      ? (id: number) => recalculateMutation.mutate(id)
+      : undefined,
+  };
+
   const activeUnits = productionUnits?.filter(
     (unit) => unit.status === "active"
   ) || [];
@@ -142,12 +182,14 @@ export default function ProductionUnits() {
       <div className="flex justify-between items-center">
         <h1 className="text-2xl font-bold text-secondary-900">Production Units</h1>
         <Dialog open={openDialog} onOpenChange={setOpenDialog}>
-          <DialogTrigger asChild>
-            <Button>
-              <Plus className="h-4 w-4 mr-2" />
-              Add Production Unit
-            </Button>
-          </DialogTrigger>
+          {can("production_units", "create") && (
+            <DialogTrigger asChild>
+              <Button>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Production Unit
+              </Button>
+            </DialogTrigger>
+          )}
           <DialogContent className="sm:max-w-[425px]">
             <DialogHeader>
               <DialogTitle>
@@ -169,6 +211,18 @@ export default function ProductionUnits() {
         </Dialog>
       </div>
 
+      {costDiscrepancies && costDiscrepancies.length > 0 && (
+        <Alert variant="destructive">
+          <AlertCircle className="h-4 w-4" />
+          <AlertTitle>Cost to date out of sync</AlertTitle>
+          <AlertDescription>
+            {costDiscrepancies.map((discrepancy) => discrepancy.productionUnitName).join(", ")}{" "}
+            {costDiscrepancies.length === 1 ? "has" : "have"} a stored cost that differs from the
+            expense ledger. Use the recalculate action to fix it.
+          </AlertDescription>
+        </Alert>
+      )}
+
       <Tabs defaultValue="all" className="space-y-4">
         <TabsList>
           <TabsTrigger value="all">All Units</TabsTrigger>
@@ -185,8 +239,7 @@ export default function ProductionUnits() {
               ) : (
                 <ProductionUnitsTable
                   productionUnits={productionUnits || []}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
+                  {...tableActions}
                 />
               )}
             </CardContent>
@@ -201,8 +254,7 @@ export default function ProductionUnits() {
               ) : (
                 <ProductionUnitsTable
                   productionUnits={activeUnits}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
+                  {...tableActions}
                 />
               )}
             </CardContent>
@@ -217,8 +269,7 @@ export default function ProductionUnits() {
               ) : (
                 <ProductionUnitsTable
                   productionUnits={maintenanceUnits}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
+                  {...tableActions}
                 />
               )}
             </CardContent>
@@ -233,8 +284,7 @@ export default function ProductionUnits() {
               ) : (
                 <ProductionUnitsTable
                   productionUnits={inactiveUnits}
-                  onEdit={handleEdit}
-                  onDelete={handleDelete}
+                  {...tableActions}
                 />
               )}
             </CardContent>
@@ -10,6 +10,7 @@ import {
 import { Skeleton } from "@/components/ui/skeleton";
 import { ProfitLossPeriod, StatSummary } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import {
   Table,
   TableBody,
@@ -43,6 +44,7 @@ import { Button } from "@/components/ui/button";
 export default function ProfitLoss() {
   const [periodFilter, setPeriodFilter] = useState("6");
   const { toast } = useToast();
+  const { can } = usePermissions();
   
   // Fetch profit/loss data
   const { data: profitLossData, isLoading: profitLossLoading } = useQuery<ProfitLossPeriod[]>({
@@ -136,10 +138,12 @@ export default function ProfitLoss() {
             </SelectContent>
           </Select>
           
-          <Button variant="outline" onClick={handleExport}>
-            <Download className="h-4 w-4 mr-2" />
-            Export
-          </Button>
+          {can("financial_summary", "export") && (
+            <Button variant="outline" onClick={handleExport}>
+              <Download className="h-4 w-4 mr-2" />
+              Export
+            </Button>
+          )}
         </div>
       </div>
       
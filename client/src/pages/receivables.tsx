@@ -0,0 +1,246 @@
+import { Fragment, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { ChevronDown, ChevronRight, FileSpreadsheet } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { useDownload } from "@/hooks/use-download";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { AgingBucket, ArAgingReport, agingBuckets } from "@shared/schema";
+
+const AGING_BUCKET_LABELS: Record<AgingBucket, string> = {
+  current: "Current",
+  "1-30": "1-30 Days",
+  "31-60": "31-60 Days",
+  "61-90": "61-90 Days",
+  "90+": "90+ Days",
+};
+
+// Older balances get more urgent colours
+const AGING_BUCKET_COLORS: Record<AgingBucket, string> = {
+  current: "text-secondary-900",
+  "1-30": "text-amber-600",
+  "31-60": "text-orange-600",
+  "61-90": "text-red-500",
+  "90+": "text-red-700",
+};
+
+export default function Receivables() {
+  const [expandedCustomerId, setExpandedCustomerId] = useState<number | null>(null);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const { downloadFile } = useDownload();
+
+  const { data: report, isLoading } = useQuery<ArAgingReport>({
+    queryKey: ["/api/reports/ar-aging"],
+  });
+
+  // Saves the report to the reports list as an Excel file and downloads it
+  const exportMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/reports/generate", { type: "ar_aging" });
+      return response.json();
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Success",
+        description: "Aging report generated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports"] });
+      if (data.downloadUrl) {
+        downloadFile(data.downloadUrl);
+      }
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to generate report: ${error.message}`,
+      });
+    },
+  });
+
+  const toggleCustomer = (customerId: number) => {
+    setExpandedCustomerId(expandedCustomerId === customerId ? null : customerId);
+  };
+
+  if (isLoading || !report) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-24 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Receivables Aging</h1>
+          <p className="text-sm text-secondary-500">
+            Unpaid order balances as of {format(new Date(report.asOf), "MMM d, yyyy")}, aged from
+            the delivery date.
+          </p>
+        </div>
+        {can("ar_aging", "export") && can("reports", "create") && (
+          <Button onClick={() => exportMutation.mutate()} disabled={exportMutation.isPending}>
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            {exportMutation.isPending ? "Generating..." : "Export to Excel"}
+          </Button>
+        )}
+      </div>
+
+      {/* Totals per bucket */}
+      <div className="grid grid-cols-2 md:grid-cols-3 xl:grid-cols-6 gap-4">
+        {agingBuckets.map((bucket) => (
+          <Card key={bucket}>
+            <CardContent className="p-4">
+              <p className="text-sm font-medium text-secondary-500">{AGING_BUCKET_LABELS[bucket]}</p>
+              <p className={cn("text-xl font-semibold font-mono mt-1", AGING_BUCKET_COLORS[bucket])}>
+                {formatIndianCurrency(report.totals[bucket])}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+        <Card>
+          <CardContent className="p-4">
+            <p className="text-sm font-medium text-secondary-500">Total Outstanding</p>
+            <p className="text-xl font-semibold font-mono mt-1">
+              {formatIndianCurrency(report.total)}
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">By Customer</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  {agingBuckets.map((bucket) => (
+                    <TableHead key={bucket} className="text-right">
+                      {AGING_BUCKET_LABELS[bucket]}
+                    </TableHead>
+                  ))}
+                  <TableHead className="text-right">Total</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.customers.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={agingBuckets.length + 2} className="h-24 text-center">
+                      No outstanding balances
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  report.customers.map((customer) => {
+                    const isExpanded = expandedCustomerId === customer.customerId;
+
+                    return (
+                      <Fragment key={customer.customerId}>
+                        <TableRow
+                          className="cursor-pointer"
+                          onClick={() => toggleCustomer(customer.customerId)}
+                        >
+                          <TableCell className="font-medium">
+                            <div className="flex items-center">
+                              {isExpanded ? (
+                                <ChevronDown className="h-4 w-4 mr-2" />
+                              ) : (
+                                <ChevronRight className="h-4 w-4 mr-2" />
+                              )}
+                              {customer.customerName}
+                            </div>
+                          </TableCell>
+                          {agingBuckets.map((bucket) => (
+                            <TableCell
+                              key={bucket}
+                              className={cn(
+                                "text-right font-mono",
+                                customer.buckets[bucket] > 0 && AGING_BUCKET_COLORS[bucket]
+                              )}
+                            >
+                              {customer.buckets[bucket] > 0
+                                ? formatIndianCurrency(customer.buckets[bucket])
+                                : "-"}
+                            </TableCell>
+                          ))}
+                          <TableCell className="text-right font-mono font-medium">
+                            {formatIndianCurrency(customer.total)}
+                          </TableCell>
+                        </TableRow>
+
+                        {/* Drill-down to the orders behind the balance */}
+                        {isExpanded && (
+                          <TableRow className="bg-secondary-50 hover:bg-secondary-50">
+                            <TableCell colSpan={agingBuckets.length + 2} className="p-4">
+                              <Table>
+                                <TableHeader>
+                                  <TableRow>
+                                    <TableHead>Order</TableHead>
+                                    <TableHead>Due Date</TableHead>
+                                    <TableHead>Days Overdue</TableHead>
+                                    <TableHead>Bucket</TableHead>
+                                    <TableHead className="text-right">Outstanding</TableHead>
+                                  </TableRow>
+                                </TableHeader>
+                                <TableBody>
+                                  {customer.orders.map((order) => (
+                                    <TableRow key={order.orderId}>
+                                      <TableCell>{order.orderNumber}</TableCell>
+                                      <TableCell>
+                                        {format(new Date(order.dueDate), "MMM d, yyyy")}
+                                      </TableCell>
+                                      <TableCell>{order.daysOverdue || "-"}</TableCell>
+                                      <TableCell className={AGING_BUCKET_COLORS[order.bucket]}>
+                                        {AGING_BUCKET_LABELS[order.bucket]}
+                                      </TableCell>
+                                      <TableCell className="text-right font-mono">
+                                        {formatIndianCurrency(order.outstanding)}
+                                      </TableCell>
+                                    </TableRow>
+                                  ))}
+                                </TableBody>
+                              </Table>
+                              {can("customers", "view") && (
+                                <Link href={`/customers/${customer.customerId}`}>
+                                  <Button variant="link" className="px-0 mt-2">
+                                    Open customer ledger
+                                  </Button>
+                                </Link>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        )}
+                      </Fragment>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { invalidateDueOrders } from "@/hooks/use-due-orders";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import {
+  RecycleBinTable,
+  RECYCLE_BIN_ENTITY_LABELS,
+} from "@/components/tables/recycle-bin-table";
+import { DeletedRecord, ProductionUnit, RecycleBinEntity } from "@shared/schema";
+
+// List endpoints to refresh when a record of each type comes back or goes away
+const ENTITY_QUERY_KEYS: Record<RecycleBinEntity, string[]> = {
+  expenses: ["/api/expenses", "/api/production-units"],
+  revenues: ["/api/revenues"],
+  orders: ["/api/orders", "/api/revenues"],
+  payments: ["/api/orders"],
+  salary_payments: ["/api/salary-payments", "/api/expenses", "/api/production-units"],
+  maintenance_records: ["/api/maintenance-records", "/api/expenses", "/api/production-units"],
+};
+
+export default function RecycleBin() {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch deleted records
+  const { data: records, isLoading: recordsLoading } = useQuery<DeletedRecord[]>({
+    queryKey: ["/api/recycle-bin"],
+  });
+
+  // Fetch production units for unit names
+  const { data: productionUnits, isLoading: unitsLoading } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  const invalidateEntityQueries = (entity: RecycleBinEntity) => {
+    queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
+    ENTITY_QUERY_KEYS[entity].forEach((key) => {
+      queryClient.invalidateQueries({ queryKey: [key] });
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/transactions"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-loss"] });
+    if (entity === "orders") {
+      invalidateDueOrders();
+    }
+  };
+
+  // Restore mutation
+  const restoreMutation = useMutation({
+    mutationFn: async (record: DeletedRecord) => {
+      const response = await apiRequest("POST", `/api/recycle-bin/${record.entity}/${record.id}/restore`);
+      return response.json();
+    },
+    onSuccess: (_, record) => {
+      toast({
+        title: "Success",
+        description: `${RECYCLE_BIN_ENTITY_LABELS[record.entity]} restored successfully`,
+      });
+      invalidateEntityQueries(record.entity);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to restore record: ${error.message}`,
+      });
+    },
+  });
+
+  // Purge mutation
+  const purgeMutation = useMutation({
+    mutationFn: async (record: DeletedRecord) => {
+      await apiRequest("DELETE", `/api/recycle-bin/${record.entity}/${record.id}`);
+    },
+    onSuccess: (_, record) => {
+      toast({
+        title: "Success",
+        description: `${RECYCLE_BIN_ENTITY_LABELS[record.entity]} permanently deleted`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete record permanently: ${error.message}`,
+      });
+    },
+  });
+
+  const handlePurge = (record: DeletedRecord) => {
+    if (window.confirm("Permanently delete this record? This cannot be undone.")) {
+      purgeMutation.mutate(record);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Recycle Bin</h1>
+        <p className="text-sm text-secondary-500 mt-1">
+          Deleted records stay here until restored or permanently deleted by an administrator.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {recordsLoading || unitsLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <RecycleBinTable
+              records={records || []}
+              productionUnits={productionUnits || []}
+              onRestore={(record) => restoreMutation.mutate(record)}
+              onPurge={can("recycle_bin", "delete") ? handlePurge : undefined}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
 import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
 import { Button } from "@/components/ui/button";
 import {
   Card,
@@ -8,13 +9,16 @@ import {
   CardHeader,
   CardTitle,
 } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { FileSpreadsheet, Download, FileText, Trash } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { ReportsTable } from "@/components/tables/reports-table";
 import { Report } from "@shared/schema";
 import { useDownload } from "@/hooks/use-download";
+import { isValidTaxPeriod } from "@shared/gst-returns";
 import {
   Select,
   SelectContent,
@@ -25,7 +29,9 @@ import {
 
 export default function Reports() {
   const [selectedReportType, setSelectedReportType] = useState("production_units");
+  const [period, setPeriod] = useState(format(new Date(), "yyyy-MM"));
   const { toast } = useToast();
+  const { can } = usePermissions();
   const { downloadFile, isDownloading } = useDownload();
 
   // Fetch reports
@@ -36,7 +42,11 @@ export default function Reports() {
   // Generate report mutation
   const generateMutation = useMutation({
     mutationFn: async (type: string) => {
-      const response = await apiRequest("POST", "/api/reports/generate", { type });
+      // Returns are generated for one tax period
+      const response = await apiRequest("POST", "/api/reports/generate", {
+        type,
+        ...(type === "gstr3b" ? { period } : {}),
+      });
       return response.json();
     },
     onSuccess: (data) => {
@@ -128,14 +138,40 @@ export default function Reports() {
                     <SelectItem value="expenses">Expenses</SelectItem>
                     <SelectItem value="revenues">Revenues</SelectItem>
                     <SelectItem value="inventory">Inventory</SelectItem>
-                    <SelectItem value="financial_summary">Financial Summary</SelectItem>
+                    {can("financial_summary", "export") && (
+                      <SelectItem value="financial_summary">Financial Summary</SelectItem>
+                    )}
+                    {can("ar_aging", "export") && (
+                      <SelectItem value="ar_aging">Receivables Aging</SelectItem>
+                    )}
+                    {can("gst_returns", "export") && (
+                      <SelectItem value="gstr3b">GSTR-3B</SelectItem>
+                    )}
                   </SelectContent>
                 </Select>
               </div>
 
+              {selectedReportType === "gstr3b" && (
+                <div className="grid gap-2">
+                  <label htmlFor="report-period" className="text-sm font-medium text-secondary-700">
+                    Tax Period
+                  </label>
+                  <Input
+                    id="report-period"
+                    type="month"
+                    value={period}
+                    onChange={(e) => setPeriod(e.target.value)}
+                  />
+                </div>
+              )}
+
               <Button
                 onClick={handleGenerateReport}
-                disabled={generateMutation.isPending}
+                disabled={
+                  generateMutation.isPending ||
+                  !can("reports", "create") ||
+                  (selectedReportType === "gstr3b" && !isValidTaxPeriod(period))
+                }
                 className="w-full"
               >
                 {generateMutation.isPending ? (
@@ -165,7 +201,7 @@ export default function Reports() {
               <ReportsTable
                 reports={reports || []}
                 onDownload={handleDownload}
-                onDelete={handleDelete}
+                onDelete={can("reports", "delete") ? handleDelete : undefined}
                 isDownloading={isDownloading}
               />
             )}
@@ -12,11 +12,13 @@ import {
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
 import { Plus, Filter } from "lucide-react";
 import { queryClient, apiRequest } from "@/lib/queryClient";
 import { RevenueForm } from "@/components/forms/revenue-form";
 import { RevenuesTable } from "@/components/tables/revenues-table";
-import { Revenue, ProductionUnit } from "@shared/schema";
+import { IssueInvoiceDialog } from "@/components/invoices/issue-invoice-dialog";
+import { Invoice, Revenue, ProductionUnit } from "@shared/schema";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -30,8 +32,10 @@ import {
 export default function RevenueTracker() {
   const [openDialog, setOpenDialog] = useState(false);
   const [editRevenue, setEditRevenue] = useState<Revenue | null>(null);
+  const [invoiceRevenue, setInvoiceRevenue] = useState<Revenue | null>(null);
   const [unitFilter, setUnitFilter] = useState<string>("all");
   const { toast } = useToast();
+  const { can } = usePermissions();
 
   // Fetch revenues
   const { data: revenues, isLoading: revenuesLoading } = useQuery<Revenue[]>({
@@ -43,9 +47,22 @@ export default function RevenueTracker() {
     queryKey: ["/api/production-units"],
   });
 
+  // Issued invoices lock the billed details of their revenue
+  const { data: invoices } = useQuery<Invoice[]>({
+    queryKey: ["/api/invoices"],
+    enabled: can("invoices", "view"),
+  });
+
+  const getIssuedInvoice = (revenue: Revenue) =>
+    invoices?.find(
+      (invoice) =>
+        invoice.status === "issued" &&
+        (revenue.orderId ? invoice.orderId === revenue.orderId : invoice.revenueId === revenue.id)
+    );
+
   // Create mutation
   const createMutation = useMutation({
-    mutationFn: async (data: Omit<Revenue, "id">) => {
+    mutationFn: async (data: Omit<Revenue, "id" | "deletedAt">) => {
       const response = await apiRequest("POST", "/api/revenues", data);
       return response.json();
     },
@@ -116,6 +133,7 @@ export default function RevenueTracker() {
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/stats"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/dashboard/profit-loss"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/recycle-bin"] });
     },
     onError: (error) => {
       toast({
@@ -132,12 +150,12 @@ export default function RevenueTracker() {
   };
 
   const handleDelete = (id: number) => {
-    if (window.confirm("Are you sure you want to delete this revenue entry?")) {
+    if (window.confirm("Move this revenue entry to the recycle bin?")) {
       deleteMutation.mutate(id);
     }
   };
 
-  const handleSubmit = (data: Omit<Revenue, "id">) => {
+  const handleSubmit = (data: Omit<Revenue, "id" | "deletedAt">) => {
     if (editRevenue) {
       updateMutation.mutate({ id: editRevenue.id, data });
     } else {
@@ -188,12 +206,14 @@ export default function RevenueTracker() {
           </DropdownMenu>
 
           <Dialog open={openDialog} onOpenChange={setOpenDialog}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="h-4 w-4 mr-2" />
-                Record Revenue
-              </Button>
-            </DialogTrigger>
+            {can("revenues", "create") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Record Revenue
+                </Button>
+              </DialogTrigger>
+            )}
             <DialogContent className="sm:max-w-[425px]">
               <DialogHeader>
                 <DialogTitle>
@@ -209,6 +229,7 @@ export default function RevenueTracker() {
                 onSubmit={handleSubmit}
                 revenue={editRevenue}
                 productionUnits={productionUnits || []}
+                invoiceNumber={editRevenue ? getIssuedInvoice(editRevenue)?.invoiceNumber : undefined}
                 isLoading={
                   createMutation.isPending ||
                   updateMutation.isPending ||
@@ -229,12 +250,20 @@ export default function RevenueTracker() {
             <RevenuesTable
               revenues={filteredRevenues || []}
               productionUnits={productionUnits || []}
-              onEdit={handleEdit}
-              onDelete={handleDelete}
+              onEdit={can("revenues", "update") ? handleEdit : undefined}
+              onDelete={can("revenues", "delete") ? handleDelete : undefined}
+              invoices={invoices}
+              onInvoice={can("invoices", "create") ? setInvoiceRevenue : undefined}
             />
           )}
         </CardContent>
       </Card>
+
+      <IssueInvoiceDialog
+        source={invoiceRevenue ? { revenueId: invoiceRevenue.id } : null}
+        label={invoiceRevenue ? `"${invoiceRevenue.description}"` : undefined}
+        onClose={() => setInvoiceRevenue(null)}
+      />
     </div>
   );
 }
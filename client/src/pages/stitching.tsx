@@ -0,0 +1,179 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Download, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { OrderStatusBadge } from "@/components/orders/order-status-badge";
+import { useDownload } from "@/hooks/use-download";
+import { Customer, Order, ProductionUnit } from "@shared/schema";
+import { GARMENT_LABELS, parseOrderMeasurements } from "@shared/measurements";
+
+// Orders still on the floor; delivered and cancelled ones need no job card
+const IN_WORK_STATUSES = ["pending", "in-progress", "ready"];
+
+export default function Stitching() {
+  const [unitFilter, setUnitFilter] = useState<string>("all");
+  const { downloadFile, isDownloading } = useDownload();
+
+  const { data: orders, isLoading: ordersLoading } = useQuery<Order[]>({
+    queryKey: ["/api/orders"],
+  });
+
+  const { data: customers, isLoading: customersLoading } = useQuery<Customer[]>({
+    queryKey: ["/api/customers"],
+  });
+
+  const { data: productionUnits, isLoading: unitsLoading } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  const getCustomerName = (customerId: number) =>
+    customers?.find((customer) => customer.id === customerId)?.name || "Unknown Customer";
+
+  const getUnitName = (unitId: number) =>
+    productionUnits?.find((unit) => unit.id === unitId)?.name || "Unknown Unit";
+
+  // Soonest due first; orders without a delivery date go last
+  const inWorkOrders = (orders || [])
+    .filter((order) => IN_WORK_STATUSES.includes(order.status))
+    .filter((order) => unitFilter === "all" || order.productionUnitId.toString() === unitFilter)
+    .sort((a, b) => {
+      const aDue = a.deliveryDate ? new Date(a.deliveryDate).getTime() : Infinity;
+      const bDue = b.deliveryDate ? new Date(b.deliveryDate).getTime() : Infinity;
+      return aDue - bDue;
+    });
+
+  const isLoading = ordersLoading || customersLoading || unitsLoading;
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h1 className="text-2xl font-bold text-secondary-900">Stitching</h1>
+        <p className="text-sm text-secondary-500">
+          Orders in work. Print a job card to hand to the tailor, or download it as a PDF.
+        </p>
+      </div>
+
+      <Card>
+        <CardContent className="p-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label className="mb-1 block">Production Unit</Label>
+              <Select value={unitFilter} onValueChange={setUnitFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All units</SelectItem>
+                  {productionUnits?.map((unit) => (
+                    <SelectItem key={unit.id} value={unit.id.toString()}>
+                      {unit.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {isLoading ? (
+        <Skeleton className="h-64 w-full" />
+      ) : (
+        <div className="rounded-md border bg-white">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Order</TableHead>
+                <TableHead>Customer</TableHead>
+                <TableHead>Garment</TableHead>
+                <TableHead>Production Unit</TableHead>
+                <TableHead>Due</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Job Card</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {inWorkOrders.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={7} className="h-24 text-center">
+                    No orders in work
+                  </TableCell>
+                </TableRow>
+              ) : (
+                inWorkOrders.map((order) => {
+                  const measurements = parseOrderMeasurements(order.measurements);
+
+                  return (
+                    <TableRow key={order.id}>
+                      <TableCell className="font-medium">
+                        <div>
+                          <div>{order.orderNumber}</div>
+                          {order.description && (
+                            <div className="text-xs text-secondary-500 mt-1">
+                              {order.description}
+                            </div>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell>{getCustomerName(order.customerId)}</TableCell>
+                      <TableCell>
+                        {measurements ? GARMENT_LABELS[measurements.garmentType] : "-"}
+                      </TableCell>
+                      <TableCell>{getUnitName(order.productionUnitId)}</TableCell>
+                      <TableCell>
+                        {order.deliveryDate
+                          ? format(new Date(order.deliveryDate), "MMM d, yyyy")
+                          : "-"}
+                      </TableCell>
+                      <TableCell>
+                        <OrderStatusBadge status={order.status} />
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <div className="flex justify-end space-x-2">
+                          <Link href={`/stitching/${order.id}`}>
+                            <Button variant="ghost" size="icon" title="Print job card">
+                              <Printer className="h-4 w-4" />
+                            </Button>
+                          </Link>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            title="Download PDF"
+                            disabled={isDownloading}
+                            onClick={() => downloadFile(`/api/orders/${order.id}/job-card/pdf`)}
+                          >
+                            <Download className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })
+              )}
+            </TableBody>
+          </Table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,275 @@
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Link, useParams } from "wouter";
+import { addDays, format } from "date-fns";
+import { ArrowLeft, CheckCircle, Mail, MapPin, Phone, Receipt, User } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { cn, formatIndianCurrency } from "@/lib/utils";
+import { formatStateCode } from "@shared/gst-utils";
+import { ProductionUnit, SupplierLedger } from "@shared/schema";
+
+export default function SupplierDetail() {
+  const { id } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch the supplier with their purchases and balances
+  const { data: ledger, isLoading: ledgerLoading, error } = useQuery<SupplierLedger>({
+    queryKey: [`/api/suppliers/${id}/ledger`],
+  });
+
+  // Fetch production units to name the unit of each purchase
+  const { data: productionUnits } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Records that an unpaid bill has been paid today
+  const markPaidMutation = useMutation({
+    mutationFn: async (expenseId: number) => {
+      const response = await apiRequest("PUT", `/api/expenses/${expenseId}`, { paidDate: new Date() });
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Bill marked as paid",
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/suppliers/${id}/ledger`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/expenses"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to mark bill as paid: ${error.message}`,
+      });
+    },
+  });
+
+  const getUnitName = (unitId: number) => {
+    const unit = productionUnits?.find((u) => u.id === unitId);
+    return unit?.name || "Unknown Unit";
+  };
+
+  if (ledgerLoading) {
+    return (
+      <div className="space-y-6">
+        <Skeleton className="h-8 w-64" />
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !ledger) {
+    return (
+      <div className="space-y-6">
+        <Link href="/suppliers">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Suppliers
+          </Button>
+        </Link>
+        <Card>
+          <CardContent className="p-6 text-center text-secondary-500">
+            Supplier not found
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const { supplier, expenses } = ledger;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">{supplier.name}</h1>
+          <p className="text-sm text-secondary-500">
+            {supplier.paymentTermsDays > 0
+              ? `Payment due ${supplier.paymentTermsDays} days after the bill date`
+              : "Payment due on the bill date"}
+          </p>
+        </div>
+        <Link href="/suppliers">
+          <Button variant="outline">
+            <ArrowLeft className="h-4 w-4 mr-2" />
+            Back to Suppliers
+          </Button>
+        </Link>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-4 gap-6">
+        {/* Contact info */}
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-base">Contact</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex items-center">
+              <User className="h-4 w-4 mr-2 text-secondary-400" />
+              {supplier.contactPerson || "No contact person"}
+            </div>
+            <div className="flex items-center">
+              <Phone className="h-4 w-4 mr-2 text-secondary-400" />
+              {supplier.phone || "No phone"}
+            </div>
+            <div className="flex items-center">
+              <Mail className="h-4 w-4 mr-2 text-secondary-400" />
+              {supplier.email || "No email"}
+            </div>
+            <div className="flex items-start">
+              <MapPin className="h-4 w-4 mr-2 mt-0.5 text-secondary-400" />
+              <span className="whitespace-pre-line">{supplier.address || "No address"}</span>
+            </div>
+            <div className="flex items-center">
+              <Receipt className="h-4 w-4 mr-2 text-secondary-400" />
+              <span>
+                <span className="font-mono">{supplier.gstin || "Unregistered"}</span>
+                {supplier.stateCode && (
+                  <span className="text-secondary-500"> · {formatStateCode(supplier.stateCode)}</span>
+                )}
+              </span>
+            </div>
+            {supplier.notes && (
+              <p className="text-secondary-500 border-t pt-3">{supplier.notes}</p>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Balances */}
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">Total Purchases</p>
+            <p className="text-2xl font-semibold font-mono mt-2">
+              {formatIndianCurrency(ledger.totalPurchases)}
+            </p>
+            <p className="text-xs text-secondary-500 mt-1">
+              Across {ledger.purchaseCount} bills
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">GST Paid</p>
+            <p className="text-2xl font-semibold font-mono mt-2">
+              {formatIndianCurrency(ledger.gstPaid)}
+            </p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-sm font-medium text-secondary-500">Outstanding</p>
+            <p
+              className={cn(
+                "text-2xl font-semibold font-mono mt-2",
+                ledger.outstanding > 0 ? "text-red-500" : "text-secondary-900"
+              )}
+            >
+              {formatIndianCurrency(ledger.outstanding)}
+            </p>
+            {ledger.overdue > 0 && (
+              <p className="text-xs text-red-600 mt-1">
+                {formatIndianCurrency(ledger.overdue)} overdue
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Purchases</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="rounded-md border">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Description</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead>Production Unit</TableHead>
+                  <TableHead className="text-right">GST</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Payment</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {expenses.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={8} className="h-24 text-center">
+                      No purchases yet
+                    </TableCell>
+                  </TableRow>
+                ) : (
+                  expenses.map((expense) => {
+                    const dueDate = addDays(new Date(expense.date), supplier.paymentTermsDays);
+                    const isOverdue = !expense.paidDate && dueDate < new Date();
+
+                    return (
+                      <TableRow key={expense.id}>
+                        <TableCell>
+                          {format(new Date(expense.date), "MMM d, yyyy")}
+                        </TableCell>
+                        <TableCell className="font-medium">{expense.description}</TableCell>
+                        <TableCell>{expense.invoiceNumber || "-"}</TableCell>
+                        <TableCell>{getUnitName(expense.productionUnitId)}</TableCell>
+                        <TableCell className="text-right font-mono">
+                          {expense.gstAmount ? formatIndianCurrency(expense.gstAmount) : "-"}
+                        </TableCell>
+                        <TableCell className="text-right font-mono">
+                          {formatIndianCurrency(expense.amount)}
+                        </TableCell>
+                        <TableCell>
+                          {expense.paidDate ? (
+                            <span className="text-sm text-secondary-500">
+                              Paid {format(new Date(expense.paidDate), "MMM d, yyyy")}
+                            </span>
+                          ) : (
+                            <Badge variant={isOverdue ? "destructive" : "outline"}>
+                              {isOverdue ? "Overdue" : "Due"} {format(dueDate, "MMM d")}
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {!expense.paidDate && can("expenses", "update") && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => markPaidMutation.mutate(expense.id)}
+                              disabled={markPaidMutation.isPending}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Mark Paid
+                            </Button>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })
+                )}
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { useLocation } from "wouter";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Plus, Search } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { SupplierForm, SupplierFormData } from "@/components/forms/supplier-form";
+import { SuppliersTable } from "@/components/tables/suppliers-table";
+import { Supplier, SupplierBalance } from "@shared/schema";
+
+export default function Suppliers() {
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editSupplier, setEditSupplier] = useState<Supplier | null>(null);
+  const [search, setSearch] = useState("");
+  const [, setLocation] = useLocation();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch suppliers
+  const { data: suppliers, isLoading: suppliersLoading } = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  // Fetch what has been bought from and is owed to each supplier
+  const { data: balances } = useQuery<SupplierBalance[]>({
+    queryKey: ["/api/suppliers/balances"],
+  });
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: async (data: SupplierFormData) => {
+      const response = await apiRequest("POST", "/api/suppliers", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Supplier added successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to add supplier: ${error.message}`,
+      });
+    },
+  });
+
+  // Update mutation
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<SupplierFormData>;
+    }) => {
+      const response = await apiRequest("PUT", `/api/suppliers/${id}`, data);
+      return response.json();
+    },
+    onSuccess: (_, { id }) => {
+      toast({
+        title: "Success",
+        description: "Supplier updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+      queryClient.invalidateQueries({ queryKey: [`/api/suppliers/${id}/ledger`] });
+      setOpenDialog(false);
+      setEditSupplier(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update supplier: ${error.message}`,
+      });
+    },
+  });
+
+  // Delete mutation
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/suppliers/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "Supplier deleted successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/suppliers/balances"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to delete supplier: ${error.message}`,
+      });
+    },
+  });
+
+  const handleView = (supplier: Supplier) => {
+    setLocation(`/suppliers/${supplier.id}`);
+  };
+
+  const handleEdit = (supplier: Supplier) => {
+    setEditSupplier(supplier);
+    setOpenDialog(true);
+  };
+
+  const handleDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this supplier? Suppliers with expenses can't be deleted.")) {
+      deleteMutation.mutate(id);
+    }
+  };
+
+  const handleSubmit = (data: SupplierFormData) => {
+    if (editSupplier) {
+      updateMutation.mutate({ id: editSupplier.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpenDialog(false);
+    setEditSupplier(null);
+  };
+
+  // Match the search text against name, contact person, phone and GSTIN
+  const searchText = search.trim().toLowerCase();
+  const filteredSuppliers = suppliers?.filter((supplier) => {
+    if (!searchText) return true;
+    return [supplier.name, supplier.contactPerson, supplier.phone, supplier.gstin].some(
+      (value) => value?.toLowerCase().includes(searchText)
+    );
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-secondary-900">Suppliers</h1>
+        <div className="flex space-x-2">
+          <div className="relative">
+            <Input
+              type="search"
+              placeholder="Search suppliers..."
+              className="pl-9 w-64"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-secondary-400 h-4 w-4" />
+          </div>
+
+          <Dialog
+            open={openDialog}
+            onOpenChange={(open) => (open ? setOpenDialog(true) : handleDialogClose())}
+          >
+            {can("suppliers", "create") && (
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Supplier
+                </Button>
+              </DialogTrigger>
+            )}
+            <DialogContent className="sm:max-w-[500px]">
+              <DialogHeader>
+                <DialogTitle>
+                  {editSupplier ? "Edit Supplier" : "Add Supplier"}
+                </DialogTitle>
+                <DialogDescription>
+                  {editSupplier
+                    ? "Update the supplier's contact, GST and payment details below."
+                    : "Enter the details for the new supplier."}
+                </DialogDescription>
+              </DialogHeader>
+              <SupplierForm
+                onSubmit={handleSubmit}
+                supplier={editSupplier}
+                isLoading={createMutation.isPending || updateMutation.isPending}
+                onCancel={handleDialogClose}
+              />
+            </DialogContent>
+          </Dialog>
+        </div>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {suppliersLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <SuppliersTable
+              suppliers={filteredSuppliers || []}
+              balances={balances || []}
+              onView={handleView}
+              onEdit={can("suppliers", "update") ? handleEdit : undefined}
+              onDelete={can("suppliers", "delete") ? handleDelete : undefined}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
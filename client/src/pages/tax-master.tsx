@@ -0,0 +1,351 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/hooks/use-toast";
+import { usePermissions } from "@/hooks/use-permissions";
+import { Plus } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { HsnCodeForm, HsnCodeFormData } from "@/components/forms/hsn-code-form";
+import { TaxCategoryForm, TaxCategoryFormData } from "@/components/forms/tax-category-form";
+import { GstRateVersionForm, GstRateVersionFormData } from "@/components/forms/gst-rate-version-form";
+import { HsnCodesTable } from "@/components/tables/hsn-codes-table";
+import { TaxCategoriesTable } from "@/components/tables/tax-categories-table";
+import { GstRateVersionsTable } from "@/components/tables/gst-rate-versions-table";
+import { HsnCode, TaxCategory, TaxCategoryKind, TaxMaster as TaxMasterData, taxCategoryKinds } from "@shared/schema";
+
+const KIND_LABELS: Record<TaxCategoryKind, string> = {
+  expense: "Expense Categories",
+  revenue: "Revenue Categories",
+};
+
+// The HSN/SAC codes and categories that expenses, revenues and orders are taxed by
+export default function TaxMaster() {
+  const [tab, setTab] = useState<string>("hsn");
+  const [hsnDialogOpen, setHsnDialogOpen] = useState(false);
+  const [editHsnCode, setEditHsnCode] = useState<HsnCode | null>(null);
+  const [categoryDialogKind, setCategoryDialogKind] = useState<TaxCategoryKind | null>(null);
+  const [editCategory, setEditCategory] = useState<TaxCategory | null>(null);
+  const [versionDialogOpen, setVersionDialogOpen] = useState(false);
+  const { toast } = useToast();
+  const { can } = usePermissions();
+
+  // Fetch the tax master
+  const { data: master, isLoading } = useQuery<TaxMasterData>({
+    queryKey: ["/api/tax-master"],
+  });
+
+  const onMutationError = (action: string) => (error: Error) => {
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description: `Failed to ${action}: ${error.message}`,
+    });
+  };
+
+  const onMutationSuccess = (description: string) => {
+    toast({
+      title: "Success",
+      description,
+    });
+    queryClient.invalidateQueries({ queryKey: ["/api/tax-master"] });
+  };
+
+  // HSN/SAC code mutations
+  const createHsnMutation = useMutation({
+    mutationFn: async (data: HsnCodeFormData) => {
+      const response = await apiRequest("POST", "/api/tax-master/hsn-codes", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("HSN/SAC code added successfully");
+      handleHsnDialogClose();
+    },
+    onError: onMutationError("add HSN/SAC code"),
+  });
+
+  const updateHsnMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: Omit<HsnCodeFormData, "code"> }) => {
+      const response = await apiRequest("PUT", `/api/tax-master/hsn-codes/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("HSN/SAC code updated successfully");
+      handleHsnDialogClose();
+    },
+    onError: onMutationError("update HSN/SAC code"),
+  });
+
+  const deleteHsnMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tax-master/hsn-codes/${id}`);
+    },
+    onSuccess: () => onMutationSuccess("HSN/SAC code deleted successfully"),
+    onError: onMutationError("delete HSN/SAC code"),
+  });
+
+  // Category mutations
+  const createCategoryMutation = useMutation({
+    mutationFn: async (data: TaxCategoryFormData) => {
+      const response = await apiRequest("POST", "/api/tax-master/categories", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("Category added successfully");
+      handleCategoryDialogClose();
+    },
+    onError: onMutationError("add category"),
+  });
+
+  const updateCategoryMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: number; data: TaxCategoryFormData }) => {
+      const response = await apiRequest("PUT", `/api/tax-master/categories/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("Category updated successfully");
+      handleCategoryDialogClose();
+    },
+    onError: onMutationError("update category"),
+  });
+
+  const deleteCategoryMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tax-master/categories/${id}`);
+    },
+    onSuccess: () => onMutationSuccess("Category deleted successfully"),
+    onError: onMutationError("delete category"),
+  });
+
+  // Rate change mutations
+  const createVersionMutation = useMutation({
+    mutationFn: async (data: GstRateVersionFormData) => {
+      const response = await apiRequest("POST", "/api/tax-master/rate-versions", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      onMutationSuccess("Rate change added successfully");
+      setVersionDialogOpen(false);
+    },
+    onError: onMutationError("add rate change"),
+  });
+
+  const deleteVersionMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/tax-master/rate-versions/${id}`);
+    },
+    onSuccess: () => onMutationSuccess("Rate change deleted successfully"),
+    onError: onMutationError("delete rate change"),
+  });
+
+  const handleHsnEdit = (hsnCode: HsnCode) => {
+    setEditHsnCode(hsnCode);
+    setHsnDialogOpen(true);
+  };
+
+  const handleHsnDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this HSN/SAC code?")) {
+      deleteHsnMutation.mutate(id);
+    }
+  };
+
+  const handleHsnSubmit = (data: HsnCodeFormData) => {
+    if (editHsnCode) {
+      const { code, ...changes } = data;
+      updateHsnMutation.mutate({ id: editHsnCode.id, data: changes });
+    } else {
+      createHsnMutation.mutate(data);
+    }
+  };
+
+  const handleHsnDialogClose = () => {
+    setHsnDialogOpen(false);
+    setEditHsnCode(null);
+  };
+
+  const handleCategoryEdit = (category: TaxCategory) => {
+    setEditCategory(category);
+    setCategoryDialogKind(category.kind as TaxCategoryKind);
+  };
+
+  const handleCategoryDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this category? Entries already saved under it keep their tax.")) {
+      deleteCategoryMutation.mutate(id);
+    }
+  };
+
+  const handleCategorySubmit = (data: TaxCategoryFormData) => {
+    if (editCategory) {
+      updateCategoryMutation.mutate({ id: editCategory.id, data });
+    } else {
+      createCategoryMutation.mutate(data);
+    }
+  };
+
+  const handleCategoryDialogClose = () => {
+    setCategoryDialogKind(null);
+    setEditCategory(null);
+  };
+
+  const handleVersionDelete = (id: number) => {
+    if (window.confirm("Are you sure you want to delete this rate change? Changes already applied to an entry can't be deleted.")) {
+      deleteVersionMutation.mutate(id);
+    }
+  };
+
+  // The add button adds to whichever list is showing
+  const handleAdd = () => {
+    if (tab === "hsn") {
+      setHsnDialogOpen(true);
+    } else if (tab === "rates") {
+      setVersionDialogOpen(true);
+    } else {
+      setCategoryDialogKind(tab as TaxCategoryKind);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="text-2xl font-bold text-secondary-900">Tax Master</h1>
+          <p className="text-sm text-secondary-500">
+            New expenses, revenues and orders take the GST rate and HSN/SAC code of their category from here, at
+            the rate in effect on their date. Changes don't alter entries already saved.
+          </p>
+        </div>
+        {can("tax_master", "create") && (
+          <Button onClick={handleAdd}>
+            <Plus className="h-4 w-4 mr-2" />
+            {tab === "hsn" ? "Add Code" : tab === "rates" ? "Add Rate Change" : "Add Category"}
+          </Button>
+        )}
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {isLoading || !master ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <Tabs value={tab} onValueChange={setTab} className="space-y-4">
+              <TabsList>
+                <TabsTrigger value="hsn">HSN/SAC Codes</TabsTrigger>
+                {taxCategoryKinds.map((kind) => (
+                  <TabsTrigger key={kind} value={kind}>
+                    {KIND_LABELS[kind]}
+                  </TabsTrigger>
+                ))}
+                <TabsTrigger value="rates">Rate Changes</TabsTrigger>
+              </TabsList>
+              <TabsContent value="hsn">
+                <HsnCodesTable
+                  hsnCodes={master.hsnCodes}
+                  categories={master.categories}
+                  rateVersions={master.rateVersions}
+                  onEdit={can("tax_master", "update") ? handleHsnEdit : undefined}
+                  onDelete={can("tax_master", "delete") ? handleHsnDelete : undefined}
+                />
+              </TabsContent>
+              {taxCategoryKinds.map((kind) => (
+                <TabsContent key={kind} value={kind}>
+                  <TaxCategoriesTable
+                    kind={kind}
+                    categories={master.categories.filter((category) => category.kind === kind)}
+                    master={master}
+                    onEdit={can("tax_master", "update") ? handleCategoryEdit : undefined}
+                    onDelete={can("tax_master", "delete") ? handleCategoryDelete : undefined}
+                  />
+                </TabsContent>
+              ))}
+              <TabsContent value="rates">
+                <GstRateVersionsTable
+                  master={master}
+                  onDelete={can("tax_master", "delete") ? handleVersionDelete : undefined}
+                />
+              </TabsContent>
+            </Tabs>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={hsnDialogOpen}
+        onOpenChange={(open) => (open ? setHsnDialogOpen(true) : handleHsnDialogClose())}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editHsnCode ? "Edit HSN/SAC Code" : "Add HSN/SAC Code"}
+            </DialogTitle>
+            <DialogDescription>
+              {editHsnCode
+                ? "Update the code's description and GST rate below."
+                : "Enter the code, its description and the GST rate it's charged at."}
+            </DialogDescription>
+          </DialogHeader>
+          <HsnCodeForm
+            onSubmit={handleHsnSubmit}
+            hsnCode={editHsnCode}
+            isLoading={createHsnMutation.isPending || updateHsnMutation.isPending}
+            onCancel={handleHsnDialogClose}
+          />
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={categoryDialogKind !== null}
+        onOpenChange={(open) => !open && handleCategoryDialogClose()}
+      >
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>
+              {editCategory ? "Edit Category" : "Add Category"}
+            </DialogTitle>
+            <DialogDescription>
+              {editCategory
+                ? "Update the category's HSN/SAC code and GST rate below."
+                : `Enter the details for the new ${categoryDialogKind} category.`}
+            </DialogDescription>
+          </DialogHeader>
+          {categoryDialogKind && (
+            <TaxCategoryForm
+              onSubmit={handleCategorySubmit}
+              kind={categoryDialogKind}
+              category={editCategory}
+              hsnCodes={master?.hsnCodes || []}
+              isLoading={createCategoryMutation.isPending || updateCategoryMutation.isPending}
+              onCancel={handleCategoryDialogClose}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={versionDialogOpen} onOpenChange={setVersionDialogOpen}>
+        <DialogContent className="sm:max-w-[500px]">
+          <DialogHeader>
+            <DialogTitle>Add Rate Change</DialogTitle>
+            <DialogDescription>
+              Record a GST rate notified for a code or category and the date it takes effect.
+            </DialogDescription>
+          </DialogHeader>
+          <GstRateVersionForm
+            onSubmit={(data) => createVersionMutation.mutate(data)}
+            hsnCodes={master?.hsnCodes || []}
+            categories={master?.categories || []}
+            isLoading={createVersionMutation.isPending}
+            onCancel={() => setVersionDialogOpen(false)}
+          />
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
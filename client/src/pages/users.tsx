@@ -0,0 +1,203 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { useToast } from "@/hooks/use-toast";
+import { useAuth, AuthUser } from "@/hooks/use-auth";
+import { usePermissions } from "@/hooks/use-permissions";
+import { UserPlus } from "lucide-react";
+import { queryClient, apiRequest } from "@/lib/queryClient";
+import { UserForm, UserFormData } from "@/components/forms/user-form";
+import { UsersTable } from "@/components/tables/users-table";
+import { ProductionUnit } from "@shared/schema";
+
+export default function Users() {
+  const [openDialog, setOpenDialog] = useState(false);
+  const [editUser, setEditUser] = useState<AuthUser | null>(null);
+  const { toast } = useToast();
+  const { user: currentUser } = useAuth();
+  const { can } = usePermissions();
+
+  // Fetch users
+  const { data: users, isLoading: usersLoading } = useQuery<AuthUser[]>({
+    queryKey: ["/api/users"],
+  });
+
+  // Fetch production units for supervisor assignment
+  const { data: productionUnits, isLoading: unitsLoading } = useQuery<ProductionUnit[]>({
+    queryKey: ["/api/production-units"],
+  });
+
+  // Create mutation
+  const createMutation = useMutation({
+    mutationFn: async (data: UserFormData) => {
+      const response = await apiRequest("POST", "/api/users", data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "User invited successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      setOpenDialog(false);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to invite user: ${error.message}`,
+      });
+    },
+  });
+
+  // Update mutation, also used to reactivate accounts
+  const updateMutation = useMutation({
+    mutationFn: async ({
+      id,
+      data,
+    }: {
+      id: number;
+      data: Partial<Omit<UserFormData, "username">> & { active?: boolean };
+    }) => {
+      const response = await apiRequest("PUT", `/api/users/${id}`, data);
+      return response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "User updated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+      // The signed-in user may have edited their own account
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+      setOpenDialog(false);
+      setEditUser(null);
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to update user: ${error.message}`,
+      });
+    },
+  });
+
+  // Deactivate mutation
+  const deactivateMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/users/${id}`);
+    },
+    onSuccess: () => {
+      toast({
+        title: "Success",
+        description: "User deactivated successfully",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/users"] });
+    },
+    onError: (error) => {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Failed to deactivate user: ${error.message}`,
+      });
+    },
+  });
+
+  const handleEdit = (user: AuthUser) => {
+    setEditUser(user);
+    setOpenDialog(true);
+  };
+
+  const handleDeactivate = (user: AuthUser) => {
+    if (window.confirm(`Deactivate ${user.name}? They will be signed out and can't sign in again until reactivated.`)) {
+      deactivateMutation.mutate(user.id);
+    }
+  };
+
+  const handleReactivate = (user: AuthUser) => {
+    updateMutation.mutate({ id: user.id, data: { active: true } });
+  };
+
+  const handleSubmit = (data: UserFormData) => {
+    if (editUser) {
+      const { username, ...changes } = data;
+      updateMutation.mutate({ id: editUser.id, data: changes });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  const handleDialogClose = () => {
+    setOpenDialog(false);
+    setEditUser(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="text-2xl font-bold text-secondary-900">Users</h1>
+        <Dialog
+          open={openDialog}
+          onOpenChange={(open) => (open ? setOpenDialog(true) : handleDialogClose())}
+        >
+          {can("users", "create") && (
+            <DialogTrigger asChild>
+              <Button>
+                <UserPlus className="h-4 w-4 mr-2" />
+                Invite User
+              </Button>
+            </DialogTrigger>
+          )}
+          <DialogContent className="sm:max-w-[425px]">
+            <DialogHeader>
+              <DialogTitle>{editUser ? "Edit User" : "Invite User"}</DialogTitle>
+              <DialogDescription>
+                {editUser
+                  ? "Update the user's details, role or password."
+                  : "Create an account and share the temporary password with the new user."}
+              </DialogDescription>
+            </DialogHeader>
+            <UserForm
+              onSubmit={handleSubmit}
+              user={editUser}
+              productionUnits={productionUnits || []}
+              isLoading={
+                createMutation.isPending ||
+                updateMutation.isPending ||
+                unitsLoading
+              }
+              onCancel={handleDialogClose}
+            />
+          </DialogContent>
+        </Dialog>
+      </div>
+
+      <Card>
+        <CardContent className="p-6">
+          {usersLoading ? (
+            <Skeleton className="h-64 w-full" />
+          ) : (
+            <UsersTable
+              users={users || []}
+              productionUnits={productionUnits || []}
+              currentUserId={currentUser?.id}
+              onEdit={can("users", "update") ? handleEdit : undefined}
+              onDeactivate={can("users", "delete") ? handleDeactivate : undefined}
+              onReactivate={can("users", "update") ? handleReactivate : undefined}
+            />
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,276 @@
+import type { Express, Request, Response, NextFunction } from "express";
+import session from "express-session";
+import passport from "passport";
+import { Strategy as LocalStrategy } from "passport-local";
+import { randomBytes } from "crypto";
+import { z } from "zod";
+import { storage } from "./storage";
+import { hashPassword, isPasswordHash, verifyPassword } from "./passwords";
+import { User as SelectUser, userAccountSchema } from "@shared/schema";
+import { isUserRole, resolveUserRole, userRoles } from "@shared/permissions";
+
+declare global {
+  namespace Express {
+    interface User extends SelectUser {}
+  }
+}
+
+// API paths that can be used without signing in
+const PUBLIC_API_PATHS = ["/login", "/logout", "/user"];
+
+/**
+ * Strips the password hash before a user is sent to the client
+ */
+export function toPublicUser(user: SelectUser): Omit<SelectUser, "password"> {
+  const { password, ...publicUser } = user;
+  return publicUser;
+}
+
+/**
+ * Creates the default admin/admin account when no users exist yet,
+ * so a fresh install can be signed into
+ */
+async function ensureDefaultAdmin() {
+  const users = await storage.getAllUsers();
+
+  if (users.length > 0) {
+    return;
+  }
+
+  await storage.createUser({
+    username: "admin",
+    password: await hashPassword("admin"),
+    name: "Administrator",
+    role: "admin",
+  });
+  console.warn("Created default user admin/admin; change its password after signing in");
+}
+
+/**
+ * Rewrites roles saved before roles were enforced (e.g. "Financial Manager")
+ * to the role they stand for. Users whose role matches none are reported and
+ * can't sign in until an administrator assigns them one.
+ */
+async function migrateLegacyRoles() {
+  const users = await storage.getAllUsers();
+
+  for (const user of users) {
+    if (isUserRole(user.role)) {
+      continue;
+    }
+
+    const role = resolveUserRole(user.role);
+    if (role) {
+      await storage.updateUser(user.id, { role });
+      console.warn(`Changed the role of user ${user.username} from "${user.role}" to "${role}"`);
+    } else {
+      console.error(`User ${user.username} has unknown role "${user.role}"; assign one of ${userRoles.join(", ")}`);
+    }
+  }
+}
+
+/**
+ * Hashes passwords still stored in plaintext from before passwords were
+ * hashed, so they don't sit readable in the users file until each user
+ * next signs in
+ */
+async function hashPlaintextPasswords() {
+  const users = await storage.getAllUsers();
+
+  for (const user of users) {
+    if (!isPasswordHash(user.password)) {
+      await storage.updateUser(user.id, { password: await hashPassword(user.password) });
+      console.warn(`Hashed the plaintext password of user ${user.username}`);
+    }
+  }
+}
+
+function getSessionSecret(): string {
+  if (process.env.SESSION_SECRET) {
+    return process.env.SESSION_SECRET;
+  }
+
+  console.warn("SESSION_SECRET is not set; using a random secret, so sessions end when the server restarts");
+  return randomBytes(32).toString("hex");
+}
+
+/**
+ * Sets up cookie sessions and username/password login, registers the
+ * login/logout/user routes and requires a signed-in user on every other
+ * /api route
+ */
+export async function setupAuth(app: Express) {
+  await ensureDefaultAdmin();
+  await migrateLegacyRoles();
+  await hashPlaintextPasswords();
+
+  const sessionSettings: session.SessionOptions = {
+    secret: getSessionSecret(),
+    resave: false,
+    saveUninitialized: false,
+    store: storage.sessionStore,
+    cookie: {
+      httpOnly: true,
+      sameSite: "lax",
+      secure: app.get("env") === "production" && process.env.SECURE_COOKIES !== "false",
+      maxAge: 12 * 60 * 60 * 1000, // 12 hours
+    },
+  };
+
+  app.set("trust proxy", 1);
+  app.use(session(sessionSettings));
+  app.use(passport.initialize());
+  app.use(passport.session());
+
+  passport.use(
+    new LocalStrategy(async (username, password, done) => {
+      try {
+        const user = await storage.getUserByUsername(username);
+
+        if (!user || !user.active || !(await verifyPassword(password, user.password))) {
+          return done(null, false);
+        }
+
+        // Hash passwords saved in plaintext before hashing was introduced
+        if (!isPasswordHash(user.password)) {
+          const upgradedUser = await storage.updateUser(user.id, { password: await hashPassword(password) });
+          return done(null, upgradedUser || user);
+        }
+
+        return done(null, user);
+      } catch (error) {
+        return done(error);
+      }
+    }),
+  );
+
+  passport.serializeUser((user, done) => done(null, user.id));
+  passport.deserializeUser(async (id: number, done) => {
+    try {
+      const user = await storage.getUser(id);
+      // Ends the sessions of users deactivated since they signed in
+      done(null, user?.active ? user : false);
+    } catch (error) {
+      done(error);
+    }
+  });
+
+  app.post("/api/login", (req: Request, res: Response, next: NextFunction) => {
+    passport.authenticate("local", (error: unknown, user: SelectUser | false) => {
+      if (error) {
+        console.error("Error signing in:", error);
+        return res.status(500).json({ message: "Failed to sign in" });
+      }
+
+      if (!user) {
+        return res.status(401).json({ message: "Invalid username or password" });
+      }
+
+      // Without a known role the user could do nothing once signed in
+      if (!isUserRole(user.role)) {
+        return res.status(403).json({
+          message: `Your account has no recognised role ("${user.role}"); ask an administrator to assign one`
+        });
+      }
+
+      // Start a fresh session so a pre-login session id can't be reused
+      req.session.regenerate((regenerateError) => {
+        if (regenerateError) {
+          return next(regenerateError);
+        }
+
+        req.login(user, (loginError) => {
+          if (loginError) {
+            return next(loginError);
+          }
+          res.json(toPublicUser(user));
+        });
+      });
+    })(req, res, next);
+  });
+
+  app.post("/api/logout", (req: Request, res: Response, next: NextFunction) => {
+    req.logout((logoutError) => {
+      if (logoutError) {
+        return next(logoutError);
+      }
+
+      req.session.destroy((destroyError) => {
+        if (destroyError) {
+          return next(destroyError);
+        }
+        res.clearCookie("connect.sid");
+        res.status(204).end();
+      });
+    });
+  });
+
+  app.get("/api/user", (req: Request, res: Response) => {
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+    res.json(toPublicUser(req.user));
+  });
+
+  // Every other API route needs a signed-in user
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    if (PUBLIC_API_PATHS.includes(req.path) || req.isAuthenticated()) {
+      return next();
+    }
+    res.status(401).json({ message: "Not signed in" });
+  });
+
+  app.post("/api/user/password", async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        currentPassword: z.string().min(1, "Current password is required"),
+        newPassword: z.string().min(8, "New password must be at least 8 characters"),
+      });
+
+      const validation = schema.safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid password data", errors: validation.error.format() });
+      }
+
+      const user = await storage.getUser(req.user!.id);
+
+      if (!user || !(await verifyPassword(validation.data.currentPassword, user.password))) {
+        return res.status(400).json({ message: "Current password is incorrect" });
+      }
+
+      await storage.updateUser(user.id, { password: await hashPassword(validation.data.newPassword) });
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error changing password:", error);
+      res.status(500).json({ message: "Failed to change password" });
+    }
+  });
+
+  // Lets signed-in users edit their own profile
+  app.put("/api/user", async (req: Request, res: Response) => {
+    // GET /api/user is public, so the sign-in check above lets this path through
+    if (!req.isAuthenticated()) {
+      return res.status(401).json({ message: "Not signed in" });
+    }
+
+    try {
+      const validation = userAccountSchema.pick({ name: true }).safeParse(req.body);
+
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid profile data", errors: validation.error.format() });
+      }
+
+      const updatedUser = await storage.updateUser(req.user!.id, validation.data);
+
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error updating profile:", error);
+      res.status(500).json({ message: "Failed to update profile" });
+    }
+  });
+}
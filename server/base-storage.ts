@@ -0,0 +1,2044 @@
+import {
+  ProductionUnit, InsertProductionUnit,
+  Expense, InsertExpense,
+  Revenue, InsertRevenue,
+  InventoryItem, InsertInventoryItem,
+  Report, InsertReport,
+  Order, Payment, Invoice, InsertInvoice, InvoiceLine, IssueInvoiceRequest, SalaryPayment, MaintenanceRecord, Customer, CustomerLedger, OrderStatusChange, JobCard,
+  Supplier, SupplierBalance, SupplierLedger,
+  HsnCode, InsertHsnCode, TaxCategory, InsertTaxCategory, TaxMaster, TaxCategoryKind, GstRateVersion, taxCategoryKinds,
+  DueOrder, DueOrdersReport,
+  AgingBucket, ArAgingCustomer, ArAgingOrder, ArAgingReport, agingBuckets,
+  Gstr1Document, Gstr1B2csRow, Gstr1HsnRow, Gstr1Issue, Gstr1Report,
+  GstTaxHeads, Gstr3bBlockedExpense, Gstr3bReport, Gstr3bSlab, ItcBlockReason,
+  Gstr2bBookEntry, Gstr2bInvoice, Gstr2bMatchStatus, Gstr2bMismatch, Gstr2bReconciliation, Gstr2bRow, gstr2bMatchStatuses,
+  AuditEntry, InsertAuditEntry, AuditEntity, AuditAction, DeletedRecord,
+  StatSummary, Transaction, ProfitLossPeriod, CostTrend, CostDiscrepancy
+} from "@shared/schema";
+import path from "path";
+import { readExcelFile, writeExcelFile, writeExcelWorkbook, ensureDirectoryExists } from "./excel-handler";
+import { buildGstr1Sheets } from "./gstr1";
+import { getCurrentUsername } from "./request-context";
+import { DEFAULT_HSN_CODES, DEFAULT_TAX_CATEGORIES, formatRateVersion, getCategoryTax } from "@shared/tax-master";
+import { parseOrderMeasurements } from "@shared/measurements";
+import { isOrderOpen, isOrderOverdue } from "@shared/order-status";
+import { calculateBaseFromTotal, getGSTSplit, getStateCodeFromGSTIN, isInterStateSupply, resolveStateCode, splitGST } from "@shared/gst-utils";
+import { B2CL_INVOICE_LIMIT, GSTR2B_TAX_TOLERANCE, ITC_BLOCK_REASON_LABELS, isInTaxPeriod, isItcBlockedCategory, normalizeInvoiceNumber, setOffItc } from "@shared/gst-returns";
+import { differenceInCalendarDays, format } from "date-fns";
+
+// Rounds a rupee amount to whole paise so float sums compare reliably
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Aging bucket of a balance that is the given number of days past its due date
+function getAgingBucket(daysOverdue: number): AgingBucket {
+  if (daysOverdue <= 0) return "current";
+  if (daysOverdue <= 30) return "1-30";
+  if (daysOverdue <= 60) return "31-60";
+  if (daysOverdue <= 90) return "61-90";
+  return "90+";
+}
+
+// Splits an amount inclusive of GST into an invoice line's taxable value and CGST + SGST or IGST
+function buildInvoiceLine(
+  description: string,
+  hsn: string | null,
+  amount: string,
+  baseAmount: string | null,
+  gstRate: string | null,
+  isInterState: boolean
+): InvoiceLine {
+  const total = roundToPaise(parseFloat(amount));
+  const rate = gstRate ? parseFloat(gstRate) : 0;
+  const taxableValue = baseAmount ? roundToPaise(parseFloat(baseAmount)) : calculateBaseFromTotal(total, rate);
+  const tax = roundToPaise(total - taxableValue);
+  const cgst = isInterState ? 0 : roundToPaise(tax / 2);
+  
+  return {
+    description,
+    hsn: hsn || null,
+    gstRate: rate,
+    taxableValue,
+    cgst,
+    sgst: isInterState ? 0 : roundToPaise(tax - cgst),
+    igst: isInterState ? tax : 0,
+    total
+  };
+}
+
+function emptyAgingBuckets(): Record<AgingBucket, number> {
+  return Object.fromEntries(agingBuckets.map(bucket => [bucket, 0])) as Record<AgingBucket, number>;
+}
+
+// Thrown by createPayment and restorePayment when the payment is more than the order still owes
+export class OverpaymentError extends Error {
+  constructor(readonly outstanding: number) {
+    super(`Payment is more than the ₹${outstanding.toFixed(2)} still due on this order`);
+    this.name = "OverpaymentError";
+  }
+}
+
+// Thrown when an expense, revenue or order is saved at a GST rate other than its category's on its date
+export class GstRateMismatchError extends Error {
+  constructor(readonly category: string, readonly gstRate: number) {
+    super(`${category} is charged GST at ${gstRate}% on this date`);
+    this.name = "GstRateMismatchError";
+  }
+}
+
+// Tax fields of an expense, revenue or order, with orderDate passed as date
+type TaxedRecord = {
+  category: string;
+  date?: Date | string | null;
+  gstRate?: string | number | null;
+  hsn?: string | null;
+  gstRateVersionId?: number | null;
+  orderId?: number | null;
+};
+
+// Stored rate, HSN/SAC code and rate change of an expense, revenue or order
+type CategoryTaxFields = Pick<Expense, "gstRate" | "hsn" | "gstRateVersionId">;
+
+// Stored CGST, SGST and IGST parts of an expense's, revenue's or order's GST
+export type GstSplitFields = Pick<Expense, "cgstAmount" | "sgstAmount" | "igstAmount">;
+
+// Soft-deleted rows of every entity that has a recycle bin
+export type RecycleBinContents = {
+  expenses: Expense[];
+  revenues: Revenue[];
+  orders: Order[];
+  payments: Payment[];
+  salaryPayments: SalaryPayment[];
+  maintenanceRecords: MaintenanceRecord[];
+};
+
+/**
+ * Backend-independent storage logic shared by every IStorage implementation.
+ * Dashboard aggregation and Excel import/export only need the public
+ * entity operations, so they are written once here against those.
+ */
+export abstract class BaseStorage {
+  protected dataDirectory: string;
+
+  constructor() {
+    this.dataDirectory = path.resolve(process.cwd(), "data");
+  }
+
+  abstract getAllProductionUnits(): Promise<ProductionUnit[]>;
+  abstract getProductionUnit(id: number): Promise<ProductionUnit | undefined>;
+  abstract createProductionUnit(unit: InsertProductionUnit): Promise<ProductionUnit>;
+  abstract updateProductionUnit(id: number, updates: Partial<ProductionUnit>): Promise<ProductionUnit | undefined>;
+  abstract getAllExpenses(): Promise<Expense[]>;
+  abstract getExpensesByProductionUnit(productionUnitId: number): Promise<Expense[]>;
+  abstract createExpense(expense: InsertExpense): Promise<Expense>;
+  abstract getAllRevenues(): Promise<Revenue[]>;
+  abstract getRevenue(id: number): Promise<Revenue | undefined>;
+  abstract createRevenue(revenue: InsertRevenue): Promise<Revenue>;
+  abstract updateRevenue(id: number, updates: Partial<Revenue>): Promise<Revenue | undefined>;
+  abstract deleteRevenue(id: number): Promise<boolean>;
+  abstract getAllInventoryItems(): Promise<InventoryItem[]>;
+  abstract createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem>;
+  abstract createReport(report: InsertReport): Promise<Report>;
+  abstract getAllCustomers(): Promise<Customer[]>;
+  abstract getCustomer(id: number): Promise<Customer | undefined>;
+  abstract getAllSuppliers(): Promise<Supplier[]>;
+  abstract getSupplier(id: number): Promise<Supplier | undefined>;
+  abstract getAllHsnCodes(): Promise<HsnCode[]>;
+  abstract createHsnCode(hsnCode: InsertHsnCode): Promise<HsnCode>;
+  abstract getAllTaxCategories(): Promise<TaxCategory[]>;
+  abstract createTaxCategory(category: InsertTaxCategory): Promise<TaxCategory>;
+  abstract getAllGstRateVersions(): Promise<GstRateVersion[]>;
+  abstract getAllOrders(): Promise<Order[]>;
+  abstract getOrdersByCustomer(customerId: number): Promise<Order[]>;
+  abstract getOrder(id: number): Promise<Order | undefined>;
+  abstract updateOrder(id: number, updates: Partial<Order>): Promise<Order | undefined>;
+  abstract getPaymentsByOrder(orderId: number): Promise<Payment[]>;
+  abstract getPaymentsByCustomer(customerId: number): Promise<Payment[]>;
+  abstract getAllInvoices(): Promise<Invoice[]>;
+  abstract createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  abstract getAuditEntries(entity: AuditEntity, entityId?: number): Promise<AuditEntry[]>;
+  abstract runInTransaction<T>(work: () => Promise<T>): Promise<T>;
+  protected abstract appendAuditEntry(entry: InsertAuditEntry): Promise<void>;
+  protected abstract getRecycleBinContents(): Promise<RecycleBinContents>;
+  protected abstract markInvoiceCancelled(id: number, reason: string): Promise<Invoice | undefined>;
+
+  /**
+   * Appends a record change to the audit log, attributed to the user of the
+   * current request. Backends call this from every create/update/delete.
+   */
+  protected async recordAudit(
+    entity: AuditEntity,
+    entityId: number,
+    action: AuditAction,
+    previousValues: object | null | undefined,
+    newValues: object | null | undefined
+  ): Promise<void> {
+    await this.appendAuditEntry({
+      entity,
+      entityId,
+      action,
+      changedAt: new Date(),
+      changedBy: getCurrentUsername(),
+      previousValues: previousValues ? JSON.stringify(previousValues) : null,
+      newValues: newValues ? JSON.stringify(newValues) : null
+    });
+  }
+
+  // Production unit cost reconciliation
+  /**
+   * Resets a unit's stored costToDate to the sum of its expense ledger
+   */
+  async recalculateProductionUnitCost(id: number): Promise<ProductionUnit | undefined> {
+    return this.runInTransaction(async () => {
+      const unit = await this.getProductionUnit(id);
+      
+      if (!unit) {
+        return undefined;
+      }
+      
+      const expenses = await this.getExpensesByProductionUnit(id);
+      const derivedCost = roundToPaise(
+        expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0)
+      );
+      return this.updateProductionUnit(id, { costToDate: derivedCost.toString() });
+    });
+  }
+
+  /**
+   * Lists units whose stored costToDate differs from their expense ledger
+   */
+  async checkProductionUnitCosts(): Promise<CostDiscrepancy[]> {
+    const [units, expenses] = await Promise.all([
+      this.getAllProductionUnits(),
+      this.getAllExpenses()
+    ]);
+    
+    const derivedCosts = new Map<number, number>();
+    expenses.forEach(expense => {
+      const current = derivedCosts.get(expense.productionUnitId) || 0;
+      derivedCosts.set(expense.productionUnitId, current + parseFloat(expense.amount.toString()));
+    });
+    
+    const discrepancies: CostDiscrepancy[] = [];
+    units.forEach(unit => {
+      const storedCostToDate = roundToPaise(parseFloat(unit.costToDate.toString()) || 0);
+      const derivedCostToDate = roundToPaise(derivedCosts.get(unit.id) || 0);
+      const difference = roundToPaise(storedCostToDate - derivedCostToDate);
+      
+      if (difference !== 0) {
+        discrepancies.push({
+          productionUnitId: unit.id,
+          productionUnitName: unit.name,
+          storedCostToDate,
+          derivedCostToDate,
+          difference
+        });
+      }
+    });
+    
+    return discrepancies;
+  }
+
+  // Expense entries booked by salary payments and maintenance records
+  protected expenseForSalaryPayment(payment: SalaryPayment): InsertExpense {
+    return {
+      productionUnitId: payment.productionUnitId,
+      description: `Salary: ${payment.employeeName} - ${payment.month}/${payment.year}`,
+      amount: payment.amount,
+      date: new Date(payment.paymentDate),
+      category: "Salary",
+      currency: "INR",
+      salaryPaymentId: payment.id
+    };
+  }
+
+  protected expenseForMaintenanceRecord(record: MaintenanceRecord): InsertExpense {
+    return {
+      productionUnitId: record.productionUnitId,
+      description: `Maintenance: ${record.machineName} - ${record.maintenanceType}`,
+      amount: record.cost,
+      date: new Date(record.date),
+      category: "Maintenance",
+      currency: "INR",
+      maintenanceRecordId: record.id
+    };
+  }
+
+  // Revenue entry booked by an order
+  protected revenueForOrder(order: Order): InsertRevenue {
+    return {
+      productionUnitId: order.productionUnitId,
+      description: `Order ${order.orderNumber}: ${order.description || 'Stitching services'}`,
+      amount: order.totalAmount,
+      date: order.orderDate,
+      category: "Stitching",
+      baseAmount: order.baseAmount,
+      gstRate: order.gstRate,
+      gstAmount: order.gstAmount,
+      hsn: order.hsn,
+      invoiceNumber: order.invoiceNumber,
+      placeOfSupply: order.placeOfSupply,
+      currency: order.currency,
+      orderId: order.id
+    };
+  }
+
+  // GST split
+  /**
+   * The place of supply of a sale: as entered, else the customer's state,
+   * else the production unit's own state
+   */
+  protected async resolvePlaceOfSupply(
+    productionUnitId: number,
+    placeOfSupply: string | null | undefined,
+    customerId?: number
+  ): Promise<string | null> {
+    if (placeOfSupply) {
+      return placeOfSupply;
+    }
+    const customer = customerId ? await this.getCustomer(customerId) : undefined;
+    const unit = await this.getProductionUnit(productionUnitId);
+    return resolveStateCode(customer?.stateCode, customer?.gstin) || resolveStateCode(unit?.stateCode, unit?.gstin) || null;
+  }
+
+  /**
+   * The GST state a purchase was supplied from: the linked supplier's state,
+   * else the state entered on the expense
+   */
+  protected async resolveSupplierStateCode(
+    supplierId: number | null | undefined,
+    supplierStateCode: string | null | undefined
+  ): Promise<string | null> {
+    const supplier = supplierId ? await this.getSupplier(supplierId) : undefined;
+    return resolveStateCode(supplier?.stateCode, supplier?.gstin) || supplierStateCode || null;
+  }
+
+  /**
+   * Splits a record's GST into CGST + SGST, or IGST when the other party's
+   * state (the place of supply, or the supplier's state for purchases)
+   * differs from the production unit's
+   */
+  protected async gstSplitFor(
+    productionUnitId: number,
+    gstAmount: string | number | null | undefined,
+    otherStateCode: string | null | undefined
+  ): Promise<GstSplitFields> {
+    if (gstAmount === null || gstAmount === undefined || gstAmount === "") {
+      return { cgstAmount: null, sgstAmount: null, igstAmount: null };
+    }
+    
+    const unit = await this.getProductionUnit(productionUnitId);
+    const unitStateCode = resolveStateCode(unit?.stateCode, unit?.gstin);
+    const split = splitGST(parseFloat(gstAmount.toString()), isInterStateSupply(unitStateCode, otherStateCode));
+    return {
+      cgstAmount: split.cgst.toString(),
+      sgstAmount: split.sgst.toString(),
+      igstAmount: split.igst.toString()
+    };
+  }
+
+  /**
+   * The GST rate, HSN/SAC code and rate change the tax master gives a record's
+   * category on its date. A rate the record carries must be that rate, and the
+   * master's code replaces the record's; a record without a rate has no GST.
+   * Updates that leave the category, date, rate and code alone keep the stored
+   * fields, as does an order's revenue entry, which was checked with its order.
+   */
+  protected async categoryTaxFor(
+    kind: TaxCategoryKind,
+    record: TaxedRecord,
+    updates?: Partial<TaxedRecord>
+  ): Promise<CategoryTaxFields> {
+    const stored = {
+      gstRate: record.gstRate || record.gstRate === 0 ? record.gstRate.toString() : null,
+      hsn: record.hsn || null,
+      gstRateVersionId: record.gstRateVersionId ?? null
+    };
+    const touched = !updates || [updates.category, updates.date, updates.gstRate, updates.hsn].some(value => value !== undefined);
+    if (!touched || record.orderId || stored.gstRate === null) {
+      return stored;
+    }
+    
+    const { gstRate, hsn, version } = getCategoryTax(await this.getTaxMaster(), kind, record.category, record.date || new Date());
+    if (parseFloat(stored.gstRate) !== gstRate) {
+      throw new GstRateMismatchError(record.category, gstRate);
+    }
+    return { gstRate: gstRate.toString(), hsn: hsn ?? stored.hsn, gstRateVersionId: version?.id ?? null };
+  }
+
+  /**
+   * Brings an order's revenue entry in line with the order after an update.
+   * Cancelling an order voids its revenue by moving it to the recycle bin.
+   */
+  protected async syncOrderRevenue(oldOrder: Order, updatedOrder: Order): Promise<void> {
+    const revenue = (await this.getAllRevenues()).find(revenue => revenue.orderId === updatedOrder.id);
+    
+    if (updatedOrder.status === "cancelled") {
+      if (revenue) {
+        await this.deleteRevenue(revenue.id);
+      }
+      return;
+    }
+    
+    const revenueFields = this.revenueForOrder(updatedOrder);
+    const revenueChanged = JSON.stringify(revenueFields) !== JSON.stringify(this.revenueForOrder(oldOrder));
+    
+    if (revenue) {
+      if (revenueChanged) {
+        await this.updateRevenue(revenue.id, revenueFields);
+      }
+    } else if ((revenueChanged || updatedOrder.status !== oldOrder.status) && parseFloat(updatedOrder.totalAmount) > 0) {
+      // Book the revenue again if the entry is missing, e.g. after it was deleted
+      await this.createRevenue(revenueFields);
+    }
+  }
+
+  /**
+   * Sets an order's paidAmount to the sum of its payments. Called after
+   * every change to the order's payments.
+   */
+  protected async syncOrderPaidAmount(orderId: number): Promise<void> {
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      return;
+    }
+    
+    const payments = await this.getPaymentsByOrder(orderId);
+    const paidAmount = roundToPaise(
+      payments.reduce((sum, payment) => sum + parseFloat(payment.amount.toString()), 0)
+    );
+    if (paidAmount !== roundToPaise(parseFloat((order.paidAmount || 0).toString()))) {
+      await this.updateOrder(orderId, { paidAmount: paidAmount.toString() });
+    }
+  }
+
+  /**
+   * What is still owed on an order; never below zero
+   */
+  async getOrderOutstanding(orderId: number): Promise<number | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      return undefined;
+    }
+    
+    const payments = await this.getPaymentsByOrder(orderId);
+    const paid = payments.reduce((sum, payment) => sum + parseFloat(payment.amount.toString()), 0);
+    return Math.max(0, roundToPaise(parseFloat(order.totalAmount.toString()) - paid));
+  }
+
+  /**
+   * Throws OverpaymentError when a payment of the amount is more than the order
+   * still owes. Backends call it while holding the lock on the order's payments,
+   * so two payments recorded at the same time can't both pass.
+   */
+  protected async checkPaymentWithinOutstanding(orderId: number, amount: string): Promise<void> {
+    const outstanding = await this.getOrderOutstanding(orderId);
+    if (outstanding !== undefined && parseFloat(amount) > outstanding) {
+      throw new OverpaymentError(outstanding);
+    }
+  }
+
+  // Order status timeline
+  /**
+   * Status changes of an order, oldest first, read from the audit log
+   */
+  async getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]> {
+    const entries = (await this.getAuditEntries("orders", orderId)).sort((a, b) => a.id - b.id);
+    const history: OrderStatusChange[] = [];
+    
+    for (const entry of entries) {
+      if (entry.action !== "create" && entry.action !== "update") {
+        continue;
+      }
+      
+      const previous = entry.previousValues ? JSON.parse(entry.previousValues) : null;
+      const current = entry.newValues ? JSON.parse(entry.newValues) : null;
+      if (!current || (previous && previous.status === current.status)) {
+        continue;
+      }
+      
+      history.push({
+        fromStatus: previous ? previous.status : null,
+        toStatus: current.status,
+        changedAt: entry.changedAt,
+        changedBy: entry.changedBy
+      });
+    }
+    
+    return history;
+  }
+
+  // Delivery schedule
+  /**
+   * Open orders with a delivery date no more than withinDays after asOf,
+   * soonest first, including those already past due. Passing a production
+   * unit limits the list to that unit's orders.
+   */
+  async getDueOrders(withinDays: number, productionUnitId?: number, asOf: Date = new Date()): Promise<DueOrdersReport> {
+    const [orders, customers] = await Promise.all([this.getAllOrders(), this.getAllCustomers()]);
+    const customerNames = new Map(customers.map(customer => [customer.id, customer.name]));
+    const dueOrders: DueOrder[] = [];
+    
+    for (const order of orders) {
+      if (!order.deliveryDate || !isOrderOpen(order.status)) {
+        continue;
+      }
+      if (productionUnitId !== undefined && order.productionUnitId !== productionUnitId) {
+        continue;
+      }
+      
+      const daysUntilDue = differenceInCalendarDays(new Date(order.deliveryDate), asOf);
+      if (daysUntilDue > withinDays) {
+        continue;
+      }
+      
+      dueOrders.push({
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        customerId: order.customerId,
+        customerName: customerNames.get(order.customerId) || "Unknown Customer",
+        productionUnitId: order.productionUnitId,
+        deliveryDate: order.deliveryDate,
+        status: order.status,
+        daysUntilDue,
+        isOverdue: isOrderOverdue(order, asOf)
+      });
+    }
+    
+    dueOrders.sort((a, b) => new Date(a.deliveryDate).getTime() - new Date(b.deliveryDate).getTime());
+    
+    return {
+      asOf,
+      withinDays,
+      orders: dueOrders,
+      overdueCount: dueOrders.filter(order => order.isOverdue).length
+    };
+  }
+
+  // Job cards
+  /**
+   * What the floor needs to stitch an order, for its printed job card
+   */
+  async getJobCard(orderId: number): Promise<JobCard | undefined> {
+    const order = await this.getOrder(orderId);
+    if (!order) {
+      return undefined;
+    }
+    
+    const [customer, unit] = await Promise.all([
+      this.getCustomer(order.customerId),
+      this.getProductionUnit(order.productionUnitId)
+    ]);
+    
+    return {
+      order,
+      customerName: customer?.name || "Unknown Customer",
+      customerPhone: customer?.phone || null,
+      productionUnitName: unit?.name || "Unknown Unit",
+      measurements: parseOrderMeasurements(order.measurements)
+    };
+  }
+
+  // Tax invoices
+  /**
+   * The issued (not cancelled) invoice of an order or a revenue entry, if any
+   */
+  async getIssuedInvoice(source: { orderId?: number; revenueId?: number }): Promise<Invoice | undefined> {
+    const invoices = await this.getAllInvoices();
+    return invoices.find(invoice =>
+      invoice.status === "issued" &&
+      (source.orderId ? invoice.orderId === source.orderId : invoice.revenueId === source.revenueId)
+    );
+  }
+
+  /**
+   * Issues a tax invoice for an order, or for a revenue entry not booked by an
+   * order, and stamps its number on the record. Buyer details default to the
+   * order's customer and the place of supply to the buyer's state, else the
+   * record's place of supply, else the seller's state. Callers check the
+   * record can be invoiced and the unit has a GSTIN.
+   */
+  async issueInvoice(request: IssueInvoiceRequest): Promise<Invoice> {
+    return this.runInTransaction(async () => {
+      const order = request.orderId ? await this.getOrder(request.orderId) : undefined;
+      const revenue = request.revenueId ? await this.getRevenue(request.revenueId) : undefined;
+      const source = order || revenue;
+      if (!source) {
+        throw new Error("Order or revenue entry to invoice not found");
+      }
+      
+      const unit = await this.getProductionUnit(source.productionUnitId);
+      const sellerState = getStateCodeFromGSTIN(unit?.gstin);
+      if (!unit?.gstin || !sellerState) {
+        throw new Error(`Production unit ${source.productionUnitId} has no GSTIN`);
+      }
+      
+      const customer = order ? await this.getCustomer(order.customerId) : undefined;
+      const buyerGstin = request.buyerGstin !== undefined ? request.buyerGstin : customer?.gstin || null;
+      const placeOfSupply = request.placeOfSupply || getStateCodeFromGSTIN(buyerGstin) || source.placeOfSupply || sellerState;
+      const isInterState = placeOfSupply !== sellerState;
+      
+      const lines = [
+        order
+          ? buildInvoiceLine(
+              order.description || `${order.category} (${order.orderNumber})`,
+              order.hsn, order.totalAmount, order.baseAmount, order.gstRate, isInterState
+            )
+          : buildInvoiceLine(
+              revenue!.description,
+              revenue!.hsn, revenue!.amount, revenue!.baseAmount, revenue!.gstRate, isInterState
+            )
+      ];
+      const sum = (amount: (line: InvoiceLine) => number) =>
+        roundToPaise(lines.reduce((total, line) => total + amount(line), 0)).toString();
+      
+      const invoice = await this.createInvoice({
+        productionUnitId: source.productionUnitId,
+        orderId: order?.id ?? null,
+        revenueId: order ? null : revenue!.id,
+        invoiceDate: request.invoiceDate || new Date(),
+        sellerName: unit.name,
+        sellerAddress: unit.location,
+        sellerGstin: unit.gstin,
+        buyerName: request.buyerName || customer?.name || "Walk-in Customer",
+        buyerAddress: request.buyerAddress !== undefined ? request.buyerAddress || null : customer?.address || null,
+        buyerGstin,
+        placeOfSupply,
+        isInterState,
+        lines: JSON.stringify(lines),
+        taxableValue: sum(line => line.taxableValue),
+        cgstAmount: sum(line => line.cgst),
+        sgstAmount: sum(line => line.sgst),
+        igstAmount: sum(line => line.igst),
+        totalAmount: sum(line => line.total)
+      });
+      
+      // The record takes the invoice's place of supply so its GST split matches.
+      // An order's invoice number reaches its revenue entry through the order sync.
+      if (order) {
+        await this.updateOrder(order.id, { invoiceNumber: invoice.invoiceNumber, placeOfSupply });
+      } else {
+        await this.updateRevenue(revenue!.id, { invoiceNumber: invoice.invoiceNumber, placeOfSupply });
+      }
+      
+      return invoice;
+    });
+  }
+
+  /**
+   * Cancels an issued invoice and clears its number from the invoiced record,
+   * which can then be edited and invoiced again. The cancelled invoice keeps
+   * its number so the series has no gaps.
+   */
+  async cancelInvoice(id: number, reason: string): Promise<Invoice | undefined> {
+    return this.runInTransaction(async () => {
+      const invoice = await this.markInvoiceCancelled(id, reason);
+      if (!invoice) {
+        return undefined;
+      }
+      
+      if (invoice.orderId) {
+        const order = await this.getOrder(invoice.orderId);
+        if (order?.invoiceNumber === invoice.invoiceNumber) {
+          await this.updateOrder(order.id, { invoiceNumber: null });
+        }
+      } else if (invoice.revenueId) {
+        const revenue = await this.getRevenue(invoice.revenueId);
+        if (revenue?.invoiceNumber === invoice.invoiceNumber) {
+          await this.updateRevenue(revenue.id, { invoiceNumber: null });
+        }
+      }
+      
+      return invoice;
+    });
+  }
+
+  // Recycle bin
+  /**
+   * Whether a deleted revenue entry was voided by cancelling its order,
+   * in which case it must stay out of the revenue ledger
+   */
+  async isRevenueVoided(revenueId: number): Promise<boolean> {
+    const contents = await this.getRecycleBinContents();
+    const revenue = contents.revenues.find(revenue => revenue.id === revenueId);
+    if (!revenue?.orderId) {
+      return false;
+    }
+    
+    const order = await this.getOrder(revenue.orderId);
+    return order?.status === "cancelled";
+  }
+
+  /**
+   * Whether a deleted revenue entry was booked by an order that is itself
+   * deleted, in which case restoring the order brings the revenue back
+   */
+  async isRevenueOrderDeleted(revenueId: number): Promise<boolean> {
+    const contents = await this.getRecycleBinContents();
+    const revenue = contents.revenues.find(revenue => revenue.id === revenueId);
+    if (!revenue?.orderId) {
+      return false;
+    }
+    
+    return !(await this.getOrder(revenue.orderId));
+  }
+
+  /**
+   * Whether a deleted payment belongs to an order that is itself deleted,
+   * in which case restoring the order brings the payment back
+   */
+  async isPaymentOrderDeleted(paymentId: number): Promise<boolean> {
+    const contents = await this.getRecycleBinContents();
+    const payment = contents.payments.find(payment => payment.id === paymentId);
+    if (!payment) {
+      return false;
+    }
+    
+    return !(await this.getOrder(payment.orderId));
+  }
+
+  /**
+   * Lists soft-deleted records of every type, most recently deleted first
+   */
+  async getDeletedRecords(): Promise<DeletedRecord[]> {
+    const contents = await this.getRecycleBinContents();
+    
+    // Payments take their description and unit from their order, which may or may not be deleted
+    const paymentOrders = new Map<number, Order>(contents.orders.map(order => [order.id, order]));
+    for (const payment of contents.payments) {
+      const order = paymentOrders.has(payment.orderId) ? undefined : await this.getOrder(payment.orderId);
+      if (order) {
+        paymentOrders.set(order.id, order);
+      }
+    }
+    
+    const records: DeletedRecord[] = [
+      ...contents.expenses.map(expense => ({
+        entity: "expenses" as const,
+        id: expense.id,
+        description: expense.description,
+        amount: parseFloat(expense.amount.toString()),
+        productionUnitId: expense.productionUnitId,
+        deletedAt: expense.deletedAt!
+      })),
+      ...contents.revenues.map(revenue => ({
+        entity: "revenues" as const,
+        id: revenue.id,
+        description: revenue.description,
+        amount: parseFloat(revenue.amount.toString()),
+        productionUnitId: revenue.productionUnitId,
+        deletedAt: revenue.deletedAt!
+      })),
+      ...contents.orders.map(order => ({
+        entity: "orders" as const,
+        id: order.id,
+        description: `Order ${order.orderNumber}: ${order.description || 'Stitching services'}`,
+        amount: parseFloat(order.totalAmount.toString()),
+        productionUnitId: order.productionUnitId,
+        deletedAt: order.deletedAt!
+      })),
+      ...contents.payments.map(payment => {
+        const order = paymentOrders.get(payment.orderId);
+        return {
+          entity: "payments" as const,
+          id: payment.id,
+          description: `Payment for order ${order?.orderNumber || `#${payment.orderId}`} (${payment.method})`,
+          amount: parseFloat(payment.amount.toString()),
+          productionUnitId: order?.productionUnitId || 0,
+          deletedAt: payment.deletedAt!
+        };
+      }),
+      ...contents.salaryPayments.map(payment => ({
+        entity: "salary_payments" as const,
+        id: payment.id,
+        description: this.expenseForSalaryPayment(payment).description,
+        amount: parseFloat(payment.amount.toString()),
+        productionUnitId: payment.productionUnitId,
+        deletedAt: payment.deletedAt!
+      })),
+      ...contents.maintenanceRecords.map(record => ({
+        entity: "maintenance_records" as const,
+        id: record.id,
+        description: this.expenseForMaintenanceRecord(record).description,
+        amount: parseFloat(record.cost.toString()),
+        productionUnitId: record.productionUnitId,
+        deletedAt: record.deletedAt!
+      }))
+    ];
+    
+    return records.sort((a, b) => new Date(b.deletedAt).getTime() - new Date(a.deletedAt).getTime());
+  }
+
+  // Customer ledger
+  /**
+   * A customer's orders and payments, newest first, with billed, paid and
+   * outstanding totals. Cancelled orders and their payments are listed but
+   * not counted. Passing a production unit limits the ledger to that unit's orders.
+   */
+  async getCustomerLedger(customerId: number, productionUnitId?: number): Promise<CustomerLedger | undefined> {
+    const customer = await this.getCustomer(customerId);
+    if (!customer) {
+      return undefined;
+    }
+    
+    const orders = (await this.getOrdersByCustomer(customerId))
+      .filter(order => productionUnitId === undefined || order.productionUnitId === productionUnitId)
+      .sort((a, b) => new Date(b.orderDate).getTime() - new Date(a.orderDate).getTime());
+    const orderIds = new Set(orders.map(order => order.id));
+    const payments = (await this.getPaymentsByCustomer(customerId))
+      .filter(payment => orderIds.has(payment.orderId))
+      .sort((a, b) => new Date(b.paymentDate).getTime() - new Date(a.paymentDate).getTime());
+    
+    const billedOrders = orders.filter(order => order.status !== "cancelled");
+    const billedOrderIds = new Set(billedOrders.map(order => order.id));
+    const totalBilled = roundToPaise(billedOrders.reduce(
+      (sum, order) => sum + parseFloat(order.totalAmount.toString()), 0));
+    const totalPaid = roundToPaise(payments
+      .filter(payment => billedOrderIds.has(payment.orderId))
+      .reduce((sum, payment) => sum + parseFloat(payment.amount.toString()), 0));
+    
+    return {
+      customer,
+      orders,
+      payments,
+      totalBilled,
+      totalPaid,
+      outstanding: roundToPaise(totalBilled - totalPaid)
+    };
+  }
+
+  // Supplier payables
+  /**
+   * Purchases, GST paid and unpaid balances of every supplier as of the given
+   * date. Passing a production unit counts only that unit's expenses.
+   */
+  async getSupplierBalances(productionUnitId?: number, asOf: Date = new Date()): Promise<SupplierBalance[]> {
+    const [suppliers, expenses] = await Promise.all([this.getAllSuppliers(), this.getAllExpenses()]);
+    
+    return suppliers.map(supplier => this.summarizeSupplierExpenses(
+      supplier,
+      expenses.filter(expense => expense.supplierId === supplier.id &&
+        (productionUnitId === undefined || expense.productionUnitId === productionUnitId)),
+      asOf
+    ));
+  }
+
+  /**
+   * A supplier's expenses, newest first, with their totals as of the given date
+   */
+  async getSupplierLedger(supplierId: number, productionUnitId?: number, asOf: Date = new Date()): Promise<SupplierLedger | undefined> {
+    const supplier = await this.getSupplier(supplierId);
+    if (!supplier) {
+      return undefined;
+    }
+    
+    const expenses = (await this.getAllExpenses())
+      .filter(expense => expense.supplierId === supplierId &&
+        (productionUnitId === undefined || expense.productionUnitId === productionUnitId))
+      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime());
+    
+    return {
+      ...this.summarizeSupplierExpenses(supplier, expenses, asOf),
+      supplier,
+      expenses
+    };
+  }
+
+  // An unpaid expense falls due the supplier's payment terms after its date
+  private summarizeSupplierExpenses(supplier: Supplier, expenses: Expense[], asOf: Date): SupplierBalance {
+    const unpaid = expenses.filter(expense => !expense.paidDate);
+    const sumAmounts = (list: Expense[]) =>
+      roundToPaise(list.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0));
+    
+    return {
+      supplierId: supplier.id,
+      purchaseCount: expenses.length,
+      totalPurchases: sumAmounts(expenses),
+      gstPaid: roundToPaise(expenses.reduce(
+        (sum, expense) => sum + (expense.gstAmount ? parseFloat(expense.gstAmount.toString()) : 0), 0)),
+      outstanding: sumAmounts(unpaid),
+      overdue: sumAmounts(unpaid.filter(expense =>
+        differenceInCalendarDays(asOf, new Date(expense.date)) > supplier.paymentTermsDays))
+    };
+  }
+
+  // Tax master
+  async getTaxMaster(): Promise<TaxMaster> {
+    const [hsnCodes, categories, rateVersions] = await Promise.all([
+      this.getAllHsnCodes(),
+      this.getAllTaxCategories(),
+      this.getAllGstRateVersions()
+    ]);
+    return {
+      hsnCodes: hsnCodes.sort((a, b) => a.code.localeCompare(b.code)),
+      categories: categories.sort((a, b) => a.kind.localeCompare(b.kind) || a.name.localeCompare(b.name)),
+      rateVersions: rateVersions.sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime())
+    };
+  }
+
+  /**
+   * Fills an empty tax master with the default codes and categories, so a
+   * fresh install has rates to work with
+   */
+  async seedTaxMaster(): Promise<void> {
+    const master = await this.getTaxMaster();
+    if (master.hsnCodes.length > 0 || master.categories.length > 0) {
+      return;
+    }
+    
+    await this.runInTransaction(async () => {
+      for (const hsnCode of DEFAULT_HSN_CODES) {
+        await this.createHsnCode(hsnCode);
+      }
+      for (const kind of taxCategoryKinds) {
+        for (const category of DEFAULT_TAX_CATEGORIES[kind]) {
+          await this.createTaxCategory({
+            kind,
+            name: category.name,
+            hsnCode: category.hsnCode ?? null,
+            gstRate: category.gstRate !== undefined ? String(category.gstRate) : null
+          });
+        }
+      }
+    });
+  }
+
+  // Receivables aging
+  /**
+   * Outstanding order balances by customer, bucketed by how many days they are
+   * past due as of the given date. Cancelled and fully paid orders are left out.
+   * Passing a production unit limits the report to that unit's orders.
+   */
+  async getArAgingReport(productionUnitId?: number, asOf: Date = new Date()): Promise<ArAgingReport> {
+    const [orders, customers] = await Promise.all([this.getAllOrders(), this.getAllCustomers()]);
+    const customerNames = new Map(customers.map(customer => [customer.id, customer.name]));
+    const dayInMs = 24 * 60 * 60 * 1000;
+    const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+    
+    const byCustomer = new Map<number, ArAgingCustomer>();
+    for (const order of orders) {
+      if (order.status === "cancelled" || (productionUnitId !== undefined && order.productionUnitId !== productionUnitId)) {
+        continue;
+      }
+      
+      const outstanding = roundToPaise(
+        parseFloat(order.totalAmount.toString()) - parseFloat((order.paidAmount || 0).toString())
+      );
+      if (outstanding <= 0) {
+        continue;
+      }
+      
+      const dueDate = new Date(order.deliveryDate || order.orderDate);
+      const daysOverdue = Math.round((startOfDay(asOf) - startOfDay(dueDate)) / dayInMs);
+      const agingOrder: ArAgingOrder = {
+        orderId: order.id,
+        orderNumber: order.orderNumber,
+        productionUnitId: order.productionUnitId,
+        dueDate,
+        daysOverdue: Math.max(0, daysOverdue),
+        bucket: getAgingBucket(daysOverdue),
+        outstanding
+      };
+      
+      let customer = byCustomer.get(order.customerId);
+      if (!customer) {
+        customer = {
+          customerId: order.customerId,
+          customerName: customerNames.get(order.customerId) || "Unknown Customer",
+          buckets: emptyAgingBuckets(),
+          total: 0,
+          orders: []
+        };
+        byCustomer.set(order.customerId, customer);
+      }
+      customer.orders.push(agingOrder);
+      customer.buckets[agingOrder.bucket] = roundToPaise(customer.buckets[agingOrder.bucket] + outstanding);
+      customer.total = roundToPaise(customer.total + outstanding);
+    }
+    
+    // Largest balances first, and each customer's oldest dues first
+    const agingCustomers = Array.from(byCustomer.values()).sort((a, b) => b.total - a.total);
+    agingCustomers.forEach(customer => customer.orders.sort((a, b) => b.daysOverdue - a.daysOverdue));
+    
+    const totals = emptyAgingBuckets();
+    agingCustomers.forEach(customer => {
+      agingBuckets.forEach(bucket => {
+        totals[bucket] = roundToPaise(totals[bucket] + customer.buckets[bucket]);
+      });
+    });
+    
+    return {
+      asOf,
+      customers: agingCustomers,
+      totals,
+      total: roundToPaise(agingCustomers.reduce((sum, customer) => sum + customer.total, 0))
+    };
+  }
+
+  // GST returns
+  /**
+   * GSTR-1 for a "YYYY-MM" tax period, built from the active revenue entries.
+   * Where an entry has an issued tax invoice, what the invoice billed is
+   * reported under the invoice's date; otherwise the entry itself is, with the
+   * customer of its order. Rows that can't be filed as they stand are flagged.
+   */
+  async getGstr1Report(period: string, productionUnitId?: number): Promise<Gstr1Report> {
+    const [revenues, orders, customers, invoices, units, rateVersions] = await Promise.all([
+      this.getAllRevenues(),
+      this.getAllOrders(),
+      this.getAllCustomers(),
+      this.getAllInvoices(),
+      this.getAllProductionUnits(),
+      this.getAllGstRateVersions()
+    ]);
+    const orderMap = new Map(orders.map(order => [order.id, order]));
+    const rateVersionMap = new Map(rateVersions.map(version => [version.id, version]));
+    const customerMap = new Map(customers.map(customer => [customer.id, customer]));
+    const unitMap = new Map(units.map(unit => [unit.id, unit]));
+    const issued = invoices.filter(invoice => invoice.status === "issued");
+    
+    const documents: Gstr1Document[] = [];
+    for (const revenue of revenues) {
+      if (productionUnitId !== undefined && revenue.productionUnitId !== productionUnitId) {
+        continue;
+      }
+      const invoice = issued.find(candidate =>
+        revenue.orderId ? candidate.orderId === revenue.orderId : candidate.revenueId === revenue.id
+      );
+      const invoiceDate = invoice ? invoice.invoiceDate : revenue.date;
+      if (!isInTaxPeriod(invoiceDate, period)) {
+        continue;
+      }
+      
+      const order = revenue.orderId ? orderMap.get(revenue.orderId) : undefined;
+      const customer = order ? customerMap.get(order.customerId) : undefined;
+      const unit = unitMap.get(revenue.productionUnitId);
+      const unitState = resolveStateCode(unit?.stateCode, unit?.gstin);
+      const gstRate = revenue.gstRate ? parseFloat(revenue.gstRate.toString()) : 0;
+      const gstRateVersion = revenue.gstRateVersionId ? rateVersionMap.get(revenue.gstRateVersionId) || null : null;
+      
+      let document: Omit<Gstr1Document, "section" | "issues">;
+      if (invoice) {
+        const total = parseFloat(invoice.totalAmount);
+        document = {
+          revenueId: revenue.id,
+          orderId: revenue.orderId,
+          productionUnitId: revenue.productionUnitId,
+          sellerGstin: invoice.sellerGstin,
+          invoiceNumber: invoice.invoiceNumber,
+          invoiceDate,
+          customerName: invoice.buyerName,
+          customerGstin: invoice.buyerGstin || null,
+          placeOfSupply: invoice.placeOfSupply,
+          isInterState: invoice.isInterState,
+          hsn: revenue.hsn || null,
+          gstRate,
+          gstRateVersion,
+          taxableValue: parseFloat(invoice.taxableValue),
+          cgst: parseFloat(invoice.cgstAmount),
+          sgst: parseFloat(invoice.sgstAmount),
+          igst: parseFloat(invoice.igstAmount),
+          invoiceValue: total
+        };
+      } else {
+        const total = roundToPaise(parseFloat(revenue.amount.toString()));
+        const split = getGSTSplit(revenue);
+        const placeOfSupply = revenue.placeOfSupply ||
+          resolveStateCode(customer?.stateCode, customer?.gstin) || unitState || null;
+        document = {
+          revenueId: revenue.id,
+          orderId: revenue.orderId,
+          productionUnitId: revenue.productionUnitId,
+          sellerGstin: unit?.gstin || null,
+          invoiceNumber: revenue.invoiceNumber || null,
+          invoiceDate,
+          customerName: customer?.name || revenue.description,
+          customerGstin: customer?.gstin || null,
+          placeOfSupply,
+          isInterState: split.igst > 0 || isInterStateSupply(unitState, placeOfSupply),
+          hsn: revenue.hsn || null,
+          gstRate,
+          gstRateVersion,
+          taxableValue: revenue.baseAmount
+            ? roundToPaise(parseFloat(revenue.baseAmount.toString()))
+            : calculateBaseFromTotal(total, gstRate),
+          ...split,
+          invoiceValue: total
+        };
+      }
+      
+      const issues: Gstr1Issue[] = [];
+      if (!document.sellerGstin) issues.push("missing_gstin");
+      if (!document.hsn) issues.push("missing_hsn");
+      if (!document.invoiceNumber) issues.push("missing_invoice_number");
+      
+      documents.push({
+        ...document,
+        section: document.customerGstin
+          ? "b2b"
+          : document.isInterState && document.invoiceValue > B2CL_INVOICE_LIMIT ? "b2cl" : "b2cs",
+        issues
+      });
+    }
+    documents.sort((a, b) =>
+      new Date(a.invoiceDate).getTime() - new Date(b.invoiceDate).getTime() ||
+      (a.invoiceNumber || "").localeCompare(b.invoiceNumber || "")
+    );
+    
+    // Small B2C supplies are summed by place of supply, rate and supply type
+    const b2cs = new Map<string, Gstr1B2csRow>();
+    for (const document of documents.filter(document => document.section === "b2cs")) {
+      const key = `${document.placeOfSupply}|${document.gstRate}|${document.isInterState}`;
+      const row = b2cs.get(key) || {
+        placeOfSupply: document.placeOfSupply,
+        gstRate: document.gstRate,
+        isInterState: document.isInterState,
+        taxableValue: 0, cgst: 0, sgst: 0, igst: 0
+      };
+      row.taxableValue = roundToPaise(row.taxableValue + document.taxableValue);
+      row.cgst = roundToPaise(row.cgst + document.cgst);
+      row.sgst = roundToPaise(row.sgst + document.sgst);
+      row.igst = roundToPaise(row.igst + document.igst);
+      b2cs.set(key, row);
+    }
+    
+    // HSN summary of every supply, grouped by code and rate
+    const hsn = new Map<string, Gstr1HsnRow>();
+    for (const document of documents) {
+      const code = document.hsn || "-";
+      const key = `${code}@${document.gstRate}`;
+      const row = hsn.get(key) || { hsn: code, gstRate: document.gstRate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalValue: 0 };
+      row.taxableValue = roundToPaise(row.taxableValue + document.taxableValue);
+      row.cgst = roundToPaise(row.cgst + document.cgst);
+      row.sgst = roundToPaise(row.sgst + document.sgst);
+      row.igst = roundToPaise(row.igst + document.igst);
+      row.totalValue = roundToPaise(row.totalValue + document.invoiceValue);
+      hsn.set(key, row);
+    }
+    
+    const sum = (field: "taxableValue" | "cgst" | "sgst" | "igst") =>
+      roundToPaise(documents.reduce((total, document) => total + document[field], 0));
+    
+    return {
+      period,
+      productionUnitId: productionUnitId ?? null,
+      sellerGstins: Array.from(new Set(documents.flatMap(document => document.sellerGstin ? [document.sellerGstin] : []))),
+      documents,
+      b2cs: Array.from(b2cs.values()),
+      hsn: Array.from(hsn.values()),
+      totals: { taxableValue: sum("taxableValue"), cgst: sum("cgst"), sgst: sum("sgst"), igst: sum("igst") },
+      flaggedCount: documents.filter(document => document.issues.length > 0).length
+    };
+  }
+
+  /**
+   * GSTR-3B working for a "YYYY-MM" tax period: output tax on the supplies
+   * reported in GSTR-1, input tax credit from the period's expenses less
+   * blocked categories and bills without a supplier GSTIN, and the tax left
+   * to pay once credit is set off
+   */
+  async getGstr3bReport(period: string, productionUnitId?: number): Promise<Gstr3bReport> {
+    const [gstr1, expenses, rateVersions, suppliers] = await Promise.all([
+      this.getGstr1Report(period, productionUnitId),
+      this.getAllExpenses(),
+      this.getAllGstRateVersions(),
+      this.getAllSuppliers()
+    ]);
+    const rateVersionMap = new Map(rateVersions.map(version => [version.id, version]));
+    const registeredSupplierIds = new Set(suppliers.filter(supplier => supplier.gstin).map(supplier => supplier.id));
+    const emptyHeads = (): GstTaxHeads => ({ cgst: 0, sgst: 0, igst: 0 });
+    const addHeads = (heads: GstTaxHeads, add: GstTaxHeads) => {
+      heads.cgst = roundToPaise(heads.cgst + add.cgst);
+      heads.sgst = roundToPaise(heads.sgst + add.sgst);
+      heads.igst = roundToPaise(heads.igst + add.igst);
+    };
+    
+    const slabs = new Map<number, Gstr3bSlab>();
+    const slabFor = (gstRate: number) => {
+      let slab = slabs.get(gstRate);
+      if (!slab) {
+        slab = {
+          gstRate,
+          outwardTaxableValue: 0,
+          outputTax: emptyHeads(),
+          inwardTaxableValue: 0,
+          eligibleItc: emptyHeads(),
+          net: emptyHeads(),
+          rateVersions: []
+        };
+        slabs.set(gstRate, slab);
+      }
+      return slab;
+    };
+    const addRateVersion = (slab: Gstr3bSlab, version: GstRateVersion | null) => {
+      if (version && !slab.rateVersions.some(existing => existing.id === version.id)) {
+        slab.rateVersions.push(version);
+      }
+    };
+    
+    for (const document of gstr1.documents) {
+      const slab = slabFor(document.gstRate);
+      slab.outwardTaxableValue = roundToPaise(slab.outwardTaxableValue + document.taxableValue);
+      addHeads(slab.outputTax, document);
+      addRateVersion(slab, document.gstRateVersion);
+    }
+    
+    const blockedExpenses: Gstr3bBlockedExpense[] = [];
+    for (const expense of expenses) {
+      if ((productionUnitId !== undefined && expense.productionUnitId !== productionUnitId) || !isInTaxPeriod(expense.date, period)) {
+        continue;
+      }
+      const gstAmount = expense.gstAmount ? parseFloat(expense.gstAmount.toString()) : 0;
+      if (gstAmount <= 0) {
+        continue;
+      }
+      const gstRateVersion = expense.gstRateVersionId ? rateVersionMap.get(expense.gstRateVersionId) || null : null;
+      // Credit also needs a tax invoice from a registered supplier
+      let reason: ItcBlockReason | undefined;
+      if (isItcBlockedCategory(expense.category)) {
+        reason = "blocked_category";
+      } else if (!expense.supplierId || !registeredSupplierIds.has(expense.supplierId)) {
+        reason = "unregistered_supplier";
+      }
+      if (reason) {
+        blockedExpenses.push({
+          expenseId: expense.id,
+          date: expense.date,
+          description: expense.description,
+          category: expense.category,
+          gstAmount,
+          gstRateVersion,
+          reason
+        });
+        continue;
+      }
+      
+      const gstRate = expense.gstRate ? parseFloat(expense.gstRate.toString()) : 0;
+      const slab = slabFor(gstRate);
+      const taxableValue = expense.baseAmount
+        ? parseFloat(expense.baseAmount.toString())
+        : calculateBaseFromTotal(parseFloat(expense.amount.toString()), gstRate);
+      slab.inwardTaxableValue = roundToPaise(slab.inwardTaxableValue + taxableValue);
+      addHeads(slab.eligibleItc, getGSTSplit(expense));
+      addRateVersion(slab, gstRateVersion);
+    }
+    
+    const outputTax = emptyHeads();
+    const eligibleItc = emptyHeads();
+    const sortedSlabs = Array.from(slabs.values()).sort((a, b) => a.gstRate - b.gstRate);
+    for (const slab of sortedSlabs) {
+      slab.rateVersions.sort((a, b) => new Date(a.effectiveFrom).getTime() - new Date(b.effectiveFrom).getTime());
+      slab.net = {
+        cgst: roundToPaise(slab.outputTax.cgst - slab.eligibleItc.cgst),
+        sgst: roundToPaise(slab.outputTax.sgst - slab.eligibleItc.sgst),
+        igst: roundToPaise(slab.outputTax.igst - slab.eligibleItc.igst)
+      };
+      addHeads(outputTax, slab.outputTax);
+      addHeads(eligibleItc, slab.eligibleItc);
+    }
+    const { payable, carriedForward } = setOffItc(outputTax, eligibleItc);
+    
+    return {
+      period,
+      productionUnitId: productionUnitId ?? null,
+      slabs: sortedSlabs,
+      outputTax,
+      eligibleItc,
+      blockedItc: roundToPaise(blockedExpenses.reduce((sum, expense) => sum + expense.gstAmount, 0)),
+      blockedExpenses,
+      payable,
+      creditCarriedForward: carriedForward
+    };
+  }
+
+  /**
+   * Matches the B2B invoices of a GSTR-2B statement against expenses billed by
+   * suppliers with a GSTIN, by supplier GSTIN and invoice number. A filed
+   * invoice may match an expense booked in any period; a matched pair whose
+   * date or tax differs is a mismatch. The period's expenses with GST that no
+   * filed invoice matched are missing in 2B, so their credit is at risk.
+   * Passing a production unit matches only that unit's expenses.
+   */
+  async reconcileGstr2b(period: string, invoices: Gstr2bInvoice[], productionUnitId?: number): Promise<Gstr2bReconciliation> {
+    const [suppliers, expenses] = await Promise.all([this.getAllSuppliers(), this.getAllExpenses()]);
+    const registeredSuppliers = new Map(suppliers
+      .filter(supplier => supplier.gstin)
+      .map(supplier => [supplier.id, supplier]));
+    const keyFor = (gstin: string, invoiceNumber: string) =>
+      `${gstin.toUpperCase()}|${normalizeInvoiceNumber(invoiceNumber)}`;
+    
+    // Booked purchase invoices by key; duplicates are matched in date order
+    const booked = new Map<string, Expense[]>();
+    const bookExpenses = expenses
+      .filter(expense => expense.supplierId && registeredSuppliers.has(expense.supplierId) &&
+        (productionUnitId === undefined || expense.productionUnitId === productionUnitId))
+      .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    for (const expense of bookExpenses) {
+      if (!expense.invoiceNumber || !normalizeInvoiceNumber(expense.invoiceNumber)) {
+        continue;
+      }
+      const key = keyFor(registeredSuppliers.get(expense.supplierId!)!.gstin!, expense.invoiceNumber);
+      booked.set(key, [...(booked.get(key) || []), expense]);
+    }
+    
+    const bookEntry = (expense: Expense): Gstr2bBookEntry => ({
+      expenseId: expense.id,
+      supplierId: expense.supplierId!,
+      productionUnitId: expense.productionUnitId,
+      date: expense.date,
+      description: expense.description,
+      amount: parseFloat(expense.amount.toString()),
+      gstAmount: expense.gstAmount ? parseFloat(expense.gstAmount.toString()) : 0
+    });
+    
+    const rows: Gstr2bRow[] = [];
+    const matchedExpenseIds = new Set<number>();
+    for (const invoice of invoices) {
+      const portalTax = roundToPaise(invoice.igst + invoice.cgst + invoice.sgst);
+      const expense = booked.get(keyFor(invoice.supplierGstin, invoice.invoiceNumber))
+        ?.find(candidate => !matchedExpenseIds.has(candidate.id));
+      if (!expense) {
+        rows.push({
+          status: "missing_in_books",
+          supplierGstin: invoice.supplierGstin,
+          supplierName: invoice.supplierName,
+          invoiceNumber: invoice.invoiceNumber,
+          portal: invoice,
+          book: null,
+          mismatches: [],
+          taxDifference: portalTax
+        });
+        continue;
+      }
+      
+      matchedExpenseIds.add(expense.id);
+      const book = bookEntry(expense);
+      const taxDifference = roundToPaise(portalTax - book.gstAmount);
+      const mismatches: Gstr2bMismatch[] = [];
+      if (format(new Date(expense.date), "yyyy-MM-dd") !== invoice.invoiceDate) {
+        mismatches.push("date");
+      }
+      if (Math.abs(taxDifference) > GSTR2B_TAX_TOLERANCE) {
+        mismatches.push("tax");
+      }
+      rows.push({
+        status: mismatches.length > 0 ? "mismatched" : "matched",
+        supplierGstin: invoice.supplierGstin,
+        supplierName: invoice.supplierName || registeredSuppliers.get(expense.supplierId!)!.name,
+        invoiceNumber: invoice.invoiceNumber,
+        portal: invoice,
+        book,
+        mismatches,
+        taxDifference
+      });
+    }
+    
+    for (const expense of bookExpenses) {
+      const book = bookEntry(expense);
+      if (matchedExpenseIds.has(expense.id) || book.gstAmount <= 0 || !isInTaxPeriod(expense.date, period)) {
+        continue;
+      }
+      const supplier = registeredSuppliers.get(expense.supplierId!)!;
+      rows.push({
+        status: "missing_in_2b",
+        supplierGstin: supplier.gstin!,
+        supplierName: supplier.name,
+        invoiceNumber: expense.invoiceNumber || "",
+        portal: null,
+        book,
+        mismatches: [],
+        taxDifference: -book.gstAmount
+      });
+    }
+    
+    rows.sort((a, b) =>
+      gstr2bMatchStatuses.indexOf(a.status) - gstr2bMatchStatuses.indexOf(b.status) ||
+      a.supplierGstin.localeCompare(b.supplierGstin) ||
+      a.invoiceNumber.localeCompare(b.invoiceNumber));
+    
+    const counts = Object.fromEntries(gstr2bMatchStatuses.map(status =>
+      [status, rows.filter(row => row.status === status).length])) as Record<Gstr2bMatchStatus, number>;
+    const sumTax = (amounts: number[]) => roundToPaise(amounts.reduce((sum, amount) => sum + amount, 0));
+    
+    return {
+      period,
+      productionUnitId: productionUnitId ?? null,
+      rows,
+      counts,
+      portalTax: sumTax(invoices.map(invoice => invoice.igst + invoice.cgst + invoice.sgst)),
+      bookTax: sumTax(rows.map(row => row.book?.gstAmount ?? 0)),
+      // Credit booked above what the supplier filed, or on invoices they never filed
+      itcAtRisk: sumTax(rows.map(row =>
+        row.status === "missing_in_2b" || (row.mismatches.includes("tax") && row.taxDifference < 0) ? -row.taxDifference : 0))
+    };
+  }
+
+  // Dashboard data operations
+  async getStatSummary(): Promise<StatSummary> {
+    const expenses = await this.getAllExpenses();
+    const revenues = await this.getAllRevenues();
+    const units = await this.getAllProductionUnits();
+    
+    const now = new Date();
+    const currentMonth = now.getMonth();
+    const previousMonth = (currentMonth - 1 + 12) % 12;
+    const currentYear = now.getFullYear();
+    const previousYear = previousMonth > currentMonth ? currentYear - 1 : currentYear;
+    
+    // Current month data
+    const currentMonthExpenses = expenses.filter(expense => {
+      const expenseDate = new Date(expense.date);
+      return expenseDate.getMonth() === currentMonth && expenseDate.getFullYear() === currentYear;
+    });
+    
+    const currentMonthRevenues = revenues.filter(revenue => {
+      const revenueDate = new Date(revenue.date);
+      return revenueDate.getMonth() === currentMonth && revenueDate.getFullYear() === currentYear;
+    });
+    
+    // Previous month data
+    const previousMonthExpenses = expenses.filter(expense => {
+      const expenseDate = new Date(expense.date);
+      return expenseDate.getMonth() === previousMonth && expenseDate.getFullYear() === previousYear;
+    });
+    
+    const previousMonthRevenues = revenues.filter(revenue => {
+      const revenueDate = new Date(revenue.date);
+      return revenueDate.getMonth() === previousMonth && revenueDate.getFullYear() === previousYear;
+    });
+    
+    // Calculate totals
+    const currentMonthCost = currentMonthExpenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+    const previousMonthCost = previousMonthExpenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+    
+    const currentMonthRevenue = currentMonthRevenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
+    const previousMonthRevenue = previousMonthRevenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
+    
+    const totalRevenue = revenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
+    const totalExpenses = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+    
+    // Calculate percent changes
+    const costPercentChange = previousMonthCost === 0 ? 0 : ((currentMonthCost - previousMonthCost) / previousMonthCost) * 100;
+    const revenuePercentChange = previousMonthRevenue === 0 ? 0 : ((currentMonthRevenue - previousMonthRevenue) / previousMonthRevenue) * 100;
+    
+    // Count active units from current and previous month
+    const activeUnits = units.filter(unit => unit.status === 'active').length;
+    const unitCountChange = 0; // In a real app, this would be calculated from historical data
+    
+    // Calculate profit margin
+    const profitMargin = totalExpenses === 0 ? 0 : ((totalRevenue - totalExpenses) / totalRevenue) * 100;
+    const profitMarginChange = -1.2; // Placeholder, in a real app would be calculated from historical data
+    
+    return {
+      monthlyCost: currentMonthCost,
+      totalRevenue: totalRevenue,
+      productionUnitCount: activeUnits,
+      profitMargin: profitMargin,
+      costPercentChange: costPercentChange,
+      revenuePercentChange: revenuePercentChange,
+      productionUnitChange: unitCountChange,
+      profitMarginChange: profitMarginChange,
+    };
+  }
+
+  async getRecentTransactions(limit: number): Promise<Transaction[]> {
+    const expenses = await this.getAllExpenses();
+    const revenues = await this.getAllRevenues();
+    const units = await this.getAllProductionUnits();
+    
+    // Create a map of production unit ids to names for quick lookup
+    const unitNameMap = new Map<number, string>();
+    units.forEach(unit => {
+      unitNameMap.set(unit.id, unit.name);
+    });
+    
+    // Convert expenses to transactions
+    const expenseTransactions: Transaction[] = expenses.map(expense => ({
+      id: expense.id,
+      description: expense.description,
+      amount: expense.amount,
+      date: expense.date,
+      productionUnitId: expense.productionUnitId,
+      productionUnitName: unitNameMap.get(expense.productionUnitId) || 'Unknown',
+      type: 'expense',
+      category: expense.category,
+    }));
+    
+    // Convert revenues to transactions
+    const revenueTransactions: Transaction[] = revenues.map(revenue => ({
+      id: revenue.id,
+      description: revenue.description,
+      amount: revenue.amount,
+      date: revenue.date,
+      productionUnitId: revenue.productionUnitId,
+      productionUnitName: unitNameMap.get(revenue.productionUnitId) || 'Unknown',
+      type: 'revenue',
+      category: revenue.category,
+    }));
+    
+    // Combine transactions and sort by date (most recent first)
+    const allTransactions = [...expenseTransactions, ...revenueTransactions].sort((a, b) => {
+      const dateA = new Date(a.date);
+      const dateB = new Date(b.date);
+      return dateB.getTime() - dateA.getTime();
+    });
+    
+    // Return the specified number of transactions
+    return allTransactions.slice(0, limit);
+  }
+
+  async getCostTrends(months: number): Promise<CostTrend[]> {
+    const expenses = await this.getAllExpenses();
+    const now = new Date();
+    const currentYear = now.getFullYear();
+    const currentMonth = now.getMonth();
+    
+    // Initialize the trends array with zeros for the past 'months'
+    const trends: CostTrend[] = [];
+    for (let i = 0; i < months; i++) {
+      const monthIndex = (currentMonth - i + 12) % 12;
+      const year = currentYear - Math.floor((i - currentMonth) / 12);
+      const monthName = new Date(year, monthIndex, 1).toLocaleString('default', { month: 'short' });
+      trends.unshift({
+        period: `${monthName} ${year}`,
+        amount: 0,
+      });
+    }
+    
+    // Populate the trends with actual expense data
+    expenses.forEach(expense => {
+      const expenseDate = new Date(expense.date);
+      const expenseMonth = expenseDate.getMonth();
+      const expenseYear = expenseDate.getFullYear();
+      
+      // Find the corresponding trend entry for this expense
+      const trendIndex = trends.findIndex(trend => {
+        const [month, year] = trend.period.split(' ');
+        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
+        return monthIndex === expenseMonth && parseInt(year) === expenseYear;
+      });
+      
+      if (trendIndex !== -1) {
+        trends[trendIndex].amount += parseFloat(expense.amount.toString());
+      }
+    });
+    
+    return trends;
+  }
+
+  async getProfitLossData(months: number): Promise<ProfitLossPeriod[]> {
+    const expenses = await this.getAllExpenses();
+    const revenues = await this.getAllRevenues();
+    const now = new Date();
+    const currentYear = now.getFullYear();
+    const currentMonth = now.getMonth();
+    
+    // Initialize the data array with zeros for the past 'months'
+    const data: ProfitLossPeriod[] = [];
+    for (let i = 0; i < months; i++) {
+      const monthIndex = (currentMonth - i + 12) % 12;
+      const year = currentYear - Math.floor((i - currentMonth) / 12);
+      const monthName = new Date(year, monthIndex, 1).toLocaleString('default', { month: 'short' });
+      data.unshift({
+        period: `${monthName} ${year}`,
+        revenue: 0,
+        expenses: 0,
+        profit: 0,
+      });
+    }
+    
+    // Populate with expense data
+    expenses.forEach(expense => {
+      const expenseDate = new Date(expense.date);
+      const expenseMonth = expenseDate.getMonth();
+      const expenseYear = expenseDate.getFullYear();
+      
+      const periodIndex = data.findIndex(period => {
+        const [month, year] = period.period.split(' ');
+        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
+        return monthIndex === expenseMonth && parseInt(year) === expenseYear;
+      });
+      
+      if (periodIndex !== -1) {
+        data[periodIndex].expenses += parseFloat(expense.amount.toString());
+        data[periodIndex].profit -= parseFloat(expense.amount.toString());
+      }
+    });
+    
+    // Populate with revenue data
+    revenues.forEach(revenue => {
+      const revenueDate = new Date(revenue.date);
+      const revenueMonth = revenueDate.getMonth();
+      const revenueYear = revenueDate.getFullYear();
+      
+      const periodIndex = data.findIndex(period => {
+        const [month, year] = period.period.split(' ');
+        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
+        return monthIndex === revenueMonth && parseInt(year) === revenueYear;
+      });
+      
+      if (periodIndex !== -1) {
+        data[periodIndex].revenue += parseFloat(revenue.amount.toString());
+        data[periodIndex].profit += parseFloat(revenue.amount.toString());
+      }
+    });
+    
+    return data;
+  }
+
+  // Excel file operations
+  async importFromExcel(fileBuffer: Buffer, type: string): Promise<number> {
+    let importedCount = 0;
+    
+    try {
+      const data = await readExcelFile(fileBuffer);
+      
+      if (!data || data.length <= 1) {
+        throw new Error("Invalid Excel file format or empty file");
+      }
+      
+      // First row should be headers
+      const headers = data[0];
+      const rows = data.slice(1);
+      
+      switch (type) {
+        case "production_units":
+          importedCount = await this.importProductionUnits(headers, rows);
+          break;
+        case "expenses":
+          importedCount = await this.importExpenses(headers, rows);
+          break;
+        case "revenues":
+          importedCount = await this.importRevenues(headers, rows);
+          break;
+        case "inventory":
+          importedCount = await this.importInventory(headers, rows);
+          break;
+        default:
+          throw new Error(`Unsupported import type: ${type}`);
+      }
+      
+      return importedCount;
+    } catch (error) {
+      console.error(`Error importing from Excel (${type}):`, error);
+      throw error;
+    }
+  }
+
+  private async importProductionUnits(headers: string[], rows: any[]): Promise<number> {
+    const requiredFields = ["name", "location", "status"];
+    this.validateHeaders(headers, requiredFields);
+    
+    let importedCount = 0;
+    const nameIndex = headers.indexOf("name");
+    const locationIndex = headers.indexOf("location");
+    const statusIndex = headers.indexOf("status");
+    
+    for (const row of rows) {
+      const unit: InsertProductionUnit = {
+        name: row[nameIndex],
+        location: row[locationIndex],
+        status: row[statusIndex] || "active",
+      };
+      
+      await this.createProductionUnit(unit);
+      importedCount++;
+    }
+    
+    return importedCount;
+  }
+
+  private async importExpenses(headers: string[], rows: any[]): Promise<number> {
+    const requiredFields = ["productionUnitId", "description", "amount", "category"];
+    this.validateHeaders(headers, requiredFields);
+    
+    let importedCount = 0;
+    const productionUnitIdIndex = headers.indexOf("productionUnitId");
+    const descriptionIndex = headers.indexOf("description");
+    const amountIndex = headers.indexOf("amount");
+    const dateIndex = headers.indexOf("date");
+    const categoryIndex = headers.indexOf("category");
+    const baseAmountIndex = headers.indexOf("baseAmount");
+    const gstRateIndex = headers.indexOf("gstRate");
+    const gstAmountIndex = headers.indexOf("gstAmount");
+    const hsnIndex = headers.indexOf("hsn");
+    const invoiceNumberIndex = headers.indexOf("invoiceNumber");
+    const currencyIndex = headers.indexOf("currency");
+    
+    for (const row of rows) {
+      const expense: InsertExpense = {
+        productionUnitId: parseInt(row[productionUnitIdIndex]),
+        description: row[descriptionIndex],
+        amount: row[amountIndex].toString(),
+        date: dateIndex >= 0 && row[dateIndex] ? new Date(row[dateIndex]) : new Date(),
+        category: row[categoryIndex],
+        baseAmount: baseAmountIndex >= 0 && row[baseAmountIndex] ? row[baseAmountIndex].toString() : null,
+        gstRate: gstRateIndex >= 0 && row[gstRateIndex] ? row[gstRateIndex].toString() : null,
+        gstAmount: gstAmountIndex >= 0 && row[gstAmountIndex] ? row[gstAmountIndex].toString() : null,
+        hsn: hsnIndex >= 0 && row[hsnIndex] ? row[hsnIndex] : null,
+        invoiceNumber: invoiceNumberIndex >= 0 && row[invoiceNumberIndex] ? row[invoiceNumberIndex] : null,
+        currency: currencyIndex >= 0 && row[currencyIndex] ? row[currencyIndex] : "INR"
+      };
+      
+      await this.createExpense(expense);
+      importedCount++;
+    }
+    
+    return importedCount;
+  }
+
+  private async importRevenues(headers: string[], rows: any[]): Promise<number> {
+    const requiredFields = ["productionUnitId", "description", "amount", "category"];
+    this.validateHeaders(headers, requiredFields);
+    
+    let importedCount = 0;
+    const productionUnitIdIndex = headers.indexOf("productionUnitId");
+    const descriptionIndex = headers.indexOf("description");
+    const amountIndex = headers.indexOf("amount");
+    const dateIndex = headers.indexOf("date");
+    const categoryIndex = headers.indexOf("category");
+    const baseAmountIndex = headers.indexOf("baseAmount");
+    const gstRateIndex = headers.indexOf("gstRate");
+    const gstAmountIndex = headers.indexOf("gstAmount");
+    const hsnIndex = headers.indexOf("hsn");
+    const invoiceNumberIndex = headers.indexOf("invoiceNumber");
+    const currencyIndex = headers.indexOf("currency");
+    
+    for (const row of rows) {
+      const revenue: InsertRevenue = {
+        productionUnitId: parseInt(row[productionUnitIdIndex]),
+        description: row[descriptionIndex],
+        amount: row[amountIndex].toString(),
+        date: dateIndex >= 0 && row[dateIndex] ? new Date(row[dateIndex]) : new Date(),
+        category: row[categoryIndex],
+        baseAmount: baseAmountIndex >= 0 && row[baseAmountIndex] ? row[baseAmountIndex].toString() : null,
+        gstRate: gstRateIndex >= 0 && row[gstRateIndex] ? row[gstRateIndex].toString() : null,
+        gstAmount: gstAmountIndex >= 0 && row[gstAmountIndex] ? row[gstAmountIndex].toString() : null,
+        hsn: hsnIndex >= 0 && row[hsnIndex] ? row[hsnIndex] : null,
+        invoiceNumber: invoiceNumberIndex >= 0 && row[invoiceNumberIndex] ? row[invoiceNumberIndex] : null,
+        currency: currencyIndex >= 0 && row[currencyIndex] ? row[currencyIndex] : "INR"
+      };
+      
+      await this.createRevenue(revenue);
+      importedCount++;
+    }
+    
+    return importedCount;
+  }
+
+  private async importInventory(headers: string[], rows: any[]): Promise<number> {
+    const requiredFields = ["name", "quantity", "unitCost"];
+    this.validateHeaders(headers, requiredFields);
+    
+    let importedCount = 0;
+    const nameIndex = headers.indexOf("name");
+    const descriptionIndex = headers.indexOf("description");
+    const quantityIndex = headers.indexOf("quantity");
+    const unitCostIndex = headers.indexOf("unitCost");
+    const productionUnitIdIndex = headers.indexOf("productionUnitId");
+    
+    for (const row of rows) {
+      const inventory: InsertInventoryItem = {
+        name: row[nameIndex],
+        description: descriptionIndex >= 0 ? row[descriptionIndex] : null,
+        quantity: row[quantityIndex].toString(),
+        unitCost: row[unitCostIndex].toString(),
+        productionUnitId: productionUnitIdIndex >= 0 ? parseInt(row[productionUnitIdIndex]) : null,
+      };
+      
+      await this.createInventoryItem(inventory);
+      importedCount++;
+    }
+    
+    return importedCount;
+  }
+
+  private validateHeaders(headers: string[], requiredFields: string[]) {
+    for (const field of requiredFields) {
+      if (!headers.includes(field)) {
+        throw new Error(`Required field missing in Excel file: ${field}`);
+      }
+    }
+  }
+
+  /**
+   * Saves a report to the reports folder and lists it with the other reports.
+   * The GSTR-3B report covers the given month, by default the current one.
+   */
+  async exportToExcel(type: string, options: { period?: string; productionUnitId?: number } = {}): Promise<string> {
+    const reportsDir = path.join(this.dataDirectory, "reports");
+    await ensureDirectoryExists(reportsDir);
+    
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const fileName = `${type}_${timestamp}.xlsx`;
+    const filePath = path.join(reportsDir, fileName);
+    
+    let data: any[] = [];
+    
+    switch (type) {
+      case "production_units":
+        data = await this.prepareProductionUnitsForExport();
+        break;
+      case "expenses":
+        data = await this.prepareExpensesForExport();
+        break;
+      case "revenues":
+        data = await this.prepareRevenuesForExport();
+        break;
+      case "inventory":
+        data = await this.prepareInventoryForExport();
+        break;
+      case "financial_summary":
+        data = await this.prepareFinancialSummaryForExport();
+        break;
+      case "ar_aging":
+        data = await this.prepareArAgingForExport();
+        break;
+      case "gstr3b":
+        data = await this.prepareGstr3bForExport(options.period || format(new Date(), "yyyy-MM"), options.productionUnitId);
+        break;
+      default:
+        throw new Error(`Unsupported export type: ${type}`);
+    }
+    
+    await writeExcelFile(filePath, data, `${type.charAt(0).toUpperCase() + type.slice(1)}`);
+    
+    // Create a report record
+    await this.createReport({
+      name: `${type.charAt(0).toUpperCase() + type.slice(1)} Report - ${timestamp}`,
+      type: type,
+      filePath: filePath,
+    });
+    
+    return filePath;
+  }
+
+  /**
+   * Saves a GSTR-1 workbook, one sheet per section, to the reports folder
+   * and lists it with the other reports
+   */
+  async exportGstr1ToExcel(period: string, productionUnitId?: number): Promise<string> {
+    const reportsDir = path.join(this.dataDirectory, "reports");
+    await ensureDirectoryExists(reportsDir);
+    
+    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+    const suffix = productionUnitId !== undefined ? `_unit${productionUnitId}` : "";
+    const filePath = path.join(reportsDir, `gstr1_${period}${suffix}_${timestamp}.xlsx`);
+    
+    const report = await this.getGstr1Report(period, productionUnitId);
+    await writeExcelWorkbook(filePath, buildGstr1Sheets(report));
+    
+    await this.createReport({
+      name: `GSTR-1 ${period} - ${timestamp}`,
+      type: "gstr1",
+      filePath: filePath,
+    });
+    
+    return filePath;
+  }
+
+  private async prepareProductionUnitsForExport(): Promise<any[]> {
+    const units = await this.getAllProductionUnits();
+    const headers = ["ID", "Name", "Location", "Status", "Cost To Date", "Created At"];
+    
+    const rows = units.map(unit => [
+      unit.id,
+      unit.name,
+      unit.location,
+      unit.status,
+      unit.costToDate,
+      new Date(unit.createdAt).toLocaleDateString(),
+    ]);
+    
+    return [headers, ...rows];
+  }
+
+  // Rate changes by id, named as the GST reports name them
+  private async getRateVersionLabels(): Promise<Map<number, string>> {
+    const rateVersions = await this.getAllGstRateVersions();
+    return new Map(rateVersions.map(version => [version.id, formatRateVersion(version)]));
+  }
+
+  private async prepareExpensesForExport(): Promise<any[]> {
+    const expenses = await this.getAllExpenses();
+    const units = await this.getAllProductionUnits();
+    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
+    const suppliers = await this.getAllSuppliers();
+    const supplierMap = new Map(suppliers.map(supplier => [supplier.id, supplier.name]));
+    const rateVersionLabels = await this.getRateVersionLabels();
+    
+    const headers = ["ID", "Date", "Description", "Production Unit", "Amount", "Category", 
+                    "Base Amount", "GST Rate", "Rate Change", "GST Amount", "CGST Amount", "SGST Amount", "IGST Amount",
+                    "Supplier", "Supplier State", "HSN Code", "Invoice Number", "Currency", "Paid On"];
+    
+    const rows = expenses.map(expense => [
+      expense.id,
+      new Date(expense.date).toLocaleDateString(),
+      expense.description,
+      unitMap.get(expense.productionUnitId) || "Unknown",
+      expense.amount,
+      expense.category,
+      expense.baseAmount || "",
+      expense.gstRate || "",
+      expense.gstRateVersionId ? rateVersionLabels.get(expense.gstRateVersionId) || "" : "",
+      expense.gstAmount || "",
+      expense.cgstAmount || "",
+      expense.sgstAmount || "",
+      expense.igstAmount || "",
+      expense.supplierId ? supplierMap.get(expense.supplierId) || "Unknown" : "",
+      expense.supplierStateCode || "",
+      expense.hsn || "",
+      expense.invoiceNumber || "",
+      expense.currency || "INR",
+      expense.paidDate ? new Date(expense.paidDate).toLocaleDateString() : "",
+    ]);
+    
+    return [headers, ...rows];
+  }
+
+  private async prepareRevenuesForExport(): Promise<any[]> {
+    const revenues = await this.getAllRevenues();
+    const units = await this.getAllProductionUnits();
+    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
+    const rateVersionLabels = await this.getRateVersionLabels();
+    
+    const headers = ["ID", "Date", "Description", "Production Unit", "Amount", "Category",
+                    "Base Amount", "GST Rate", "Rate Change", "GST Amount", "CGST Amount", "SGST Amount", "IGST Amount",
+                    "Place of Supply", "HSN Code", "Invoice Number", "Currency"];
+    
+    const rows = revenues.map(revenue => [
+      revenue.id,
+      new Date(revenue.date).toLocaleDateString(),
+      revenue.description,
+      unitMap.get(revenue.productionUnitId) || "Unknown",
+      revenue.amount,
+      revenue.category,
+      revenue.baseAmount || "",
+      revenue.gstRate || "",
+      revenue.gstRateVersionId ? rateVersionLabels.get(revenue.gstRateVersionId) || "" : "",
+      revenue.gstAmount || "",
+      revenue.cgstAmount || "",
+      revenue.sgstAmount || "",
+      revenue.igstAmount || "",
+      revenue.placeOfSupply || "",
+      revenue.hsn || "",
+      revenue.invoiceNumber || "",
+      revenue.currency || "INR",
+    ]);
+    
+    return [headers, ...rows];
+  }
+
+  private async prepareInventoryForExport(): Promise<any[]> {
+    const inventory = await this.getAllInventoryItems();
+    const units = await this.getAllProductionUnits();
+    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
+    
+    const headers = ["ID", "Name", "Description", "Quantity", "Unit Cost", "Production Unit", "Created At"];
+    
+    const rows = inventory.map(item => [
+      item.id,
+      item.name,
+      item.description || "",
+      item.quantity,
+      item.unitCost,
+      item.productionUnitId ? unitMap.get(item.productionUnitId) || "Unknown" : "N/A",
+      new Date(item.createdAt).toLocaleDateString(),
+    ]);
+    
+    return [headers, ...rows];
+  }
+
+  private async prepareFinancialSummaryForExport(): Promise<any[]> {
+    const expenses = await this.getAllExpenses();
+    const revenues = await this.getAllRevenues();
+    const units = await this.getAllProductionUnits();
+    
+    // Summary sheet
+    const totalExpense = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
+    const totalRevenue = revenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
+    const profit = totalRevenue - totalExpense;
+    const profitMargin = totalRevenue === 0 ? 0 : (profit / totalRevenue) * 100;
+    
+    const summaryHeaders = ["Metric", "Value"];
+    const summaryRows = [
+      ["Total Revenue", totalRevenue.toFixed(2)],
+      ["Total Expenses", totalExpense.toFixed(2)],
+      ["Profit", profit.toFixed(2)],
+      ["Profit Margin", `${profitMargin.toFixed(2)}%`],
+      ["Production Units", units.length],
+      ["Active Units", units.filter(u => u.status === "active").length],
+    ];
+    
+    return [summaryHeaders, ...summaryRows];
+  }
+
+  private async prepareArAgingForExport(): Promise<any[]> {
+    const report = await this.getArAgingReport();
+    
+    // Summary by customer, then the orders behind each balance
+    const summaryHeaders = ["Customer", "Current", "1-30 Days", "31-60 Days", "61-90 Days", "90+ Days", "Total"];
+    const summaryRows = report.customers.map(customer => [
+      customer.customerName,
+      ...agingBuckets.map(bucket => customer.buckets[bucket].toFixed(2)),
+      customer.total.toFixed(2),
+    ]);
+    const totalRow = ["Total", ...agingBuckets.map(bucket => report.totals[bucket].toFixed(2)), report.total.toFixed(2)];
+    
+    const detailHeaders = ["Customer", "Order", "Due Date", "Days Overdue", "Bucket", "Outstanding"];
+    const detailRows = report.customers.flatMap(customer => customer.orders.map(order => [
+      customer.customerName,
+      order.orderNumber,
+      new Date(order.dueDate).toLocaleDateString(),
+      order.daysOverdue,
+      order.bucket,
+      order.outstanding.toFixed(2),
+    ]));
+    
+    return [summaryHeaders, ...summaryRows, totalRow, [], detailHeaders, ...detailRows];
+  }
+
+  private async prepareGstr3bForExport(period: string, productionUnitId?: number): Promise<any[]> {
+    const report = await this.getGstr3bReport(period, productionUnitId);
+    const heads = (tax: GstTaxHeads) => [tax.cgst.toFixed(2), tax.sgst.toFixed(2), tax.igst.toFixed(2)];
+    
+    // Rate slabs, then the ITC set-off by tax head, then the credit that was blocked
+    const slabHeaders = ["GST Rate", "Outward Taxable Value", "Output CGST", "Output SGST", "Output IGST",
+                        "Inward Taxable Value", "ITC CGST", "ITC SGST", "ITC IGST", "Net CGST", "Net SGST", "Net IGST",
+                        "Rate Changes"];
+    const slabRows = report.slabs.map(slab => [
+      `${slab.gstRate}%`,
+      slab.outwardTaxableValue.toFixed(2),
+      ...heads(slab.outputTax),
+      slab.inwardTaxableValue.toFixed(2),
+      ...heads(slab.eligibleItc),
+      ...heads(slab.net),
+      slab.rateVersions.map(formatRateVersion).join("; "),
+    ]);
+    
+    const setOffRows = [
+      ["Tax Head", "CGST", "SGST", "IGST"],
+      ["Output Tax", ...heads(report.outputTax)],
+      ["Eligible ITC", ...heads(report.eligibleItc)],
+      ["Payable in Cash", ...heads(report.payable)],
+      ["Credit Carried Forward", ...heads(report.creditCarriedForward)],
+    ];
+    
+    const blockedRows = report.blockedExpenses.map(expense => [
+      new Date(expense.date).toLocaleDateString(),
+      expense.description,
+      expense.category,
+      expense.gstAmount.toFixed(2),
+      expense.gstRateVersion ? formatRateVersion(expense.gstRateVersion) : "",
+      ITC_BLOCK_REASON_LABELS[expense.reason],
+    ]);
+    
+    return [
+      slabHeaders, ...slabRows, [],
+      ...setOffRows, [],
+      ["Blocked ITC", "Description", "Category", "GST", "Rate Change", "Reason"], ...blockedRows,
+      ["Total", "", "", report.blockedItc.toFixed(2), "", ""],
+    ];
+  }
+}
@@ -0,0 +1,19 @@
+import { Pool, neonConfig } from "@neondatabase/serverless";
+import { drizzle } from "drizzle-orm/neon-serverless";
+import ws from "ws";
+import * as schema from "@shared/schema";
+
+neonConfig.webSocketConstructor = ws;
+
+/**
+ * Creates a Drizzle database handle for the given Postgres connection string
+ * @param connectionString - Postgres connection URL (usually DATABASE_URL)
+ * @returns Drizzle database bound to the shared schema
+ */
+export function createDatabase(connectionString: string) {
+  const pool = new Pool({ connectionString });
+  return drizzle({ client: pool, schema });
+}
+
+export type Database = ReturnType<typeof createDatabase>;
+export type DatabaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
@@ -0,0 +1,1610 @@
+import {
+  productionUnits, expenses, revenues, inventoryItems, customers, suppliers, hsnCodes, taxCategories, gstRateVersions, measurementProfiles, orders, payments,
+  invoices, salaryPayments, maintenanceRecords, reports, users, auditLog,
+  ProductionUnit, InsertProductionUnit,
+  Expense, InsertExpense,
+  Revenue, InsertRevenue,
+  InventoryItem, InsertInventoryItem,
+  Customer, InsertCustomer,
+  Supplier, InsertSupplier,
+  HsnCode, InsertHsnCode,
+  TaxCategory, InsertTaxCategory,
+  GstRateVersion, InsertGstRateVersion,
+  MeasurementProfile, InsertMeasurementProfile,
+  Order, InsertOrder,
+  Payment, InsertPayment,
+  Invoice, InsertInvoice,
+  SalaryPayment, InsertSalaryPayment,
+  MaintenanceRecord, InsertMaintenanceRecord,
+  Report, InsertReport,
+  User, InsertUser,
+  AuditEntry, InsertAuditEntry, AuditEntity,
+} from "@shared/schema";
+import { and, desc, eq, isNotNull, isNull, sql } from "drizzle-orm";
+import { promises as fs } from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import session from "express-session";
+import connectPg from "connect-pg-simple";
+import type { IStorage } from "./storage";
+import type { Database, DatabaseTransaction } from "./db";
+import { BaseStorage, RecycleBinContents } from "./base-storage";
+import { getFinancialYear, formatInvoiceNumber, resolveStateCode } from "@shared/gst-utils";
+
+/**
+ * Postgres-backed storage using the Drizzle tables in shared/schema.ts.
+ * Mirrors ExcelStorage behaviour, including the side effects of orders,
+ * salary payments and maintenance records on the revenue/expense ledgers.
+ */
+const PostgresSessionStore = connectPg(session);
+
+export class DrizzleStorage extends BaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private database: Database;
+  private transactionContext: AsyncLocalStorage<DatabaseTransaction>;
+
+  constructor(db: Database) {
+    super();
+    this.database = db;
+    this.sessionStore = new PostgresSessionStore({ pool: db.$client, createTableIfMissing: true });
+    this.transactionContext = new AsyncLocalStorage();
+  }
+
+  // Queries go through the current transaction when one is running
+  private get db(): Database | DatabaseTransaction {
+    return this.transactionContext.getStore() || this.database;
+  }
+
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionContext.getStore()) {
+      return work();
+    }
+
+    return this.database.transaction(tx => this.transactionContext.run(tx, work));
+  }
+
+  // User operations
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(users.id);
+  }
+
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.username, username));
+    return user;
+  }
+
+  async createUser(user: InsertUser): Promise<User> {
+    const existingUser = await this.getUserByUsername(user.username);
+
+    if (existingUser) {
+      return existingUser;
+    }
+
+    const [newUser] = await this.db.insert(users).values(user).returning();
+    return newUser;
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    const { id: _id, ...changes } = updates;
+
+    if (Object.keys(changes).length === 0) {
+      return this.getUser(id);
+    }
+
+    const [updatedUser] = await this.db.update(users).set(changes).where(eq(users.id, id)).returning();
+    return updatedUser;
+  }
+
+  // Production Unit operations
+  async getAllProductionUnits(): Promise<ProductionUnit[]> {
+    return this.db.select().from(productionUnits).orderBy(productionUnits.id);
+  }
+
+  async getProductionUnit(id: number): Promise<ProductionUnit | undefined> {
+    const [unit] = await this.db.select().from(productionUnits).where(eq(productionUnits.id, id));
+    return unit;
+  }
+
+  async createProductionUnit(unit: InsertProductionUnit): Promise<ProductionUnit> {
+    return this.runInTransaction(async () => {
+      const [newUnit] = await this.db
+        .insert(productionUnits)
+        .values({
+          ...unit,
+          status: unit.status || "active",
+          costToDate: "0",
+          gstin: unit.gstin || null,
+          stateCode: resolveStateCode(unit.stateCode, unit.gstin) || null
+        })
+        .returning();
+      await this.recordAudit("production_units", newUnit.id, "create", null, newUnit);
+      return newUnit;
+    });
+  }
+
+  async updateProductionUnit(id: number, updates: Partial<ProductionUnit>): Promise<ProductionUnit | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getProductionUnit(id);
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousUnit] = await this.db.select().from(productionUnits).where(eq(productionUnits.id, id));
+
+      if (!previousUnit) {
+        return undefined;
+      }
+
+      const merged = { ...previousUnit, ...updates };
+      const [updatedUnit] = await this.db
+        .update(productionUnits)
+        .set({ ...updates, stateCode: resolveStateCode(merged.stateCode, merged.gstin) || null })
+        .where(eq(productionUnits.id, id))
+        .returning();
+      await this.recordAudit("production_units", id, "update", previousUnit, updatedUnit);
+      return updatedUnit;
+    });
+  }
+
+  async deleteProductionUnit(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db.delete(productionUnits).where(eq(productionUnits.id, id)).returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("production_units", id, "delete", deleted[0], null);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  // Expense operations
+  async getAllExpenses(): Promise<Expense[]> {
+    return this.db.select().from(expenses).where(isNull(expenses.deletedAt)).orderBy(expenses.id);
+  }
+
+  async getExpensesByProductionUnit(productionUnitId: number): Promise<Expense[]> {
+    return this.db.select().from(expenses)
+      .where(and(eq(expenses.productionUnitId, productionUnitId), isNull(expenses.deletedAt)))
+      .orderBy(expenses.id);
+  }
+
+  async createExpense(expense: InsertExpense): Promise<Expense> {
+    return this.runInTransaction(async () => {
+      const supplierStateCode = await this.resolveSupplierStateCode(expense.supplierId, expense.supplierStateCode);
+      const categoryTax = await this.categoryTaxFor("expense", expense);
+      const [newExpense] = await this.db
+        .insert(expenses)
+        .values({
+          ...expense,
+          date: expense.date || new Date(),
+          baseAmount: expense.baseAmount || null,
+          gstAmount: expense.gstAmount || null,
+          ...(await this.gstSplitFor(expense.productionUnitId, expense.gstAmount, supplierStateCode)),
+          ...categoryTax,
+          supplierStateCode,
+          supplierId: expense.supplierId || null,
+          invoiceNumber: expense.invoiceNumber || null,
+          currency: expense.currency || "INR",
+          salaryPaymentId: expense.salaryPaymentId || null,
+          maintenanceRecordId: expense.maintenanceRecordId || null,
+          paidDate: expense.paidDate || null
+        })
+        .returning();
+      await this.recordAudit("expenses", newExpense.id, "create", null, newExpense);
+
+      // Update production unit cost
+      await this.adjustProductionUnitCost(expense.productionUnitId, parseFloat(expense.amount.toString()));
+
+      return newExpense;
+    });
+  }
+
+  async updateExpense(id: number, updates: Partial<Expense>): Promise<Expense | undefined> {
+    return this.runInTransaction(async () => {
+      const [oldExpense] = await this.db.select().from(expenses)
+        .where(and(eq(expenses.id, id), isNull(expenses.deletedAt)));
+
+      if (!oldExpense) {
+        return undefined;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return oldExpense;
+      }
+
+      const merged = { ...oldExpense, ...updates };
+      const supplierStateCode = await this.resolveSupplierStateCode(merged.supplierId, merged.supplierStateCode);
+      const [updatedExpense] = await this.db
+        .update(expenses)
+        .set({
+          ...updates,
+          supplierStateCode,
+          ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, supplierStateCode)),
+          ...(await this.categoryTaxFor("expense", merged, updates))
+        })
+        .where(eq(expenses.id, id))
+        .returning();
+      await this.recordAudit("expenses", id, "update", oldExpense, updatedExpense);
+
+      // Update production unit cost if the amount or the unit changed
+      const oldAmount = parseFloat(oldExpense.amount.toString());
+      const newAmount = parseFloat(updatedExpense.amount.toString());
+      if (updatedExpense.productionUnitId !== oldExpense.productionUnitId) {
+        await this.adjustProductionUnitCost(oldExpense.productionUnitId, -oldAmount);
+        await this.adjustProductionUnitCost(updatedExpense.productionUnitId, newAmount);
+      } else if (newAmount !== oldAmount) {
+        await this.adjustProductionUnitCost(oldExpense.productionUnitId, newAmount - oldAmount);
+      }
+
+      return updatedExpense;
+    });
+  }
+
+  async deleteExpense(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const [expenseToDelete] = await this.db
+        .update(expenses)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(expenses.id, id), isNull(expenses.deletedAt)))
+        .returning();
+
+      if (!expenseToDelete) {
+        return false;
+      }
+
+      await this.recordAudit("expenses", id, "delete", { ...expenseToDelete, deletedAt: null }, null);
+
+      // Update production unit cost
+      await this.adjustProductionUnitCost(expenseToDelete.productionUnitId, -parseFloat(expenseToDelete.amount.toString()));
+
+      return true;
+    });
+  }
+
+  async restoreExpense(id: number): Promise<Expense | undefined> {
+    return this.runInTransaction(async () => {
+      const [restoredExpense] = await this.db
+        .update(expenses)
+        .set({ deletedAt: null })
+        .where(and(eq(expenses.id, id), isNotNull(expenses.deletedAt)))
+        .returning();
+
+      if (!restoredExpense) {
+        return undefined;
+      }
+
+      await this.recordAudit("expenses", id, "restore", null, restoredExpense);
+
+      // Charge the production unit again
+      await this.adjustProductionUnitCost(restoredExpense.productionUnitId, parseFloat(restoredExpense.amount.toString()));
+
+      return restoredExpense;
+    });
+  }
+
+  async purgeExpense(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(expenses)
+        .where(and(eq(expenses.id, id), isNotNull(expenses.deletedAt)))
+        .returning();
+      if (purged.length > 0) {
+        await this.recordAudit("expenses", id, "purge", purged[0], null);
+      }
+      return purged.length > 0;
+    });
+  }
+
+  // Revenue operations
+  async getAllRevenues(): Promise<Revenue[]> {
+    return this.db.select().from(revenues).where(isNull(revenues.deletedAt)).orderBy(revenues.id);
+  }
+
+  async getRevenue(id: number): Promise<Revenue | undefined> {
+    const [revenue] = await this.db.select().from(revenues).where(and(eq(revenues.id, id), isNull(revenues.deletedAt)));
+    return revenue;
+  }
+
+  async getRevenuesByProductionUnit(productionUnitId: number): Promise<Revenue[]> {
+    return this.db.select().from(revenues)
+      .where(and(eq(revenues.productionUnitId, productionUnitId), isNull(revenues.deletedAt)))
+      .orderBy(revenues.id);
+  }
+
+  async createRevenue(revenue: InsertRevenue): Promise<Revenue> {
+    return this.runInTransaction(async () => {
+      const placeOfSupply = await this.resolvePlaceOfSupply(revenue.productionUnitId, revenue.placeOfSupply);
+      const categoryTax = await this.categoryTaxFor("revenue", revenue);
+      const [newRevenue] = await this.db
+        .insert(revenues)
+        .values({
+          ...revenue,
+          date: revenue.date || new Date(),
+          baseAmount: revenue.baseAmount || null,
+          gstAmount: revenue.gstAmount || null,
+          ...(await this.gstSplitFor(revenue.productionUnitId, revenue.gstAmount, placeOfSupply)),
+          ...categoryTax,
+          placeOfSupply,
+          invoiceNumber: revenue.invoiceNumber || null,
+          currency: revenue.currency || "INR",
+          orderId: revenue.orderId || null
+        })
+        .returning();
+      await this.recordAudit("revenues", newRevenue.id, "create", null, newRevenue);
+      return newRevenue;
+    });
+  }
+
+  async updateRevenue(id: number, updates: Partial<Revenue>): Promise<Revenue | undefined> {
+    if (Object.keys(updates).length === 0) {
+      const [revenue] = await this.db.select().from(revenues)
+        .where(and(eq(revenues.id, id), isNull(revenues.deletedAt)));
+      return revenue;
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousRevenue] = await this.db.select().from(revenues)
+        .where(and(eq(revenues.id, id), isNull(revenues.deletedAt)));
+
+      if (!previousRevenue) {
+        return undefined;
+      }
+
+      const merged = { ...previousRevenue, ...updates };
+      const placeOfSupply = await this.resolvePlaceOfSupply(merged.productionUnitId, merged.placeOfSupply);
+      const [updatedRevenue] = await this.db
+        .update(revenues)
+        .set({
+          ...updates,
+          ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, placeOfSupply)),
+          ...(await this.categoryTaxFor("revenue", merged, updates)),
+          placeOfSupply
+        })
+        .where(eq(revenues.id, id))
+        .returning();
+      await this.recordAudit("revenues", id, "update", previousRevenue, updatedRevenue);
+      return updatedRevenue;
+    });
+  }
+
+  async deleteRevenue(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db
+        .update(revenues)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(revenues.id, id), isNull(revenues.deletedAt)))
+        .returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("revenues", id, "delete", { ...deleted[0], deletedAt: null }, null);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  async restoreRevenue(id: number): Promise<Revenue | undefined> {
+    return this.runInTransaction(async () => {
+      const [restoredRevenue] = await this.db
+        .update(revenues)
+        .set({ deletedAt: null })
+        .where(and(eq(revenues.id, id), isNotNull(revenues.deletedAt)))
+        .returning();
+      if (restoredRevenue) {
+        await this.recordAudit("revenues", id, "restore", null, restoredRevenue);
+      }
+      return restoredRevenue;
+    });
+  }
+
+  async purgeRevenue(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(revenues)
+        .where(and(eq(revenues.id, id), isNotNull(revenues.deletedAt)))
+        .returning();
+      if (purged.length > 0) {
+        await this.recordAudit("revenues", id, "purge", purged[0], null);
+      }
+      return purged.length > 0;
+    });
+  }
+
+  // Inventory operations
+  async getAllInventoryItems(): Promise<InventoryItem[]> {
+    return this.db.select().from(inventoryItems).orderBy(inventoryItems.id);
+  }
+
+  async getInventoryItemsByProductionUnit(productionUnitId: number): Promise<InventoryItem[]> {
+    return this.db.select().from(inventoryItems)
+      .where(eq(inventoryItems.productionUnitId, productionUnitId))
+      .orderBy(inventoryItems.id);
+  }
+
+  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+    return this.runInTransaction(async () => {
+      const [newItem] = await this.db
+        .insert(inventoryItems)
+        .values({
+          ...item,
+          quantity: item.quantity || "0",
+          productionUnitId: item.productionUnitId || null,
+          description: item.description || null,
+        })
+        .returning();
+      await this.recordAudit("inventory_items", newItem.id, "create", null, newItem);
+      return newItem;
+    });
+  }
+
+  async updateInventoryItem(id: number, updates: Partial<InventoryItem>): Promise<InventoryItem | undefined> {
+    if (Object.keys(updates).length === 0) {
+      const [item] = await this.db.select().from(inventoryItems).where(eq(inventoryItems.id, id));
+      return item;
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousItem] = await this.db.select().from(inventoryItems).where(eq(inventoryItems.id, id));
+
+      if (!previousItem) {
+        return undefined;
+      }
+
+      const [updatedItem] = await this.db
+        .update(inventoryItems)
+        .set(updates)
+        .where(eq(inventoryItems.id, id))
+        .returning();
+      await this.recordAudit("inventory_items", id, "update", previousItem, updatedItem);
+      return updatedItem;
+    });
+  }
+
+  async deleteInventoryItem(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db.delete(inventoryItems).where(eq(inventoryItems.id, id)).returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("inventory_items", id, "delete", deleted[0], null);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  // Report operations
+  async getAllReports(): Promise<Report[]> {
+    return this.db.select().from(reports).orderBy(reports.id);
+  }
+
+  async createReport(report: InsertReport): Promise<Report> {
+    const [newReport] = await this.db.insert(reports).values(report).returning();
+    return newReport;
+  }
+
+  async deleteReport(id: number): Promise<boolean> {
+    const [reportToDelete] = await this.db.delete(reports).where(eq(reports.id, id)).returning();
+
+    if (!reportToDelete) {
+      return false;
+    }
+
+    // Delete the report file
+    try {
+      await fs.unlink(reportToDelete.filePath);
+    } catch (error) {
+      console.error("Error deleting report file:", error);
+    }
+
+    return true;
+  }
+
+  // Customer operations
+  async getAllCustomers(): Promise<Customer[]> {
+    return this.db.select().from(customers).orderBy(customers.id);
+  }
+
+  async getCustomer(id: number): Promise<Customer | undefined> {
+    const [customer] = await this.db.select().from(customers).where(eq(customers.id, id));
+    return customer;
+  }
+
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+    return this.runInTransaction(async () => {
+      const [newCustomer] = await this.db
+        .insert(customers)
+        .values({
+          ...customer,
+          phone: customer.phone || null,
+          email: customer.email || null,
+          address: customer.address || null,
+          gstin: customer.gstin || null,
+          stateCode: resolveStateCode(customer.stateCode, customer.gstin) || null,
+          notes: customer.notes || null
+        })
+        .returning();
+      await this.recordAudit("customers", newCustomer.id, "create", null, newCustomer);
+      return newCustomer;
+    });
+  }
+
+  async updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getCustomer(id);
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousCustomer] = await this.db.select().from(customers).where(eq(customers.id, id));
+
+      if (!previousCustomer) {
+        return undefined;
+      }
+
+      const merged = { ...previousCustomer, ...updates };
+      const [updatedCustomer] = await this.db
+        .update(customers)
+        .set({ ...updates, stateCode: resolveStateCode(merged.stateCode, merged.gstin) || null })
+        .where(eq(customers.id, id))
+        .returning();
+      await this.recordAudit("customers", id, "update", previousCustomer, updatedCustomer);
+      return updatedCustomer;
+    });
+  }
+
+  async deleteCustomer(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      // Cannot delete customer with existing orders
+      const [existingOrder] = await this.db.select({ id: orders.id }).from(orders)
+        .where(eq(orders.customerId, id))
+        .limit(1);
+
+      if (existingOrder) {
+        return false;
+      }
+
+      const deleted = await this.db.delete(customers).where(eq(customers.id, id)).returning();
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("customers", id, "delete", deleted[0], null);
+
+      // The customer's measurement profiles go with them
+      for (const profile of await this.getMeasurementProfiles(id)) {
+        await this.deleteMeasurementProfile(profile.id);
+      }
+      return true;
+    });
+  }
+
+  // Supplier operations
+  async getAllSuppliers(): Promise<Supplier[]> {
+    return this.db.select().from(suppliers).orderBy(suppliers.id);
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    return this.runInTransaction(async () => {
+      const [newSupplier] = await this.db
+        .insert(suppliers)
+        .values({
+          ...supplier,
+          gstin: supplier.gstin || null,
+          stateCode: resolveStateCode(supplier.stateCode, supplier.gstin) || null,
+          contactPerson: supplier.contactPerson || null,
+          phone: supplier.phone || null,
+          email: supplier.email || null,
+          address: supplier.address || null,
+          paymentTermsDays: supplier.paymentTermsDays || 0,
+          notes: supplier.notes || null
+        })
+        .returning();
+      await this.recordAudit("suppliers", newSupplier.id, "create", null, newSupplier);
+      return newSupplier;
+    });
+  }
+
+  async updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getSupplier(id);
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousSupplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+
+      if (!previousSupplier) {
+        return undefined;
+      }
+
+      const merged = { ...previousSupplier, ...updates };
+      const [updatedSupplier] = await this.db
+        .update(suppliers)
+        .set({ ...updates, stateCode: resolveStateCode(merged.stateCode, merged.gstin) || null })
+        .where(eq(suppliers.id, id))
+        .returning();
+      await this.recordAudit("suppliers", id, "update", previousSupplier, updatedSupplier);
+      return updatedSupplier;
+    });
+  }
+
+  async deleteSupplier(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      // Cannot delete a supplier with expenses, including ones in the recycle bin
+      const [existingExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(eq(expenses.supplierId, id))
+        .limit(1);
+
+      if (existingExpense) {
+        return false;
+      }
+
+      const deleted = await this.db.delete(suppliers).where(eq(suppliers.id, id)).returning();
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("suppliers", id, "delete", deleted[0], null);
+      return true;
+    });
+  }
+
+  // Tax master operations
+  async getAllHsnCodes(): Promise<HsnCode[]> {
+    return this.db.select().from(hsnCodes).orderBy(hsnCodes.id);
+  }
+
+  async getHsnCode(id: number): Promise<HsnCode | undefined> {
+    const [hsnCode] = await this.db.select().from(hsnCodes).where(eq(hsnCodes.id, id));
+    return hsnCode;
+  }
+
+  async createHsnCode(hsnCode: InsertHsnCode): Promise<HsnCode> {
+    return this.runInTransaction(async () => {
+      const [newHsnCode] = await this.db.insert(hsnCodes).values(hsnCode).returning();
+      await this.recordAudit("hsn_codes", newHsnCode.id, "create", null, newHsnCode);
+      return newHsnCode;
+    });
+  }
+
+  async updateHsnCode(id: number, updates: Partial<HsnCode>): Promise<HsnCode | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getHsnCode(id);
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousHsnCode] = await this.db.select().from(hsnCodes).where(eq(hsnCodes.id, id));
+
+      if (!previousHsnCode) {
+        return undefined;
+      }
+
+      const [updatedHsnCode] = await this.db
+        .update(hsnCodes)
+        .set(updates)
+        .where(eq(hsnCodes.id, id))
+        .returning();
+      await this.recordAudit("hsn_codes", id, "update", previousHsnCode, updatedHsnCode);
+      return updatedHsnCode;
+    });
+  }
+
+  async deleteHsnCode(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const [hsnCode] = await this.db.select().from(hsnCodes).where(eq(hsnCodes.id, id));
+      if (!hsnCode) {
+        return false;
+      }
+
+      // Cannot delete a code a category is billed under or whose rate has changed
+      const [existingCategory] = await this.db.select({ id: taxCategories.id }).from(taxCategories)
+        .where(eq(taxCategories.hsnCode, hsnCode.code))
+        .limit(1);
+      const [existingVersion] = await this.db.select({ id: gstRateVersions.id }).from(gstRateVersions)
+        .where(eq(gstRateVersions.hsnCode, hsnCode.code))
+        .limit(1);
+
+      if (existingCategory || existingVersion) {
+        return false;
+      }
+
+      await this.db.delete(hsnCodes).where(eq(hsnCodes.id, id));
+      await this.recordAudit("hsn_codes", id, "delete", hsnCode, null);
+      return true;
+    });
+  }
+
+  async getAllTaxCategories(): Promise<TaxCategory[]> {
+    return this.db.select().from(taxCategories).orderBy(taxCategories.id);
+  }
+
+  async getTaxCategory(id: number): Promise<TaxCategory | undefined> {
+    const [category] = await this.db.select().from(taxCategories).where(eq(taxCategories.id, id));
+    return category;
+  }
+
+  async createTaxCategory(category: InsertTaxCategory): Promise<TaxCategory> {
+    return this.runInTransaction(async () => {
+      const [newCategory] = await this.db
+        .insert(taxCategories)
+        .values({
+          ...category,
+          hsnCode: category.hsnCode || null,
+          gstRate: category.gstRate ?? null
+        })
+        .returning();
+      await this.recordAudit("tax_categories", newCategory.id, "create", null, newCategory);
+      return newCategory;
+    });
+  }
+
+  async updateTaxCategory(id: number, updates: Partial<TaxCategory>): Promise<TaxCategory | undefined> {
+    if (Object.keys(updates).length === 0) {
+      return this.getTaxCategory(id);
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousCategory] = await this.db.select().from(taxCategories).where(eq(taxCategories.id, id));
+
+      if (!previousCategory) {
+        return undefined;
+      }
+
+      const [updatedCategory] = await this.db
+        .update(taxCategories)
+        .set(updates)
+        .where(eq(taxCategories.id, id))
+        .returning();
+      await this.recordAudit("tax_categories", id, "update", previousCategory, updatedCategory);
+      return updatedCategory;
+    });
+  }
+
+  async deleteTaxCategory(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      // Records keep the category name they were saved with, and its rate
+      // changes stay for the records whose rate was taken from them
+      const deleted = await this.db.delete(taxCategories).where(eq(taxCategories.id, id)).returning();
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("tax_categories", id, "delete", deleted[0], null);
+      return true;
+    });
+  }
+
+  async getAllGstRateVersions(): Promise<GstRateVersion[]> {
+    return this.db.select().from(gstRateVersions).orderBy(gstRateVersions.effectiveFrom);
+  }
+
+  async createGstRateVersion(version: InsertGstRateVersion): Promise<GstRateVersion> {
+    return this.runInTransaction(async () => {
+      const [newVersion] = await this.db
+        .insert(gstRateVersions)
+        .values({
+          ...version,
+          hsnCode: version.hsnCode || null,
+          categoryId: version.categoryId || null,
+          notification: version.notification || null
+        })
+        .returning();
+      await this.recordAudit("gst_rate_versions", newVersion.id, "create", null, newVersion);
+      return newVersion;
+    });
+  }
+
+  async deleteGstRateVersion(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const [version] = await this.db.select().from(gstRateVersions).where(eq(gstRateVersions.id, id));
+      if (!version) {
+        return false;
+      }
+
+      // Cannot delete a rate change a record's rate was taken from, even one in the recycle bin
+      const [usedByExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(eq(expenses.gstRateVersionId, id)).limit(1);
+      const [usedByRevenue] = await this.db.select({ id: revenues.id }).from(revenues)
+        .where(eq(revenues.gstRateVersionId, id)).limit(1);
+      const [usedByOrder] = await this.db.select({ id: orders.id }).from(orders)
+        .where(eq(orders.gstRateVersionId, id)).limit(1);
+
+      if (usedByExpense || usedByRevenue || usedByOrder) {
+        return false;
+      }
+
+      await this.db.delete(gstRateVersions).where(eq(gstRateVersions.id, id));
+      await this.recordAudit("gst_rate_versions", id, "delete", version, null);
+      return true;
+    });
+  }
+
+  // Measurement profile operations
+  async getMeasurementProfiles(customerId: number): Promise<MeasurementProfile[]> {
+    return this.db.select().from(measurementProfiles)
+      .where(eq(measurementProfiles.customerId, customerId))
+      .orderBy(measurementProfiles.version);
+  }
+
+  async createMeasurementProfile(profile: InsertMeasurementProfile): Promise<MeasurementProfile> {
+    return this.runInTransaction(async () => {
+      const [{ latestVersion }] = await this.db
+        .select({ latestVersion: sql<number>`coalesce(max(${measurementProfiles.version}), 0)` })
+        .from(measurementProfiles)
+        .where(and(
+          eq(measurementProfiles.customerId, profile.customerId),
+          eq(measurementProfiles.garmentType, profile.garmentType)
+        ));
+
+      const [newProfile] = await this.db
+        .insert(measurementProfiles)
+        .values({
+          ...profile,
+          version: Number(latestVersion) + 1,
+          notes: profile.notes || null,
+          takenAt: profile.takenAt || new Date()
+        })
+        .returning();
+      await this.recordAudit("measurement_profiles", newProfile.id, "create", null, newProfile);
+      return newProfile;
+    });
+  }
+
+  async deleteMeasurementProfile(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db.delete(measurementProfiles).where(eq(measurementProfiles.id, id)).returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("measurement_profiles", id, "delete", deleted[0], null);
+      }
+      return deleted.length > 0;
+    });
+  }
+
+  // Order operations
+  async getAllOrders(): Promise<Order[]> {
+    return this.db.select().from(orders).where(isNull(orders.deletedAt)).orderBy(orders.id);
+  }
+
+  async getOrdersByCustomer(customerId: number): Promise<Order[]> {
+    return this.db.select().from(orders)
+      .where(and(eq(orders.customerId, customerId), isNull(orders.deletedAt)))
+      .orderBy(orders.id);
+  }
+
+  async getOrdersByProductionUnit(productionUnitId: number): Promise<Order[]> {
+    return this.db.select().from(orders)
+      .where(and(eq(orders.productionUnitId, productionUnitId), isNull(orders.deletedAt)))
+      .orderBy(orders.id);
+  }
+
+  async getOrder(id: number): Promise<Order | undefined> {
+    const [order] = await this.db.select().from(orders)
+      .where(and(eq(orders.id, id), isNull(orders.deletedAt)));
+    return order;
+  }
+
+  async createOrder(order: InsertOrder): Promise<Order> {
+    return this.runInTransaction(async () => {
+      // Reserve the id up front so the generated order number matches it
+      const { rows } = await this.db.execute<{ id: string }>(
+        sql`select nextval(pg_get_serial_sequence('orders', 'id')) as id`
+      );
+      const id = parseInt(rows[0].id);
+      const orderNumber = order.orderNumber || `ORD-${new Date().getFullYear()}-${id.toString().padStart(4, '0')}`;
+      const placeOfSupply = await this.resolvePlaceOfSupply(order.productionUnitId, order.placeOfSupply, order.customerId);
+      const categoryTax = await this.categoryTaxFor("revenue", { ...order, date: order.orderDate });
+
+      const [newOrder] = await this.db
+        .insert(orders)
+        .values({
+          ...order,
+          id,
+          orderNumber,
+          orderDate: order.orderDate || new Date(),
+          deliveryDate: order.deliveryDate || null,
+          status: order.status || "pending",
+          totalAmount: order.totalAmount || "0",
+          paidAmount: "0",
+          baseAmount: order.baseAmount || null,
+          gstAmount: order.gstAmount || null,
+          ...(await this.gstSplitFor(order.productionUnitId, order.gstAmount, placeOfSupply)),
+          ...categoryTax,
+          placeOfSupply,
+          invoiceNumber: order.invoiceNumber || null,
+          description: order.description || null,
+          currency: order.currency || "INR",
+          measurements: order.measurements || null,
+          fabricDetails: order.fabricDetails || null,
+          specialInstructions: order.specialInstructions || null
+        })
+        .returning();
+      await this.recordAudit("orders", newOrder.id, "create", null, newOrder);
+
+      // If this order has an amount and is not cancelled, create a corresponding revenue entry
+      if (parseFloat(newOrder.totalAmount) > 0 && newOrder.status !== "cancelled") {
+        await this.createRevenue(this.revenueForOrder(newOrder));
+      }
+
+      return newOrder;
+    });
+  }
+
+  async updateOrder(id: number, updates: Partial<Order>): Promise<Order | undefined> {
+    return this.runInTransaction(async () => {
+      const oldOrder = await this.getOrder(id);
+
+      if (!oldOrder) {
+        return undefined;
+      }
+
+      if (Object.keys(updates).length === 0) {
+        return oldOrder;
+      }
+
+      const merged = { ...oldOrder, ...updates };
+      const placeOfSupply = await this.resolvePlaceOfSupply(merged.productionUnitId, merged.placeOfSupply, merged.customerId);
+      const [updatedOrder] = await this.db
+        .update(orders)
+        .set({
+          ...updates,
+          ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, placeOfSupply)),
+          ...(await this.categoryTaxFor("revenue", { ...merged, date: merged.orderDate }, { ...updates, date: updates.orderDate })),
+          placeOfSupply
+        })
+        .where(eq(orders.id, id))
+        .returning();
+      await this.recordAudit("orders", id, "update", oldOrder, updatedOrder);
+
+      await this.syncOrderRevenue(oldOrder, updatedOrder);
+
+      return updatedOrder;
+    });
+  }
+
+  async deleteOrder(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const orderToDelete = await this.getOrder(id);
+
+      if (!orderToDelete) {
+        return false;
+      }
+
+      // Move the associated revenue entry to the recycle bin too
+      const [revenueToDelete] = await this.db.select().from(revenues)
+        .where(and(eq(revenues.orderId, id), isNull(revenues.deletedAt)))
+        .limit(1);
+      if (revenueToDelete) {
+        await this.deleteRevenue(revenueToDelete.id);
+      }
+
+      // And the order's payments, stamped with the order's deletion time so restoring
+      // the order can tell them from payments deleted on their own
+      const deletedAt = new Date();
+      const deletedPayments = await this.db
+        .update(payments)
+        .set({ deletedAt })
+        .where(and(eq(payments.orderId, id), isNull(payments.deletedAt)))
+        .returning();
+      for (const payment of deletedPayments) {
+        await this.recordAudit("payments", payment.id, "delete", { ...payment, deletedAt: null }, null);
+      }
+
+      await this.db.update(orders).set({ deletedAt }).where(eq(orders.id, id));
+      await this.recordAudit("orders", id, "delete", orderToDelete, null);
+      return true;
+    });
+  }
+
+  async restoreOrder(id: number): Promise<Order | undefined> {
+    return this.runInTransaction(async () => {
+      const [deletedOrder] = await this.db.select().from(orders)
+        .where(and(eq(orders.id, id), isNotNull(orders.deletedAt)));
+
+      if (!deletedOrder) {
+        return undefined;
+      }
+
+      const [restoredOrder] = await this.db
+        .update(orders)
+        .set({ deletedAt: null })
+        .where(eq(orders.id, id))
+        .returning();
+      await this.recordAudit("orders", id, "restore", null, restoredOrder);
+
+      // Bring back the payments deleted along with the order
+      const restoredPayments = await this.db
+        .update(payments)
+        .set({ deletedAt: null })
+        .where(and(eq(payments.orderId, id), eq(payments.deletedAt, deletedOrder.deletedAt!)))
+        .returning();
+      for (const payment of restoredPayments) {
+        await this.recordAudit("payments", payment.id, "restore", null, payment);
+      }
+
+      // Bring back the order's revenue entry unless it already has an active one.
+      // A cancelled order's revenue stays voided.
+      if (restoredOrder.status === "cancelled") {
+        return restoredOrder;
+      }
+
+      const [activeRevenue] = await this.db.select({ id: revenues.id }).from(revenues)
+        .where(and(eq(revenues.orderId, id), isNull(revenues.deletedAt)))
+        .limit(1);
+      const [deletedRevenue] = await this.db.select({ id: revenues.id }).from(revenues)
+        .where(and(eq(revenues.orderId, id), isNotNull(revenues.deletedAt)))
+        .orderBy(desc(revenues.id))
+        .limit(1);
+      if (deletedRevenue && !activeRevenue) {
+        await this.restoreRevenue(deletedRevenue.id);
+      }
+
+      return restoredOrder;
+    });
+  }
+
+  async purgeOrder(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(orders)
+        .where(and(eq(orders.id, id), isNotNull(orders.deletedAt)))
+        .returning();
+
+      if (purged.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("orders", id, "purge", purged[0], null);
+
+      // Purge the order's deleted revenue entries and payments, which would otherwise point nowhere
+      const deletedRevenues = await this.db.select({ id: revenues.id }).from(revenues)
+        .where(and(eq(revenues.orderId, id), isNotNull(revenues.deletedAt)));
+      for (const revenue of deletedRevenues) {
+        await this.purgeRevenue(revenue.id);
+      }
+
+      const deletedPayments = await this.db.select({ id: payments.id }).from(payments)
+        .where(and(eq(payments.orderId, id), isNotNull(payments.deletedAt)));
+      for (const payment of deletedPayments) {
+        await this.purgePayment(payment.id);
+      }
+
+      return true;
+    });
+  }
+
+  // Payment operations
+  async getAllPayments(): Promise<Payment[]> {
+    return this.db.select().from(payments).where(isNull(payments.deletedAt)).orderBy(payments.id);
+  }
+
+  async getPaymentsByOrder(orderId: number): Promise<Payment[]> {
+    return this.db.select().from(payments)
+      .where(and(eq(payments.orderId, orderId), isNull(payments.deletedAt)))
+      .orderBy(payments.id);
+  }
+
+  async getPaymentsByCustomer(customerId: number): Promise<Payment[]> {
+    return this.db.select().from(payments)
+      .where(and(eq(payments.customerId, customerId), isNull(payments.deletedAt)))
+      .orderBy(payments.id);
+  }
+
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    return this.runInTransaction(async () => {
+      // Locking the order row makes concurrent payments against it take turns
+      const [order] = await this.db.select().from(orders)
+        .where(and(eq(orders.id, payment.orderId), isNull(orders.deletedAt)))
+        .for("update");
+
+      if (!order) {
+        throw new Error(`Order ${payment.orderId} not found`);
+      }
+
+      await this.checkPaymentWithinOutstanding(order.id, payment.amount);
+
+      const [newPayment] = await this.db
+        .insert(payments)
+        .values({
+          ...payment,
+          customerId: order.customerId,
+          paymentDate: payment.paymentDate || new Date(),
+          reference: payment.reference || null,
+          notes: payment.notes || null
+        })
+        .returning();
+      await this.recordAudit("payments", newPayment.id, "create", null, newPayment);
+
+      await this.syncOrderPaidAmount(order.id);
+      return newPayment;
+    });
+  }
+
+  async deletePayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const [deletedPayment] = await this.db
+        .update(payments)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(payments.id, id), isNull(payments.deletedAt)))
+        .returning();
+
+      if (!deletedPayment) {
+        return false;
+      }
+
+      await this.recordAudit("payments", id, "delete", { ...deletedPayment, deletedAt: null }, null);
+      await this.syncOrderPaidAmount(deletedPayment.orderId);
+      return true;
+    });
+  }
+
+  async restorePayment(id: number): Promise<Payment | undefined> {
+    return this.runInTransaction(async () => {
+      const [deletedPayment] = await this.db.select().from(payments)
+        .where(and(eq(payments.id, id), isNotNull(payments.deletedAt)));
+
+      if (!deletedPayment) {
+        return undefined;
+      }
+
+      // Locked as in createPayment, since payments recorded since it was deleted may have settled the order
+      await this.db.select({ id: orders.id }).from(orders)
+        .where(eq(orders.id, deletedPayment.orderId))
+        .for("update");
+      await this.checkPaymentWithinOutstanding(deletedPayment.orderId, deletedPayment.amount);
+
+      const [restoredPayment] = await this.db
+        .update(payments)
+        .set({ deletedAt: null })
+        .where(and(eq(payments.id, id), isNotNull(payments.deletedAt)))
+        .returning();
+
+      if (!restoredPayment) {
+        return undefined;
+      }
+
+      await this.recordAudit("payments", id, "restore", null, restoredPayment);
+      await this.syncOrderPaidAmount(restoredPayment.orderId);
+      return restoredPayment;
+    });
+  }
+
+  async purgePayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(payments)
+        .where(and(eq(payments.id, id), isNotNull(payments.deletedAt)))
+        .returning();
+
+      if (purged.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("payments", id, "purge", purged[0], null);
+      return true;
+    });
+  }
+
+  // Invoice operations
+  async getAllInvoices(): Promise<Invoice[]> {
+    return this.db.select().from(invoices).orderBy(invoices.id);
+  }
+
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const [invoice] = await this.db.select().from(invoices).where(eq(invoices.id, id));
+    return invoice;
+  }
+
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    return this.runInTransaction(async () => {
+      const invoiceDate = invoice.invoiceDate || new Date();
+      const financialYear = getFinancialYear(invoiceDate);
+
+      // One invoice at a time per unit and financial year, as under the Excel write lock,
+      // so concurrent requests take consecutive numbers. Held until the transaction ends.
+      await this.db.execute(sql`select pg_advisory_xact_lock(${invoice.productionUnitId}, hashtext(${financialYear}))`);
+
+      // Checked under the lock so two requests can't invoice the same record
+      const source = invoice.orderId
+        ? eq(invoices.orderId, invoice.orderId)
+        : eq(invoices.revenueId, invoice.revenueId || 0);
+      const [existing] = await this.db.select().from(invoices)
+        .where(and(source, eq(invoices.status, "issued")));
+      if (existing) {
+        throw new Error("This record already has an issued invoice");
+      }
+
+      // Next number in the unit's series for the financial year; cancelled invoices keep theirs
+      const [{ latestSequence }] = await this.db
+        .select({ latestSequence: sql<number>`coalesce(max(${invoices.sequence}), 0)` })
+        .from(invoices)
+        .where(and(
+          eq(invoices.productionUnitId, invoice.productionUnitId),
+          eq(invoices.financialYear, financialYear)
+        ));
+      const sequence = Number(latestSequence) + 1;
+
+      const [newInvoice] = await this.db
+        .insert(invoices)
+        .values({
+          ...invoice,
+          invoiceNumber: formatInvoiceNumber(invoice.productionUnitId, financialYear, sequence),
+          financialYear,
+          sequence,
+          invoiceDate
+        })
+        .returning();
+      await this.recordAudit("invoices", newInvoice.id, "create", null, newInvoice);
+      return newInvoice;
+    });
+  }
+
+  protected async markInvoiceCancelled(id: number, reason: string): Promise<Invoice | undefined> {
+    return this.runInTransaction(async () => {
+      const [previousInvoice] = await this.db.select().from(invoices)
+        .where(and(eq(invoices.id, id), eq(invoices.status, "issued")));
+
+      if (!previousInvoice) {
+        return undefined;
+      }
+
+      const [cancelledInvoice] = await this.db
+        .update(invoices)
+        .set({ status: "cancelled", cancelledAt: new Date(), cancelReason: reason })
+        .where(eq(invoices.id, id))
+        .returning();
+      await this.recordAudit("invoices", id, "update", previousInvoice, cancelledInvoice);
+      return cancelledInvoice;
+    });
+  }
+
+  // Salary Payment operations
+  async getAllSalaryPayments(): Promise<SalaryPayment[]> {
+    return this.db.select().from(salaryPayments).where(isNull(salaryPayments.deletedAt)).orderBy(salaryPayments.id);
+  }
+
+  async getSalaryPaymentsByProductionUnit(productionUnitId: number): Promise<SalaryPayment[]> {
+    return this.db.select().from(salaryPayments)
+      .where(and(eq(salaryPayments.productionUnitId, productionUnitId), isNull(salaryPayments.deletedAt)))
+      .orderBy(salaryPayments.id);
+  }
+
+  async getSalaryPaymentsByMonth(month: string, year: string): Promise<SalaryPayment[]> {
+    return this.db.select().from(salaryPayments)
+      .where(and(eq(salaryPayments.month, month), eq(salaryPayments.year, year), isNull(salaryPayments.deletedAt)))
+      .orderBy(salaryPayments.id);
+  }
+
+  async createSalaryPayment(payment: InsertSalaryPayment): Promise<SalaryPayment> {
+    return this.runInTransaction(async () => {
+      const [newPayment] = await this.db
+        .insert(salaryPayments)
+        .values({
+          ...payment,
+          employeeId: payment.employeeId || null,
+          paymentDate: payment.paymentDate || new Date(),
+          paymentMethod: payment.paymentMethod || null,
+          notes: payment.notes || null
+        })
+        .returning();
+      await this.recordAudit("salary_payments", newPayment.id, "create", null, newPayment);
+
+      // Create a corresponding expense entry
+      if (parseFloat(newPayment.amount) > 0) {
+        await this.createExpense(this.expenseForSalaryPayment(newPayment));
+      }
+
+      return newPayment;
+    });
+  }
+
+  async updateSalaryPayment(id: number, updates: Partial<SalaryPayment>): Promise<SalaryPayment | undefined> {
+    if (Object.keys(updates).length === 0) {
+      const [payment] = await this.db.select().from(salaryPayments)
+        .where(and(eq(salaryPayments.id, id), isNull(salaryPayments.deletedAt)));
+      return payment;
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousPayment] = await this.db.select().from(salaryPayments)
+        .where(and(eq(salaryPayments.id, id), isNull(salaryPayments.deletedAt)));
+
+      if (!previousPayment) {
+        return undefined;
+      }
+
+      const [updatedPayment] = await this.db
+        .update(salaryPayments)
+        .set(updates)
+        .where(eq(salaryPayments.id, id))
+        .returning();
+      await this.recordAudit("salary_payments", id, "update", previousPayment, updatedPayment);
+
+      if (!updatedPayment) {
+        return undefined;
+      }
+
+      // Keep the expense booked by this payment in step with it
+      const [linkedExpense] = await this.db.select().from(expenses)
+        .where(and(eq(expenses.salaryPaymentId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      if (linkedExpense) {
+        await this.updateExpense(linkedExpense.id, this.expenseForSalaryPayment(updatedPayment));
+      }
+
+      return updatedPayment;
+    });
+  }
+
+  async deleteSalaryPayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db
+        .update(salaryPayments)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(salaryPayments.id, id), isNull(salaryPayments.deletedAt)))
+        .returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("salary_payments", id, "delete", { ...deleted[0], deletedAt: null }, null);
+      }
+
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      // Delete the expense booked by this payment, which also reverses the unit cost
+      const [linkedExpense] = await this.db.select().from(expenses)
+        .where(and(eq(expenses.salaryPaymentId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      if (linkedExpense) {
+        await this.deleteExpense(linkedExpense.id);
+      }
+
+      return true;
+    });
+  }
+
+  async restoreSalaryPayment(id: number): Promise<SalaryPayment | undefined> {
+    return this.runInTransaction(async () => {
+      const [restoredPayment] = await this.db
+        .update(salaryPayments)
+        .set({ deletedAt: null })
+        .where(and(eq(salaryPayments.id, id), isNotNull(salaryPayments.deletedAt)))
+        .returning();
+
+      if (!restoredPayment) {
+        return undefined;
+      }
+
+      await this.recordAudit("salary_payments", id, "restore", null, restoredPayment);
+
+      // Restore the expense booked by this payment, which charges the unit again
+      const [activeExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.salaryPaymentId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      const [deletedExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.salaryPaymentId, id), isNotNull(expenses.deletedAt)))
+        .orderBy(desc(expenses.id))
+        .limit(1);
+      if (deletedExpense && !activeExpense) {
+        await this.restoreExpense(deletedExpense.id);
+      }
+
+      return restoredPayment;
+    });
+  }
+
+  async purgeSalaryPayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(salaryPayments)
+        .where(and(eq(salaryPayments.id, id), isNotNull(salaryPayments.deletedAt)))
+        .returning();
+
+      if (purged.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("salary_payments", id, "purge", purged[0], null);
+
+      // Purge the deleted expenses booked by this payment
+      const deletedExpenses = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.salaryPaymentId, id), isNotNull(expenses.deletedAt)));
+      for (const expense of deletedExpenses) {
+        await this.purgeExpense(expense.id);
+      }
+
+      return true;
+    });
+  }
+
+  // Maintenance Record operations
+  async getAllMaintenanceRecords(): Promise<MaintenanceRecord[]> {
+    return this.db.select().from(maintenanceRecords).where(isNull(maintenanceRecords.deletedAt)).orderBy(maintenanceRecords.id);
+  }
+
+  async getMaintenanceRecordsByProductionUnit(productionUnitId: number): Promise<MaintenanceRecord[]> {
+    return this.db.select().from(maintenanceRecords)
+      .where(and(eq(maintenanceRecords.productionUnitId, productionUnitId), isNull(maintenanceRecords.deletedAt)))
+      .orderBy(maintenanceRecords.id);
+  }
+
+  async createMaintenanceRecord(record: InsertMaintenanceRecord): Promise<MaintenanceRecord> {
+    return this.runInTransaction(async () => {
+      const [newRecord] = await this.db
+        .insert(maintenanceRecords)
+        .values({
+          ...record,
+          machineId: record.machineId || null,
+          date: record.date || new Date(),
+          nextMaintenanceDate: record.nextMaintenanceDate || null,
+          performedBy: record.performedBy || null,
+          notes: record.notes || null
+        })
+        .returning();
+      await this.recordAudit("maintenance_records", newRecord.id, "create", null, newRecord);
+
+      // Create a corresponding expense entry
+      if (parseFloat(newRecord.cost) > 0) {
+        await this.createExpense(this.expenseForMaintenanceRecord(newRecord));
+      }
+
+      return newRecord;
+    });
+  }
+
+  async updateMaintenanceRecord(id: number, updates: Partial<MaintenanceRecord>): Promise<MaintenanceRecord | undefined> {
+    if (Object.keys(updates).length === 0) {
+      const [record] = await this.db.select().from(maintenanceRecords)
+        .where(and(eq(maintenanceRecords.id, id), isNull(maintenanceRecords.deletedAt)));
+      return record;
+    }
+
+    return this.runInTransaction(async () => {
+      const [previousRecord] = await this.db.select().from(maintenanceRecords)
+        .where(and(eq(maintenanceRecords.id, id), isNull(maintenanceRecords.deletedAt)));
+
+      if (!previousRecord) {
+        return undefined;
+      }
+
+      const [updatedRecord] = await this.db
+        .update(maintenanceRecords)
+        .set(updates)
+        .where(eq(maintenanceRecords.id, id))
+        .returning();
+      await this.recordAudit("maintenance_records", id, "update", previousRecord, updatedRecord);
+
+      if (!updatedRecord) {
+        return undefined;
+      }
+
+      // Keep the expense booked by this record in step with it
+      const [linkedExpense] = await this.db.select().from(expenses)
+        .where(and(eq(expenses.maintenanceRecordId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      if (linkedExpense) {
+        await this.updateExpense(linkedExpense.id, this.expenseForMaintenanceRecord(updatedRecord));
+      }
+
+      return updatedRecord;
+    });
+  }
+
+  async deleteMaintenanceRecord(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.db
+        .update(maintenanceRecords)
+        .set({ deletedAt: new Date() })
+        .where(and(eq(maintenanceRecords.id, id), isNull(maintenanceRecords.deletedAt)))
+        .returning();
+      if (deleted.length > 0) {
+        await this.recordAudit("maintenance_records", id, "delete", { ...deleted[0], deletedAt: null }, null);
+      }
+
+      if (deleted.length === 0) {
+        return false;
+      }
+
+      // Delete the expense booked by this record, which also reverses the unit cost
+      const [linkedExpense] = await this.db.select().from(expenses)
+        .where(and(eq(expenses.maintenanceRecordId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      if (linkedExpense) {
+        await this.deleteExpense(linkedExpense.id);
+      }
+
+      return true;
+    });
+  }
+
+  async restoreMaintenanceRecord(id: number): Promise<MaintenanceRecord | undefined> {
+    return this.runInTransaction(async () => {
+      const [restoredRecord] = await this.db
+        .update(maintenanceRecords)
+        .set({ deletedAt: null })
+        .where(and(eq(maintenanceRecords.id, id), isNotNull(maintenanceRecords.deletedAt)))
+        .returning();
+
+      if (!restoredRecord) {
+        return undefined;
+      }
+
+      await this.recordAudit("maintenance_records", id, "restore", null, restoredRecord);
+
+      // Restore the expense booked by this record, which charges the unit again
+      const [activeExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.maintenanceRecordId, id), isNull(expenses.deletedAt)))
+        .limit(1);
+      const [deletedExpense] = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.maintenanceRecordId, id), isNotNull(expenses.deletedAt)))
+        .orderBy(desc(expenses.id))
+        .limit(1);
+      if (deletedExpense && !activeExpense) {
+        await this.restoreExpense(deletedExpense.id);
+      }
+
+      return restoredRecord;
+    });
+  }
+
+  async purgeMaintenanceRecord(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.db.delete(maintenanceRecords)
+        .where(and(eq(maintenanceRecords.id, id), isNotNull(maintenanceRecords.deletedAt)))
+        .returning();
+
+      if (purged.length === 0) {
+        return false;
+      }
+
+      await this.recordAudit("maintenance_records", id, "purge", purged[0], null);
+
+      // Purge the deleted expenses booked by this record
+      const deletedExpenses = await this.db.select({ id: expenses.id }).from(expenses)
+        .where(and(eq(expenses.maintenanceRecordId, id), isNotNull(expenses.deletedAt)));
+      for (const expense of deletedExpenses) {
+        await this.purgeExpense(expense.id);
+      }
+
+      return true;
+    });
+  }
+
+  // Recycle bin operations
+  protected async getRecycleBinContents(): Promise<RecycleBinContents> {
+    const [
+      deletedExpenses, deletedRevenues, deletedOrders, deletedPayments, deletedSalaryPayments,
+      deletedMaintenanceRecords
+    ] = await Promise.all([
+      this.db.select().from(expenses).where(isNotNull(expenses.deletedAt)),
+      this.db.select().from(revenues).where(isNotNull(revenues.deletedAt)),
+      this.db.select().from(orders).where(isNotNull(orders.deletedAt)),
+      this.db.select().from(payments).where(isNotNull(payments.deletedAt)),
+      this.db.select().from(salaryPayments).where(isNotNull(salaryPayments.deletedAt)),
+      this.db.select().from(maintenanceRecords).where(isNotNull(maintenanceRecords.deletedAt))
+    ]);
+
+    return {
+      expenses: deletedExpenses,
+      revenues: deletedRevenues,
+      orders: deletedOrders,
+      payments: deletedPayments,
+      salaryPayments: deletedSalaryPayments,
+      maintenanceRecords: deletedMaintenanceRecords
+    };
+  }
+
+  // Audit log operations
+  async getAuditEntries(entity: AuditEntity, entityId?: number): Promise<AuditEntry[]> {
+    const conditions = entityId === undefined
+      ? eq(auditLog.entity, entity)
+      : and(eq(auditLog.entity, entity), eq(auditLog.entityId, entityId));
+    return this.db.select().from(auditLog).where(conditions).orderBy(auditLog.id);
+  }
+
+  protected async appendAuditEntry(entry: InsertAuditEntry): Promise<void> {
+    await this.db.insert(auditLog).values(entry);
+  }
+
+  private async adjustProductionUnitCost(productionUnitId: number, delta: number): Promise<void> {
+    await this.db
+      .update(productionUnits)
+      .set({ costToDate: sql`${productionUnits.costToDate} + ${delta.toString()}::numeric` })
+      .where(eq(productionUnits.id, productionUnitId));
+  }
+}
@@ -13,6 +13,93 @@ export async function ensureDirectoryExists(dirPath: string): Promise<void> {
   }
 }
 
+const TEMP_FILE_SUFFIX = '.tmp';
+
+/**
+ * Renames a file, retrying briefly when the target is locked
+ * (Windows reports EPERM/EBUSY while Excel or a virus scanner holds it open)
+ */
+async function renameWithRetry(from: string, to: string, attempts: number = 5): Promise<void> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      await fs.rename(from, to);
+      return;
+    } catch (error: any) {
+      const retryable = error?.code === 'EPERM' || error?.code === 'EBUSY' || error?.code === 'EACCES';
+      if (!retryable || attempt >= attempts) {
+        throw error;
+      }
+      await new Promise(resolve => setTimeout(resolve, 50 * attempt));
+    }
+  }
+}
+
+/**
+ * Checks whether an error from readExcelFile means the workbook itself is
+ * unreadable, as opposed to a filesystem problem such as a missing file
+ */
+export function isCorruptWorkbookError(error: unknown): boolean {
+  return !(error && typeof error === 'object' && 'code' in error);
+}
+
+/**
+ * Moves an unreadable workbook into a "quarantine" folder next to it
+ * @param filePath - Path to the corrupted Excel file
+ * @returns Promise<string> - The path the file was moved to
+ */
+export async function quarantineFile(filePath: string): Promise<string> {
+  const quarantineDir = path.join(path.dirname(filePath), 'quarantine');
+  await ensureDirectoryExists(quarantineDir);
+  
+  const ext = path.extname(filePath);
+  const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+  const target = path.join(quarantineDir, `${path.basename(filePath, ext)}_${timestamp}${ext}`);
+  
+  await renameWithRetry(filePath, target);
+  return target;
+}
+
+/**
+ * Removes temp files left behind by writes that were interrupted by a crash
+ * @param dirPath - Directory holding the Excel files
+ */
+export async function removeStaleTempFiles(dirPath: string): Promise<void> {
+  const entries = await fs.readdir(dirPath);
+  for (const entry of entries) {
+    if (entry.endsWith(TEMP_FILE_SUFFIX)) {
+      await fs.rm(path.join(dirPath, entry), { force: true });
+    }
+  }
+}
+
+// A worksheet's rows as cell text
+function worksheetToRows(worksheet: ExcelJS.Worksheet): string[][] {
+  const data: string[][] = [];
+  
+  worksheet.eachRow((row, rowNumber) => {
+    const rowData: string[] = [];
+    // Place cells by column number so empty cells don't shift later columns left
+    row.eachCell({ includeEmpty: true }, (cell, colNumber) => {
+      rowData[colNumber - 1] = cell.value?.toString() || '';
+    });
+    data.push(rowData);
+  });
+  
+  return data;
+}
+
+async function loadWorkbook(filePathOrBuffer: string | Buffer): Promise<ExcelJS.Workbook> {
+  const workbook = new ExcelJS.Workbook();
+  
+  if (typeof filePathOrBuffer === 'string') {
+    await workbook.xlsx.readFile(filePathOrBuffer);
+  } else {
+    await workbook.xlsx.load(filePathOrBuffer);
+  }
+  
+  return workbook;
+}
+
 /**
  * Reads data from an Excel file
  * @param filePathOrBuffer - Path to the Excel file or Buffer containing the Excel data
@@ -20,36 +107,37 @@ export async function ensureDirectoryExists(dirPath: string): Promise<void> {
  */
 export async function readExcelFile(filePathOrBuffer: string | Buffer): Promise<string[][]> {
   try {
-    const workbook = new ExcelJS.Workbook();
-    
-    if (typeof filePathOrBuffer === 'string') {
-      await workbook.xlsx.readFile(filePathOrBuffer);
-    } else {
-      await workbook.xlsx.load(filePathOrBuffer);
-    }
+    const workbook = await loadWorkbook(filePathOrBuffer);
     
     const worksheet = workbook.getWorksheet(1);
     if (!worksheet) {
       throw new Error('No worksheet found in the Excel file');
     }
     
-    const data: string[][] = [];
-    
-    worksheet.eachRow((row, rowNumber) => {
-      const rowData: string[] = [];
-      row.eachCell((cell, colNumber) => {
-        rowData.push(cell.value?.toString() || '');
-      });
-      data.push(rowData);
-    });
-    
-    return data;
+    return worksheetToRows(worksheet);
+  } catch (error) {
+    console.error('Error reading Excel file:', error);
+    throw error;
+  }
+}
+
+/**
+ * Reads every sheet of an Excel file
+ * @param filePathOrBuffer - Path to the Excel file or Buffer containing the Excel data
+ * @returns Promise - The worksheets in order, each a name and a 2D array of cell values
+ */
+export async function readExcelWorkbook(filePathOrBuffer: string | Buffer): Promise<{ name: string; data: string[][] }[]> {
+  try {
+    const workbook = await loadWorkbook(filePathOrBuffer);
+    return workbook.worksheets.map(worksheet => ({ name: worksheet.name, data: worksheetToRows(worksheet) }));
   } catch (error) {
     console.error('Error reading Excel file:', error);
     throw error;
   }
 }
 
+type CellValue = string | number | null | undefined;
+
 /**
  * Writes data to an Excel file
  * @param filePath - Path where the Excel file will be saved
@@ -57,51 +145,78 @@ export async function readExcelFile(filePathOrBuffer: string | Buffer): Promise<
  * @param sheetName - Name of the worksheet
  * @returns Promise<void>
  */
-export async function writeExcelFile(filePath: string, data: (string | number | null | undefined)[][], sheetName: string = 'Sheet1'): Promise<void> {
+export async function writeExcelFile(filePath: string, data: CellValue[][], sheetName: string = 'Sheet1'): Promise<void> {
+  await writeExcelWorkbook(filePath, [{ name: sheetName, data }]);
+}
+
+/**
+ * Writes several sheets to one Excel file, each with its first row as the header
+ * @param filePath - Path where the Excel file will be saved
+ * @param sheets - The worksheets in order, each a name and a 2D array of cell values
+ * @returns Promise<void>
+ */
+export async function writeExcelWorkbook(filePath: string, sheets: { name: string; data: CellValue[][] }[]): Promise<void> {
   try {
     const workbook = new ExcelJS.Workbook();
-    const worksheet = workbook.addWorksheet(sheetName);
     
-    // Add data to the worksheet
-    worksheet.addRows(data);
-    
-    // Apply some basic styling
-    const headerRow = worksheet.getRow(1);
-    headerRow.font = { bold: true };
-    headerRow.fill = {
-      type: 'pattern',
-      pattern: 'solid',
-      fgColor: { argb: 'FFE2E8F0' } // light gray background
-    };
-    
-    // Auto-fit columns (approximate)
-    data[0].forEach((_, colIndex) => {
-      let maxLength = 0;
+    for (const { name, data } of sheets) {
+      const worksheet = workbook.addWorksheet(name);
+      
+      // Add data to the worksheet
+      worksheet.addRows(data);
+      
+      // Apply some basic styling
+      const headerRow = worksheet.getRow(1);
+      headerRow.font = { bold: true };
+      headerRow.fill = {
+        type: 'pattern',
+        pattern: 'solid',
+        fgColor: { argb: 'FFE2E8F0' } // light gray background
+      };
       
-      data.forEach(row => {
-        const cellValue = row[colIndex]?.toString() || '';
-        maxLength = Math.max(maxLength, cellValue.length);
+      // Auto-fit columns (approximate)
+      data[0].forEach((_, colIndex) => {
+        let maxLength = 0;
+        
+        data.forEach(row => {
+          const cellValue = row[colIndex]?.toString() || '';
+          maxLength = Math.max(maxLength, cellValue.length);
+        });
+        
+        // Set column width based on content length
+        worksheet.getColumn(colIndex + 1).width = Math.min(30, Math.max(10, maxLength + 2));
       });
       
-      // Set column width based on content length
-      worksheet.getColumn(colIndex + 1).width = Math.min(30, Math.max(10, maxLength + 2));
-    });
-    
-    // Format currency columns
-    data[0].forEach((header, colIndex) => {
-      const headerStr = String(header || '');
-      if (headerStr.toLowerCase().includes('amount') || 
-          headerStr.toLowerCase().includes('cost') || 
-          headerStr.toLowerCase().includes('price')) {
-        worksheet.getColumn(colIndex + 1).numFmt = '"$"#,##0.00';
-      }
-    });
+      // Format currency columns
+      data[0].forEach((header, colIndex) => {
+        const headerStr = String(header || '');
+        if (headerStr.toLowerCase().includes('amount') || 
+            headerStr.toLowerCase().includes('cost') || 
+            headerStr.toLowerCase().includes('price')) {
+          worksheet.getColumn(colIndex + 1).numFmt = '"$"#,##0.00';
+        }
+      });
+    }
     
     // Ensure directory exists
     await ensureDirectoryExists(path.dirname(filePath));
     
-    // Save the workbook
-    await workbook.xlsx.writeFile(filePath);
+    // Save to a temp file first and rename it into place, so a crash
+    // mid-write never leaves a truncated workbook behind
+    const tempPath = `${filePath}.${process.pid}-${Date.now()}${TEMP_FILE_SUFFIX}`;
+    try {
+      await workbook.xlsx.writeFile(tempPath);
+      const handle = await fs.open(tempPath, 'r+');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      await renameWithRetry(tempPath, filePath);
+    } catch (writeError) {
+      await fs.rm(tempPath, { force: true });
+      throw writeError;
+    }
   } catch (error) {
     console.error('Error writing Excel file:', error);
     throw error;
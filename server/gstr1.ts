@@ -0,0 +1,219 @@
+import { format } from "date-fns";
+import { Gstr1Document, Gstr1Report } from "@shared/schema";
+import { GST_STATE_CODES, formatStateCode } from "@shared/gst-utils";
+import { GSTR1_ISSUE_LABELS, toReturnPeriod } from "@shared/gst-returns";
+import { formatRateVersion } from "@shared/tax-master";
+
+type Sheet = { name: string; data: (string | number | null)[][] };
+
+// Invoice dates are written dd-mm-yyyy in the portal JSON
+function portalDate(date: Date | string): string {
+  return format(new Date(date), "dd-MM-yyyy");
+}
+
+// Place of supply as the offline tool's Excel template writes it, e.g. "27-Maharashtra"
+function placeOfSupplyLabel(stateCode: string | null): string {
+  return stateCode ? `${stateCode}-${GST_STATE_CODES[stateCode] || ""}` : "";
+}
+
+function issuesLabel(document: Gstr1Document): string {
+  return document.issues.map(issue => GSTR1_ISSUE_LABELS[issue]).join(", ");
+}
+
+// Blank where the master rate applied or the rate was entered by hand
+function rateVersionLabel(document: Gstr1Document): string {
+  return document.gstRateVersion ? formatRateVersion(document.gstRateVersion) : "";
+}
+
+/**
+ * GSTR-1 in the GST portal's offline tool JSON format. Each revenue entry is
+ * one invoice with a single item, numbered by its rate as the tool does.
+ * @param report - The report; all of it must be filed under one GSTIN
+ * @param gstin - The GSTIN the return is filed under
+ */
+export function buildGstr1Json(report: Gstr1Report, gstin: string) {
+  const item = (document: Gstr1Document, intraState: boolean) => ({
+    num: Math.round(document.gstRate * 100) + 1,
+    itm_det: {
+      txval: document.taxableValue,
+      rt: document.gstRate,
+      iamt: document.igst,
+      ...(intraState ? { camt: document.cgst, samt: document.sgst } : {}),
+      csamt: 0,
+    },
+  });
+
+  // B2B invoices are grouped by the recipient's GSTIN
+  const b2b = new Map<string, object[]>();
+  for (const document of report.documents.filter(document => document.section === "b2b")) {
+    const invoices = b2b.get(document.customerGstin!) || [];
+    invoices.push({
+      inum: document.invoiceNumber || "",
+      idt: portalDate(document.invoiceDate),
+      val: document.invoiceValue,
+      pos: document.placeOfSupply || "",
+      rchrg: "N",
+      inv_typ: "R",
+      itms: [item(document, true)],
+    });
+    b2b.set(document.customerGstin!, invoices);
+  }
+
+  // B2CL invoices are grouped by place of supply
+  const b2cl = new Map<string, object[]>();
+  for (const document of report.documents.filter(document => document.section === "b2cl")) {
+    const pos = document.placeOfSupply || "";
+    const invoices = b2cl.get(pos) || [];
+    invoices.push({
+      inum: document.invoiceNumber || "",
+      idt: portalDate(document.invoiceDate),
+      val: document.invoiceValue,
+      itms: [item(document, false)],
+    });
+    b2cl.set(pos, invoices);
+  }
+
+  return {
+    gstin,
+    fp: toReturnPeriod(report.period),
+    b2b: Array.from(b2b.entries()).map(([ctin, inv]) => ({ ctin, inv })),
+    b2cl: Array.from(b2cl.entries()).map(([pos, inv]) => ({ pos, inv })),
+    b2cs: report.b2cs.map(row => ({
+      sply_ty: row.isInterState ? "INTER" : "INTRA",
+      pos: row.placeOfSupply || "",
+      typ: "OE",
+      txval: row.taxableValue,
+      rt: row.gstRate,
+      iamt: row.igst,
+      camt: row.cgst,
+      samt: row.sgst,
+      csamt: 0,
+    })),
+    hsn: {
+      data: report.hsn.map((row, index) => ({
+        num: index + 1,
+        hsn_sc: row.hsn === "-" ? "" : row.hsn,
+        desc: "",
+        uqc: "NA",
+        qty: 0,
+        rt: row.gstRate,
+        txval: row.taxableValue,
+        iamt: row.igst,
+        camt: row.cgst,
+        samt: row.sgst,
+        csamt: 0,
+      })),
+    },
+  };
+}
+
+/**
+ * GSTR-1 as worksheets laid out like the offline tool's Excel template, one
+ * per section, and a sheet listing the flagged rows. B2B and B2CL rows carry
+ * what was flagged on them.
+ */
+export function buildGstr1Sheets(report: Gstr1Report): Sheet[] {
+  const b2b = report.documents.filter(document => document.section === "b2b");
+  const b2cl = report.documents.filter(document => document.section === "b2cl");
+
+  return [
+    {
+      name: "b2b",
+      data: [
+        ["GSTIN/UIN of Recipient", "Receiver Name", "Invoice Number", "Invoice Date", "Invoice Value",
+          "Place Of Supply", "Reverse Charge", "Invoice Type", "Rate", "Taxable Value",
+          "Integrated Tax", "Central Tax", "State/UT Tax", "Cess", "Rate Change", "Issues"],
+        ...b2b.map(document => [
+          document.customerGstin,
+          document.customerName,
+          document.invoiceNumber || "",
+          format(new Date(document.invoiceDate), "dd-MMM-yyyy"),
+          document.invoiceValue,
+          placeOfSupplyLabel(document.placeOfSupply),
+          "N",
+          "Regular",
+          document.gstRate,
+          document.taxableValue,
+          document.igst,
+          document.cgst,
+          document.sgst,
+          0,
+          rateVersionLabel(document),
+          issuesLabel(document),
+        ]),
+      ],
+    },
+    {
+      name: "b2cl",
+      data: [
+        ["Invoice Number", "Invoice Date", "Invoice Value", "Place Of Supply", "Rate",
+          "Taxable Value", "Integrated Tax", "Cess", "Rate Change", "Issues"],
+        ...b2cl.map(document => [
+          document.invoiceNumber || "",
+          format(new Date(document.invoiceDate), "dd-MMM-yyyy"),
+          document.invoiceValue,
+          placeOfSupplyLabel(document.placeOfSupply),
+          document.gstRate,
+          document.taxableValue,
+          document.igst,
+          0,
+          rateVersionLabel(document),
+          issuesLabel(document),
+        ]),
+      ],
+    },
+    {
+      name: "b2cs",
+      data: [
+        ["Type", "Place Of Supply", "Rate", "Taxable Value", "Integrated Tax", "Central Tax", "State/UT Tax", "Cess"],
+        ...report.b2cs.map(row => [
+          "OE",
+          placeOfSupplyLabel(row.placeOfSupply),
+          row.gstRate,
+          row.taxableValue,
+          row.igst,
+          row.cgst,
+          row.sgst,
+          0,
+        ]),
+      ],
+    },
+    {
+      name: "hsn",
+      data: [
+        ["HSN", "Description", "UQC", "Total Quantity", "Total Value", "Rate", "Taxable Value",
+          "Integrated Tax", "Central Tax", "State/UT Tax", "Cess"],
+        ...report.hsn.map(row => [
+          row.hsn === "-" ? "" : row.hsn,
+          "",
+          "NA",
+          0,
+          row.totalValue,
+          row.gstRate,
+          row.taxableValue,
+          row.igst,
+          row.cgst,
+          row.sgst,
+          0,
+        ]),
+      ],
+    },
+    {
+      name: "Flagged",
+      data: [
+        ["Invoice Number", "Invoice Date", "Customer", "Section", "Invoice Value", "Place Of Supply", "Issues"],
+        ...report.documents
+          .filter(document => document.issues.length > 0)
+          .map(document => [
+            document.invoiceNumber || "",
+            format(new Date(document.invoiceDate), "dd-MMM-yyyy"),
+            document.customerName,
+            document.section.toUpperCase(),
+            document.invoiceValue,
+            document.placeOfSupply ? formatStateCode(document.placeOfSupply) : "",
+            issuesLabel(document),
+          ]),
+      ],
+    },
+  ];
+}
@@ -0,0 +1,159 @@
+import path from "path";
+import { format } from "date-fns";
+import { Gstr2bInvoice } from "@shared/schema";
+import { fromReturnPeriod } from "@shared/gst-returns";
+import { readExcelWorkbook } from "./excel-handler";
+
+// A GSTR-2B statement as downloaded from the GST portal
+export type Gstr2bStatement = {
+  gstin: string | null; // The recipient's GSTIN; the Excel download doesn't carry it in a fixed place
+  period: string | null; // "YYYY-MM"
+  invoices: Gstr2bInvoice[];
+};
+
+const GSTIN_PATTERN = /^[0-9A-Z]{15}$/;
+
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+// Amounts may come through as text with thousands separators
+function toAmount(value: unknown): number {
+  const amount = parseFloat(String(value ?? "").replace(/,/g, ""));
+  return isNaN(amount) ? 0 : roundToPaise(amount);
+}
+
+// The portal writes dates dd-mm-yyyy; Excel cells may hold a real date instead
+function toIsoDate(value: string): string {
+  const portalDate = value.trim().match(/^(\d{2})[-/](\d{2})[-/](\d{4})$/);
+  if (portalDate) {
+    return `${portalDate[3]}-${portalDate[2]}-${portalDate[1]}`;
+  }
+
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`"${value}" is not an invoice date`);
+  }
+  return format(date, "yyyy-MM-dd");
+}
+
+/**
+ * Reads the B2B invoices of a GSTR-2B JSON download. The portal nests the
+ * statement under "data"; files saved from the API response may not.
+ */
+export function parseGstr2bJson(content: string): Gstr2bStatement {
+  let json: any;
+  try {
+    json = JSON.parse(content);
+  } catch (error) {
+    throw new Error("The file is not valid JSON");
+  }
+
+  const data = json?.data ?? json;
+  if (!data?.docdata || typeof data.docdata !== "object") {
+    throw new Error("The JSON has no docdata section; is it a GSTR-2B download?");
+  }
+
+  const invoices: Gstr2bInvoice[] = [];
+  for (const supplier of data.docdata.b2b ?? []) {
+    for (const invoice of supplier.inv ?? []) {
+      // Tax is given per invoice in 2B; older files only have it per item
+      const items: any[] = invoice.items ?? [];
+      const total = (field: string) => invoice[field] !== undefined
+        ? toAmount(invoice[field])
+        : roundToPaise(items.reduce((sum, item) => sum + toAmount(item[field]), 0));
+
+      invoices.push({
+        supplierGstin: String(supplier.ctin ?? "").toUpperCase(),
+        supplierName: supplier.trdnm || "",
+        invoiceNumber: String(invoice.inum ?? ""),
+        invoiceDate: toIsoDate(String(invoice.dt ?? "")),
+        invoiceValue: toAmount(invoice.val),
+        taxableValue: total("txval"),
+        igst: total("igst"),
+        cgst: total("cgst"),
+        sgst: total("sgst"),
+        itcAvailable: invoice.itcavl !== "N",
+      });
+    }
+  }
+
+  return {
+    gstin: data.gstin ? String(data.gstin).toUpperCase() : null,
+    period: data.rtnprd ? fromReturnPeriod(String(data.rtnprd)) ?? null : null,
+    invoices,
+  };
+}
+
+/**
+ * Reads the B2B sheet of a GSTR-2B Excel download. Its header spans two rows,
+ * group headings such as "Invoice details" above the column names, so each
+ * column is named by the lower row where it has a name and the upper otherwise.
+ */
+export async function parseGstr2bExcel(buffer: Buffer): Promise<Gstr2bStatement> {
+  const sheets = await readExcelWorkbook(buffer);
+  const sheet = sheets.find(sheet => sheet.name.trim().toUpperCase() === "B2B");
+  if (!sheet) {
+    throw new Error("The workbook has no B2B sheet; is it a GSTR-2B download?");
+  }
+
+  const headerIndex = sheet.data.findIndex(row =>
+    row.some(cell => cell?.trim().toLowerCase() === "gstin of supplier"));
+  if (headerIndex === -1) {
+    throw new Error("The B2B sheet has no \"GSTIN of supplier\" column");
+  }
+
+  const groupRow = sheet.data[headerIndex];
+  const nameRow = sheet.data[headerIndex + 1] || [];
+  const headers = Array.from({ length: Math.max(groupRow.length, nameRow.length) }, (_, index) =>
+    (nameRow[index]?.trim() || groupRow[index]?.trim() || "").toLowerCase());
+  const column = (name: string) => {
+    const index = headers.findIndex(header => header.startsWith(name));
+    if (index === -1) {
+      throw new Error(`The B2B sheet has no "${name}" column`);
+    }
+    return index;
+  };
+
+  const columns = {
+    gstin: column("gstin of supplier"),
+    name: column("trade/legal name"),
+    number: column("invoice number"),
+    date: column("invoice date"),
+    value: column("invoice value"),
+    taxable: column("taxable value"),
+    igst: column("integrated tax"),
+    cgst: column("central tax"),
+    sgst: column("state/ut tax"),
+    itc: column("itc availability"),
+  };
+
+  // Rows below the header without a GSTIN are totals or notes
+  const invoices = sheet.data.slice(headerIndex + 2)
+    .filter(row => GSTIN_PATTERN.test(row[columns.gstin]?.trim().toUpperCase() || ""))
+    .map(row => ({
+      supplierGstin: row[columns.gstin].trim().toUpperCase(),
+      supplierName: row[columns.name]?.trim() || "",
+      invoiceNumber: row[columns.number]?.trim() || "",
+      invoiceDate: toIsoDate(row[columns.date] || ""),
+      invoiceValue: toAmount(row[columns.value]),
+      taxableValue: toAmount(row[columns.taxable]),
+      igst: toAmount(row[columns.igst]),
+      cgst: toAmount(row[columns.cgst]),
+      sgst: toAmount(row[columns.sgst]),
+      itcAvailable: row[columns.itc]?.trim().toLowerCase() !== "no",
+    }));
+
+  return { gstin: null, period: null, invoices };
+}
+
+/**
+ * Reads an uploaded GSTR-2B statement, JSON or Excel by its file name
+ * @throws Error describing why the file couldn't be read
+ */
+export async function parseGstr2bFile(fileName: string, buffer: Buffer): Promise<Gstr2bStatement> {
+  if (path.extname(fileName).toLowerCase() === ".json") {
+    return parseGstr2bJson(buffer.toString("utf8"));
+  }
+  return parseGstr2bExcel(buffer);
+}
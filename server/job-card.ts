@@ -0,0 +1,140 @@
+import { format } from "date-fns";
+import { JobCard } from "@shared/schema";
+import { encodeCode128 } from "@shared/barcode";
+import { GARMENT_LABELS, GARMENT_MEASUREMENT_FIELDS, MEASUREMENT_UNIT_LABELS } from "@shared/measurements";
+import { A4_HEIGHT, A4_WIDTH, PdfDocument } from "./pdf-writer";
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+
+/**
+ * Lays out an order's job card on an A4 page: the order and customer, a
+ * barcode of the order number, the measurements, fabric and instructions,
+ * and sign-off lines for each stage of work
+ */
+export function renderJobCardPdf(card: JobCard): Buffer {
+  const { order } = card;
+  const pdf = new PdfDocument();
+  let y = MARGIN + 20;
+
+  // Starts a new page when the next block won't fit on this one
+  const ensureSpace = (height: number) => {
+    if (y + height > A4_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN + 20;
+    }
+  };
+
+  const sectionTitle = (title: string) => {
+    ensureSpace(40);
+    y += 24;
+    pdf.text(title, MARGIN, y, { size: 12, font: "bold" });
+    pdf.line(MARGIN, y + 4, MARGIN + CONTENT_WIDTH, y + 4);
+    y += 18;
+  };
+
+  const paragraph = (text: string | null) => {
+    for (const line of pdf.wrapText(text || "None", CONTENT_WIDTH, 10)) {
+      ensureSpace(14);
+      pdf.text(line, MARGIN, y);
+      y += 14;
+    }
+  };
+
+  // Header with the order number's barcode on the right
+  pdf.text("JOB CARD", MARGIN, y, { size: 20, font: "bold" });
+  pdf.text(card.productionUnitName, MARGIN, y + 18, { size: 11 });
+
+  const barcode = encodeCode128(order.orderNumber);
+  const moduleWidth = 1.2;
+  const barcodeLeft = MARGIN + CONTENT_WIDTH - barcode.width * moduleWidth;
+  for (const bar of barcode.bars) {
+    pdf.rect(barcodeLeft + bar.x * moduleWidth, MARGIN, bar.width * moduleWidth, 40, true);
+  }
+  pdf.text(order.orderNumber, barcodeLeft + (barcode.width * moduleWidth) / 2, MARGIN + 54, {
+    size: 11,
+    font: "bold",
+    align: "center",
+  });
+  y = MARGIN + 80;
+
+  // Order details in two columns
+  const details: [string, string][] = [
+    ["Order No.", order.orderNumber],
+    ["Customer", card.customerName],
+    ["Order Date", format(new Date(order.orderDate), "MMM d, yyyy")],
+    ["Phone", card.customerPhone || "-"],
+    ["Due Date", order.deliveryDate ? format(new Date(order.deliveryDate), "EEE, MMM d, yyyy") : "Not set"],
+    ["Category", order.category],
+  ];
+  const columnWidth = CONTENT_WIDTH / 2;
+  details.forEach(([label, value], index) => {
+    const x = MARGIN + (index % 2) * columnWidth;
+    const rowY = y + Math.floor(index / 2) * 18;
+    pdf.text(`${label}:`, x, rowY, { font: "bold" });
+    pdf.text(value, x + 70, rowY);
+  });
+  y += Math.ceil(details.length / 2) * 18;
+
+  if (order.description) {
+    pdf.text("Description:", MARGIN, y, { font: "bold" });
+    const lines = pdf.wrapText(order.description, CONTENT_WIDTH - 70);
+    lines.forEach((line, index) => pdf.text(line, MARGIN + 70, y + index * 14));
+    y += lines.length * 14;
+  }
+
+  // Measurements in a grid of boxes, three to a row
+  const measurements = card.measurements;
+  sectionTitle(
+    measurements
+      ? `Measurements - ${GARMENT_LABELS[measurements.garmentType]} (${MEASUREMENT_UNIT_LABELS[measurements.unit]})`
+      : "Measurements"
+  );
+  const fields = measurements
+    ? GARMENT_MEASUREMENT_FIELDS[measurements.garmentType].filter(field => measurements.values[field.key] !== undefined)
+    : [];
+  if (fields.length === 0) {
+    paragraph("No measurements recorded");
+  } else {
+    const boxWidth = CONTENT_WIDTH / 3;
+    for (let i = 0; i < fields.length; i += 3) {
+      ensureSpace(28);
+      fields.slice(i, i + 3).forEach((field, column) => {
+        const x = MARGIN + column * boxWidth;
+        pdf.rect(x, y - 12, boxWidth, 26);
+        pdf.text(field.label, x + 6, y + 5);
+        pdf.text(String(measurements!.values[field.key]), x + boxWidth - 6, y + 5, { size: 12, font: "bold", align: "right" });
+      });
+      y += 26;
+    }
+    if (measurements!.profileVersion) {
+      y += 4;
+      pdf.text(`From saved measurements, version ${measurements!.profileVersion}`, MARGIN, y, { size: 8 });
+      y += 10;
+    }
+  }
+
+  sectionTitle("Fabric Details");
+  paragraph(order.fabricDetails);
+
+  sectionTitle("Special Instructions");
+  paragraph(order.specialInstructions);
+
+  // Sign-off for each stage of work
+  ensureSpace(60);
+  y += 40;
+  const stages = ["Cut by", "Stitched by", "Finished by", "Checked by"];
+  const stageWidth = CONTENT_WIDTH / stages.length;
+  stages.forEach((stage, index) => {
+    const x = MARGIN + index * stageWidth;
+    pdf.line(x, y, x + stageWidth - 12, y);
+    pdf.text(stage, x, y + 12, { size: 9 });
+  });
+
+  pdf.text(`Printed ${format(new Date(), "MMM d, yyyy h:mm a")}`, MARGIN + CONTENT_WIDTH, A4_HEIGHT - MARGIN / 2, {
+    size: 8,
+    align: "right",
+  });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,44 @@
+import { scrypt, randomBytes, timingSafeEqual } from "crypto";
+import { promisify } from "util";
+
+const scryptAsync = promisify(scrypt);
+
+// Stored hashes look like "<hex hash>.<hex salt>"
+const PASSWORD_HASH_PATTERN = /^[0-9a-f]{128}\.[0-9a-f]{32}$/;
+
+/**
+ * Hashes a password with a random salt for storage
+ * @param password - Plaintext password
+ * @returns Hash and salt in the stored "<hash>.<salt>" format
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString("hex");
+  const hash = (await scryptAsync(password, salt, 64)) as Buffer;
+  return `${hash.toString("hex")}.${salt}`;
+}
+
+/**
+ * Whether a stored password is a hash produced by hashPassword, as opposed
+ * to a plaintext password saved before passwords were hashed
+ */
+export function isPasswordHash(stored: string): boolean {
+  return PASSWORD_HASH_PATTERN.test(stored);
+}
+
+/**
+ * Checks a supplied password against a stored one in constant time
+ * @param supplied - Password entered by the user
+ * @param stored - Stored hash, or a legacy plaintext password
+ */
+export async function verifyPassword(supplied: string, stored: string): Promise<boolean> {
+  if (!isPasswordHash(stored)) {
+    const suppliedBuffer = Buffer.from(supplied);
+    const storedBuffer = Buffer.from(stored);
+    return suppliedBuffer.length === storedBuffer.length && timingSafeEqual(suppliedBuffer, storedBuffer);
+  }
+
+  const [hashed, salt] = stored.split(".");
+  const hashedBuffer = Buffer.from(hashed, "hex");
+  const suppliedBuffer = (await scryptAsync(supplied, salt, 64)) as Buffer;
+  return timingSafeEqual(hashedBuffer, suppliedBuffer);
+}
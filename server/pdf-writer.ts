@@ -0,0 +1,171 @@
+/**
+ * A small PDF writer for printable documents such as job cards.
+ * It draws text in the standard Helvetica fonts, lines and filled rectangles
+ * on A4 pages; positions are in points measured from the top-left corner.
+ */
+
+export const A4_WIDTH = 595;
+export const A4_HEIGHT = 842;
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOptions = {
+  size?: number;
+  font?: PdfFont;
+  align?: "left" | "right" | "center";
+};
+
+// Widths of printable ASCII (32-126) in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+/**
+ * The standard fonts only cover Latin-1, so the rupee sign is spelled out
+ * and anything else outside it is replaced
+ */
+function toPdfText(text: string): string {
+  return text
+    .replace(/₹\s?/g, "Rs. ")
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, "-")
+    .replace(/[^\x20-\x7e\xa0-\xff]/g, "?");
+}
+
+function escapePdfString(text: string): string {
+  return text.replace(/\\/g, "\\\\").replace(/\(/g, "\\(").replace(/\)/g, "\\)");
+}
+
+function formatNumber(value: number): string {
+  return (Math.round(value * 100) / 100).toString();
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor() {
+    this.addPage();
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get currentPage(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  /**
+   * Width of the text in points when set in the given font and size
+   */
+  measureText(text: string, size = 10, font: PdfFont = "regular"): number {
+    const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+    const units = Array.from(toPdfText(text)).reduce((sum, char) => {
+      const code = char.charCodeAt(0);
+      return sum + (code >= 32 && code <= 126 ? widths[code - 32] : 556);
+    }, 0);
+    return (units * size) / 1000;
+  }
+
+  /**
+   * Breaks text into lines no wider than maxWidth, keeping its own line breaks
+   */
+  wrapText(text: string, maxWidth: number, size = 10, font: PdfFont = "regular"): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.measureText(candidate, size, font) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(line);
+    }
+    return lines;
+  }
+
+  /**
+   * Draws a line of text whose baseline is y points from the top of the page
+   */
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    const size = options.size || 10;
+    const font = options.font || "regular";
+    const width = this.measureText(text, size, font);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    this.currentPage.push(
+      `BT /${font === "bold" ? "F2" : "F1"} ${size} Tf ${formatNumber(left)} ${formatNumber(A4_HEIGHT - y)} Td ` +
+      `(${escapePdfString(toPdfText(text))}) Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, lineWidth = 0.5): void {
+    this.currentPage.push(
+      `${formatNumber(lineWidth)} w ${formatNumber(x1)} ${formatNumber(A4_HEIGHT - y1)} m ` +
+      `${formatNumber(x2)} ${formatNumber(A4_HEIGHT - y2)} l S`
+    );
+  }
+
+  /**
+   * Draws a rectangle whose top-left corner is at (x, y), outlined or filled in black
+   */
+  rect(x: number, y: number, width: number, height: number, fill = false): void {
+    this.currentPage.push(
+      `${formatNumber(x)} ${formatNumber(A4_HEIGHT - y - height)} ${formatNumber(width)} ${formatNumber(height)} re ` +
+      (fill ? "f" : "0.5 w S")
+    );
+  }
+
+  toBuffer(): Buffer {
+    // Objects 1-4 are the catalog, page tree and fonts; each page adds its page and content objects
+    const objects: string[] = [];
+    const pageRefs = this.pages.map((_, index) => `${5 + index * 2} 0 R`);
+
+    objects.push("<< /Type /Catalog /Pages 2 0 R >>");
+    objects.push(`<< /Type /Pages /Kids [${pageRefs.join(" ")}] /Count ${this.pages.length} >>`);
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    objects.push("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+
+    this.pages.forEach((commands, index) => {
+      const content = commands.join("\n");
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${A4_WIDTH} ${A4_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(content, "latin1")} >>\nstream\n${content}\nendstream`);
+    });
+
+    let output = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    objects.forEach((object, index) => {
+      offsets.push(Buffer.byteLength(output, "latin1"));
+      output += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(output, "latin1");
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${offset.toString().padStart(10, "0")} 00000 n \n`).join("");
+    output += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(output, "latin1");
+  }
+}
@@ -0,0 +1,37 @@
+import { AsyncLocalStorage } from "async_hooks";
+
+/**
+ * Information about the API request being handled, available to code
+ * further down (e.g. the storage layer) without passing it through every call
+ */
+export type RequestContext = {
+  username: string | null;
+  role: string | null;
+};
+
+const requestContext = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function with the given request context
+ * @param context - Context for the current request
+ * @param fn - Function to run, usually the next Express middleware
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return requestContext.run(context, fn);
+}
+
+/**
+ * Gets the username of the user making the current request
+ * @returns The username, or null outside a request or when nobody is signed in
+ */
+export function getCurrentUsername(): string | null {
+  return requestContext.getStore()?.username ?? null;
+}
+
+/**
+ * Gets the role of the user making the current request
+ * @returns The role, or null outside a request or when nobody is signed in
+ */
+export function getCurrentRole(): string | null {
+  return requestContext.getStore()?.role ?? null;
+}
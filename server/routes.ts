@@ -1,21 +1,233 @@
 import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
+import { GstRateMismatchError, OverpaymentError } from "./base-storage";
 import { promises as fs } from "fs";
 import multer from "multer";
 import path from "path";
 import { z } from "zod";
+import { format } from "date-fns";
 import {
   insertProductionUnitSchema,
   insertExpenseSchema,
   insertRevenueSchema,
   insertInventoryItemSchema,
   insertCustomerSchema,
+  insertSupplierSchema,
+  insertHsnCodeSchema,
+  insertTaxCategorySchema,
+  insertGstRateVersionSchema,
+  InsertGstRateVersion,
+  TaxCategory,
+  TaxCategoryKind,
+  insertMeasurementProfileSchema,
   insertOrderSchema,
+  insertPaymentSchema,
+  issueInvoiceSchema,
   insertSalaryPaymentSchema,
   insertMaintenanceRecordSchema,
+  userAccountSchema,
+  auditEntities,
+  recycleBinEntities,
+  RecycleBinEntity,
+  Revenue,
 } from "@shared/schema";
 import { getSampleExpensesWithGST, getSampleRevenuesWithGST } from "@shared/gst-utils";
+import { hasPermission, PermissionAction, PermissionResource } from "@shared/permissions";
+import { canCreateOrderWithStatus, canTransitionOrder, isOrderLocked } from "@shared/order-status";
+import { runWithRequestContext, getCurrentRole } from "./request-context";
+import { setupAuth, toPublicUser } from "./auth";
+import { hashPassword } from "./passwords";
+import { renderJobCardPdf } from "./job-card";
+import { renderInvoicePdf } from "./tax-invoice";
+import { buildGstr1Json } from "./gstr1";
+import { parseGstr2bFile, Gstr2bStatement } from "./gstr2b";
+import { isValidTaxPeriod } from "@shared/gst-returns";
+import { findTaxCategory } from "@shared/tax-master";
+
+// Rejects the request unless the signed-in user's role allows the action on the resource
+function requirePermission(resource: PermissionResource, action: PermissionAction) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!hasPermission(getCurrentRole(), resource, action)) {
+      return res.status(403).json({ message: "You do not have permission to perform this action" });
+    }
+    next();
+  };
+}
+
+// Production unit a unit supervisor is limited to, or undefined when the user sees every unit.
+// A supervisor without a unit gets 0, which matches no unit.
+function getUnitScope(req: Request): number | undefined {
+  if (req.user?.role !== "unit_supervisor") {
+    return undefined;
+  }
+  return req.user.productionUnitId || 0;
+}
+
+function isUnitInScope(req: Request, productionUnitId: number | null | undefined): boolean {
+  const scope = getUnitScope(req);
+  return scope === undefined || productionUnitId === scope;
+}
+
+// Drops records of production units outside the user's scope
+function filterToUnitScope<T extends { productionUnitId: number | null }>(req: Request, records: T[]): T[] {
+  return records.filter(record => isUnitInScope(req, record.productionUnitId));
+}
+
+// Whether an existing record belongs to the user's unit, looked up among that unit's records
+async function isRecordInUnitScope(
+  req: Request,
+  id: number,
+  getUnitRecords: (productionUnitId: number) => Promise<{ id: number }[]>,
+): Promise<boolean> {
+  const scope = getUnitScope(req);
+
+  if (scope === undefined) {
+    return true;
+  }
+
+  const records = await getUnitRecords(scope);
+  return records.some(record => record.id === id);
+}
+
+// Checks that a unit supervisor is assigned an existing production unit; returns the problem, if any
+async function checkUnitAssignment(role: string, productionUnitId: number | null | undefined): Promise<string | null> {
+  if (!productionUnitId) {
+    return role === "unit_supervisor" ? "A unit supervisor must be assigned a production unit" : null;
+  }
+  
+  if (!(await storage.getProductionUnit(productionUnitId))) {
+    return "Production unit not found";
+  }
+  
+  return null;
+}
+
+// Fields printed on a tax invoice, which can't change while the record's invoice stands
+const INVOICED_ORDER_FIELDS = ["customerId", "productionUnitId", "totalAmount", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "placeOfSupply"] as const;
+const INVOICED_REVENUE_FIELDS = ["productionUnitId", "amount", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "placeOfSupply"] as const;
+
+// Which of the fields the updates would change; edit forms send unchanged values back too
+function getChangedFields<T extends object>(record: T, updates: Partial<T>, fields: readonly (keyof T)[]): (keyof T)[] {
+  return fields.filter(field => {
+    if (updates[field] === undefined) {
+      return false;
+    }
+    const previous = String(record[field] ?? "").trim();
+    const next = String(updates[field] ?? "").trim();
+    const bothNumeric = previous !== "" && next !== "" && !isNaN(Number(previous)) && !isNaN(Number(next));
+    return bothNumeric ? Number(previous) !== Number(next) : previous !== next;
+  });
+}
+
+// The issued invoice covering a revenue entry; an order's revenue entry shares the order's invoice
+function getRevenueInvoice(revenue: Revenue) {
+  return storage.getIssuedInvoice(revenue.orderId ? { orderId: revenue.orderId } : { revenueId: revenue.id });
+}
+
+// Why a category can't be saved as it stands: names are unique per kind, and the
+// rate comes from an HSN/SAC code in the master or the category's own rate
+async function getTaxCategoryProblem(category: Omit<TaxCategory, "id">, id?: number): Promise<string | undefined> {
+  const master = await storage.getTaxMaster();
+  const existing = findTaxCategory(master, category.kind as TaxCategoryKind, category.name);
+  if (existing && existing.id !== id) {
+    return `There is already a category named ${existing.name} among ${category.kind} categories`;
+  }
+  if (category.hsnCode && !master.hsnCodes.some(hsnCode => hsnCode.code === category.hsnCode)) {
+    return `HSN/SAC code ${category.hsnCode} is not in the master`;
+  }
+  if (!category.hsnCode && category.gstRate === null) {
+    return "Choose an HSN/SAC code or enter a GST rate";
+  }
+  return undefined;
+}
+
+// Why a rate change can't be saved: it must change a code or category in the
+// master, and only one change of each can take effect on a day
+async function getGstRateVersionProblem(version: InsertGstRateVersion): Promise<string | undefined> {
+  const master = await storage.getTaxMaster();
+  if (version.hsnCode && !master.hsnCodes.some(hsnCode => hsnCode.code === version.hsnCode)) {
+    return `HSN/SAC code ${version.hsnCode} is not in the master`;
+  }
+  if (version.categoryId && !master.categories.some(category => category.id === version.categoryId)) {
+    return "The category is not in the master";
+  }
+  
+  const effectiveDay = format(version.effectiveFrom, "yyyy-MM-dd");
+  const clash = master.rateVersions.find(existing =>
+    (version.hsnCode ? existing.hsnCode === version.hsnCode : existing.categoryId === version.categoryId) &&
+    format(new Date(existing.effectiveFrom), "yyyy-MM-dd") === effectiveDay
+  );
+  if (clash) {
+    return `A rate change already takes effect on ${format(version.effectiveFrom, "dd-MMM-yyyy")}`;
+  }
+  return undefined;
+}
+
+// When a rate edited on a code or category takes effect, and the notification behind it
+const rateEditSchema = z.object({
+  effectiveFrom: z.coerce.date(),
+  notification: z.string().trim().nullable().optional(),
+});
+
+// Records a code's or category's edited rate as a rate change from the date in the
+// request, so entries dated earlier keep the rate they were charged. Returns why it
+// can't be recorded, if it can't.
+async function addRateEditVersion(
+  body: unknown,
+  version: Pick<InsertGstRateVersion, "hsnCode" | "categoryId" | "gstRate">
+): Promise<string | undefined> {
+  const validation = rateEditSchema.safeParse(body);
+  if (!validation.success) {
+    return "Choose the date the new rate takes effect";
+  }
+  
+  const rateVersion = { ...version, ...validation.data };
+  const problem = await getGstRateVersionProblem(rateVersion);
+  if (problem) {
+    return problem;
+  }
+  
+  await storage.createGstRateVersion(rateVersion);
+  return undefined;
+}
+
+// Tax period and optional production unit of a GST return, from the query string or a request body
+const gstReturnQuerySchema = z.object({
+  period: z.string().refine(isValidTaxPeriod, { message: "period must be a month such as 2026-04" }),
+  productionUnitId: z.coerce.number().int().positive().optional(),
+});
+
+// Restore and purge operations of every entity with a recycle bin
+const recycleBinOperations: Record<RecycleBinEntity, {
+  restore: (id: number) => Promise<unknown>;
+  purge: (id: number) => Promise<boolean>;
+}> = {
+  expenses: {
+    restore: id => storage.restoreExpense(id),
+    purge: id => storage.purgeExpense(id),
+  },
+  revenues: {
+    restore: id => storage.restoreRevenue(id),
+    purge: id => storage.purgeRevenue(id),
+  },
+  orders: {
+    restore: id => storage.restoreOrder(id),
+    purge: id => storage.purgeOrder(id),
+  },
+  payments: {
+    restore: id => storage.restorePayment(id),
+    purge: id => storage.purgePayment(id),
+  },
+  salary_payments: {
+    restore: id => storage.restoreSalaryPayment(id),
+    purge: id => storage.purgeSalaryPayment(id),
+  },
+  maintenance_records: {
+    restore: id => storage.restoreMaintenanceRecord(id),
+    purge: id => storage.purgeMaintenanceRecord(id),
+  },
+};
 
 // Set up multer for file uploads
 const upload = multer({
@@ -34,10 +246,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     console.error("Error creating directories:", error);
   }
 
+  // Start a fresh install with the default HSN/SAC codes and categories
+  try {
+    await storage.seedTaxMaster();
+  } catch (error) {
+    console.error("Error seeding tax master:", error);
+  }
+
+  // Sessions, login/logout and the signed-in check on every other API route
+  await setupAuth(app);
+
+  // Make the requesting user available to the storage layer, e.g. for the audit log
+  app.use("/api", (req: Request, res: Response, next: NextFunction) => {
+    runWithRequestContext({ username: req.user?.username ?? null, role: req.user?.role ?? null }, next);
+  });
+
   // API Routes
   
   // Dashboard data
-  app.get("/api/dashboard/stats", async (req: Request, res: Response) => {
+  app.get("/api/dashboard/stats", requirePermission("financial_summary", "view"), async (req: Request, res: Response) => {
     try {
       const stats = await storage.getStatSummary();
       res.json(stats);
@@ -47,7 +274,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dashboard/transactions", async (req: Request, res: Response) => {
+  app.get("/api/dashboard/transactions", requirePermission("financial_summary", "view"), async (req: Request, res: Response) => {
     try {
       const limit = parseInt(req.query.limit as string) || 10;
       const transactions = await storage.getRecentTransactions(limit);
@@ -58,7 +285,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dashboard/cost-trends", async (req: Request, res: Response) => {
+  app.get("/api/dashboard/cost-trends", requirePermission("financial_summary", "view"), async (req: Request, res: Response) => {
     try {
       const months = parseInt(req.query.months as string) || 12;
       const trends = await storage.getCostTrends(months);
@@ -69,7 +296,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/dashboard/profit-loss", async (req: Request, res: Response) => {
+  app.get("/api/dashboard/profit-loss", requirePermission("financial_summary", "view"), async (req: Request, res: Response) => {
     try {
       const months = parseInt(req.query.months as string) || 6;
       const data = await storage.getProfitLossData(months);
@@ -81,20 +308,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Production Units
-  app.get("/api/production-units", async (req: Request, res: Response) => {
+  app.get("/api/production-units", requirePermission("production_units", "view"), async (req: Request, res: Response) => {
     try {
       const units = await storage.getAllProductionUnits();
-      res.json(units);
+      res.json(units.filter(unit => isUnitInScope(req, unit.id)));
     } catch (error) {
       console.error("Error fetching production units:", error);
       res.status(500).json({ message: "Failed to fetch production units" });
     }
   });
 
-  app.get("/api/production-units/:id", async (req: Request, res: Response) => {
+  // Reports units whose stored costToDate disagrees with their expense ledger
+  app.get("/api/production-units/cost-check", requirePermission("production_units", "view"), async (req: Request, res: Response) => {
+    try {
+      const discrepancies = await storage.checkProductionUnitCosts();
+      res.json(filterToUnitScope(req, discrepancies));
+    } catch (error) {
+      console.error("Error checking production unit costs:", error);
+      res.status(500).json({ message: "Failed to check production unit costs" });
+    }
+  });
+
+  app.get("/api/production-units/:id", requirePermission("production_units", "view"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const unit = await storage.getProductionUnit(id);
+      const unit = isUnitInScope(req, id) ? await storage.getProductionUnit(id) : undefined;
       
       if (!unit) {
         return res.status(404).json({ message: "Production unit not found" });
@@ -107,7 +345,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/production-units", async (req: Request, res: Response) => {
+  app.post("/api/production-units", requirePermission("production_units", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertProductionUnitSchema.safeParse(req.body);
       
@@ -123,7 +361,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/production-units/:id", async (req: Request, res: Response) => {
+  app.put("/api/production-units/:id", requirePermission("production_units", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertProductionUnitSchema.partial().safeParse(req.body);
@@ -132,7 +370,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid production unit data", errors: validation.error.format() });
       }
       
-      const updatedUnit = await storage.updateProductionUnit(id, validation.data);
+      const updatedUnit = isUnitInScope(req, id) ? await storage.updateProductionUnit(id, validation.data) : undefined;
       
       if (!updatedUnit) {
         return res.status(404).json({ message: "Production unit not found" });
@@ -145,10 +383,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/production-units/:id", async (req: Request, res: Response) => {
+  app.post("/api/production-units/:id/recalculate", requirePermission("production_units", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const unit = isUnitInScope(req, id) ? await storage.recalculateProductionUnitCost(id) : undefined;
+      
+      if (!unit) {
+        return res.status(404).json({ message: "Production unit not found" });
+      }
+      
+      res.json(unit);
+    } catch (error) {
+      console.error("Error recalculating production unit cost:", error);
+      res.status(500).json({ message: "Failed to recalculate production unit cost" });
+    }
+  });
+
+  app.delete("/api/production-units/:id", requirePermission("production_units", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
-      const success = await storage.deleteProductionUnit(id);
+      const success = isUnitInScope(req, id) && await storage.deleteProductionUnit(id);
       
       if (!success) {
         return res.status(404).json({ message: "Production unit not found" });
@@ -162,7 +416,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Expenses
-  app.get("/api/expenses", async (req: Request, res: Response) => {
+  app.get("/api/expenses", requirePermission("expenses", "view"), async (req: Request, res: Response) => {
     try {
       const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
       
@@ -173,14 +427,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expenses = await storage.getAllExpenses();
       }
       
-      res.json(expenses);
+      res.json(filterToUnitScope(req, expenses));
     } catch (error) {
       console.error("Error fetching expenses:", error);
       res.status(500).json({ message: "Failed to fetch expenses" });
     }
   });
 
-  app.post("/api/expenses", async (req: Request, res: Response) => {
+  app.post("/api/expenses", requirePermission("expenses", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertExpenseSchema.safeParse(req.body);
       
@@ -188,15 +442,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid expense data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
       const newExpense = await storage.createExpense(validation.data);
       res.status(201).json(newExpense);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating expense:", error);
       res.status(500).json({ message: "Failed to create expense" });
     }
   });
 
-  app.put("/api/expenses/:id", async (req: Request, res: Response) => {
+  app.put("/api/expenses/:id", requirePermission("expenses", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertExpenseSchema.partial().safeParse(req.body);
@@ -205,6 +466,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid expense data", errors: validation.error.format() });
       }
       
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getExpensesByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
       const updatedExpense = await storage.updateExpense(id, validation.data);
       
       if (!updatedExpense) {
@@ -213,14 +482,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedExpense);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating expense:", error);
       res.status(500).json({ message: "Failed to update expense" });
     }
   });
 
-  app.delete("/api/expenses/:id", async (req: Request, res: Response) => {
+  app.delete("/api/expenses/:id", requirePermission("expenses", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getExpensesByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Expense not found" });
+      }
+      
       const success = await storage.deleteExpense(id);
       
       if (!success) {
@@ -235,7 +512,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Revenues
-  app.get("/api/revenues", async (req: Request, res: Response) => {
+  app.get("/api/revenues", requirePermission("revenues", "view"), async (req: Request, res: Response) => {
     try {
       const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
       
@@ -246,14 +523,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         revenues = await storage.getAllRevenues();
       }
       
-      res.json(revenues);
+      res.json(filterToUnitScope(req, revenues));
     } catch (error) {
       console.error("Error fetching revenues:", error);
       res.status(500).json({ message: "Failed to fetch revenues" });
     }
   });
 
-  app.post("/api/revenues", async (req: Request, res: Response) => {
+  app.post("/api/revenues", requirePermission("revenues", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertRevenueSchema.safeParse(req.body);
       
@@ -261,15 +538,22 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid revenue data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
       const newRevenue = await storage.createRevenue(validation.data);
       res.status(201).json(newRevenue);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating revenue:", error);
       res.status(500).json({ message: "Failed to create revenue" });
     }
   });
 
-  app.put("/api/revenues/:id", async (req: Request, res: Response) => {
+  app.put("/api/revenues/:id", requirePermission("revenues", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertRevenueSchema.partial().safeParse(req.body);
@@ -278,6 +562,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid revenue data", errors: validation.error.format() });
       }
       
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getRevenuesByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Revenue not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
+      const revenue = await storage.getRevenue(id);
+      const invoice = revenue ? await getRevenueInvoice(revenue) : undefined;
+      const lockedChanges = invoice ? getChangedFields(revenue!, validation.data, INVOICED_REVENUE_FIELDS) : [];
+      if (invoice && lockedChanges.length > 0) {
+        return res.status(400).json({
+          message: `This revenue is on invoice ${invoice.invoiceNumber}; cancel the invoice to change ${lockedChanges.join(", ")}`
+        });
+      }
+      
       const updatedRevenue = await storage.updateRevenue(id, validation.data);
       
       if (!updatedRevenue) {
@@ -286,14 +587,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedRevenue);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating revenue:", error);
       res.status(500).json({ message: "Failed to update revenue" });
     }
   });
 
-  app.delete("/api/revenues/:id", async (req: Request, res: Response) => {
+  app.delete("/api/revenues/:id", requirePermission("revenues", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getRevenuesByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Revenue not found" });
+      }
+      
+      const revenue = await storage.getRevenue(id);
+      const invoice = revenue ? await getRevenueInvoice(revenue) : undefined;
+      if (invoice) {
+        return res.status(400).json({ message: `Cancel invoice ${invoice.invoiceNumber} before deleting this revenue` });
+      }
+      
       const success = await storage.deleteRevenue(id);
       
       if (!success) {
@@ -308,7 +623,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Inventory
-  app.get("/api/inventory", async (req: Request, res: Response) => {
+  app.get("/api/inventory", requirePermission("inventory", "view"), async (req: Request, res: Response) => {
     try {
       const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
       
@@ -319,14 +634,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         items = await storage.getAllInventoryItems();
       }
       
-      res.json(items);
+      res.json(filterToUnitScope(req, items));
     } catch (error) {
       console.error("Error fetching inventory items:", error);
       res.status(500).json({ message: "Failed to fetch inventory items" });
     }
   });
 
-  app.post("/api/inventory", async (req: Request, res: Response) => {
+  app.post("/api/inventory", requirePermission("inventory", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertInventoryItemSchema.safeParse(req.body);
       
@@ -334,6 +649,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid inventory item data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
       const newItem = await storage.createInventoryItem(validation.data);
       res.status(201).json(newItem);
     } catch (error) {
@@ -342,7 +661,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/inventory/:id", async (req: Request, res: Response) => {
+  app.put("/api/inventory/:id", requirePermission("inventory", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertInventoryItemSchema.partial().safeParse(req.body);
@@ -351,6 +670,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid inventory item data", errors: validation.error.format() });
       }
       
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getInventoryItemsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
       const updatedItem = await storage.updateInventoryItem(id, validation.data);
       
       if (!updatedItem) {
@@ -364,9 +691,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/inventory/:id", async (req: Request, res: Response) => {
+  app.delete("/api/inventory/:id", requirePermission("inventory", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getInventoryItemsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Inventory item not found" });
+      }
+      
       const success = await storage.deleteInventoryItem(id);
       
       if (!success) {
@@ -381,7 +713,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Reports
-  app.get("/api/reports", async (req: Request, res: Response) => {
+  app.get("/api/reports", requirePermission("reports", "view"), async (req: Request, res: Response) => {
     try {
       const reports = await storage.getAllReports();
       res.json(reports);
@@ -391,10 +723,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/reports/generate", async (req: Request, res: Response) => {
+  app.post("/api/reports/generate", requirePermission("reports", "create"), async (req: Request, res: Response) => {
     try {
       const schema = z.object({
-        type: z.enum(["production_units", "expenses", "revenues", "inventory", "financial_summary"]),
+        type: z.enum(["production_units", "expenses", "revenues", "inventory", "financial_summary", "ar_aging", "gstr3b"]),
+        // Only used by the GST return reports
+        period: gstReturnQuerySchema.shape.period.optional(),
+        productionUnitId: gstReturnQuerySchema.shape.productionUnitId,
       });
       
       const validation = schema.safeParse(req.body);
@@ -403,7 +738,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid report type", errors: validation.error.format() });
       }
       
-      const filePath = await storage.exportToExcel(validation.data.type);
+      // Report types share their names with permission resources, except the GST returns
+      const { type, period, productionUnitId } = validation.data;
+      const resource = type === "gstr3b" ? "gst_returns" : type;
+      if (!hasPermission(getCurrentRole(), resource, "export")) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
+      const filePath = await storage.exportToExcel(type, { period, productionUnitId });
       const filename = path.basename(filePath);
       
       res.json({ 
@@ -417,9 +759,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/reports/download/:filename", async (req: Request, res: Response) => {
+  // Outstanding order balances by customer and age
+  app.get("/api/reports/ar-aging", requirePermission("ar_aging", "view"), async (req: Request, res: Response) => {
+    try {
+      const report = await storage.getArAgingReport(getUnitScope(req));
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching receivables aging:", error);
+      res.status(500).json({ message: "Failed to fetch receivables aging" });
+    }
+  });
+
+  // GSTR-1 working report for a month, with the rows that can't be filed yet flagged
+  app.get("/api/gst/gstr1", requirePermission("gst_returns", "view"), async (req: Request, res: Response) => {
+    try {
+      const validation = gstReturnQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid GSTR-1 period", errors: validation.error.format() });
+      }
+      
+      const { period, productionUnitId } = validation.data;
+      const report = await storage.getGstr1Report(period, productionUnitId ?? getUnitScope(req));
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching GSTR-1:", error);
+      res.status(500).json({ message: "Failed to fetch GSTR-1" });
+    }
+  });
+
+  // GSTR-1 as the GST portal's offline tool JSON; a return is filed per GSTIN
+  app.get("/api/gst/gstr1/json", requirePermission("gst_returns", "export"), async (req: Request, res: Response) => {
+    try {
+      const validation = gstReturnQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid GSTR-1 period", errors: validation.error.format() });
+      }
+      
+      const { period, productionUnitId } = validation.data;
+      const report = await storage.getGstr1Report(period, productionUnitId ?? getUnitScope(req));
+      if (report.sellerGstins.length === 0) {
+        return res.status(400).json({ message: "None of the production units in this return has a GSTIN" });
+      }
+      if (report.sellerGstins.length > 1) {
+        return res.status(400).json({ message: "These production units file under different GSTINs; export one unit at a time" });
+      }
+      
+      const gstin = report.sellerGstins[0];
+      res.setHeader("Content-Type", "application/json");
+      res.setHeader("Content-Disposition", `attachment; filename="GSTR1_${gstin}_${period}.json"`);
+      res.send(JSON.stringify(buildGstr1Json(report, gstin), null, 2));
+    } catch (error) {
+      console.error("Error exporting GSTR-1 JSON:", error);
+      res.status(500).json({ message: "Failed to export GSTR-1 JSON" });
+    }
+  });
+
+  // GSTR-1 as an Excel workbook saved with the other reports
+  app.post("/api/gst/gstr1/excel", requirePermission("gst_returns", "export"), async (req: Request, res: Response) => {
+    try {
+      const validation = gstReturnQuerySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid GSTR-1 period", errors: validation.error.format() });
+      }
+      
+      const { period, productionUnitId } = validation.data;
+      const filePath = await storage.exportGstr1ToExcel(period, productionUnitId ?? getUnitScope(req));
+      const filename = path.basename(filePath);
+      
+      res.json({ 
+        message: "GSTR-1 generated successfully", 
+        filepath: filePath,
+        downloadUrl: `/api/reports/download/${filename}`
+      });
+    } catch (error) {
+      console.error("Error exporting GSTR-1 Excel:", error);
+      res.status(500).json({ message: "Failed to export GSTR-1 Excel" });
+    }
+  });
+
+  // GSTR-3B working for a month: output tax, input tax credit and net payable by rate slab
+  app.get("/api/gst/gstr3b", requirePermission("gst_returns", "view"), async (req: Request, res: Response) => {
+    try {
+      const validation = gstReturnQuerySchema.safeParse(req.query);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid GSTR-3B period", errors: validation.error.format() });
+      }
+      
+      const { period, productionUnitId } = validation.data;
+      const report = await storage.getGstr3bReport(period, productionUnitId ?? getUnitScope(req));
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching GSTR-3B:", error);
+      res.status(500).json({ message: "Failed to fetch GSTR-3B" });
+    }
+  });
+
+  // Reconciles an uploaded GSTR-2B (the portal's JSON or Excel download) against the books
+  app.post("/api/gst/gstr2b/reconcile", requirePermission("gst_returns", "view"), upload.single("file"), async (req: Request & { file?: Express.Multer.File }, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ message: "No file uploaded" });
+      }
+      
+      const validation = gstReturnQuerySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid GSTR-2B period", errors: validation.error.format() });
+      }
+      
+      let statement: Gstr2bStatement;
+      try {
+        statement = await parseGstr2bFile(req.file.originalname, req.file.buffer);
+      } catch (error) {
+        return res.status(400).json({ message: `Could not read the GSTR-2B: ${error instanceof Error ? error.message : String(error)}` });
+      }
+      
+      const { period, productionUnitId } = validation.data;
+      if (statement.period && statement.period !== period) {
+        return res.status(400).json({ message: `This GSTR-2B is for ${statement.period}, not ${period}` });
+      }
+      
+      // A 2B is issued per GSTIN, so it can only be checked against a unit registered under it
+      if (statement.gstin && productionUnitId !== undefined) {
+        const unit = await storage.getProductionUnit(productionUnitId);
+        if (unit?.gstin && unit.gstin !== statement.gstin) {
+          return res.status(400).json({ message: `This GSTR-2B is for GSTIN ${statement.gstin}, not ${unit.name}'s ${unit.gstin}` });
+        }
+      }
+      
+      const reconciliation = await storage.reconcileGstr2b(period, statement.invoices, productionUnitId ?? getUnitScope(req));
+      res.json(reconciliation);
+    } catch (error) {
+      console.error("Error reconciling GSTR-2B:", error);
+      res.status(500).json({ message: "Failed to reconcile GSTR-2B" });
+    }
+  });
+
+  app.get("/api/reports/download/:filename", requirePermission("reports", "view"), async (req: Request, res: Response) => {
     try {
       const filename = req.params.filename;
+      
+      // Only files directly in the reports directory, so "../" can't reach the rest of the data
+      if (filename !== path.basename(filename) || filename.startsWith(".")) {
+        return res.status(400).json({ message: "Invalid report file name" });
+      }
+      
       const filePath = path.join(process.cwd(), "data", "reports", filename);
       
       // Check if file exists
@@ -436,7 +919,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/reports/:id", async (req: Request, res: Response) => {
+  app.delete("/api/reports/:id", requirePermission("reports", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteReport(id);
@@ -452,8 +935,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Sample GST Data
-  app.post("/api/sample-gst-data", async (req: Request, res: Response) => {
+  // Sample GST Data, limited to roles that can add production units because it may create one
+  app.post("/api/sample-gst-data", requirePermission("production_units", "create"), async (req: Request, res: Response) => {
     try {
       // Check if a production unit exists
       const units = await storage.getAllProductionUnits();
@@ -524,6 +1007,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid import type", errors: validation.error.format() });
       }
       
+      // Imported rows may belong to any unit, so unit-scoped users can't import
+      if (!hasPermission(getCurrentRole(), validation.data.type, "create") || getUnitScope(req) !== undefined) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
       const importCount = await storage.importFromExcel(req.file.buffer, validation.data.type);
       res.json({ message: `Successfully imported ${importCount} records` });
     } catch (error) {
@@ -540,6 +1028,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid export type" });
       }
       
+      if (!hasPermission(getCurrentRole(), type as PermissionResource, "export")) {
+        return res.status(403).json({ message: "You do not have permission to perform this action" });
+      }
+      
       const filePath = await storage.exportToExcel(type);
       
       // Create report entry in database
@@ -563,7 +1055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
   
   // Report routes
-  app.get("/api/reports", async (req: Request, res: Response) => {
+  app.get("/api/reports", requirePermission("reports", "view"), async (req: Request, res: Response) => {
     try {
       const reports = await storage.getAllReports();
       res.json(reports);
@@ -573,7 +1065,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.get("/api/reports/:id/download", async (req: Request, res: Response) => {
+  app.get("/api/reports/:id/download", requirePermission("reports", "view"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const reports = await storage.getAllReports();
@@ -603,7 +1095,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  app.delete("/api/reports/:id", async (req: Request, res: Response) => {
+  app.delete("/api/reports/:id", requirePermission("reports", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteReport(id);
@@ -620,7 +1112,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Customer routes
-  app.get("/api/customers", async (req: Request, res: Response) => {
+  app.get("/api/customers", requirePermission("customers", "view"), async (req: Request, res: Response) => {
     try {
       const customers = await storage.getAllCustomers();
       res.json(customers);
@@ -630,7 +1122,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get("/api/customers/:id", async (req: Request, res: Response) => {
+  app.get("/api/customers/:id", requirePermission("customers", "view"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const customer = await storage.getCustomer(id);
@@ -646,7 +1138,81 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/customers", async (req: Request, res: Response) => {
+  app.get("/api/customers/:id/ledger", requirePermission("customers", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Unit supervisors only see what the customer ordered from their unit
+      const ledger = await storage.getCustomerLedger(id, getUnitScope(req));
+      
+      if (!ledger) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching customer ledger:", error);
+      res.status(500).json({ message: "Failed to fetch customer ledger" });
+    }
+  });
+
+  app.get("/api/customers/:id/measurements", requirePermission("customers", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomer(id);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const profiles = await storage.getMeasurementProfiles(id);
+      res.json(profiles);
+    } catch (error) {
+      console.error("Error fetching measurement profiles:", error);
+      res.status(500).json({ message: "Failed to fetch measurement profiles" });
+    }
+  });
+
+  // Records a visit's measurements as the next version for the garment type
+  app.post("/api/customers/:id/measurements", requirePermission("customers", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const customer = await storage.getCustomer(id);
+      
+      if (!customer) {
+        return res.status(404).json({ message: "Customer not found" });
+      }
+      
+      const validation = insertMeasurementProfileSchema.safeParse({ ...req.body, customerId: id });
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid measurement data", errors: validation.error.format() });
+      }
+      
+      const newProfile = await storage.createMeasurementProfile(validation.data);
+      res.status(201).json(newProfile);
+    } catch (error) {
+      console.error("Error creating measurement profile:", error);
+      res.status(500).json({ message: "Failed to create measurement profile" });
+    }
+  });
+
+  app.delete("/api/measurement-profiles/:id", requirePermission("customers", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteMeasurementProfile(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Measurement profile not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting measurement profile:", error);
+      res.status(500).json({ message: "Failed to delete measurement profile" });
+    }
+  });
+
+  app.post("/api/customers", requirePermission("customers", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertCustomerSchema.safeParse(req.body);
       
@@ -662,7 +1228,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/customers/:id", async (req: Request, res: Response) => {
+  app.put("/api/customers/:id", requirePermission("customers", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertCustomerSchema.partial().safeParse(req.body);
@@ -684,13 +1250,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/customers/:id", async (req: Request, res: Response) => {
+  app.delete("/api/customers/:id", requirePermission("customers", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const success = await storage.deleteCustomer(id);
       
       if (!success) {
-        return res.status(404).json({ message: "Customer not found or has associated orders" });
+        return res.status(404).json({ message: "Customer not found or has associated orders (including deleted ones)" });
       }
       
       res.status(204).end();
@@ -700,34 +1266,364 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Order routes
-  app.get("/api/orders", async (req: Request, res: Response) => {
+  // Supplier routes
+  app.get("/api/suppliers", requirePermission("suppliers", "view"), async (req: Request, res: Response) => {
     try {
-      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
-      const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
-      
-      let orders;
-      if (customerId) {
-        orders = await storage.getOrdersByCustomer(customerId);
-      } else if (productionUnitId) {
-        orders = await storage.getOrdersByProductionUnit(productionUnitId);
+      const suppliers = await storage.getAllSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  // Purchases, GST paid and payables of every supplier
+  app.get("/api/suppliers/balances", requirePermission("suppliers", "view"), async (req: Request, res: Response) => {
+    try {
+      const balances = await storage.getSupplierBalances(getUnitScope(req));
+      res.json(balances);
+    } catch (error) {
+      console.error("Error fetching supplier balances:", error);
+      res.status(500).json({ message: "Failed to fetch supplier balances" });
+    }
+  });
+
+  app.get("/api/suppliers/:id", requirePermission("suppliers", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const supplier = await storage.getSupplier(id);
+      
+      if (!supplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      
+      res.json(supplier);
+    } catch (error) {
+      console.error("Error fetching supplier:", error);
+      res.status(500).json({ message: "Failed to fetch supplier" });
+    }
+  });
+
+  app.get("/api/suppliers/:id/ledger", requirePermission("suppliers", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Unit supervisors only see what their unit bought from the supplier
+      const ledger = await storage.getSupplierLedger(id, getUnitScope(req));
+      
+      if (!ledger) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      
+      res.json(ledger);
+    } catch (error) {
+      console.error("Error fetching supplier ledger:", error);
+      res.status(500).json({ message: "Failed to fetch supplier ledger" });
+    }
+  });
+
+  app.post("/api/suppliers", requirePermission("suppliers", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertSupplierSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid supplier data", errors: validation.error.format() });
+      }
+      
+      const newSupplier = await storage.createSupplier(validation.data);
+      res.status(201).json(newSupplier);
+    } catch (error) {
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.put("/api/suppliers/:id", requirePermission("suppliers", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertSupplierSchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid supplier data", errors: validation.error.format() });
+      }
+      
+      const updatedSupplier = await storage.updateSupplier(id, validation.data);
+      
+      if (!updatedSupplier) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+      
+      res.json(updatedSupplier);
+    } catch (error) {
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  app.delete("/api/suppliers/:id", requirePermission("suppliers", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteSupplier(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Supplier not found or has associated expenses (including deleted ones)" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting supplier:", error);
+      res.status(500).json({ message: "Failed to delete supplier" });
+    }
+  });
+
+  // Tax master routes
+  app.get("/api/tax-master", requirePermission("tax_master", "view"), async (req: Request, res: Response) => {
+    try {
+      const master = await storage.getTaxMaster();
+      res.json(master);
+    } catch (error) {
+      console.error("Error fetching tax master:", error);
+      res.status(500).json({ message: "Failed to fetch tax master" });
+    }
+  });
+
+  app.post("/api/tax-master/hsn-codes", requirePermission("tax_master", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertHsnCodeSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid HSN/SAC code", errors: validation.error.format() });
+      }
+      
+      const hsnCodes = await storage.getAllHsnCodes();
+      if (hsnCodes.some(hsnCode => hsnCode.code === validation.data.code)) {
+        return res.status(400).json({ message: `HSN/SAC code ${validation.data.code} is already in the master` });
+      }
+      
+      const newHsnCode = await storage.createHsnCode(validation.data);
+      res.status(201).json(newHsnCode);
+    } catch (error) {
+      console.error("Error creating HSN/SAC code:", error);
+      res.status(500).json({ message: "Failed to create HSN/SAC code" });
+    }
+  });
+
+  // The code itself can't change, since categories refer to it; a new rate is
+  // recorded as a rate change from the effectiveFrom date sent with it
+  app.put("/api/tax-master/hsn-codes/:id", requirePermission("tax_master", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertHsnCodeSchema.omit({ code: true }).partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid HSN/SAC code", errors: validation.error.format() });
+      }
+      
+      const hsnCode = await storage.getHsnCode(id);
+      if (!hsnCode) {
+        return res.status(404).json({ message: "HSN/SAC code not found" });
+      }
+      
+      const { gstRate, ...changes } = validation.data;
+      if (gstRate !== undefined && parseFloat(gstRate) !== parseFloat(hsnCode.gstRate)) {
+        const problem = await addRateEditVersion(req.body, { hsnCode: hsnCode.code, categoryId: null, gstRate });
+        if (problem) {
+          return res.status(400).json({ message: problem });
+        }
+      }
+      
+      const updatedHsnCode = await storage.updateHsnCode(id, changes);
+      
+      if (!updatedHsnCode) {
+        return res.status(404).json({ message: "HSN/SAC code not found" });
+      }
+      
+      res.json(updatedHsnCode);
+    } catch (error) {
+      console.error("Error updating HSN/SAC code:", error);
+      res.status(500).json({ message: "Failed to update HSN/SAC code" });
+    }
+  });
+
+  app.delete("/api/tax-master/hsn-codes/:id", requirePermission("tax_master", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteHsnCode(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "HSN/SAC code not found or used by a category" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting HSN/SAC code:", error);
+      res.status(500).json({ message: "Failed to delete HSN/SAC code" });
+    }
+  });
+
+  app.post("/api/tax-master/categories", requirePermission("tax_master", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertTaxCategorySchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid category", errors: validation.error.format() });
+      }
+      
+      const category = { ...validation.data, hsnCode: validation.data.hsnCode ?? null, gstRate: validation.data.gstRate ?? null };
+      const problem = await getTaxCategoryProblem(category);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const newCategory = await storage.createTaxCategory(category);
+      res.status(201).json(newCategory);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(500).json({ message: "Failed to create category" });
+    }
+  });
+
+  // As with codes, a new rate is recorded as a rate change from the effectiveFrom date sent with it
+  app.put("/api/tax-master/categories/:id", requirePermission("tax_master", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertTaxCategorySchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid category", errors: validation.error.format() });
+      }
+      
+      const category = await storage.getTaxCategory(id);
+      if (!category) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      const problem = await getTaxCategoryProblem({ ...category, ...validation.data }, id);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const { gstRate, ...changes } = validation.data;
+      if (gstRate === null && category.gstRate !== null) {
+        return res.status(400).json({ message: "Entries were charged this category's own rate; add a rate change instead of removing it" });
+      }
+      if (gstRate !== undefined && gstRate !== null && (category.gstRate === null || parseFloat(gstRate) !== parseFloat(category.gstRate))) {
+        const versionProblem = await addRateEditVersion(req.body, { hsnCode: null, categoryId: id, gstRate });
+        if (versionProblem) {
+          return res.status(400).json({ message: versionProblem });
+        }
+      }
+      
+      const updatedCategory = await storage.updateTaxCategory(id, changes);
+      res.json(updatedCategory);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(500).json({ message: "Failed to update category" });
+    }
+  });
+
+  app.delete("/api/tax-master/categories/:id", requirePermission("tax_master", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteTaxCategory(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Category not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ message: "Failed to delete category" });
+    }
+  });
+
+  // A rate change applies to entries dated from its effectiveFrom on, including backdated ones
+  // saved later; entries dated earlier are charged the previous rate. Saved entries keep their rate.
+  app.post("/api/tax-master/rate-versions", requirePermission("tax_master", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = insertGstRateVersionSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid rate change", errors: validation.error.format() });
+      }
+      
+      const problem = await getGstRateVersionProblem(validation.data);
+      if (problem) {
+        return res.status(400).json({ message: problem });
+      }
+      
+      const newVersion = await storage.createGstRateVersion(validation.data);
+      res.status(201).json(newVersion);
+    } catch (error) {
+      console.error("Error creating rate change:", error);
+      res.status(500).json({ message: "Failed to create rate change" });
+    }
+  });
+
+  app.delete("/api/tax-master/rate-versions/:id", requirePermission("tax_master", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const success = await storage.deleteGstRateVersion(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Rate change not found or already applied to a record" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting rate change:", error);
+      res.status(500).json({ message: "Failed to delete rate change" });
+    }
+  });
+
+  // Order routes
+  app.get("/api/orders", requirePermission("orders", "view"), async (req: Request, res: Response) => {
+    try {
+      const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+      const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
+      
+      let orders;
+      if (customerId) {
+        orders = await storage.getOrdersByCustomer(customerId);
+      } else if (productionUnitId) {
+        orders = await storage.getOrdersByProductionUnit(productionUnitId);
       } else {
         orders = await storage.getAllOrders();
       }
       
-      res.json(orders);
+      res.json(filterToUnitScope(req, orders));
     } catch (error) {
       console.error("Error fetching orders:", error);
       res.status(500).json({ message: "Failed to fetch orders" });
     }
   });
 
-  app.get("/api/orders/:id", async (req: Request, res: Response) => {
+  // Open orders due within a window such as ?within=7d, plus any already past due.
+  // Registered before /api/orders/:id so "due" isn't read as an order id.
+  app.get("/api/orders/due", requirePermission("orders", "view"), async (req: Request, res: Response) => {
+    try {
+      const within = typeof req.query.within === "string" ? req.query.within : "7d";
+      const match = within.match(/^(\d+)d?$/);
+      const withinDays = match ? parseInt(match[1]) : NaN;
+      
+      if (isNaN(withinDays) || withinDays > 366) {
+        return res.status(400).json({ message: "within must be a number of days up to 366, such as 7d" });
+      }
+      
+      const report = await storage.getDueOrders(withinDays, getUnitScope(req));
+      res.json(report);
+    } catch (error) {
+      console.error("Error fetching due orders:", error);
+      res.status(500).json({ message: "Failed to fetch due orders" });
+    }
+  });
+
+  app.get("/api/orders/:id", requirePermission("orders", "view"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const order = await storage.getOrder(id);
       
-      if (!order) {
+      if (!order || !isUnitInScope(req, order.productionUnitId)) {
         return res.status(404).json({ message: "Order not found" });
       }
       
@@ -738,7 +1634,60 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post("/api/orders", async (req: Request, res: Response) => {
+  app.get("/api/orders/:id/history", requirePermission("orders", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrder(id);
+      
+      if (!order || !isUnitInScope(req, order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const history = await storage.getOrderStatusHistory(id);
+      res.json(history);
+    } catch (error) {
+      console.error("Error fetching order history:", error);
+      res.status(500).json({ message: "Failed to fetch order history" });
+    }
+  });
+
+  app.get("/api/orders/:id/job-card", requirePermission("orders", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const jobCard = await storage.getJobCard(id);
+      
+      if (!jobCard || !isUnitInScope(req, jobCard.order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      res.json(jobCard);
+    } catch (error) {
+      console.error("Error fetching job card:", error);
+      res.status(500).json({ message: "Failed to fetch job card" });
+    }
+  });
+
+  app.get("/api/orders/:id/job-card/pdf", requirePermission("orders", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const jobCard = await storage.getJobCard(id);
+      
+      if (!jobCard || !isUnitInScope(req, jobCard.order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const pdf = renderJobCardPdf(jobCard);
+      const filename = `job-card-${jobCard.order.orderNumber.replace(/[^A-Za-z0-9-]/g, "_")}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating job card PDF:", error);
+      res.status(500).json({ message: "Failed to generate job card PDF" });
+    }
+  });
+
+  app.post("/api/orders", requirePermission("orders", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertOrderSchema.safeParse(req.body);
       
@@ -746,15 +1695,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid order data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
+      const { status } = validation.data;
+      if (status !== undefined && !canCreateOrderWithStatus(status)) {
+        return res.status(400).json({ message: `A new order can't start as ${status}` });
+      }
+      
       const newOrder = await storage.createOrder(validation.data);
       res.status(201).json(newOrder);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error creating order:", error);
       res.status(500).json({ message: "Failed to create order" });
     }
   });
 
-  app.put("/api/orders/:id", async (req: Request, res: Response) => {
+  app.put("/api/orders/:id", requirePermission("orders", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertOrderSchema.partial().safeParse(req.body);
@@ -763,6 +1724,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid order data", errors: validation.error.format() });
       }
       
+      const order = await storage.getOrder(id);
+      
+      if (!order || !isUnitInScope(req, order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
+      if (isOrderLocked(order.status)) {
+        return res.status(400).json({ message: "Cancelled orders can't be edited" });
+      }
+      
+      const { status } = validation.data;
+      if (status !== undefined && status !== order.status && !canTransitionOrder(order.status, status)) {
+        return res.status(400).json({ message: `An order can't move from ${order.status} to ${status}` });
+      }
+      
+      const invoice = await storage.getIssuedInvoice({ orderId: id });
+      if (invoice && status === "cancelled") {
+        return res.status(400).json({ message: `Cancel invoice ${invoice.invoiceNumber} before cancelling the order` });
+      }
+      const lockedChanges = invoice ? getChangedFields(order, validation.data, INVOICED_ORDER_FIELDS) : [];
+      if (invoice && lockedChanges.length > 0) {
+        return res.status(400).json({
+          message: `This order is on invoice ${invoice.invoiceNumber}; cancel the invoice to change ${lockedChanges.join(", ")}`
+        });
+      }
+      
       const updatedOrder = await storage.updateOrder(id, validation.data);
       
       if (!updatedOrder) {
@@ -771,14 +1762,27 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       res.json(updatedOrder);
     } catch (error) {
+      if (error instanceof GstRateMismatchError) {
+        return res.status(400).json({ message: error.message });
+      }
       console.error("Error updating order:", error);
       res.status(500).json({ message: "Failed to update order" });
     }
   });
 
-  app.delete("/api/orders/:id", async (req: Request, res: Response) => {
+  app.delete("/api/orders/:id", requirePermission("orders", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getOrdersByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const invoice = await storage.getIssuedInvoice({ orderId: id });
+      if (invoice) {
+        return res.status(400).json({ message: `Cancel invoice ${invoice.invoiceNumber} before deleting the order` });
+      }
+      
       const success = await storage.deleteOrder(id);
       
       if (!success) {
@@ -792,8 +1796,224 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Payment routes (receipts against an order)
+  app.get("/api/orders/:id/payments", requirePermission("payments", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const order = await storage.getOrder(id);
+      
+      if (!order || !isUnitInScope(req, order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      const payments = await storage.getPaymentsByOrder(id);
+      res.json(payments);
+    } catch (error) {
+      console.error("Error fetching payments:", error);
+      res.status(500).json({ message: "Failed to fetch payments" });
+    }
+  });
+
+  app.post("/api/orders/:id/payments", requirePermission("payments", "create"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = insertPaymentSchema.safeParse({ ...req.body, orderId: id });
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid payment data", errors: validation.error.format() });
+      }
+      
+      const order = await storage.getOrder(id);
+      
+      if (!order || !isUnitInScope(req, order.productionUnitId)) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      
+      if (isOrderLocked(order.status)) {
+        return res.status(400).json({ message: "Cancelled orders can't take payments" });
+      }
+      
+      const newPayment = await storage.createPayment(validation.data);
+      res.status(201).json(newPayment);
+    } catch (error) {
+      if (error instanceof OverpaymentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error creating payment:", error);
+      res.status(500).json({ message: "Failed to record payment" });
+    }
+  });
+
+  app.delete("/api/payments/:id", requirePermission("payments", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const payment = (await storage.getAllPayments()).find(payment => payment.id === id);
+      const order = payment ? await storage.getOrder(payment.orderId) : undefined;
+      
+      if (!payment || !order || !isUnitInScope(req, order.productionUnitId)) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      const success = await storage.deletePayment(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Payment not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deleting payment:", error);
+      res.status(500).json({ message: "Failed to delete payment" });
+    }
+  });
+
+  // Tax invoice routes
+  app.get("/api/invoices", requirePermission("invoices", "view"), async (req: Request, res: Response) => {
+    try {
+      const invoices = await storage.getAllInvoices();
+      res.json(filterToUnitScope(req, invoices));
+    } catch (error) {
+      console.error("Error fetching invoices:", error);
+      res.status(500).json({ message: "Failed to fetch invoices" });
+    }
+  });
+
+  app.get("/api/invoices/:id", requirePermission("invoices", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+      
+      if (!invoice || !isUnitInScope(req, invoice.productionUnitId)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      res.json(invoice);
+    } catch (error) {
+      console.error("Error fetching invoice:", error);
+      res.status(500).json({ message: "Failed to fetch invoice" });
+    }
+  });
+
+  app.get("/api/invoices/:id/pdf", requirePermission("invoices", "view"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const invoice = await storage.getInvoice(id);
+      
+      if (!invoice || !isUnitInScope(req, invoice.productionUnitId)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      const pdf = renderInvoicePdf(invoice);
+      const filename = `invoice-${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, "_")}.pdf`;
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating invoice PDF:", error);
+      res.status(500).json({ message: "Failed to generate invoice PDF" });
+    }
+  });
+
+  // Issues the next invoice number of the unit's series for an order or a revenue entry
+  app.post("/api/invoices", requirePermission("invoices", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = issueInvoiceSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid invoice data", errors: validation.error.format() });
+      }
+      
+      const { orderId, revenueId } = validation.data;
+      let productionUnitId: number;
+      let amount: string;
+      
+      if (orderId) {
+        const order = await storage.getOrder(orderId);
+        
+        if (!order || !isUnitInScope(req, order.productionUnitId)) {
+          return res.status(404).json({ message: "Order not found" });
+        }
+        
+        if (isOrderLocked(order.status)) {
+          return res.status(400).json({ message: "Cancelled orders can't be invoiced" });
+        }
+        
+        productionUnitId = order.productionUnitId;
+        amount = order.totalAmount;
+      } else {
+        const revenue = await storage.getRevenue(revenueId!);
+        
+        if (!revenue || !isUnitInScope(req, revenue.productionUnitId)) {
+          return res.status(404).json({ message: "Revenue not found" });
+        }
+        
+        if (revenue.orderId) {
+          return res.status(400).json({ message: "This revenue was booked by an order; invoice the order instead" });
+        }
+        
+        productionUnitId = revenue.productionUnitId;
+        amount = revenue.amount;
+      }
+      
+      if (!(parseFloat(amount) > 0)) {
+        return res.status(400).json({ message: "Only records with an amount can be invoiced" });
+      }
+      
+      const existingInvoice = await storage.getIssuedInvoice({ orderId, revenueId });
+      if (existingInvoice) {
+        return res.status(400).json({ message: `Already invoiced as ${existingInvoice.invoiceNumber}` });
+      }
+      
+      const unit = await storage.getProductionUnit(productionUnitId);
+      if (!unit?.gstin) {
+        return res.status(400).json({ message: "Add the production unit's GSTIN before issuing invoices" });
+      }
+      
+      const invoice = await storage.issueInvoice(validation.data);
+      res.status(201).json(invoice);
+    } catch (error) {
+      console.error("Error issuing invoice:", error);
+      res.status(500).json({ message: "Failed to issue invoice" });
+    }
+  });
+
+  // Invoices are cancelled rather than deleted so their numbers stay in the series
+  app.post("/api/invoices/:id/cancel", requirePermission("invoices", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      const validation = z.object({
+        reason: z.string().trim().min(1, "Give a reason for cancelling the invoice"),
+      }).safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid cancellation", errors: validation.error.format() });
+      }
+      
+      const invoice = await storage.getInvoice(id);
+      
+      if (!invoice || !isUnitInScope(req, invoice.productionUnitId)) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      if (invoice.status === "cancelled") {
+        return res.status(400).json({ message: "This invoice is already cancelled" });
+      }
+      
+      const cancelledInvoice = await storage.cancelInvoice(id, validation.data.reason);
+      
+      if (!cancelledInvoice) {
+        return res.status(404).json({ message: "Invoice not found" });
+      }
+      
+      res.json(cancelledInvoice);
+    } catch (error) {
+      console.error("Error cancelling invoice:", error);
+      res.status(500).json({ message: "Failed to cancel invoice" });
+    }
+  });
+
   // Salary Payment routes
-  app.get("/api/salary-payments", async (req: Request, res: Response) => {
+  app.get("/api/salary-payments", requirePermission("salary_payments", "view"), async (req: Request, res: Response) => {
     try {
       const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
       const month = req.query.month as string;
@@ -808,14 +2028,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         payments = await storage.getAllSalaryPayments();
       }
       
-      res.json(payments);
+      res.json(filterToUnitScope(req, payments));
     } catch (error) {
       console.error("Error fetching salary payments:", error);
       res.status(500).json({ message: "Failed to fetch salary payments" });
     }
   });
 
-  app.post("/api/salary-payments", async (req: Request, res: Response) => {
+  app.post("/api/salary-payments", requirePermission("salary_payments", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertSalaryPaymentSchema.safeParse(req.body);
       
@@ -823,6 +2043,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid salary payment data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
       const newPayment = await storage.createSalaryPayment(validation.data);
       res.status(201).json(newPayment);
     } catch (error) {
@@ -831,7 +2055,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/salary-payments/:id", async (req: Request, res: Response) => {
+  app.put("/api/salary-payments/:id", requirePermission("salary_payments", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertSalaryPaymentSchema.partial().safeParse(req.body);
@@ -840,6 +2064,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid salary payment data", errors: validation.error.format() });
       }
       
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getSalaryPaymentsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Salary payment not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
       const updatedPayment = await storage.updateSalaryPayment(id, validation.data);
       
       if (!updatedPayment) {
@@ -853,9 +2085,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/salary-payments/:id", async (req: Request, res: Response) => {
+  app.delete("/api/salary-payments/:id", requirePermission("salary_payments", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getSalaryPaymentsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Salary payment not found" });
+      }
+      
       const success = await storage.deleteSalaryPayment(id);
       
       if (!success) {
@@ -870,7 +2107,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Maintenance Record routes
-  app.get("/api/maintenance-records", async (req: Request, res: Response) => {
+  app.get("/api/maintenance-records", requirePermission("maintenance_records", "view"), async (req: Request, res: Response) => {
     try {
       const productionUnitId = req.query.productionUnitId ? parseInt(req.query.productionUnitId as string) : undefined;
       
@@ -881,14 +2118,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         records = await storage.getAllMaintenanceRecords();
       }
       
-      res.json(records);
+      res.json(filterToUnitScope(req, records));
     } catch (error) {
       console.error("Error fetching maintenance records:", error);
       res.status(500).json({ message: "Failed to fetch maintenance records" });
     }
   });
 
-  app.post("/api/maintenance-records", async (req: Request, res: Response) => {
+  app.post("/api/maintenance-records", requirePermission("maintenance_records", "create"), async (req: Request, res: Response) => {
     try {
       const validation = insertMaintenanceRecordSchema.safeParse(req.body);
       
@@ -896,6 +2133,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid maintenance record data", errors: validation.error.format() });
       }
       
+      if (!isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only add records for your own production unit" });
+      }
+      
       const newRecord = await storage.createMaintenanceRecord(validation.data);
       res.status(201).json(newRecord);
     } catch (error) {
@@ -904,7 +2145,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put("/api/maintenance-records/:id", async (req: Request, res: Response) => {
+  app.put("/api/maintenance-records/:id", requirePermission("maintenance_records", "update"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
       const validation = insertMaintenanceRecordSchema.partial().safeParse(req.body);
@@ -913,6 +2154,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Invalid maintenance record data", errors: validation.error.format() });
       }
       
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getMaintenanceRecordsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+      
+      if (validation.data.productionUnitId !== undefined && !isUnitInScope(req, validation.data.productionUnitId)) {
+        return res.status(403).json({ message: "You can only move records to your own production unit" });
+      }
+      
       const updatedRecord = await storage.updateMaintenanceRecord(id, validation.data);
       
       if (!updatedRecord) {
@@ -926,9 +2175,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete("/api/maintenance-records/:id", async (req: Request, res: Response) => {
+  app.delete("/api/maintenance-records/:id", requirePermission("maintenance_records", "delete"), async (req: Request, res: Response) => {
     try {
       const id = parseInt(req.params.id);
+      
+      if (!(await isRecordInUnitScope(req, id, unitId => storage.getMaintenanceRecordsByProductionUnit(unitId)))) {
+        return res.status(404).json({ message: "Maintenance record not found" });
+      }
+      
       const success = await storage.deleteMaintenanceRecord(id);
       
       if (!success) {
@@ -942,6 +2196,210 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Recycle bin
+  app.get("/api/recycle-bin", requirePermission("recycle_bin", "view"), async (req: Request, res: Response) => {
+    try {
+      const records = await storage.getDeletedRecords();
+      res.json(records);
+    } catch (error) {
+      console.error("Error fetching recycle bin:", error);
+      res.status(500).json({ message: "Failed to fetch recycle bin" });
+    }
+  });
+
+  app.post("/api/recycle-bin/:entity/:id/restore", requirePermission("recycle_bin", "update"), async (req: Request, res: Response) => {
+    try {
+      const entity = req.params.entity as RecycleBinEntity;
+      const id = parseInt(req.params.id);
+      
+      if (!recycleBinEntities.includes(entity)) {
+        return res.status(400).json({ message: "Invalid record type" });
+      }
+      
+      if (entity === "revenues" && await storage.isRevenueVoided(id)) {
+        return res.status(400).json({ message: "This revenue was voided when its order was cancelled" });
+      }
+      
+      if (entity === "revenues" && await storage.isRevenueOrderDeleted(id)) {
+        return res.status(400).json({ message: "Restore this revenue's order first" });
+      }
+      
+      if (entity === "payments" && await storage.isPaymentOrderDeleted(id)) {
+        return res.status(400).json({ message: "Restore this payment's order first" });
+      }
+      
+      const restored = await recycleBinOperations[entity].restore(id);
+      
+      if (!restored) {
+        return res.status(404).json({ message: "Deleted record not found" });
+      }
+      
+      res.json(restored);
+    } catch (error) {
+      if (error instanceof OverpaymentError) {
+        return res.status(400).json({ message: error.message });
+      }
+      console.error("Error restoring record:", error);
+      res.status(500).json({ message: "Failed to restore record" });
+    }
+  });
+
+  app.delete("/api/recycle-bin/:entity/:id", requirePermission("recycle_bin", "delete"), async (req: Request, res: Response) => {
+    try {
+      const entity = req.params.entity as RecycleBinEntity;
+      const id = parseInt(req.params.id);
+      
+      if (!recycleBinEntities.includes(entity)) {
+        return res.status(400).json({ message: "Invalid record type" });
+      }
+      
+      const success = await recycleBinOperations[entity].purge(id);
+      
+      if (!success) {
+        return res.status(404).json({ message: "Deleted record not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error purging record:", error);
+      res.status(500).json({ message: "Failed to purge record" });
+    }
+  });
+
+  // Users
+  app.get("/api/users", requirePermission("users", "view"), async (req: Request, res: Response) => {
+    try {
+      const users = await storage.getAllUsers();
+      res.json(users.map(toPublicUser));
+    } catch (error) {
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.post("/api/users", requirePermission("users", "create"), async (req: Request, res: Response) => {
+    try {
+      const validation = userAccountSchema.safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validation.error.format() });
+      }
+      
+      if (await storage.getUserByUsername(validation.data.username)) {
+        return res.status(400).json({ message: "Username is already taken" });
+      }
+      
+      const unitError = await checkUnitAssignment(validation.data.role, validation.data.productionUnitId);
+      
+      if (unitError) {
+        return res.status(400).json({ message: unitError });
+      }
+      
+      const newUser = await storage.createUser({
+        ...validation.data,
+        password: await hashPassword(validation.data.password),
+      });
+      res.status(201).json(toPublicUser(newUser));
+    } catch (error) {
+      console.error("Error creating user:", error);
+      res.status(500).json({ message: "Failed to create user" });
+    }
+  });
+
+  app.put("/api/users/:id", requirePermission("users", "update"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      // Usernames are kept as they are, since the audit log refers to them
+      const validation = userAccountSchema.omit({ username: true }).partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid user data", errors: validation.error.format() });
+      }
+      
+      const user = await storage.getUser(id);
+      
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      const { password, ...changes } = validation.data;
+      
+      // Keeps admins from locking themselves out
+      if (id === req.user!.id && (changes.active === false || (changes.role && changes.role !== user.role))) {
+        return res.status(400).json({ message: "You can't deactivate your own account or change your own role" });
+      }
+      
+      const unitError = await checkUnitAssignment(
+        changes.role ?? user.role,
+        changes.productionUnitId !== undefined ? changes.productionUnitId : user.productionUnitId,
+      );
+      
+      if (unitError) {
+        return res.status(400).json({ message: unitError });
+      }
+      
+      const updatedUser = await storage.updateUser(id, {
+        ...changes,
+        // A new password set here replaces a forgotten one
+        ...(password ? { password: await hashPassword(password) } : {}),
+      });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.json(toPublicUser(updatedUser));
+    } catch (error) {
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
+  // Deactivates rather than deletes, so the audit log keeps pointing at a known account
+  app.delete("/api/users/:id", requirePermission("users", "delete"), async (req: Request, res: Response) => {
+    try {
+      const id = parseInt(req.params.id);
+      
+      if (id === req.user!.id) {
+        return res.status(400).json({ message: "You can't deactivate your own account" });
+      }
+      
+      const updatedUser = await storage.updateUser(id, { active: false });
+      
+      if (!updatedUser) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      
+      res.status(204).end();
+    } catch (error) {
+      console.error("Error deactivating user:", error);
+      res.status(500).json({ message: "Failed to deactivate user" });
+    }
+  });
+
+  // Audit log
+  app.get("/api/audit", requirePermission("audit", "view"), async (req: Request, res: Response) => {
+    try {
+      const schema = z.object({
+        entity: z.enum(auditEntities),
+        id: z.coerce.number().int().positive().optional(),
+      });
+      
+      const validation = schema.safeParse(req.query);
+      
+      if (!validation.success) {
+        return res.status(400).json({ message: "Invalid audit query", errors: validation.error.format() });
+      }
+      
+      const entries = await storage.getAuditEntries(validation.data.entity, validation.data.id);
+      // Newest changes first
+      res.json(entries.reverse());
+    } catch (error) {
+      console.error("Error fetching audit log:", error);
+      res.status(500).json({ message: "Failed to fetch audit log" });
+    }
+  });
+
   const httpServer = createServer(app);
   return httpServer;
 }
@@ -3,23 +3,46 @@ import {
   Expense, InsertExpense,
   Revenue, InsertRevenue,
   InventoryItem, InsertInventoryItem,
-  Customer, InsertCustomer,
-  Order, InsertOrder,
+  Customer, InsertCustomer, CustomerLedger,
+  Supplier, InsertSupplier, SupplierBalance, SupplierLedger,
+  HsnCode, InsertHsnCode, TaxCategory, InsertTaxCategory, TaxMaster, GstRateVersion, InsertGstRateVersion,
+  MeasurementProfile, InsertMeasurementProfile,
+  Order, InsertOrder, OrderStatusChange, JobCard, DueOrdersReport,
+  Payment, InsertPayment,
+  Invoice, InsertInvoice, IssueInvoiceRequest,
   SalaryPayment, InsertSalaryPayment,
   MaintenanceRecord, InsertMaintenanceRecord,
   Report, InsertReport,
   User, InsertUser,
-  StatSummary, Transaction, ProfitLossPeriod, CostTrend
+  AuditEntry, InsertAuditEntry, AuditEntity, DeletedRecord, ArAgingReport, Gstr1Report, Gstr3bReport, Gstr2bInvoice, Gstr2bReconciliation,
+  StatSummary, Transaction, ProfitLossPeriod, CostTrend, CostDiscrepancy
 } from "@shared/schema";
+import { getFinancialYear, formatInvoiceNumber, resolveStateCode } from "@shared/gst-utils";
 import path from "path";
-import { promises as fs } from "fs";
-import { readExcelFile, writeExcelFile, ensureDirectoryExists } from "./excel-handler";
+import { promises as fs, watch } from "fs";
+import { AsyncLocalStorage } from "async_hooks";
+import session from "express-session";
+import createMemoryStore from "memorystore";
+import {
+  readExcelFile, writeExcelFile, ensureDirectoryExists,
+  isCorruptWorkbookError, quarantineFile, removeStaleTempFiles
+} from "./excel-handler";
+import { BaseStorage, RecycleBinContents } from "./base-storage";
+import { DrizzleStorage } from "./drizzle-storage";
+import { createDatabase } from "./db";
+
+const MemoryStore = createMemoryStore(session);
 
 export interface IStorage {
+  // Where login sessions are kept
+  sessionStore: session.Store;
+
   // User operations
+  getAllUsers(): Promise<User[]>;
   getUser(id: number): Promise<User | undefined>;
   getUserByUsername(username: string): Promise<User | undefined>;
   createUser(user: InsertUser): Promise<User>;
+  updateUser(id: number, updates: Partial<User>): Promise<User | undefined>;
 
   // Production Unit operations
   getAllProductionUnits(): Promise<ProductionUnit[]>;
@@ -27,6 +50,8 @@ export interface IStorage {
   createProductionUnit(unit: InsertProductionUnit): Promise<ProductionUnit>;
   updateProductionUnit(id: number, updates: Partial<ProductionUnit>): Promise<ProductionUnit | undefined>;
   deleteProductionUnit(id: number): Promise<boolean>;
+  recalculateProductionUnitCost(id: number): Promise<ProductionUnit | undefined>;
+  checkProductionUnitCosts(): Promise<CostDiscrepancy[]>;
 
   // Expense operations
   getAllExpenses(): Promise<Expense[]>;
@@ -34,13 +59,18 @@ export interface IStorage {
   createExpense(expense: InsertExpense): Promise<Expense>;
   updateExpense(id: number, updates: Partial<Expense>): Promise<Expense | undefined>;
   deleteExpense(id: number): Promise<boolean>;
+  restoreExpense(id: number): Promise<Expense | undefined>;
+  purgeExpense(id: number): Promise<boolean>;
 
   // Revenue operations
   getAllRevenues(): Promise<Revenue[]>;
+  getRevenue(id: number): Promise<Revenue | undefined>;
   getRevenuesByProductionUnit(productionUnitId: number): Promise<Revenue[]>;
   createRevenue(revenue: InsertRevenue): Promise<Revenue>;
   updateRevenue(id: number, updates: Partial<Revenue>): Promise<Revenue | undefined>;
   deleteRevenue(id: number): Promise<boolean>;
+  restoreRevenue(id: number): Promise<Revenue | undefined>;
+  purgeRevenue(id: number): Promise<boolean>;
 
   // Inventory operations
   getAllInventoryItems(): Promise<InventoryItem[]>;
@@ -55,6 +85,45 @@ export interface IStorage {
   createCustomer(customer: InsertCustomer): Promise<Customer>;
   updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined>;
   deleteCustomer(id: number): Promise<boolean>;
+  getCustomerLedger(customerId: number, productionUnitId?: number): Promise<CustomerLedger | undefined>;
+
+  // Supplier operations
+  // An expense linked to a supplier takes the supplier's GST state, and is owed
+  // to them until its paidDate is set.
+  getAllSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: number): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | undefined>;
+  deleteSupplier(id: number): Promise<boolean>;
+  getSupplierBalances(productionUnitId?: number, asOf?: Date): Promise<SupplierBalance[]>;
+  getSupplierLedger(supplierId: number, productionUnitId?: number, asOf?: Date): Promise<SupplierLedger | undefined>;
+
+  // Tax master operations
+  // HSN/SAC codes carry the GST rate; categories are billed under a code or at
+  // their own rate. Codes can't be deleted while a category or rate change uses them.
+  getTaxMaster(): Promise<TaxMaster>;
+  seedTaxMaster(): Promise<void>;
+  getAllHsnCodes(): Promise<HsnCode[]>;
+  getHsnCode(id: number): Promise<HsnCode | undefined>;
+  createHsnCode(hsnCode: InsertHsnCode): Promise<HsnCode>;
+  updateHsnCode(id: number, updates: Partial<HsnCode>): Promise<HsnCode | undefined>;
+  deleteHsnCode(id: number): Promise<boolean>;
+  getAllTaxCategories(): Promise<TaxCategory[]>;
+  getTaxCategory(id: number): Promise<TaxCategory | undefined>;
+  createTaxCategory(category: InsertTaxCategory): Promise<TaxCategory>;
+  updateTaxCategory(id: number, updates: Partial<TaxCategory>): Promise<TaxCategory | undefined>;
+  deleteTaxCategory(id: number): Promise<boolean>;
+  // Rate changes can't be deleted once a record's rate was taken from them
+  getAllGstRateVersions(): Promise<GstRateVersion[]>;
+  createGstRateVersion(version: InsertGstRateVersion): Promise<GstRateVersion>;
+  deleteGstRateVersion(id: number): Promise<boolean>;
+
+  // Measurement profile operations
+  // Profiles are listed oldest version first; a new profile takes the next version
+  // for its customer and garment type.
+  getMeasurementProfiles(customerId: number): Promise<MeasurementProfile[]>;
+  createMeasurementProfile(profile: InsertMeasurementProfile): Promise<MeasurementProfile>;
+  deleteMeasurementProfile(id: number): Promise<boolean>;
   
   // Order operations
   getAllOrders(): Promise<Order[]>;
@@ -64,6 +133,32 @@ export interface IStorage {
   createOrder(order: InsertOrder): Promise<Order>;
   updateOrder(id: number, updates: Partial<Order>): Promise<Order | undefined>;
   deleteOrder(id: number): Promise<boolean>;
+  restoreOrder(id: number): Promise<Order | undefined>;
+  purgeOrder(id: number): Promise<boolean>;
+  getOrderOutstanding(orderId: number): Promise<number | undefined>;
+  getJobCard(orderId: number): Promise<JobCard | undefined>;
+  getDueOrders(withinDays: number, productionUnitId?: number, asOf?: Date): Promise<DueOrdersReport>;
+
+  // Payment operations
+  // Each change to an order's payments recomputes the order's paidAmount.
+  getAllPayments(): Promise<Payment[]>;
+  getPaymentsByOrder(orderId: number): Promise<Payment[]>;
+  getPaymentsByCustomer(customerId: number): Promise<Payment[]>;
+  createPayment(payment: InsertPayment): Promise<Payment>;
+  deletePayment(id: number): Promise<boolean>;
+  restorePayment(id: number): Promise<Payment | undefined>;
+  purgePayment(id: number): Promise<boolean>;
+
+  // Invoice operations
+  // Invoices are numbered in one gap-free series per production unit and financial year,
+  // so they are cancelled rather than deleted. Issuing one stamps its number on the order
+  // or revenue entry, whose invoiced amounts can't change until the invoice is cancelled.
+  getAllInvoices(): Promise<Invoice[]>;
+  getInvoice(id: number): Promise<Invoice | undefined>;
+  getIssuedInvoice(source: { orderId?: number; revenueId?: number }): Promise<Invoice | undefined>;
+  createInvoice(invoice: InsertInvoice): Promise<Invoice>;
+  issueInvoice(request: IssueInvoiceRequest): Promise<Invoice>;
+  cancelInvoice(id: number, reason: string): Promise<Invoice | undefined>;
   
   // Salary Payment operations
   getAllSalaryPayments(): Promise<SalaryPayment[]>;
@@ -72,6 +167,8 @@ export interface IStorage {
   createSalaryPayment(payment: InsertSalaryPayment): Promise<SalaryPayment>;
   updateSalaryPayment(id: number, updates: Partial<SalaryPayment>): Promise<SalaryPayment | undefined>;
   deleteSalaryPayment(id: number): Promise<boolean>;
+  restoreSalaryPayment(id: number): Promise<SalaryPayment | undefined>;
+  purgeSalaryPayment(id: number): Promise<boolean>;
   
   // Maintenance Record operations
   getAllMaintenanceRecords(): Promise<MaintenanceRecord[]>;
@@ -79,6 +176,8 @@ export interface IStorage {
   createMaintenanceRecord(record: InsertMaintenanceRecord): Promise<MaintenanceRecord>;
   updateMaintenanceRecord(id: number, updates: Partial<MaintenanceRecord>): Promise<MaintenanceRecord | undefined>;
   deleteMaintenanceRecord(id: number): Promise<boolean>;
+  restoreMaintenanceRecord(id: number): Promise<MaintenanceRecord | undefined>;
+  purgeMaintenanceRecord(id: number): Promise<boolean>;
 
   // Report operations
   getAllReports(): Promise<Report[]>;
@@ -90,14 +189,97 @@ export interface IStorage {
   getRecentTransactions(limit: number): Promise<Transaction[]>;
   getCostTrends(months: number): Promise<CostTrend[]>;
   getProfitLossData(months: number): Promise<ProfitLossPeriod[]>;
+  getArAgingReport(productionUnitId?: number, asOf?: Date): Promise<ArAgingReport>;
+  getGstr1Report(period: string, productionUnitId?: number): Promise<Gstr1Report>;
+  getGstr3bReport(period: string, productionUnitId?: number): Promise<Gstr3bReport>;
+  reconcileGstr2b(period: string, invoices: Gstr2bInvoice[], productionUnitId?: number): Promise<Gstr2bReconciliation>;
 
   // Excel file operations
   importFromExcel(fileBuffer: Buffer, type: string): Promise<number>;
-  exportToExcel(type: string): Promise<string>;
+  exportToExcel(type: string, options?: { period?: string; productionUnitId?: number }): Promise<string>;
+  exportGstr1ToExcel(period: string, productionUnitId?: number): Promise<string>;
+  
+  // Recycle bin operations
+  // Deleting expenses, revenues, orders, payments, salary payments and maintenance records
+  // only sets their deletedAt; restore brings them back, purge removes them for good.
+  getDeletedRecords(): Promise<DeletedRecord[]>;
+  isRevenueVoided(revenueId: number): Promise<boolean>;
+  isRevenueOrderDeleted(revenueId: number): Promise<boolean>;
+  isPaymentOrderDeleted(paymentId: number): Promise<boolean>;
+
+  // Audit log operations
+  getAuditEntries(entity: AuditEntity, entityId?: number): Promise<AuditEntry[]>;
+  getOrderStatusHistory(orderId: number): Promise<OrderStatusChange[]>;
+  
+  // Unit of work: every write made by `work` is committed together, or none is.
+  // Calls made while a transaction is already running join it.
+  runInTransaction<T>(work: () => Promise<T>): Promise<T>;
+}
+
+// Column headers of every workbook ExcelStorage keeps in the data directory
+const EXCEL_HEADERS: Record<string, string[]> = {
+  "production_units.xlsx": ["id", "name", "location", "status", "costToDate", "gstin", "stateCode", "createdAt"],
+  "expenses.xlsx": ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "supplierStateCode", "supplierId", "gstRateVersionId", "hsn", "invoiceNumber", "currency", "salaryPaymentId", "maintenanceRecordId", "paidDate", "deletedAt"],
+  "revenues.xlsx": ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "placeOfSupply", "gstRateVersionId", "hsn", "invoiceNumber", "currency", "orderId", "deletedAt"],
+  "inventory.xlsx": ["id", "name", "description", "quantity", "unitCost", "productionUnitId", "createdAt"],
+  "reports.xlsx": ["id", "name", "type", "generatedAt", "filePath"],
+  "users.xlsx": ["id", "username", "password", "name", "role", "productionUnitId", "active"],
+  "customers.xlsx": ["id", "name", "phone", "email", "address", "gstin", "stateCode", "createdAt", "notes"],
+  "suppliers.xlsx": ["id", "name", "gstin", "stateCode", "contactPerson", "phone", "email", "address", "paymentTermsDays", "notes", "createdAt"],
+  "hsn_codes.xlsx": ["id", "code", "description", "gstRate"],
+  "tax_categories.xlsx": ["id", "kind", "name", "hsnCode", "gstRate"],
+  "gst_rate_versions.xlsx": ["id", "hsnCode", "categoryId", "gstRate", "effectiveFrom", "notification"],
+  "measurement_profiles.xlsx": ["id", "customerId", "garmentType", "version", "unit", "measurements", "notes", "takenAt"],
+  "orders.xlsx": ["id", "orderNumber", "customerId", "productionUnitId", "orderDate", "deliveryDate", "status", "totalAmount", "paidAmount", "baseAmount", "gstRate", "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "placeOfSupply", "gstRateVersionId", "hsn", "invoiceNumber", "description", "currency", "category", "measurements", "fabricDetails", "specialInstructions", "deletedAt"],
+  "payments.xlsx": ["id", "orderId", "customerId", "amount", "paymentDate", "method", "reference", "notes", "deletedAt"],
+  "invoices.xlsx": ["id", "invoiceNumber", "financialYear", "sequence", "productionUnitId", "orderId", "revenueId", "invoiceDate", "sellerName", "sellerAddress", "sellerGstin", "buyerName", "buyerAddress", "buyerGstin", "placeOfSupply", "isInterState", "lines", "taxableValue", "cgstAmount", "sgstAmount", "igstAmount", "totalAmount", "status", "cancelledAt", "cancelReason", "createdAt"],
+  "salary_payments.xlsx": ["id", "employeeName", "employeeId", "productionUnitId", "amount", "paymentDate", "paymentMethod", "notes", "month", "year", "deletedAt"],
+  "audit_log.xlsx": ["id", "entity", "entityId", "action", "changedAt", "changedBy", "previousValues", "newValues"],
+  "maintenance_records.xlsx": ["id", "productionUnitId", "machineId", "machineName", "maintenanceType", "description", "cost", "date", "nextMaintenanceDate", "performedBy", "notes", "deletedAt"],
+};
+
+// Rows of a workbook as last read or written, with the file stats they belong to
+type CachedTable = { rows: string[][]; mtimeMs: number; size: number };
+
+// Workbook writes and audit entries held back until the transaction commits,
+// plus the write locks the transaction keeps until it finishes
+type ExcelTransaction = {
+  staged: Map<string, { data: (string | number | null | undefined)[][]; sheetName: string }>;
+  auditEntries: InsertAuditEntry[];
+  locks: Map<string, Promise<void>>;
+  finished: Promise<void>;
+};
+
+// Whether a record is outside the recycle bin
+function isActive(record: { deletedAt: Date | null }): boolean {
+  return !record.deletedAt;
+}
+
+// Converts rows to the strings readExcelFile would return for them
+function toCellStrings(data: (string | number | null | undefined)[][]): string[][] {
+  return data.map(row => row.map(value => value?.toString() || ""));
+}
+
+/**
+ * What a workbook reader returns when reading fails: nothing for a missing
+ * workbook, otherwise the error is rethrown. Returning nothing for a locked or
+ * unreadable workbook would let the next write save a workbook holding only
+ * the new row.
+ */
+function emptyIfMissing<T>(error: unknown, description: string): T[] {
+  if ((error as NodeJS.ErrnoException)?.code === "ENOENT") {
+    return [];
+  }
+  console.error(`Error reading ${description} from Excel:`, error);
+  throw error;
 }
 
-export class ExcelStorage implements IStorage {
-  private dataDirectory: string;
+export class ExcelStorage extends BaseStorage implements IStorage {
+  sessionStore: session.Store;
+  private writeLocks: Map<string, Promise<void>>;
+  private tableCache: Map<string, CachedTable>;
+  private transactionContext: AsyncLocalStorage<ExcelTransaction>;
+  private watchingDataDirectory: boolean;
   private users: Map<number, User>;
   private unitNextId: number;
   private expenseNextId: number;
@@ -106,12 +288,28 @@ export class ExcelStorage implements IStorage {
   private reportNextId: number;
   private userNextId: number;
   private customerNextId: number;
+  private supplierNextId: number;
+  private hsnCodeNextId: number;
+  private taxCategoryNextId: number;
+  private gstRateVersionNextId: number;
+  private measurementProfileNextId: number;
   private orderNextId: number;
+  private paymentNextId: number;
+  private invoiceNextId: number;
   private salaryPaymentNextId: number;
   private maintenanceRecordNextId: number;
+  private auditEntryNextId: number;
+  // Settles once every workbook has been checked or created
+  readonly ready: Promise<void>;
 
   constructor() {
-    this.dataDirectory = path.resolve(process.cwd(), "data");
+    super();
+    // Sessions live in memory; everyone signs in again after a restart
+    this.sessionStore = new MemoryStore({ checkPeriod: 24 * 60 * 60 * 1000 });
+    this.writeLocks = new Map();
+    this.tableCache = new Map();
+    this.transactionContext = new AsyncLocalStorage();
+    this.watchingDataDirectory = false;
     this.users = new Map();
     this.unitNextId = 1;
     this.expenseNextId = 1;
@@ -120,12 +318,20 @@ export class ExcelStorage implements IStorage {
     this.reportNextId = 1;
     this.userNextId = 1;
     this.customerNextId = 1;
+    this.supplierNextId = 1;
+    this.hsnCodeNextId = 1;
+    this.taxCategoryNextId = 1;
+    this.gstRateVersionNextId = 1;
+    this.measurementProfileNextId = 1;
     this.orderNextId = 1;
+    this.paymentNextId = 1;
+    this.invoiceNextId = 1;
     this.salaryPaymentNextId = 1;
     this.maintenanceRecordNextId = 1;
+    this.auditEntryNextId = 1;
     
     // Start initialization in the background
-    this.initializeStorage().catch(err => {
+    this.ready = this.initializeStorage().catch(err => {
       console.error("Failed to initialize storage:", err);
     });
   }
@@ -133,29 +339,18 @@ export class ExcelStorage implements IStorage {
   private async initializeStorage() {
     try {
       await ensureDirectoryExists(this.dataDirectory);
-      
-      // Initialize with default admin user if no users exist
-      const defaultUser: InsertUser = {
-        username: "admin",
-        password: "admin", // In a real app, this would be hashed
-        name: "John Doe",
-        role: "Financial Manager"
-      };
-      await this.createUser(defaultUser);
+      await removeStaleTempFiles(this.dataDirectory);
+      this.watchDataDirectory();
       
       // Initialize all required Excel files if they don't exist
-      await this.initializeExcelFile("production_units.xlsx", ["id", "name", "location", "status", "costToDate", "createdAt"]);
-      await this.initializeExcelFile("expenses.xlsx", ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency"]);
-      await this.initializeExcelFile("revenues.xlsx", ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency", "orderId"]);
-      await this.initializeExcelFile("inventory.xlsx", ["id", "name", "description", "quantity", "unitCost", "productionUnitId", "createdAt"]);
-      await this.initializeExcelFile("reports.xlsx", ["id", "name", "type", "generatedAt", "filePath"]);
-      await this.initializeExcelFile("users.xlsx", ["id", "username", "password", "name", "role"]);
-      
-      // Initialize new Excel files for stitching unit
-      await this.initializeExcelFile("customers.xlsx", ["id", "name", "phone", "email", "address", "gstin", "createdAt", "notes"]);
-      await this.initializeExcelFile("orders.xlsx", ["id", "orderNumber", "customerId", "productionUnitId", "orderDate", "deliveryDate", "status", "totalAmount", "paidAmount", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "description", "currency", "category", "measurements", "fabricDetails", "specialInstructions"]);
-      await this.initializeExcelFile("salary_payments.xlsx", ["id", "employeeName", "employeeId", "productionUnitId", "amount", "paymentDate", "paymentMethod", "notes", "month", "year"]);
-      await this.initializeExcelFile("maintenance_records.xlsx", ["id", "productionUnitId", "machineId", "machineName", "maintenanceType", "description", "cost", "date", "nextMaintenanceDate", "performedBy", "notes"]);
+      for (const [filename, headers] of Object.entries(EXCEL_HEADERS)) {
+        try {
+          await this.initializeExcelFile(filename, headers);
+        } catch (error) {
+          // Leave the file as it is, e.g. while it is open in Excel, and carry on with the rest
+          console.error(`Could not check Excel file ${filename}:`, error);
+        }
+      }
     } catch (error) {
       console.error("Error initializing storage:", error);
     }
@@ -165,17 +360,12 @@ export class ExcelStorage implements IStorage {
     const filePath = path.join(this.dataDirectory, filename);
     try {
       await fs.access(filePath);
-      
-      // Try to read the file to check if it's valid
-      try {
-        await readExcelFile(filePath);
-      } catch (readError) {
-        // If reading fails, the file might be corrupted, recreate it
-        console.log(`Recreating possibly corrupted file: ${filename}`);
-        await writeExcelFile(filePath, [headers], "Sheet1");
+    } catch (error: any) {
+      // Only a missing file is created; any other failure leaves the file on disk alone
+      if (error?.code !== 'ENOENT') {
+        throw error;
       }
-    } catch (error) {
-      // File doesn't exist, create it with headers
+      
       console.log(`Creating new Excel file: ${filename}`);
       await writeExcelFile(filePath, [headers], "Sheet1");
       
@@ -188,10 +378,241 @@ export class ExcelStorage implements IStorage {
         await ensureDirectoryExists(path.dirname(filePath));
         await writeExcelFile(filePath, [headers], "Sheet1");
       }
+      return;
+    }
+    
+    // Try to read the file to check if it's valid
+    try {
+      await readExcelFile(filePath);
+    } catch (readError) {
+      // A locked or unreadable file is reported as is; only a corrupted one is moved aside and recreated
+      if (!isCorruptWorkbookError(readError)) {
+        throw readError;
+      }
+      await this.recoverCorruptFile(filename);
+    }
+  }
+
+  /**
+   * Runs a read-modify-write cycle on one workbook after every earlier cycle
+   * on the same workbook has finished, so concurrent requests can't lose writes.
+   * Inside a transaction the lock is kept until the transaction finishes.
+   */
+  private withWriteLock<T>(filename: string, task: () => Promise<T>): Promise<T> {
+    const transaction = this.transactionContext.getStore();
+    if (!transaction) {
+      return this.enqueueWrite(filename, task);
+    }
+    
+    let acquired = transaction.locks.get(filename);
+    if (!acquired) {
+      acquired = new Promise<void>(resolve => {
+        this.enqueueWrite(filename, () => {
+          resolve();
+          return transaction.finished;
+        });
+      });
+      transaction.locks.set(filename, acquired);
+    }
+    return acquired.then(task);
+  }
+
+  private enqueueWrite<T>(filename: string, task: () => Promise<T>): Promise<T> {
+    const previous = this.writeLocks.get(filename) || Promise.resolve();
+    const result = previous.then(task);
+    const done = result.then(() => undefined, () => undefined);
+    
+    this.writeLocks.set(filename, done);
+    done.then(() => {
+      if (this.writeLocks.get(filename) === done) {
+        this.writeLocks.delete(filename);
+      }
+    });
+    
+    return result;
+  }
+
+  /**
+   * Runs `work` as one unit: workbook writes are staged in memory and only
+   * written to disk once it succeeds. Transactions run one at a time, and
+   * only code inside a transaction may hold more than one write lock, so
+   * they can't deadlock each other.
+   */
+  async runInTransaction<T>(work: () => Promise<T>): Promise<T> {
+    if (this.transactionContext.getStore()) {
+      return work();
+    }
+    
+    return this.enqueueWrite("#transaction", async () => {
+      let finish!: () => void;
+      const transaction: ExcelTransaction = {
+        staged: new Map(),
+        auditEntries: [],
+        locks: new Map(),
+        finished: new Promise<void>(resolve => { finish = resolve; }),
+      };
+      
+      try {
+        const result = await this.transactionContext.run(transaction, work);
+        await this.commitTransaction(transaction);
+        return result;
+      } finally {
+        finish();
+      }
+    });
+  }
+
+  /**
+   * Writes the staged workbooks one by one. If one fails, the ones already
+   * written are put back to their previous contents.
+   */
+  private async commitTransaction(transaction: ExcelTransaction): Promise<void> {
+    const written: { filename: string; previous: string[][] }[] = [];
+    
+    try {
+      for (const [filename, { data, sheetName }] of Array.from(transaction.staged)) {
+        // A workbook that can't be read is left alone rather than rolled back to its headers
+        const previous = await this.readDataFile(filename).catch(error => [EXCEL_HEADERS[filename], ...emptyIfMissing<string[]>(error, filename)]);
+        await this.writeDataFile(filename, data, sheetName);
+        written.push({ filename, previous });
+      }
+      
+      if (transaction.auditEntries.length > 0) {
+        await this.writeAuditEntries(transaction.auditEntries);
+      }
+    } catch (error) {
+      for (const { filename, previous } of written.reverse()) {
+        await this.writeDataFile(filename, previous, "Sheet1").catch(restoreError => {
+          console.error(`Failed to roll back ${filename}:`, restoreError);
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Watches the data directory so workbooks edited by hand (e.g. in Excel)
+   * are dropped from the table cache. Without a working watcher every read
+   * goes back to disk.
+   */
+  private watchDataDirectory() {
+    try {
+      const watcher = watch(this.dataDirectory, (_eventType, filename) => {
+        if (filename) {
+          this.evictIfChanged(filename.toString()).catch(() => this.tableCache.delete(filename.toString()));
+        }
+      });
+      watcher.on("error", (error) => {
+        console.error("Stopped watching data directory:", error);
+        this.watchingDataDirectory = false;
+        this.tableCache.clear();
+        watcher.close();
+      });
+      // Don't keep the process alive just for the watcher
+      watcher.unref();
+      this.watchingDataDirectory = true;
+    } catch (error) {
+      console.error("Could not watch data directory, table cache disabled:", error);
+    }
+  }
+
+  private async evictIfChanged(filename: string) {
+    const cached = this.tableCache.get(filename);
+    if (!cached) {
+      return;
+    }
+    
+    const stats = await fs.stat(path.join(this.dataDirectory, filename)).catch(() => null);
+    // Our own writes refresh the cache before the watcher fires, so only foreign changes evict
+    if (!stats || stats.mtimeMs !== cached.mtimeMs || stats.size !== cached.size) {
+      this.tableCache.delete(filename);
+    }
+  }
+
+  /**
+   * Writes one of the data workbooks and keeps the table cache in step with it.
+   * Inside a transaction the write is only staged.
+   */
+  private async writeDataFile(filename: string, data: (string | number | null | undefined)[][], sheetName: string): Promise<void> {
+    const transaction = this.transactionContext.getStore();
+    if (transaction) {
+      transaction.staged.set(filename, { data, sheetName });
+      return;
+    }
+    
+    const filePath = path.join(this.dataDirectory, filename);
+    this.tableCache.delete(filename);
+    
+    await writeExcelFile(filePath, data, sheetName);
+    
+    if (this.watchingDataDirectory) {
+      const stats = await fs.stat(filePath);
+      this.tableCache.set(filename, { rows: toCellStrings(data), mtimeMs: stats.mtimeMs, size: stats.size });
+    }
+  }
+
+  /**
+   * Reads one of the data workbooks, from the table cache when possible.
+   * A workbook that exists but can't be parsed is quarantined and replaced
+   * with an empty one, so the next write never overwrites the damaged original.
+   */
+  private async readDataFile(filename: string): Promise<string[][]> {
+    const staged = this.transactionContext.getStore()?.staged.get(filename);
+    if (staged) {
+      return toCellStrings(staged.data);
+    }
+    
+    const cached = this.tableCache.get(filename);
+    if (cached) {
+      return cached.rows;
+    }
+    
+    const filePath = path.join(this.dataDirectory, filename);
+    
+    try {
+      const stats = await fs.stat(filePath);
+      const rows = await readExcelFile(filePath);
+      if (this.watchingDataDirectory) {
+        this.tableCache.set(filename, { rows, mtimeMs: stats.mtimeMs, size: stats.size });
+      }
+      return rows;
+    } catch (error) {
+      if (!isCorruptWorkbookError(error)) {
+        throw error;
+      }
+      return this.recoverCorruptFile(filename);
     }
   }
 
+  private recoverCorruptFile(filename: string): Promise<string[][]> {
+    // Runs outside any transaction so the quarantine and the replacement file happen together,
+    // under its own lock key because the caller may already hold the workbook's write lock
+    return this.transactionContext.exit(() => this.enqueueWrite(`${filename}#recovery`, async () => {
+      const filePath = path.join(this.dataDirectory, filename);
+      
+      // Another request may have recovered the file while we waited
+      try {
+        return await readExcelFile(filePath);
+      } catch (error) {
+        if (!isCorruptWorkbookError(error)) {
+          throw error;
+        }
+      }
+      
+      const quarantinedPath = await quarantineFile(filePath);
+      console.error(`Quarantined corrupted file ${filename} to ${quarantinedPath}`);
+      
+      const headers = EXCEL_HEADERS[filename];
+      await this.writeDataFile(filename, [headers], "Sheet1");
+      return [headers];
+    }));
+  }
+
   // User operations
+  async getAllUsers(): Promise<User[]> {
+    return this.readUsersFromExcel();
+  }
+
   async getUser(id: number): Promise<User | undefined> {
     const users = await this.readUsersFromExcel();
     return users.find(user => user.id === id);
@@ -203,21 +624,41 @@ export class ExcelStorage implements IStorage {
   }
 
   async createUser(user: InsertUser): Promise<User> {
-    const users = await this.readUsersFromExcel();
-    const existingUser = users.find(u => u.username === user.username);
+    return this.withWriteLock("users.xlsx", async () => {
+      const users = await this.readUsersFromExcel();
+      const existingUser = users.find(u => u.username === user.username);
     
-    if (existingUser) {
-      return existingUser;
-    }
+      if (existingUser) {
+        return existingUser;
+      }
     
-    const newUser: User = {
-      ...user,
-      id: this.userNextId++
-    };
+      const newUser: User = {
+        ...user,
+        id: this.userNextId++,
+        productionUnitId: user.productionUnitId || null,
+        active: user.active ?? true,
+      };
+    
+      users.push(newUser);
+      await this.writeUsersToExcel(users);
+      return newUser;
+    });
+  }
+
+  async updateUser(id: number, updates: Partial<User>): Promise<User | undefined> {
+    return this.withWriteLock("users.xlsx", async () => {
+      const users = await this.readUsersFromExcel();
+      const userIndex = users.findIndex(user => user.id === id);
     
-    users.push(newUser);
-    await this.writeUsersToExcel(users);
-    return newUser;
+      if (userIndex === -1) {
+        return undefined;
+      }
+    
+      const updatedUser = { ...users[userIndex], ...updates, id };
+      users[userIndex] = updatedUser;
+      await this.writeUsersToExcel(users);
+      return updatedUser;
+    });
   }
 
   // Production Unit operations
@@ -231,190 +672,359 @@ export class ExcelStorage implements IStorage {
   }
 
   async createProductionUnit(unit: InsertProductionUnit): Promise<ProductionUnit> {
-    const units = await this.readProductionUnitsFromExcel();
-    const newUnit: ProductionUnit = {
-      ...unit,
-      id: this.unitNextId++,
-      status: unit.status || "active", // Ensure status is not undefined
-      costToDate: "0",
-      createdAt: new Date()
-    };
+    return this.withWriteLock("production_units.xlsx", async () => {
+      const units = await this.readProductionUnitsFromExcel();
+      const newUnit: ProductionUnit = {
+        ...unit,
+        id: this.unitNextId++,
+        status: unit.status || "active", // Ensure status is not undefined
+        costToDate: "0",
+        gstin: unit.gstin || null,
+        stateCode: resolveStateCode(unit.stateCode, unit.gstin) || null,
+        createdAt: new Date()
+      };
     
-    units.push(newUnit);
-    await this.writeProductionUnitsToExcel(units);
-    return newUnit;
+      units.push(newUnit);
+      await this.writeProductionUnitsToExcel(units);
+      await this.recordAudit("production_units", newUnit.id, "create", null, newUnit);
+      return newUnit;
+    });
   }
 
   async updateProductionUnit(id: number, updates: Partial<ProductionUnit>): Promise<ProductionUnit | undefined> {
-    const units = await this.readProductionUnitsFromExcel();
-    const unitIndex = units.findIndex(unit => unit.id === id);
+    return this.withWriteLock("production_units.xlsx", async () => {
+      const units = await this.readProductionUnitsFromExcel();
+      const unitIndex = units.findIndex(unit => unit.id === id);
     
-    if (unitIndex === -1) {
-      return undefined;
-    }
+      if (unitIndex === -1) {
+        return undefined;
+      }
     
-    const updatedUnit = { ...units[unitIndex], ...updates };
-    units[unitIndex] = updatedUnit;
-    await this.writeProductionUnitsToExcel(units);
-    return updatedUnit;
+      const previousUnit = units[unitIndex];
+      const updatedUnit = { ...previousUnit, ...updates };
+      updatedUnit.stateCode = resolveStateCode(updatedUnit.stateCode, updatedUnit.gstin) || null;
+      units[unitIndex] = updatedUnit;
+      await this.writeProductionUnitsToExcel(units);
+      await this.recordAudit("production_units", id, "update", previousUnit, updatedUnit);
+      return updatedUnit;
+    });
   }
 
   async deleteProductionUnit(id: number): Promise<boolean> {
-    const units = await this.readProductionUnitsFromExcel();
-    const filteredUnits = units.filter(unit => unit.id !== id);
+    return this.withWriteLock("production_units.xlsx", async () => {
+      const units = await this.readProductionUnitsFromExcel();
+      const filteredUnits = units.filter(unit => unit.id !== id);
     
-    if (filteredUnits.length === units.length) {
-      return false;
-    }
+      if (filteredUnits.length === units.length) {
+        return false;
+      }
     
-    await this.writeProductionUnitsToExcel(filteredUnits);
-    return true;
+      await this.writeProductionUnitsToExcel(filteredUnits);
+      await this.recordAudit("production_units", id, "delete", units.find(unit => unit.id === id), null);
+      return true;
+    });
   }
 
   // Expense operations
   async getAllExpenses(): Promise<Expense[]> {
-    return this.readExpensesFromExcel();
+    const expenses = await this.readExpensesFromExcel();
+    return expenses.filter(isActive);
   }
 
   async getExpensesByProductionUnit(productionUnitId: number): Promise<Expense[]> {
     const expenses = await this.readExpensesFromExcel();
-    return expenses.filter(expense => expense.productionUnitId === productionUnitId);
+    return expenses.filter(expense => expense.productionUnitId === productionUnitId && isActive(expense));
   }
 
   async createExpense(expense: InsertExpense): Promise<Expense> {
-    const expenses = await this.readExpensesFromExcel();
-    const newExpense: Expense = {
-      ...expense,
-      id: this.expenseNextId++,
-      date: expense.date || new Date(), // Ensure date is not undefined
-      baseAmount: expense.baseAmount || null,
-      gstRate: expense.gstRate || null,
-      gstAmount: expense.gstAmount || null,
-      hsn: expense.hsn || null,
-      invoiceNumber: expense.invoiceNumber || null,
-      currency: expense.currency || "INR"
-    };
-    
-    expenses.push(newExpense);
-    await this.writeExpensesToExcel(expenses);
+    return this.runInTransaction(async () => {
+      const newExpense = await this.withWriteLock("expenses.xlsx", async () => {
+        const expenses = await this.readExpensesFromExcel();
+        const supplierStateCode = await this.resolveSupplierStateCode(expense.supplierId, expense.supplierStateCode);
+        const gstSplit = await this.gstSplitFor(expense.productionUnitId, expense.gstAmount, supplierStateCode);
+        const categoryTax = await this.categoryTaxFor("expense", expense);
+        const newExpense: Expense = {
+          ...expense,
+          id: this.expenseNextId++,
+          date: expense.date || new Date(), // Ensure date is not undefined
+          baseAmount: expense.baseAmount || null,
+          gstAmount: expense.gstAmount || null,
+          ...gstSplit,
+          ...categoryTax,
+          supplierStateCode,
+          supplierId: expense.supplierId || null,
+          invoiceNumber: expense.invoiceNumber || null,
+          currency: expense.currency || "INR",
+          salaryPaymentId: expense.salaryPaymentId || null,
+          maintenanceRecordId: expense.maintenanceRecordId || null,
+          paidDate: expense.paidDate || null,
+          deletedAt: null
+        };
+      
+        expenses.push(newExpense);
+        await this.writeExpensesToExcel(expenses);
+        await this.recordAudit("expenses", newExpense.id, "create", null, newExpense);
+        return newExpense;
+      });
     
-    // Update production unit cost
-    const unit = await this.getProductionUnit(expense.productionUnitId);
-    if (unit) {
-      const currentCost = parseFloat(unit.costToDate.toString());
-      const newCost = currentCost + parseFloat(expense.amount.toString());
-      await this.updateProductionUnit(unit.id, { costToDate: newCost.toString() });
-    }
+      // Update production unit cost
+      await this.adjustProductionUnitCost(expense.productionUnitId, parseFloat(expense.amount.toString()));
     
-    return newExpense;
+      return newExpense;
+    });
   }
 
   async updateExpense(id: number, updates: Partial<Expense>): Promise<Expense | undefined> {
-    const expenses = await this.readExpensesFromExcel();
-    const expenseIndex = expenses.findIndex(expense => expense.id === id);
+    return this.runInTransaction(async () => {
+      const result = await this.withWriteLock("expenses.xlsx", async () => {
+        const expenses = await this.readExpensesFromExcel();
+        const expenseIndex = expenses.findIndex(expense => expense.id === id && isActive(expense));
+      
+        if (expenseIndex === -1) {
+          return undefined;
+        }
+      
+        const oldExpense = expenses[expenseIndex];
+        const merged = { ...oldExpense, ...updates };
+        merged.supplierStateCode = await this.resolveSupplierStateCode(merged.supplierId, merged.supplierStateCode);
+        const updatedExpense = {
+          ...merged,
+          ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, merged.supplierStateCode)),
+          ...(await this.categoryTaxFor("expense", merged, updates))
+        };
+        expenses[expenseIndex] = updatedExpense;
+        await this.writeExpensesToExcel(expenses);
+        await this.recordAudit("expenses", id, "update", oldExpense, updatedExpense);
+        return { oldExpense, updatedExpense };
+      });
     
-    if (expenseIndex === -1) {
-      return undefined;
-    }
+      if (!result) {
+        return undefined;
+      }
     
-    const oldExpense = expenses[expenseIndex];
-    const updatedExpense = { ...oldExpense, ...updates };
-    expenses[expenseIndex] = updatedExpense;
-    await this.writeExpensesToExcel(expenses);
-    
-    // Update production unit cost if amount changed
-    if (updates.amount && oldExpense.amount !== updates.amount) {
-      const unit = await this.getProductionUnit(oldExpense.productionUnitId);
-      if (unit) {
-        const oldAmount = parseFloat(oldExpense.amount.toString());
-        const newAmount = parseFloat(updates.amount.toString());
-        const difference = newAmount - oldAmount;
-        const currentCost = parseFloat(unit.costToDate.toString());
-        const newCost = currentCost + difference;
-        await this.updateProductionUnit(unit.id, { costToDate: newCost.toString() });
+      const { oldExpense, updatedExpense } = result;
+    
+      // Update production unit cost if the amount or the unit changed
+      const oldAmount = parseFloat(oldExpense.amount.toString());
+      const newAmount = parseFloat(updatedExpense.amount.toString());
+      if (updatedExpense.productionUnitId !== oldExpense.productionUnitId) {
+        await this.adjustProductionUnitCost(oldExpense.productionUnitId, -oldAmount);
+        await this.adjustProductionUnitCost(updatedExpense.productionUnitId, newAmount);
+      } else if (newAmount !== oldAmount) {
+        await this.adjustProductionUnitCost(oldExpense.productionUnitId, newAmount - oldAmount);
       }
-    }
     
-    return updatedExpense;
+      return updatedExpense;
+    });
   }
 
   async deleteExpense(id: number): Promise<boolean> {
-    const expenses = await this.readExpensesFromExcel();
-    const expenseToDelete = expenses.find(expense => expense.id === id);
+    return this.runInTransaction(async () => {
+      const expenseToDelete = await this.withWriteLock("expenses.xlsx", async () => {
+        const expenses = await this.readExpensesFromExcel();
+        const expenseIndex = expenses.findIndex(expense => expense.id === id && isActive(expense));
+      
+        if (expenseIndex === -1) {
+          return undefined;
+        }
+      
+        const expenseToDelete = expenses[expenseIndex];
+        expenses[expenseIndex] = { ...expenseToDelete, deletedAt: new Date() };
+        await this.writeExpensesToExcel(expenses);
+        await this.recordAudit("expenses", id, "delete", expenseToDelete, null);
+        return expenseToDelete;
+      });
     
-    if (!expenseToDelete) {
-      return false;
-    }
+      if (!expenseToDelete) {
+        return false;
+      }
     
-    const filteredExpenses = expenses.filter(expense => expense.id !== id);
-    await this.writeExpensesToExcel(filteredExpenses);
+      // Update production unit cost
+      await this.adjustProductionUnitCost(expenseToDelete.productionUnitId, -parseFloat(expenseToDelete.amount.toString()));
     
-    // Update production unit cost
-    const unit = await this.getProductionUnit(expenseToDelete.productionUnitId);
-    if (unit) {
-      const currentCost = parseFloat(unit.costToDate.toString());
-      const expenseAmount = parseFloat(expenseToDelete.amount.toString());
-      const newCost = currentCost - expenseAmount;
-      await this.updateProductionUnit(unit.id, { costToDate: newCost.toString() });
-    }
+      return true;
+    });
+  }
+
+  async restoreExpense(id: number): Promise<Expense | undefined> {
+    return this.runInTransaction(async () => {
+      const restoredExpense = await this.withWriteLock("expenses.xlsx", async () => {
+        const expenses = await this.readExpensesFromExcel();
+        const expenseIndex = expenses.findIndex(expense => expense.id === id && !isActive(expense));
+      
+        if (expenseIndex === -1) {
+          return undefined;
+        }
+      
+        const deletedExpense = expenses[expenseIndex];
+        const restoredExpense = { ...deletedExpense, deletedAt: null };
+        expenses[expenseIndex] = restoredExpense;
+        await this.writeExpensesToExcel(expenses);
+        await this.recordAudit("expenses", id, "restore", null, restoredExpense);
+        return restoredExpense;
+      });
+    
+      if (!restoredExpense) {
+        return undefined;
+      }
+    
+      // Charge the production unit again
+      await this.adjustProductionUnitCost(restoredExpense.productionUnitId, parseFloat(restoredExpense.amount.toString()));
+    
+      return restoredExpense;
+    });
+  }
+
+  async purgeExpense(id: number): Promise<boolean> {
+    return this.withWriteLock("expenses.xlsx", async () => {
+      const expenses = await this.readExpensesFromExcel();
+      const expenseToPurge = expenses.find(expense => expense.id === id && !isActive(expense));
+    
+      if (!expenseToPurge) {
+        return false;
+      }
     
-    return true;
+      await this.writeExpensesToExcel(expenses.filter(expense => expense.id !== id));
+      await this.recordAudit("expenses", id, "purge", expenseToPurge, null);
+      return true;
+    });
+  }
+
+  /**
+   * Adds delta to a production unit's costToDate as one locked
+   * read-modify-write, so concurrent expense changes don't lose updates
+   */
+  private async adjustProductionUnitCost(productionUnitId: number, delta: number): Promise<void> {
+    await this.withWriteLock("production_units.xlsx", async () => {
+      const units = await this.readProductionUnitsFromExcel();
+      const unitIndex = units.findIndex(unit => unit.id === productionUnitId);
+      
+      if (unitIndex === -1) {
+        return;
+      }
+      
+      const currentCost = parseFloat(units[unitIndex].costToDate.toString());
+      units[unitIndex] = { ...units[unitIndex], costToDate: (currentCost + delta).toString() };
+      await this.writeProductionUnitsToExcel(units);
+    });
   }
 
   // Revenue operations
   async getAllRevenues(): Promise<Revenue[]> {
-    return this.readRevenuesFromExcel();
+    const revenues = await this.readRevenuesFromExcel();
+    return revenues.filter(isActive);
+  }
+
+  async getRevenue(id: number): Promise<Revenue | undefined> {
+    const revenues = await this.readRevenuesFromExcel();
+    return revenues.find(revenue => revenue.id === id && isActive(revenue));
   }
 
   async getRevenuesByProductionUnit(productionUnitId: number): Promise<Revenue[]> {
     const revenues = await this.readRevenuesFromExcel();
-    return revenues.filter(revenue => revenue.productionUnitId === productionUnitId);
+    return revenues.filter(revenue => revenue.productionUnitId === productionUnitId && isActive(revenue));
   }
 
   async createRevenue(revenue: InsertRevenue): Promise<Revenue> {
-    const revenues = await this.readRevenuesFromExcel();
-    const newRevenue: Revenue = {
-      ...revenue,
-      id: this.revenueNextId++,
-      date: revenue.date || new Date(), // Ensure date is not undefined
-      baseAmount: revenue.baseAmount || null,
-      gstRate: revenue.gstRate || null,
-      gstAmount: revenue.gstAmount || null,
-      hsn: revenue.hsn || null,
-      invoiceNumber: revenue.invoiceNumber || null,
-      currency: revenue.currency || "INR",
-      orderId: revenue.orderId || null
-    };
+    return this.withWriteLock("revenues.xlsx", async () => {
+      const revenues = await this.readRevenuesFromExcel();
+      const placeOfSupply = await this.resolvePlaceOfSupply(revenue.productionUnitId, revenue.placeOfSupply);
+      const categoryTax = await this.categoryTaxFor("revenue", revenue);
+      const newRevenue: Revenue = {
+        ...revenue,
+        id: this.revenueNextId++,
+        date: revenue.date || new Date(), // Ensure date is not undefined
+        baseAmount: revenue.baseAmount || null,
+        gstAmount: revenue.gstAmount || null,
+        ...(await this.gstSplitFor(revenue.productionUnitId, revenue.gstAmount, placeOfSupply)),
+        ...categoryTax,
+        placeOfSupply,
+        invoiceNumber: revenue.invoiceNumber || null,
+        currency: revenue.currency || "INR",
+        orderId: revenue.orderId || null,
+        deletedAt: null
+      };
     
-    revenues.push(newRevenue);
-    await this.writeRevenuesToExcel(revenues);
-    return newRevenue;
+      revenues.push(newRevenue);
+      await this.writeRevenuesToExcel(revenues);
+      await this.recordAudit("revenues", newRevenue.id, "create", null, newRevenue);
+      return newRevenue;
+    });
   }
 
   async updateRevenue(id: number, updates: Partial<Revenue>): Promise<Revenue | undefined> {
-    const revenues = await this.readRevenuesFromExcel();
-    const revenueIndex = revenues.findIndex(revenue => revenue.id === id);
+    return this.withWriteLock("revenues.xlsx", async () => {
+      const revenues = await this.readRevenuesFromExcel();
+      const revenueIndex = revenues.findIndex(revenue => revenue.id === id && isActive(revenue));
     
-    if (revenueIndex === -1) {
-      return undefined;
-    }
+      if (revenueIndex === -1) {
+        return undefined;
+      }
     
-    const updatedRevenue = { ...revenues[revenueIndex], ...updates };
-    revenues[revenueIndex] = updatedRevenue;
-    await this.writeRevenuesToExcel(revenues);
-    return updatedRevenue;
+      const previousRevenue = revenues[revenueIndex];
+      const merged = { ...previousRevenue, ...updates };
+      const placeOfSupply = await this.resolvePlaceOfSupply(merged.productionUnitId, merged.placeOfSupply);
+      const updatedRevenue = {
+        ...merged,
+        ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, placeOfSupply)),
+        ...(await this.categoryTaxFor("revenue", merged, updates)),
+        placeOfSupply
+      };
+      revenues[revenueIndex] = updatedRevenue;
+      await this.writeRevenuesToExcel(revenues);
+      await this.recordAudit("revenues", id, "update", previousRevenue, updatedRevenue);
+      return updatedRevenue;
+    });
   }
 
   async deleteRevenue(id: number): Promise<boolean> {
-    const revenues = await this.readRevenuesFromExcel();
-    const filteredRevenues = revenues.filter(revenue => revenue.id !== id);
+    return this.withWriteLock("revenues.xlsx", async () => {
+      const revenues = await this.readRevenuesFromExcel();
+      const revenueIndex = revenues.findIndex(revenue => revenue.id === id && isActive(revenue));
     
-    if (filteredRevenues.length === revenues.length) {
-      return false;
-    }
+      if (revenueIndex === -1) {
+        return false;
+      }
+    
+      const revenueToDelete = revenues[revenueIndex];
+      revenues[revenueIndex] = { ...revenueToDelete, deletedAt: new Date() };
+      await this.writeRevenuesToExcel(revenues);
+      await this.recordAudit("revenues", id, "delete", revenueToDelete, null);
+      return true;
+    });
+  }
+
+  async restoreRevenue(id: number): Promise<Revenue | undefined> {
+    return this.withWriteLock("revenues.xlsx", async () => {
+      const revenues = await this.readRevenuesFromExcel();
+      const revenueIndex = revenues.findIndex(revenue => revenue.id === id && !isActive(revenue));
+    
+      if (revenueIndex === -1) {
+        return undefined;
+      }
+    
+      const deletedRevenue = revenues[revenueIndex];
+      const restoredRevenue = { ...deletedRevenue, deletedAt: null };
+      revenues[revenueIndex] = restoredRevenue;
+      await this.writeRevenuesToExcel(revenues);
+      await this.recordAudit("revenues", id, "restore", null, restoredRevenue);
+      return restoredRevenue;
+    });
+  }
+
+  async purgeRevenue(id: number): Promise<boolean> {
+    return this.withWriteLock("revenues.xlsx", async () => {
+      const revenues = await this.readRevenuesFromExcel();
+      const revenueToPurge = revenues.find(revenue => revenue.id === id && !isActive(revenue));
+    
+      if (!revenueToPurge) {
+        return false;
+      }
     
-    await this.writeRevenuesToExcel(filteredRevenues);
-    return true;
+      await this.writeRevenuesToExcel(revenues.filter(revenue => revenue.id !== id));
+      await this.recordAudit("revenues", id, "purge", revenueToPurge, null);
+      return true;
+    });
   }
 
   // Inventory operations
@@ -428,45 +1038,55 @@ export class ExcelStorage implements IStorage {
   }
 
   async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
-    const items = await this.readInventoryFromExcel();
-    const newItem: InventoryItem = {
-      ...item,
-      id: this.inventoryNextId++,
-      quantity: item.quantity || "0",
-      productionUnitId: item.productionUnitId || null,
-      description: item.description || null,
-      createdAt: new Date(),
-    };
+    return this.withWriteLock("inventory.xlsx", async () => {
+      const items = await this.readInventoryFromExcel();
+      const newItem: InventoryItem = {
+        ...item,
+        id: this.inventoryNextId++,
+        quantity: item.quantity || "0",
+        productionUnitId: item.productionUnitId || null,
+        description: item.description || null,
+        createdAt: new Date(),
+      };
     
-    items.push(newItem);
-    await this.writeInventoryToExcel(items);
-    return newItem;
+      items.push(newItem);
+      await this.writeInventoryToExcel(items);
+      await this.recordAudit("inventory_items", newItem.id, "create", null, newItem);
+      return newItem;
+    });
   }
 
   async updateInventoryItem(id: number, updates: Partial<InventoryItem>): Promise<InventoryItem | undefined> {
-    const items = await this.readInventoryFromExcel();
-    const itemIndex = items.findIndex(item => item.id === id);
+    return this.withWriteLock("inventory.xlsx", async () => {
+      const items = await this.readInventoryFromExcel();
+      const itemIndex = items.findIndex(item => item.id === id);
     
-    if (itemIndex === -1) {
-      return undefined;
-    }
+      if (itemIndex === -1) {
+        return undefined;
+      }
     
-    const updatedItem = { ...items[itemIndex], ...updates };
-    items[itemIndex] = updatedItem;
-    await this.writeInventoryToExcel(items);
-    return updatedItem;
+      const previousItem = items[itemIndex];
+      const updatedItem = { ...previousItem, ...updates };
+      items[itemIndex] = updatedItem;
+      await this.writeInventoryToExcel(items);
+      await this.recordAudit("inventory_items", id, "update", previousItem, updatedItem);
+      return updatedItem;
+    });
   }
 
   async deleteInventoryItem(id: number): Promise<boolean> {
-    const items = await this.readInventoryFromExcel();
-    const filteredItems = items.filter(item => item.id !== id);
+    return this.withWriteLock("inventory.xlsx", async () => {
+      const items = await this.readInventoryFromExcel();
+      const filteredItems = items.filter(item => item.id !== id);
     
-    if (filteredItems.length === items.length) {
-      return false;
-    }
+      if (filteredItems.length === items.length) {
+        return false;
+      }
     
-    await this.writeInventoryToExcel(filteredItems);
-    return true;
+      await this.writeInventoryToExcel(filteredItems);
+      await this.recordAudit("inventory_items", id, "delete", items.find(item => item.id === id), null);
+      return true;
+    });
   }
 
   // Report operations
@@ -475,36 +1095,40 @@ export class ExcelStorage implements IStorage {
   }
 
   async createReport(report: InsertReport): Promise<Report> {
-    const reports = await this.readReportsFromExcel();
-    const newReport: Report = {
-      ...report,
-      id: this.reportNextId++,
-      generatedAt: new Date(),
-    };
+    return this.withWriteLock("reports.xlsx", async () => {
+      const reports = await this.readReportsFromExcel();
+      const newReport: Report = {
+        ...report,
+        id: this.reportNextId++,
+        generatedAt: new Date(),
+      };
     
-    reports.push(newReport);
-    await this.writeReportsToExcel(reports);
-    return newReport;
+      reports.push(newReport);
+      await this.writeReportsToExcel(reports);
+      return newReport;
+    });
   }
 
   async deleteReport(id: number): Promise<boolean> {
-    const reports = await this.readReportsFromExcel();
-    const reportToDelete = reports.find(report => report.id === id);
+    return this.withWriteLock("reports.xlsx", async () => {
+      const reports = await this.readReportsFromExcel();
+      const reportToDelete = reports.find(report => report.id === id);
     
-    if (!reportToDelete) {
-      return false;
-    }
+      if (!reportToDelete) {
+        return false;
+      }
     
-    // Delete the report file
-    try {
-      await fs.unlink(reportToDelete.filePath);
-    } catch (error) {
-      console.error("Error deleting report file:", error);
-    }
+      // Delete the report file
+      try {
+        await fs.unlink(reportToDelete.filePath);
+      } catch (error) {
+        console.error("Error deleting report file:", error);
+      }
     
-    const filteredReports = reports.filter(report => report.id !== id);
-    await this.writeReportsToExcel(filteredReports);
-    return true;
+      const filteredReports = reports.filter(report => report.id !== id);
+      await this.writeReportsToExcel(filteredReports);
+      return true;
+    });
   }
   
   // Customer operations
@@ -518,373 +1142,1486 @@ export class ExcelStorage implements IStorage {
   }
   
   async createCustomer(customer: InsertCustomer): Promise<Customer> {
-    const customers = await this.readCustomersFromExcel();
-    const newCustomer: Customer = {
-      ...customer,
-      id: this.customerNextId++,
-      createdAt: new Date(),
-      phone: customer.phone || null,
-      email: customer.email || null,
-      address: customer.address || null,
-      gstin: customer.gstin || null,
-      notes: customer.notes || null
-    };
+    return this.withWriteLock("customers.xlsx", async () => {
+      const customers = await this.readCustomersFromExcel();
+      const newCustomer: Customer = {
+        ...customer,
+        id: this.customerNextId++,
+        createdAt: new Date(),
+        phone: customer.phone || null,
+        email: customer.email || null,
+        address: customer.address || null,
+        gstin: customer.gstin || null,
+        stateCode: resolveStateCode(customer.stateCode, customer.gstin) || null,
+        notes: customer.notes || null
+      };
     
-    customers.push(newCustomer);
-    await this.writeCustomersToExcel(customers);
-    return newCustomer;
+      customers.push(newCustomer);
+      await this.writeCustomersToExcel(customers);
+      await this.recordAudit("customers", newCustomer.id, "create", null, newCustomer);
+      return newCustomer;
+    });
   }
   
   async updateCustomer(id: number, updates: Partial<Customer>): Promise<Customer | undefined> {
-    const customers = await this.readCustomersFromExcel();
-    const customerIndex = customers.findIndex(customer => customer.id === id);
+    return this.withWriteLock("customers.xlsx", async () => {
+      const customers = await this.readCustomersFromExcel();
+      const customerIndex = customers.findIndex(customer => customer.id === id);
     
-    if (customerIndex === -1) {
-      return undefined;
-    }
+      if (customerIndex === -1) {
+        return undefined;
+      }
     
-    const updatedCustomer = { ...customers[customerIndex], ...updates };
-    customers[customerIndex] = updatedCustomer;
-    await this.writeCustomersToExcel(customers);
-    return updatedCustomer;
+      const previousCustomer = customers[customerIndex];
+      const updatedCustomer = { ...previousCustomer, ...updates };
+      updatedCustomer.stateCode = resolveStateCode(updatedCustomer.stateCode, updatedCustomer.gstin) || null;
+      customers[customerIndex] = updatedCustomer;
+      await this.writeCustomersToExcel(customers);
+      await this.recordAudit("customers", id, "update", previousCustomer, updatedCustomer);
+      return updatedCustomer;
+    });
   }
   
   async deleteCustomer(id: number): Promise<boolean> {
-    // First check if there are any orders for this customer
-    const orders = await this.readOrdersFromExcel();
-    const hasOrders = orders.some(order => order.customerId === id);
-    
-    if (hasOrders) {
-      // Cannot delete customer with existing orders
-      return false;
-    }
-    
-    const customers = await this.readCustomersFromExcel();
-    const filteredCustomers = customers.filter(customer => customer.id !== id);
-    
-    if (filteredCustomers.length === customers.length) {
-      return false;
-    }
-    
-    await this.writeCustomersToExcel(filteredCustomers);
-    return true;
-  }
-  
-  // Order operations
-  async getAllOrders(): Promise<Order[]> {
-    return this.readOrdersFromExcel();
+    return this.runInTransaction(async () => {
+      // Hold the orders lock too so no order can be created for this customer meanwhile
+      return this.withWriteLock("orders.xlsx", () => this.withWriteLock("customers.xlsx", async () => {
+        // First check if there are any orders for this customer
+        const orders = await this.readOrdersFromExcel();
+        const hasOrders = orders.some(order => order.customerId === id);
+      
+        if (hasOrders) {
+          // Cannot delete customer with existing orders
+          return false;
+        }
+      
+        const customers = await this.readCustomersFromExcel();
+        const filteredCustomers = customers.filter(customer => customer.id !== id);
+      
+        if (filteredCustomers.length === customers.length) {
+          return false;
+        }
+      
+        await this.writeCustomersToExcel(filteredCustomers);
+        await this.recordAudit("customers", id, "delete", customers.find(customer => customer.id === id), null);
+      
+        // The customer's measurement profiles go with them
+        for (const profile of await this.getMeasurementProfiles(id)) {
+          await this.deleteMeasurementProfile(profile.id);
+        }
+        return true;
+      }));
+    });
+  }
+  
+  // Supplier operations
+  async getAllSuppliers(): Promise<Supplier[]> {
+    return this.readSuppliersFromExcel();
+  }
+
+  async getSupplier(id: number): Promise<Supplier | undefined> {
+    const suppliers = await this.readSuppliersFromExcel();
+    return suppliers.find(supplier => supplier.id === id);
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    return this.withWriteLock("suppliers.xlsx", async () => {
+      const suppliers = await this.readSuppliersFromExcel();
+      const newSupplier: Supplier = {
+        ...supplier,
+        id: this.supplierNextId++,
+        gstin: supplier.gstin || null,
+        stateCode: resolveStateCode(supplier.stateCode, supplier.gstin) || null,
+        contactPerson: supplier.contactPerson || null,
+        phone: supplier.phone || null,
+        email: supplier.email || null,
+        address: supplier.address || null,
+        paymentTermsDays: supplier.paymentTermsDays || 0,
+        notes: supplier.notes || null,
+        createdAt: new Date()
+      };
+      
+      suppliers.push(newSupplier);
+      await this.writeSuppliersToExcel(suppliers);
+      await this.recordAudit("suppliers", newSupplier.id, "create", null, newSupplier);
+      return newSupplier;
+    });
+  }
+
+  async updateSupplier(id: number, updates: Partial<Supplier>): Promise<Supplier | undefined> {
+    return this.withWriteLock("suppliers.xlsx", async () => {
+      const suppliers = await this.readSuppliersFromExcel();
+      const supplierIndex = suppliers.findIndex(supplier => supplier.id === id);
+      
+      if (supplierIndex === -1) {
+        return undefined;
+      }
+      
+      const previousSupplier = suppliers[supplierIndex];
+      const updatedSupplier = { ...previousSupplier, ...updates };
+      updatedSupplier.stateCode = resolveStateCode(updatedSupplier.stateCode, updatedSupplier.gstin) || null;
+      suppliers[supplierIndex] = updatedSupplier;
+      await this.writeSuppliersToExcel(suppliers);
+      await this.recordAudit("suppliers", id, "update", previousSupplier, updatedSupplier);
+      return updatedSupplier;
+    });
+  }
+
+  async deleteSupplier(id: number): Promise<boolean> {
+    return this.runInTransaction(() =>
+      // Hold the expenses lock too so no expense can be booked to this supplier meanwhile
+      this.withWriteLock("expenses.xlsx", () => this.withWriteLock("suppliers.xlsx", async () => {
+        // Cannot delete a supplier with expenses, including ones in the recycle bin
+        const expenses = await this.readExpensesFromExcel();
+        if (expenses.some(expense => expense.supplierId === id)) {
+          return false;
+        }
+        
+        const suppliers = await this.readSuppliersFromExcel();
+        const filteredSuppliers = suppliers.filter(supplier => supplier.id !== id);
+        
+        if (filteredSuppliers.length === suppliers.length) {
+          return false;
+        }
+        
+        await this.writeSuppliersToExcel(filteredSuppliers);
+        await this.recordAudit("suppliers", id, "delete", suppliers.find(supplier => supplier.id === id), null);
+        return true;
+      }))
+    );
+  }
+  
+  // Tax master operations
+  async getAllHsnCodes(): Promise<HsnCode[]> {
+    return this.readHsnCodesFromExcel();
+  }
+
+  async getHsnCode(id: number): Promise<HsnCode | undefined> {
+    const hsnCodes = await this.readHsnCodesFromExcel();
+    return hsnCodes.find(hsnCode => hsnCode.id === id);
+  }
+
+  async createHsnCode(hsnCode: InsertHsnCode): Promise<HsnCode> {
+    return this.withWriteLock("hsn_codes.xlsx", async () => {
+      const hsnCodes = await this.readHsnCodesFromExcel();
+      const newHsnCode: HsnCode = {
+        ...hsnCode,
+        id: this.hsnCodeNextId++
+      };
+      
+      hsnCodes.push(newHsnCode);
+      await this.writeHsnCodesToExcel(hsnCodes);
+      await this.recordAudit("hsn_codes", newHsnCode.id, "create", null, newHsnCode);
+      return newHsnCode;
+    });
+  }
+
+  async updateHsnCode(id: number, updates: Partial<HsnCode>): Promise<HsnCode | undefined> {
+    return this.withWriteLock("hsn_codes.xlsx", async () => {
+      const hsnCodes = await this.readHsnCodesFromExcel();
+      const hsnCodeIndex = hsnCodes.findIndex(hsnCode => hsnCode.id === id);
+      
+      if (hsnCodeIndex === -1) {
+        return undefined;
+      }
+      
+      const previousHsnCode = hsnCodes[hsnCodeIndex];
+      const updatedHsnCode = { ...previousHsnCode, ...updates };
+      hsnCodes[hsnCodeIndex] = updatedHsnCode;
+      await this.writeHsnCodesToExcel(hsnCodes);
+      await this.recordAudit("hsn_codes", id, "update", previousHsnCode, updatedHsnCode);
+      return updatedHsnCode;
+    });
+  }
+
+  async deleteHsnCode(id: number): Promise<boolean> {
+    return this.runInTransaction(() =>
+      // Hold the categories lock too so no category can take up this code meanwhile
+      this.withWriteLock("tax_categories.xlsx", () => this.withWriteLock("hsn_codes.xlsx", async () => {
+        const hsnCodes = await this.readHsnCodesFromExcel();
+        const hsnCode = hsnCodes.find(existing => existing.id === id);
+        if (!hsnCode) {
+          return false;
+        }
+        
+        // Cannot delete a code a category is billed under or whose rate has changed
+        const categories = await this.readTaxCategoriesFromExcel();
+        const versions = await this.readGstRateVersionsFromExcel();
+        if (categories.some(category => category.hsnCode === hsnCode.code) ||
+            versions.some(version => version.hsnCode === hsnCode.code)) {
+          return false;
+        }
+        
+        await this.writeHsnCodesToExcel(hsnCodes.filter(existing => existing.id !== id));
+        await this.recordAudit("hsn_codes", id, "delete", hsnCode, null);
+        return true;
+      }))
+    );
+  }
+
+  async getAllTaxCategories(): Promise<TaxCategory[]> {
+    return this.readTaxCategoriesFromExcel();
+  }
+
+  async getTaxCategory(id: number): Promise<TaxCategory | undefined> {
+    const categories = await this.readTaxCategoriesFromExcel();
+    return categories.find(category => category.id === id);
+  }
+
+  async createTaxCategory(category: InsertTaxCategory): Promise<TaxCategory> {
+    return this.withWriteLock("tax_categories.xlsx", async () => {
+      const categories = await this.readTaxCategoriesFromExcel();
+      const newCategory: TaxCategory = {
+        ...category,
+        id: this.taxCategoryNextId++,
+        hsnCode: category.hsnCode || null,
+        gstRate: category.gstRate ?? null
+      };
+      
+      categories.push(newCategory);
+      await this.writeTaxCategoriesToExcel(categories);
+      await this.recordAudit("tax_categories", newCategory.id, "create", null, newCategory);
+      return newCategory;
+    });
+  }
+
+  async updateTaxCategory(id: number, updates: Partial<TaxCategory>): Promise<TaxCategory | undefined> {
+    return this.withWriteLock("tax_categories.xlsx", async () => {
+      const categories = await this.readTaxCategoriesFromExcel();
+      const categoryIndex = categories.findIndex(category => category.id === id);
+      
+      if (categoryIndex === -1) {
+        return undefined;
+      }
+      
+      const previousCategory = categories[categoryIndex];
+      const updatedCategory = { ...previousCategory, ...updates };
+      categories[categoryIndex] = updatedCategory;
+      await this.writeTaxCategoriesToExcel(categories);
+      await this.recordAudit("tax_categories", id, "update", previousCategory, updatedCategory);
+      return updatedCategory;
+    });
+  }
+
+  async deleteTaxCategory(id: number): Promise<boolean> {
+    return this.withWriteLock("tax_categories.xlsx", async () => {
+      const categories = await this.readTaxCategoriesFromExcel();
+      const category = categories.find(existing => existing.id === id);
+      
+      if (!category) {
+        return false;
+      }
+      
+      // Records keep the category name they were saved with, and its rate
+      // changes stay for the records whose rate was taken from them
+      await this.writeTaxCategoriesToExcel(categories.filter(existing => existing.id !== id));
+      await this.recordAudit("tax_categories", id, "delete", category, null);
+      return true;
+    });
+  }
+
+  async getAllGstRateVersions(): Promise<GstRateVersion[]> {
+    return this.readGstRateVersionsFromExcel();
+  }
+
+  async createGstRateVersion(version: InsertGstRateVersion): Promise<GstRateVersion> {
+    return this.withWriteLock("gst_rate_versions.xlsx", async () => {
+      const versions = await this.readGstRateVersionsFromExcel();
+      const newVersion: GstRateVersion = {
+        ...version,
+        id: this.gstRateVersionNextId++,
+        hsnCode: version.hsnCode || null,
+        categoryId: version.categoryId || null,
+        notification: version.notification || null
+      };
+      
+      versions.push(newVersion);
+      await this.writeGstRateVersionsToExcel(versions);
+      await this.recordAudit("gst_rate_versions", newVersion.id, "create", null, newVersion);
+      return newVersion;
+    });
+  }
+
+  async deleteGstRateVersion(id: number): Promise<boolean> {
+    return this.withWriteLock("gst_rate_versions.xlsx", async () => {
+      const versions = await this.readGstRateVersionsFromExcel();
+      const version = versions.find(existing => existing.id === id);
+      if (!version) {
+        return false;
+      }
+      
+      // Cannot delete a rate change a record's rate was taken from, even one in the recycle bin
+      const [expenses, revenues, orders] = await Promise.all([
+        this.readExpensesFromExcel(),
+        this.readRevenuesFromExcel(),
+        this.readOrdersFromExcel()
+      ]);
+      if ([...expenses, ...revenues, ...orders].some(record => record.gstRateVersionId === id)) {
+        return false;
+      }
+      
+      await this.writeGstRateVersionsToExcel(versions.filter(existing => existing.id !== id));
+      await this.recordAudit("gst_rate_versions", id, "delete", version, null);
+      return true;
+    });
+  }
+  
+  // Measurement profile operations
+  async getMeasurementProfiles(customerId: number): Promise<MeasurementProfile[]> {
+    const profiles = await this.readMeasurementProfilesFromExcel();
+    return profiles
+      .filter(profile => profile.customerId === customerId)
+      .sort((a, b) => a.version - b.version);
+  }
+  
+  async createMeasurementProfile(profile: InsertMeasurementProfile): Promise<MeasurementProfile> {
+    return this.withWriteLock("measurement_profiles.xlsx", async () => {
+      const profiles = await this.readMeasurementProfilesFromExcel();
+      const latestVersion = profiles
+        .filter(existing => existing.customerId === profile.customerId && existing.garmentType === profile.garmentType)
+        .reduce((max, existing) => Math.max(max, existing.version), 0);
+      
+      const newProfile: MeasurementProfile = {
+        ...profile,
+        id: this.measurementProfileNextId++,
+        version: latestVersion + 1,
+        unit: profile.unit || "in",
+        notes: profile.notes || null,
+        takenAt: profile.takenAt || new Date()
+      };
+      
+      profiles.push(newProfile);
+      await this.writeMeasurementProfilesToExcel(profiles);
+      await this.recordAudit("measurement_profiles", newProfile.id, "create", null, newProfile);
+      return newProfile;
+    });
+  }
+  
+  async deleteMeasurementProfile(id: number): Promise<boolean> {
+    return this.withWriteLock("measurement_profiles.xlsx", async () => {
+      const profiles = await this.readMeasurementProfilesFromExcel();
+      const profileToDelete = profiles.find(profile => profile.id === id);
+      
+      if (!profileToDelete) {
+        return false;
+      }
+      
+      await this.writeMeasurementProfilesToExcel(profiles.filter(profile => profile.id !== id));
+      await this.recordAudit("measurement_profiles", id, "delete", profileToDelete, null);
+      return true;
+    });
+  }
+  
+  // Order operations
+  async getAllOrders(): Promise<Order[]> {
+    const orders = await this.readOrdersFromExcel();
+    return orders.filter(isActive);
   }
   
   async getOrdersByCustomer(customerId: number): Promise<Order[]> {
     const orders = await this.readOrdersFromExcel();
-    return orders.filter(order => order.customerId === customerId);
+    return orders.filter(order => order.customerId === customerId && isActive(order));
   }
   
   async getOrdersByProductionUnit(productionUnitId: number): Promise<Order[]> {
     const orders = await this.readOrdersFromExcel();
-    return orders.filter(order => order.productionUnitId === productionUnitId);
+    return orders.filter(order => order.productionUnitId === productionUnitId && isActive(order));
   }
   
   async getOrder(id: number): Promise<Order | undefined> {
     const orders = await this.readOrdersFromExcel();
-    return orders.find(order => order.id === id);
+    return orders.find(order => order.id === id && isActive(order));
   }
   
   async createOrder(order: InsertOrder): Promise<Order> {
-    const orders = await this.readOrdersFromExcel();
+    return this.runInTransaction(async () => {
+      const newOrder = await this.withWriteLock("orders.xlsx", async () => {
+        const orders = await this.readOrdersFromExcel();
+      
+        // Generate an order number if not provided
+        const orderNumber = order.orderNumber || `ORD-${new Date().getFullYear()}-${this.orderNextId.toString().padStart(4, '0')}`;
+      
+        const placeOfSupply = await this.resolvePlaceOfSupply(order.productionUnitId, order.placeOfSupply, order.customerId);
+        const categoryTax = await this.categoryTaxFor("revenue", { ...order, date: order.orderDate });
+        const newOrder: Order = {
+          ...order,
+          id: this.orderNextId++,
+          orderNumber,
+          customerId: order.customerId,
+          productionUnitId: order.productionUnitId,
+          orderDate: order.orderDate || new Date(),
+          deliveryDate: order.deliveryDate || null,
+          status: order.status || "pending",
+          totalAmount: order.totalAmount || "0",
+          paidAmount: "0",
+          baseAmount: order.baseAmount || null,
+          gstAmount: order.gstAmount || null,
+          ...(await this.gstSplitFor(order.productionUnitId, order.gstAmount, placeOfSupply)),
+          ...categoryTax,
+          placeOfSupply,
+          invoiceNumber: order.invoiceNumber || null,
+          description: order.description || null,
+          currency: order.currency || "INR",
+          measurements: order.measurements || null,
+          fabricDetails: order.fabricDetails || null,
+          specialInstructions: order.specialInstructions || null,
+          deletedAt: null
+        };
+      
+        orders.push(newOrder);
+        await this.writeOrdersToExcel(orders);
+        await this.recordAudit("orders", newOrder.id, "create", null, newOrder);
+        return newOrder;
+      });
     
-    // Generate an order number if not provided
-    const orderNumber = order.orderNumber || `ORD-${new Date().getFullYear()}-${this.orderNextId.toString().padStart(4, '0')}`;
-    
-    const newOrder: Order = {
-      ...order,
-      id: this.orderNextId++,
-      orderNumber,
-      customerId: order.customerId,
-      productionUnitId: order.productionUnitId,
-      orderDate: order.orderDate || new Date(),
-      deliveryDate: order.deliveryDate || null,
-      status: order.status || "pending",
-      totalAmount: order.totalAmount || "0",
-      paidAmount: order.paidAmount || "0",
-      baseAmount: order.baseAmount || null,
-      gstRate: order.gstRate || null,
-      gstAmount: order.gstAmount || null,
-      hsn: order.hsn || null,
-      invoiceNumber: order.invoiceNumber || null,
-      description: order.description || null,
-      currency: order.currency || "INR",
-      measurements: order.measurements || null,
-      fabricDetails: order.fabricDetails || null,
-      specialInstructions: order.specialInstructions || null
-    };
+      // If this order has an amount and is not cancelled, create a corresponding revenue entry
+      if (parseFloat(newOrder.totalAmount) > 0 && newOrder.status !== "cancelled") {
+        await this.createRevenue(this.revenueForOrder(newOrder));
+      }
     
-    orders.push(newOrder);
-    await this.writeOrdersToExcel(orders);
-    
-    // If this order has an amount and is not a draft, create a corresponding revenue entry
-    if (parseFloat(newOrder.totalAmount) > 0 && newOrder.status !== "draft") {
-      await this.createRevenue({
-        productionUnitId: newOrder.productionUnitId,
-        description: `Order ${newOrder.orderNumber}: ${newOrder.description || 'Stitching services'}`,
-        amount: newOrder.totalAmount,
-        date: newOrder.orderDate,
-        category: "Stitching",
-        baseAmount: newOrder.baseAmount,
-        gstRate: newOrder.gstRate,
-        gstAmount: newOrder.gstAmount,
-        hsn: newOrder.hsn,
-        invoiceNumber: newOrder.invoiceNumber,
-        currency: newOrder.currency,
-        orderId: newOrder.id
+      return newOrder;
+    });
+  }
+  
+  async updateOrder(id: number, updates: Partial<Order>): Promise<Order | undefined> {
+    return this.runInTransaction(async () => {
+      const result = await this.withWriteLock("orders.xlsx", async () => {
+        const orders = await this.readOrdersFromExcel();
+        const orderIndex = orders.findIndex(order => order.id === id && isActive(order));
+      
+        if (orderIndex === -1) {
+          return undefined;
+        }
+      
+        const oldOrder = orders[orderIndex];
+        const merged = { ...oldOrder, ...updates };
+        const placeOfSupply = await this.resolvePlaceOfSupply(merged.productionUnitId, merged.placeOfSupply, merged.customerId);
+        const updatedOrder = {
+          ...merged,
+          ...(await this.gstSplitFor(merged.productionUnitId, merged.gstAmount, placeOfSupply)),
+          ...(await this.categoryTaxFor("revenue", { ...merged, date: merged.orderDate }, { ...updates, date: updates.orderDate })),
+          placeOfSupply
+        };
+        orders[orderIndex] = updatedOrder;
+        await this.writeOrdersToExcel(orders);
+        await this.recordAudit("orders", id, "update", oldOrder, updatedOrder);
+        return { oldOrder, updatedOrder };
       });
-    }
     
-    return newOrder;
+      if (!result) {
+        return undefined;
+      }
+    
+      const { oldOrder, updatedOrder } = result;
+      await this.syncOrderRevenue(oldOrder, updatedOrder);
+    
+      return updatedOrder;
+    });
   }
   
-  async updateOrder(id: number, updates: Partial<Order>): Promise<Order | undefined> {
-    const orders = await this.readOrdersFromExcel();
-    const orderIndex = orders.findIndex(order => order.id === id);
+  async deleteOrder(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.withWriteLock("orders.xlsx", async () => {
+        const orders = await this.readOrdersFromExcel();
+        const orderIndex = orders.findIndex(order => order.id === id && isActive(order));
+      
+        if (orderIndex === -1) {
+          return false;
+        }
+      
+        const orderToDelete = orders[orderIndex];
+        const deletedOrder = { ...orderToDelete, deletedAt: new Date() };
+        orders[orderIndex] = deletedOrder;
+        await this.writeOrdersToExcel(orders);
+        await this.recordAudit("orders", id, "delete", orderToDelete, null);
+        return deletedOrder;
+      });
     
-    if (orderIndex === -1) {
-      return undefined;
-    }
+      if (!deleted) {
+        return false;
+      }
+    
+      // Move the associated revenue entry to the recycle bin too
+      const revenues = await this.readRevenuesFromExcel();
+      const revenueToDelete = revenues.find(revenue => revenue.orderId === id && isActive(revenue));
+      if (revenueToDelete) {
+        await this.deleteRevenue(revenueToDelete.id);
+      }
     
-    const oldOrder = orders[orderIndex];
-    const updatedOrder = { ...oldOrder, ...updates };
-    orders[orderIndex] = updatedOrder;
-    await this.writeOrdersToExcel(orders);
+      // And the order's payments, stamped with the order's deletion time so restoring
+      // the order can tell them from payments deleted on their own
+      await this.withWriteLock("payments.xlsx", async () => {
+        const payments = await this.readPaymentsFromExcel();
+        const orderPayments = payments.filter(payment => payment.orderId === id && isActive(payment));
+        for (const payment of orderPayments) {
+          payments[payments.indexOf(payment)] = { ...payment, deletedAt: deleted.deletedAt };
+          await this.recordAudit("payments", payment.id, "delete", payment, null);
+        }
+        if (orderPayments.length > 0) {
+          await this.writePaymentsToExcel(payments);
+        }
+      });
     
-    // If the amount or status changed, update the corresponding revenue entry
-    if ((updates.totalAmount && updates.totalAmount !== oldOrder.totalAmount) || 
-        (updates.status && updates.status !== oldOrder.status)) {
+      return true;
+    });
+  }
+  
+  async restoreOrder(id: number): Promise<Order | undefined> {
+    return this.runInTransaction(async () => {
+      const result = await this.withWriteLock("orders.xlsx", async () => {
+        const orders = await this.readOrdersFromExcel();
+        const orderIndex = orders.findIndex(order => order.id === id && !isActive(order));
+      
+        if (orderIndex === -1) {
+          return undefined;
+        }
+      
+        const deletedOrder = orders[orderIndex];
+        const restoredOrder = { ...deletedOrder, deletedAt: null };
+        orders[orderIndex] = restoredOrder;
+        await this.writeOrdersToExcel(orders);
+        await this.recordAudit("orders", id, "restore", null, restoredOrder);
+        return { deletedOrder, restoredOrder };
+      });
+    
+      if (!result) {
+        return undefined;
+      }
+    
+      const { deletedOrder, restoredOrder } = result;
+    
+      // Bring back the payments deleted along with the order
+      await this.withWriteLock("payments.xlsx", async () => {
+        const payments = await this.readPaymentsFromExcel();
+        const orderPayments = payments.filter(payment =>
+          payment.orderId === id && !isActive(payment) &&
+          new Date(payment.deletedAt!).getTime() === new Date(deletedOrder.deletedAt!).getTime()
+        );
+        for (const payment of orderPayments) {
+          const restoredPayment = { ...payment, deletedAt: null };
+          payments[payments.indexOf(payment)] = restoredPayment;
+          await this.recordAudit("payments", payment.id, "restore", null, restoredPayment);
+        }
+        if (orderPayments.length > 0) {
+          await this.writePaymentsToExcel(payments);
+        }
+      });
+    
+      // Bring back the order's revenue entry unless it already has an active one.
+      // A cancelled order's revenue stays voided.
+      if (restoredOrder.status === "cancelled") {
+        return restoredOrder;
+      }
       
-      // Find the associated revenue entry
       const revenues = await this.readRevenuesFromExcel();
-      const revenueIndex = revenues.findIndex(revenue => revenue.orderId === id);
-      
-      if (revenueIndex !== -1) {
-        // Update the existing revenue entry
-        const revenue = revenues[revenueIndex];
-        await this.updateRevenue(revenue.id, {
-          description: `Order ${updatedOrder.orderNumber}: ${updatedOrder.description || 'Stitching services'}`,
-          amount: updatedOrder.totalAmount,
-          baseAmount: updatedOrder.baseAmount,
-          gstRate: updatedOrder.gstRate,
-          gstAmount: updatedOrder.gstAmount,
-          hsn: updatedOrder.hsn,
-          invoiceNumber: updatedOrder.invoiceNumber,
-          currency: updatedOrder.currency
-        });
-      } else if (parseFloat(updatedOrder.totalAmount) > 0 && updatedOrder.status !== "draft") {
-        // Create a new revenue entry if none exists and order is not a draft
-        await this.createRevenue({
-          productionUnitId: updatedOrder.productionUnitId,
-          description: `Order ${updatedOrder.orderNumber}: ${updatedOrder.description || 'Stitching services'}`,
-          amount: updatedOrder.totalAmount,
-          date: updatedOrder.orderDate,
-          category: "Stitching",
-          baseAmount: updatedOrder.baseAmount,
-          gstRate: updatedOrder.gstRate,
-          gstAmount: updatedOrder.gstAmount,
-          hsn: updatedOrder.hsn,
-          invoiceNumber: updatedOrder.invoiceNumber,
-          currency: updatedOrder.currency,
-          orderId: updatedOrder.id
-        });
+      const linkedRevenues = revenues.filter(revenue => revenue.orderId === id);
+      const deletedRevenue = linkedRevenues.filter(revenue => !isActive(revenue)).pop();
+      if (deletedRevenue && !linkedRevenues.some(isActive)) {
+        await this.restoreRevenue(deletedRevenue.id);
       }
-    }
     
-    return updatedOrder;
+      return restoredOrder;
+    });
   }
   
-  async deleteOrder(id: number): Promise<boolean> {
-    const orders = await this.readOrdersFromExcel();
-    const orderToDelete = orders.find(order => order.id === id);
+  async purgeOrder(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.withWriteLock("orders.xlsx", async () => {
+        const orders = await this.readOrdersFromExcel();
+        const orderToPurge = orders.find(order => order.id === id && !isActive(order));
+      
+        if (!orderToPurge) {
+          return false;
+        }
+      
+        await this.writeOrdersToExcel(orders.filter(order => order.id !== id));
+        await this.recordAudit("orders", id, "purge", orderToPurge, null);
+        return true;
+      });
     
-    if (!orderToDelete) {
-      return false;
-    }
+      if (!purged) {
+        return false;
+      }
     
-    // Remove the associated revenue entry if exists
-    const revenues = await this.readRevenuesFromExcel();
-    const revenueToDelete = revenues.find(revenue => revenue.orderId === id);
-    if (revenueToDelete) {
-      await this.deleteRevenue(revenueToDelete.id);
-    }
+      // Purge the order's deleted revenue entries and payments, which would otherwise point nowhere
+      const revenues = await this.readRevenuesFromExcel();
+      for (const revenue of revenues.filter(revenue => revenue.orderId === id && !isActive(revenue))) {
+        await this.purgeRevenue(revenue.id);
+      }
+    
+      const payments = await this.readPaymentsFromExcel();
+      for (const payment of payments.filter(payment => payment.orderId === id && !isActive(payment))) {
+        await this.purgePayment(payment.id);
+      }
     
-    const filteredOrders = orders.filter(order => order.id !== id);
-    await this.writeOrdersToExcel(filteredOrders);
-    return true;
+      return true;
+    });
+  }
+  
+  // Payment operations
+  async getAllPayments(): Promise<Payment[]> {
+    const payments = await this.readPaymentsFromExcel();
+    return payments.filter(isActive);
+  }
+  
+  async getPaymentsByOrder(orderId: number): Promise<Payment[]> {
+    const payments = await this.readPaymentsFromExcel();
+    return payments.filter(payment => payment.orderId === orderId && isActive(payment));
+  }
+  
+  async getPaymentsByCustomer(customerId: number): Promise<Payment[]> {
+    const payments = await this.readPaymentsFromExcel();
+    return payments.filter(payment => payment.customerId === customerId && isActive(payment));
+  }
+  
+  async createPayment(payment: InsertPayment): Promise<Payment> {
+    return this.runInTransaction(async () => {
+      const order = await this.getOrder(payment.orderId);
+      
+      if (!order) {
+        throw new Error(`Order ${payment.orderId} not found`);
+      }
+      
+      const newPayment = await this.withWriteLock("payments.xlsx", async () => {
+        // Checked under the lock, which the transaction keeps until the paid amount is synced
+        await this.checkPaymentWithinOutstanding(order.id, payment.amount);
+        
+        const payments = await this.readPaymentsFromExcel();
+        const newPayment: Payment = {
+          ...payment,
+          id: this.paymentNextId++,
+          orderId: order.id,
+          customerId: order.customerId,
+          amount: payment.amount,
+          paymentDate: payment.paymentDate || new Date(),
+          method: payment.method || "cash",
+          reference: payment.reference || null,
+          notes: payment.notes || null,
+          deletedAt: null
+        };
+        
+        payments.push(newPayment);
+        await this.writePaymentsToExcel(payments);
+        await this.recordAudit("payments", newPayment.id, "create", null, newPayment);
+        return newPayment;
+      });
+      
+      await this.syncOrderPaidAmount(order.id);
+      return newPayment;
+    });
+  }
+  
+  async deletePayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deletedPayment = await this.withWriteLock("payments.xlsx", async () => {
+        const payments = await this.readPaymentsFromExcel();
+        const paymentIndex = payments.findIndex(payment => payment.id === id && isActive(payment));
+        
+        if (paymentIndex === -1) {
+          return undefined;
+        }
+        
+        const paymentToDelete = payments[paymentIndex];
+        payments[paymentIndex] = { ...paymentToDelete, deletedAt: new Date() };
+        await this.writePaymentsToExcel(payments);
+        await this.recordAudit("payments", id, "delete", paymentToDelete, null);
+        return paymentToDelete;
+      });
+      
+      if (!deletedPayment) {
+        return false;
+      }
+      
+      await this.syncOrderPaidAmount(deletedPayment.orderId);
+      return true;
+    });
+  }
+  
+  async restorePayment(id: number): Promise<Payment | undefined> {
+    return this.runInTransaction(async () => {
+      const restoredPayment = await this.withWriteLock("payments.xlsx", async () => {
+        const payments = await this.readPaymentsFromExcel();
+        const paymentIndex = payments.findIndex(payment => payment.id === id && !isActive(payment));
+        
+        if (paymentIndex === -1) {
+          return undefined;
+        }
+        
+        // Payments recorded since it was deleted may have settled the order
+        await this.checkPaymentWithinOutstanding(payments[paymentIndex].orderId, payments[paymentIndex].amount);
+        
+        const restoredPayment = { ...payments[paymentIndex], deletedAt: null };
+        payments[paymentIndex] = restoredPayment;
+        await this.writePaymentsToExcel(payments);
+        await this.recordAudit("payments", id, "restore", null, restoredPayment);
+        return restoredPayment;
+      });
+      
+      if (!restoredPayment) {
+        return undefined;
+      }
+      
+      await this.syncOrderPaidAmount(restoredPayment.orderId);
+      return restoredPayment;
+    });
+  }
+  
+  async purgePayment(id: number): Promise<boolean> {
+    return this.withWriteLock("payments.xlsx", async () => {
+      const payments = await this.readPaymentsFromExcel();
+      const paymentToPurge = payments.find(payment => payment.id === id && !isActive(payment));
+      
+      if (!paymentToPurge) {
+        return false;
+      }
+      
+      await this.writePaymentsToExcel(payments.filter(payment => payment.id !== id));
+      await this.recordAudit("payments", id, "purge", paymentToPurge, null);
+      return true;
+    });
+  }
+  
+  // Invoice operations
+  async getAllInvoices(): Promise<Invoice[]> {
+    return this.readInvoicesFromExcel();
+  }
+  
+  async getInvoice(id: number): Promise<Invoice | undefined> {
+    const invoices = await this.readInvoicesFromExcel();
+    return invoices.find(invoice => invoice.id === id);
+  }
+  
+  async createInvoice(invoice: InsertInvoice): Promise<Invoice> {
+    return this.withWriteLock("invoices.xlsx", async () => {
+      const invoices = await this.readInvoicesFromExcel();
+      
+      // Checked again under the lock so two requests can't invoice the same record
+      const alreadyInvoiced = invoices.some(existing =>
+        existing.status === "issued" &&
+        ((invoice.orderId && existing.orderId === invoice.orderId) ||
+          (invoice.revenueId && existing.revenueId === invoice.revenueId))
+      );
+      if (alreadyInvoiced) {
+        throw new Error("This record already has an issued invoice");
+      }
+      
+      // Next number in the unit's series for the financial year; cancelled invoices keep theirs
+      const invoiceDate = invoice.invoiceDate || new Date();
+      const financialYear = getFinancialYear(invoiceDate);
+      const sequence = invoices
+        .filter(existing => existing.productionUnitId === invoice.productionUnitId && existing.financialYear === financialYear)
+        .reduce((max, existing) => Math.max(max, existing.sequence), 0) + 1;
+      
+      const newInvoice: Invoice = {
+        ...invoice,
+        id: this.invoiceNextId++,
+        invoiceNumber: formatInvoiceNumber(invoice.productionUnitId, financialYear, sequence),
+        financialYear,
+        sequence,
+        orderId: invoice.orderId || null,
+        revenueId: invoice.revenueId || null,
+        invoiceDate,
+        sellerAddress: invoice.sellerAddress || null,
+        buyerAddress: invoice.buyerAddress || null,
+        buyerGstin: invoice.buyerGstin || null,
+        cgstAmount: invoice.cgstAmount || "0",
+        sgstAmount: invoice.sgstAmount || "0",
+        igstAmount: invoice.igstAmount || "0",
+        status: "issued",
+        cancelledAt: null,
+        cancelReason: null,
+        createdAt: new Date()
+      };
+      
+      invoices.push(newInvoice);
+      await this.writeInvoicesToExcel(invoices);
+      await this.recordAudit("invoices", newInvoice.id, "create", null, newInvoice);
+      return newInvoice;
+    });
+  }
+  
+  protected async markInvoiceCancelled(id: number, reason: string): Promise<Invoice | undefined> {
+    return this.withWriteLock("invoices.xlsx", async () => {
+      const invoices = await this.readInvoicesFromExcel();
+      const invoiceIndex = invoices.findIndex(invoice => invoice.id === id && invoice.status === "issued");
+      
+      if (invoiceIndex === -1) {
+        return undefined;
+      }
+      
+      const previousInvoice = invoices[invoiceIndex];
+      const cancelledInvoice: Invoice = { ...previousInvoice, status: "cancelled", cancelledAt: new Date(), cancelReason: reason };
+      invoices[invoiceIndex] = cancelledInvoice;
+      await this.writeInvoicesToExcel(invoices);
+      await this.recordAudit("invoices", id, "update", previousInvoice, cancelledInvoice);
+      return cancelledInvoice;
+    });
   }
   
   // Salary Payment operations
   async getAllSalaryPayments(): Promise<SalaryPayment[]> {
-    return this.readSalaryPaymentsFromExcel();
+    const payments = await this.readSalaryPaymentsFromExcel();
+    return payments.filter(isActive);
   }
   
   async getSalaryPaymentsByProductionUnit(productionUnitId: number): Promise<SalaryPayment[]> {
     const payments = await this.readSalaryPaymentsFromExcel();
-    return payments.filter(payment => payment.productionUnitId === productionUnitId);
+    return payments.filter(payment => payment.productionUnitId === productionUnitId && isActive(payment));
   }
   
   async getSalaryPaymentsByMonth(month: string, year: string): Promise<SalaryPayment[]> {
     const payments = await this.readSalaryPaymentsFromExcel();
-    return payments.filter(payment => payment.month === month && payment.year === year);
+    return payments.filter(payment => payment.month === month && payment.year === year && isActive(payment));
   }
   
   async createSalaryPayment(payment: InsertSalaryPayment): Promise<SalaryPayment> {
-    const payments = await this.readSalaryPaymentsFromExcel();
-    const newPayment: SalaryPayment = {
-      ...payment,
-      id: this.salaryPaymentNextId++,
-      productionUnitId: payment.productionUnitId,
-      amount: payment.amount,
-      employeeName: payment.employeeName,
-      month: payment.month,
-      year: payment.year,
-      employeeId: payment.employeeId || null,
-      paymentDate: payment.paymentDate || new Date(),
-      paymentMethod: payment.paymentMethod || null,
-      notes: payment.notes || null
-    };
-    
-    payments.push(newPayment);
-    await this.writeSalaryPaymentsToExcel(payments);
-    
-    // Create a corresponding expense entry
-    if (parseFloat(newPayment.amount) > 0) {
-      const date = new Date(newPayment.paymentDate);
-      await this.createExpense({
-        productionUnitId: newPayment.productionUnitId,
-        description: `Salary: ${newPayment.employeeName} - ${newPayment.month}/${newPayment.year}`,
-        amount: newPayment.amount,
-        date: date,
-        category: "Salary",
-        currency: "INR"
+    return this.runInTransaction(async () => {
+      const newPayment = await this.withWriteLock("salary_payments.xlsx", async () => {
+        const payments = await this.readSalaryPaymentsFromExcel();
+        const newPayment: SalaryPayment = {
+          ...payment,
+          id: this.salaryPaymentNextId++,
+          productionUnitId: payment.productionUnitId,
+          amount: payment.amount,
+          employeeName: payment.employeeName,
+          month: payment.month,
+          year: payment.year,
+          employeeId: payment.employeeId || null,
+          paymentDate: payment.paymentDate || new Date(),
+          paymentMethod: payment.paymentMethod || null,
+          notes: payment.notes || null,
+          deletedAt: null
+        };
+      
+        payments.push(newPayment);
+        await this.writeSalaryPaymentsToExcel(payments);
+        await this.recordAudit("salary_payments", newPayment.id, "create", null, newPayment);
+      
+        return newPayment;
       });
-    }
     
-    return newPayment;
+      // Create a corresponding expense entry
+      if (parseFloat(newPayment.amount) > 0) {
+        await this.createExpense(this.expenseForSalaryPayment(newPayment));
+      }
+    
+      return newPayment;
+    });
   }
   
   async updateSalaryPayment(id: number, updates: Partial<SalaryPayment>): Promise<SalaryPayment | undefined> {
-    const payments = await this.readSalaryPaymentsFromExcel();
-    const paymentIndex = payments.findIndex(payment => payment.id === id);
-    
-    if (paymentIndex === -1) {
-      return undefined;
-    }
+    return this.runInTransaction(async () => {
+      const updatedPayment = await this.withWriteLock("salary_payments.xlsx", async () => {
+        const payments = await this.readSalaryPaymentsFromExcel();
+        const paymentIndex = payments.findIndex(payment => payment.id === id && isActive(payment));
+      
+        if (paymentIndex === -1) {
+          return undefined;
+        }
+      
+        const previousPayment = payments[paymentIndex];
+        const updatedPayment = { ...previousPayment, ...updates };
+        payments[paymentIndex] = updatedPayment;
+        await this.writeSalaryPaymentsToExcel(payments);
+        await this.recordAudit("salary_payments", id, "update", previousPayment, updatedPayment);
+        return updatedPayment;
+      });
     
-    const updatedPayment = { ...payments[paymentIndex], ...updates };
-    payments[paymentIndex] = updatedPayment;
-    await this.writeSalaryPaymentsToExcel(payments);
+      if (!updatedPayment) {
+        return undefined;
+      }
     
-    // Note: We don't update corresponding expense entries here for simplicity
-    // In a real app, you would need to find and update the associated expense
+      // Keep the expense booked by this payment in step with it
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpense = expenses.find(expense => expense.salaryPaymentId === id && isActive(expense));
+      if (linkedExpense) {
+        await this.updateExpense(linkedExpense.id, this.expenseForSalaryPayment(updatedPayment));
+      }
     
-    return updatedPayment;
+      return updatedPayment;
+    });
   }
   
   async deleteSalaryPayment(id: number): Promise<boolean> {
-    const payments = await this.readSalaryPaymentsFromExcel();
-    const filteredPayments = payments.filter(payment => payment.id !== id);
+    return this.runInTransaction(async () => {
+      const deleted = await this.withWriteLock("salary_payments.xlsx", async () => {
+        const payments = await this.readSalaryPaymentsFromExcel();
+        const paymentIndex = payments.findIndex(payment => payment.id === id && isActive(payment));
+      
+        if (paymentIndex === -1) {
+          return false;
+        }
+      
+        const paymentToDelete = payments[paymentIndex];
+        payments[paymentIndex] = { ...paymentToDelete, deletedAt: new Date() };
+        await this.writeSalaryPaymentsToExcel(payments);
+        await this.recordAudit("salary_payments", id, "delete", paymentToDelete, null);
+        return true;
+      });
     
-    if (filteredPayments.length === payments.length) {
-      return false;
-    }
+      if (!deleted) {
+        return false;
+      }
     
-    // Note: We don't delete corresponding expense entries here for simplicity
-    // In a real app, you would need to find and delete the associated expense
+      // Delete the expense booked by this payment, which also reverses the unit cost
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpense = expenses.find(expense => expense.salaryPaymentId === id && isActive(expense));
+      if (linkedExpense) {
+        await this.deleteExpense(linkedExpense.id);
+      }
     
-    await this.writeSalaryPaymentsToExcel(filteredPayments);
-    return true;
+      return true;
+    });
+  }
+  
+  async restoreSalaryPayment(id: number): Promise<SalaryPayment | undefined> {
+    return this.runInTransaction(async () => {
+      const restoredPayment = await this.withWriteLock("salary_payments.xlsx", async () => {
+        const payments = await this.readSalaryPaymentsFromExcel();
+        const paymentIndex = payments.findIndex(payment => payment.id === id && !isActive(payment));
+      
+        if (paymentIndex === -1) {
+          return undefined;
+        }
+      
+        const deletedPayment = payments[paymentIndex];
+        const restoredPayment = { ...deletedPayment, deletedAt: null };
+        payments[paymentIndex] = restoredPayment;
+        await this.writeSalaryPaymentsToExcel(payments);
+        await this.recordAudit("salary_payments", id, "restore", null, restoredPayment);
+        return restoredPayment;
+      });
+    
+      if (!restoredPayment) {
+        return undefined;
+      }
+    
+      // Restore the expense booked by this payment, which charges the unit again
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpenses = expenses.filter(expense => expense.salaryPaymentId === id);
+      const deletedExpense = linkedExpenses.filter(expense => !isActive(expense)).pop();
+      if (deletedExpense && !linkedExpenses.some(isActive)) {
+        await this.restoreExpense(deletedExpense.id);
+      }
+    
+      return restoredPayment;
+    });
+  }
+  
+  async purgeSalaryPayment(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.withWriteLock("salary_payments.xlsx", async () => {
+        const payments = await this.readSalaryPaymentsFromExcel();
+        const paymentToPurge = payments.find(payment => payment.id === id && !isActive(payment));
+      
+        if (!paymentToPurge) {
+          return false;
+        }
+      
+        await this.writeSalaryPaymentsToExcel(payments.filter(payment => payment.id !== id));
+        await this.recordAudit("salary_payments", id, "purge", paymentToPurge, null);
+        return true;
+      });
+    
+      if (!purged) {
+        return false;
+      }
+    
+      // Purge the deleted expenses booked by this payment
+      const expenses = await this.readExpensesFromExcel();
+      for (const expense of expenses.filter(expense => expense.salaryPaymentId === id && !isActive(expense))) {
+        await this.purgeExpense(expense.id);
+      }
+    
+      return true;
+    });
   }
   
   // Maintenance Record operations
   async getAllMaintenanceRecords(): Promise<MaintenanceRecord[]> {
-    return this.readMaintenanceRecordsFromExcel();
+    const records = await this.readMaintenanceRecordsFromExcel();
+    return records.filter(isActive);
   }
   
   async getMaintenanceRecordsByProductionUnit(productionUnitId: number): Promise<MaintenanceRecord[]> {
     const records = await this.readMaintenanceRecordsFromExcel();
-    return records.filter(record => record.productionUnitId === productionUnitId);
+    return records.filter(record => record.productionUnitId === productionUnitId && isActive(record));
   }
   
   async createMaintenanceRecord(record: InsertMaintenanceRecord): Promise<MaintenanceRecord> {
-    const records = await this.readMaintenanceRecordsFromExcel();
-    const newRecord: MaintenanceRecord = {
-      ...record,
-      id: this.maintenanceRecordNextId++,
-      productionUnitId: record.productionUnitId,
-      machineId: record.machineId || null,
-      machineName: record.machineName,
-      maintenanceType: record.maintenanceType,
-      description: record.description,
-      cost: record.cost,
-      date: record.date || new Date(),
-      nextMaintenanceDate: record.nextMaintenanceDate || null,
-      performedBy: record.performedBy || null,
-      notes: record.notes || null
+    return this.runInTransaction(async () => {
+      const newRecord = await this.withWriteLock("maintenance_records.xlsx", async () => {
+        const records = await this.readMaintenanceRecordsFromExcel();
+        const newRecord: MaintenanceRecord = {
+          ...record,
+          id: this.maintenanceRecordNextId++,
+          productionUnitId: record.productionUnitId,
+          machineId: record.machineId || null,
+          machineName: record.machineName,
+          maintenanceType: record.maintenanceType,
+          description: record.description,
+          cost: record.cost,
+          date: record.date || new Date(),
+          nextMaintenanceDate: record.nextMaintenanceDate || null,
+          performedBy: record.performedBy || null,
+          notes: record.notes || null,
+          deletedAt: null
+        };
+      
+        records.push(newRecord);
+        await this.writeMaintenanceRecordsToExcel(records);
+        await this.recordAudit("maintenance_records", newRecord.id, "create", null, newRecord);
+      
+        return newRecord;
+      });
+    
+      // Create a corresponding expense entry
+      if (parseFloat(newRecord.cost) > 0) {
+        await this.createExpense(this.expenseForMaintenanceRecord(newRecord));
+      }
+    
+      return newRecord;
+    });
+  }
+  
+  async updateMaintenanceRecord(id: number, updates: Partial<MaintenanceRecord>): Promise<MaintenanceRecord | undefined> {
+    return this.runInTransaction(async () => {
+      const updatedRecord = await this.withWriteLock("maintenance_records.xlsx", async () => {
+        const records = await this.readMaintenanceRecordsFromExcel();
+        const recordIndex = records.findIndex(record => record.id === id && isActive(record));
+      
+        if (recordIndex === -1) {
+          return undefined;
+        }
+      
+        const previousRecord = records[recordIndex];
+        const updatedRecord = { ...previousRecord, ...updates };
+        records[recordIndex] = updatedRecord;
+        await this.writeMaintenanceRecordsToExcel(records);
+        await this.recordAudit("maintenance_records", id, "update", previousRecord, updatedRecord);
+        return updatedRecord;
+      });
+    
+      if (!updatedRecord) {
+        return undefined;
+      }
+    
+      // Keep the expense booked by this record in step with it
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpense = expenses.find(expense => expense.maintenanceRecordId === id && isActive(expense));
+      if (linkedExpense) {
+        await this.updateExpense(linkedExpense.id, this.expenseForMaintenanceRecord(updatedRecord));
+      }
+    
+      return updatedRecord;
+    });
+  }
+  
+  async deleteMaintenanceRecord(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const deleted = await this.withWriteLock("maintenance_records.xlsx", async () => {
+        const records = await this.readMaintenanceRecordsFromExcel();
+        const recordIndex = records.findIndex(record => record.id === id && isActive(record));
+      
+        if (recordIndex === -1) {
+          return false;
+        }
+      
+        const recordToDelete = records[recordIndex];
+        records[recordIndex] = { ...recordToDelete, deletedAt: new Date() };
+        await this.writeMaintenanceRecordsToExcel(records);
+        await this.recordAudit("maintenance_records", id, "delete", recordToDelete, null);
+        return true;
+      });
+    
+      if (!deleted) {
+        return false;
+      }
+    
+      // Delete the expense booked by this record, which also reverses the unit cost
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpense = expenses.find(expense => expense.maintenanceRecordId === id && isActive(expense));
+      if (linkedExpense) {
+        await this.deleteExpense(linkedExpense.id);
+      }
+    
+      return true;
+    });
+  }
+  
+  async restoreMaintenanceRecord(id: number): Promise<MaintenanceRecord | undefined> {
+    return this.runInTransaction(async () => {
+      const restoredRecord = await this.withWriteLock("maintenance_records.xlsx", async () => {
+        const records = await this.readMaintenanceRecordsFromExcel();
+        const recordIndex = records.findIndex(record => record.id === id && !isActive(record));
+      
+        if (recordIndex === -1) {
+          return undefined;
+        }
+      
+        const deletedRecord = records[recordIndex];
+        const restoredRecord = { ...deletedRecord, deletedAt: null };
+        records[recordIndex] = restoredRecord;
+        await this.writeMaintenanceRecordsToExcel(records);
+        await this.recordAudit("maintenance_records", id, "restore", null, restoredRecord);
+        return restoredRecord;
+      });
+    
+      if (!restoredRecord) {
+        return undefined;
+      }
+    
+      // Restore the expense booked by this record, which charges the unit again
+      const expenses = await this.readExpensesFromExcel();
+      const linkedExpenses = expenses.filter(expense => expense.maintenanceRecordId === id);
+      const deletedExpense = linkedExpenses.filter(expense => !isActive(expense)).pop();
+      if (deletedExpense && !linkedExpenses.some(isActive)) {
+        await this.restoreExpense(deletedExpense.id);
+      }
+    
+      return restoredRecord;
+    });
+  }
+  
+  async purgeMaintenanceRecord(id: number): Promise<boolean> {
+    return this.runInTransaction(async () => {
+      const purged = await this.withWriteLock("maintenance_records.xlsx", async () => {
+        const records = await this.readMaintenanceRecordsFromExcel();
+        const recordToPurge = records.find(record => record.id === id && !isActive(record));
+      
+        if (!recordToPurge) {
+          return false;
+        }
+      
+        await this.writeMaintenanceRecordsToExcel(records.filter(record => record.id !== id));
+        await this.recordAudit("maintenance_records", id, "purge", recordToPurge, null);
+        return true;
+      });
+    
+      if (!purged) {
+        return false;
+      }
+    
+      // Purge the deleted expenses booked by this record
+      const expenses = await this.readExpensesFromExcel();
+      for (const expense of expenses.filter(expense => expense.maintenanceRecordId === id && !isActive(expense))) {
+        await this.purgeExpense(expense.id);
+      }
+    
+      return true;
+    });
+  }
+  
+  // Recycle bin operations
+  protected async getRecycleBinContents(): Promise<RecycleBinContents> {
+    const [expenses, revenues, orders, payments, salaryPayments, maintenanceRecords] = await Promise.all([
+      this.readExpensesFromExcel(),
+      this.readRevenuesFromExcel(),
+      this.readOrdersFromExcel(),
+      this.readPaymentsFromExcel(),
+      this.readSalaryPaymentsFromExcel(),
+      this.readMaintenanceRecordsFromExcel()
+    ]);
+    
+    const isDeleted = (record: { deletedAt: Date | null }) => !isActive(record);
+    return {
+      expenses: expenses.filter(isDeleted),
+      revenues: revenues.filter(isDeleted),
+      orders: orders.filter(isDeleted),
+      payments: payments.filter(isDeleted),
+      salaryPayments: salaryPayments.filter(isDeleted),
+      maintenanceRecords: maintenanceRecords.filter(isDeleted)
     };
+  }
+  
+  // Audit log operations
+  async getAuditEntries(entity: AuditEntity, entityId?: number): Promise<AuditEntry[]> {
+    const entries = await this.readAuditLogFromExcel();
+    return entries.filter(entry =>
+      entry.entity === entity && (entityId === undefined || entry.entityId === entityId)
+    );
+  }
+  
+  protected async appendAuditEntry(entry: InsertAuditEntry): Promise<void> {
+    // Inside a transaction the entry is written on commit. Holding the audit log
+    // lock for the rest of the transaction could deadlock with other writers.
+    const transaction = this.transactionContext.getStore();
+    if (transaction) {
+      transaction.auditEntries.push(entry);
+      return;
+    }
     
-    records.push(newRecord);
-    await this.writeMaintenanceRecordsToExcel(records);
-    
-    // Create a corresponding expense entry
-    if (parseFloat(newRecord.cost) > 0) {
-      await this.createExpense({
-        productionUnitId: newRecord.productionUnitId,
-        description: `Maintenance: ${newRecord.machineName} - ${newRecord.maintenanceType}`,
-        amount: newRecord.cost,
-        date: new Date(newRecord.date),
-        category: "Maintenance",
-        currency: "INR"
+    await this.writeAuditEntries([entry]);
+  }
+  
+  private async writeAuditEntries(newEntries: InsertAuditEntry[]): Promise<void> {
+    await this.withWriteLock("audit_log.xlsx", async () => {
+      const entries = await this.readAuditLogFromExcel();
+      newEntries.forEach(entry => {
+        entries.push({
+          ...entry,
+          id: this.auditEntryNextId++,
+          changedAt: entry.changedAt || new Date(),
+          changedBy: entry.changedBy || null,
+          previousValues: entry.previousValues || null,
+          newValues: entry.newValues || null
+        });
       });
+      await this.writeAuditLogToExcel(entries);
+    });
+  }
+  
+  // Private methods for reading/writing MeasurementProfiles from/to Excel
+  private async readMeasurementProfilesFromExcel(): Promise<MeasurementProfile[]> {
+    try {
+      const data = await this.readDataFile("measurement_profiles.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const profiles: MeasurementProfile[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const profile: any = {};
+        
+        for (let j = 0; j < headers.length; j++) {
+          const header = headers[j];
+          const value = row[j];
+          
+          if (header === "id" || header === "customerId" || header === "version") {
+            // If id is higher than current nextId, update nextId
+            const id = parseInt(value);
+            if (header === "id" && id >= this.measurementProfileNextId) {
+              this.measurementProfileNextId = id + 1;
+            }
+            profile[header] = id;
+          } else if (header === "takenAt") {
+            profile[header] = new Date(value);
+          } else if (header === "notes") {
+            profile[header] = value || null;
+          } else {
+            profile[header] = value;
+          }
+        }
+        
+        profiles.push(profile);
+      }
+      
+      return profiles;
+    } catch (error) {
+      return emptyIfMissing(error, "measurement profiles");
+    }
+  }
+
+  private async writeMeasurementProfilesToExcel(profiles: MeasurementProfile[]): Promise<void> {
+    try {
+      const headers = ["id", "customerId", "garmentType", "version", "unit", "measurements", "notes", "takenAt"];
+      
+      const data: (string | number | null | undefined)[][] = [headers];
+      
+      for (const profile of profiles) {
+        const row: (string | number | null | undefined)[] = [
+          profile.id,
+          profile.customerId,
+          profile.garmentType,
+          profile.version,
+          profile.unit,
+          profile.measurements,
+          profile.notes,
+          new Date(profile.takenAt).toISOString()
+        ];
+        data.push(row);
+      }
+      
+      await this.writeDataFile("measurement_profiles.xlsx", data, "Sheet1");
+    } catch (error) {
+      console.error("Error writing measurement profiles to Excel:", error);
+      throw error;
+    }
+  }
+  
+  // Private methods for reading/writing Payments from/to Excel
+  private async readPaymentsFromExcel(): Promise<Payment[]> {
+    try {
+      const data = await this.readDataFile("payments.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const payments: Payment[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const payment: any = {};
+        
+        for (let j = 0; j < headers.length; j++) {
+          const header = headers[j];
+          const value = row[j];
+          
+          if (header === "id" || header === "orderId" || header === "customerId") {
+            // If id is higher than current nextId, update nextId
+            const id = parseInt(value);
+            if (header === "id" && id >= this.paymentNextId) {
+              this.paymentNextId = id + 1;
+            }
+            payment[header] = id;
+          } else if (header === "paymentDate") {
+            payment[header] = new Date(value);
+          } else if (header === "reference" || header === "notes") {
+            payment[header] = value || null;
+          } else if (header === "deletedAt") {
+            payment[header] = value ? new Date(value) : null;
+          } else {
+            payment[header] = value;
+          }
+        }
+        
+        payments.push(payment);
+      }
+      
+      return payments;
+    } catch (error) {
+      return emptyIfMissing(error, "payments");
+    }
+  }
+
+  private async writePaymentsToExcel(payments: Payment[]): Promise<void> {
+    try {
+      const headers = ["id", "orderId", "customerId", "amount", "paymentDate", "method", "reference", "notes", "deletedAt"];
+      
+      const data: (string | number | null | undefined)[][] = [headers];
+      
+      for (const payment of payments) {
+        const row: (string | number | null | undefined)[] = [
+          payment.id,
+          payment.orderId,
+          payment.customerId,
+          payment.amount,
+          new Date(payment.paymentDate).toISOString(),
+          payment.method,
+          payment.reference,
+          payment.notes,
+          payment.deletedAt ? new Date(payment.deletedAt).toISOString() : null
+        ];
+        data.push(row);
+      }
+      
+      await this.writeDataFile("payments.xlsx", data, "Sheet1");
+    } catch (error) {
+      console.error("Error writing payments to Excel:", error);
+      throw error;
     }
-    
-    return newRecord;
   }
   
-  async updateMaintenanceRecord(id: number, updates: Partial<MaintenanceRecord>): Promise<MaintenanceRecord | undefined> {
-    const records = await this.readMaintenanceRecordsFromExcel();
-    const recordIndex = records.findIndex(record => record.id === id);
-    
-    if (recordIndex === -1) {
-      return undefined;
+  // Private methods for reading/writing Invoices from/to Excel
+  private async readInvoicesFromExcel(): Promise<Invoice[]> {
+    try {
+      const data = await this.readDataFile("invoices.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const invoices: Invoice[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const invoice: any = {};
+        
+        for (let j = 0; j < headers.length; j++) {
+          const header = headers[j];
+          const value = row[j];
+          
+          if (header === "id" || header === "sequence" || header === "productionUnitId") {
+            // If id is higher than current nextId, update nextId
+            const id = parseInt(value);
+            if (header === "id" && id >= this.invoiceNextId) {
+              this.invoiceNextId = id + 1;
+            }
+            invoice[header] = id;
+          } else if (header === "orderId" || header === "revenueId") {
+            invoice[header] = value ? parseInt(value) : null;
+          } else if (header === "invoiceDate" || header === "createdAt") {
+            invoice[header] = new Date(value);
+          } else if (header === "cancelledAt") {
+            invoice[header] = value ? new Date(value) : null;
+          } else if (header === "isInterState") {
+            invoice[header] = value === "true";
+          } else if (header === "sellerAddress" || header === "buyerAddress" || header === "buyerGstin" || header === "cancelReason") {
+            invoice[header] = value || null;
+          } else {
+            invoice[header] = value;
+          }
+        }
+        
+        invoices.push(invoice);
+      }
+      
+      return invoices;
+    } catch (error) {
+      return emptyIfMissing(error, "invoices");
     }
-    
-    const updatedRecord = { ...records[recordIndex], ...updates };
-    records[recordIndex] = updatedRecord;
-    await this.writeMaintenanceRecordsToExcel(records);
-    
-    // Note: We don't update corresponding expense entries here for simplicity
-    // In a real app, you would need to find and update the associated expense
-    
-    return updatedRecord;
   }
-  
-  async deleteMaintenanceRecord(id: number): Promise<boolean> {
-    const records = await this.readMaintenanceRecordsFromExcel();
-    const filteredRecords = records.filter(record => record.id !== id);
-    
-    if (filteredRecords.length === records.length) {
-      return false;
+
+  private async writeInvoicesToExcel(invoices: Invoice[]): Promise<void> {
+    try {
+      const headers = ["id", "invoiceNumber", "financialYear", "sequence", "productionUnitId", "orderId", "revenueId",
+                       "invoiceDate", "sellerName", "sellerAddress", "sellerGstin", "buyerName", "buyerAddress",
+                       "buyerGstin", "placeOfSupply", "isInterState", "lines", "taxableValue", "cgstAmount",
+                       "sgstAmount", "igstAmount", "totalAmount", "status", "cancelledAt", "cancelReason", "createdAt"];
+      
+      const data: (string | number | null | undefined)[][] = [headers];
+      
+      for (const invoice of invoices) {
+        const row: (string | number | null | undefined)[] = [
+          invoice.id,
+          invoice.invoiceNumber,
+          invoice.financialYear,
+          invoice.sequence,
+          invoice.productionUnitId,
+          invoice.orderId,
+          invoice.revenueId,
+          new Date(invoice.invoiceDate).toISOString(),
+          invoice.sellerName,
+          invoice.sellerAddress,
+          invoice.sellerGstin,
+          invoice.buyerName,
+          invoice.buyerAddress,
+          invoice.buyerGstin,
+          invoice.placeOfSupply,
+          invoice.isInterState ? "true" : "false",
+          invoice.lines,
+          invoice.taxableValue,
+          invoice.cgstAmount,
+          invoice.sgstAmount,
+          invoice.igstAmount,
+          invoice.totalAmount,
+          invoice.status,
+          invoice.cancelledAt ? new Date(invoice.cancelledAt).toISOString() : null,
+          invoice.cancelReason,
+          new Date(invoice.createdAt).toISOString()
+        ];
+        data.push(row);
+      }
+      
+      await this.writeDataFile("invoices.xlsx", data, "Sheet1");
+    } catch (error) {
+      console.error("Error writing invoices to Excel:", error);
+      throw error;
     }
-    
-    // Note: We don't delete corresponding expense entries here for simplicity
-    // In a real app, you would need to find and delete the associated expense
-    
-    await this.writeMaintenanceRecordsToExcel(filteredRecords);
-    return true;
   }
   
   // Private methods for reading/writing SalaryPayments from/to Excel
   private async readSalaryPaymentsFromExcel(): Promise<SalaryPayment[]> {
     try {
       const filePath = path.join(this.dataDirectory, "salary_payments.xlsx");
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("salary_payments.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -910,6 +2647,8 @@ export class ExcelStorage implements IStorage {
             payment[header] = id;
           } else if (header === "paymentDate") {
             payment[header] = new Date(value);
+          } else if (header === "deletedAt") {
+            payment[header] = value ? new Date(value) : null;
           } else {
             payment[header] = value;
           }
@@ -920,15 +2659,13 @@ export class ExcelStorage implements IStorage {
       
       return payments;
     } catch (error) {
-      console.error("Error reading salary payments from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "salary payments");
     }
   }
 
   private async writeSalaryPaymentsToExcel(payments: SalaryPayment[]): Promise<void> {
     try {
-      const filePath = path.join(this.dataDirectory, "salary_payments.xlsx");
-      const headers = ["id", "employeeName", "employeeId", "productionUnitId", "amount", "paymentDate", "paymentMethod", "notes", "month", "year"];
+      const headers = ["id", "employeeName", "employeeId", "productionUnitId", "amount", "paymentDate", "paymentMethod", "notes", "month", "year", "deletedAt"];
       
       const data: (string | number | null | undefined)[][] = [headers];
       
@@ -945,12 +2682,13 @@ export class ExcelStorage implements IStorage {
           payment.paymentMethod,
           payment.notes,
           payment.month,
-          payment.year
+          payment.year,
+          payment.deletedAt ? new Date(payment.deletedAt).toISOString() : null
         ];
         data.push(row);
       }
       
-      await writeExcelFile(filePath, data, "Sheet1");
+      await this.writeDataFile("salary_payments.xlsx", data, "Sheet1");
     } catch (error) {
       console.error("Error writing salary payments to Excel:", error);
       throw error;
@@ -961,7 +2699,7 @@ export class ExcelStorage implements IStorage {
   private async readMaintenanceRecordsFromExcel(): Promise<MaintenanceRecord[]> {
     try {
       const filePath = path.join(this.dataDirectory, "maintenance_records.xlsx");
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("maintenance_records.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -985,7 +2723,7 @@ export class ExcelStorage implements IStorage {
               this.maintenanceRecordNextId = id + 1;
             }
             record[header] = id;
-          } else if (header === "date" || header === "nextMaintenanceDate") {
+          } else if (header === "date" || header === "nextMaintenanceDate" || header === "deletedAt") {
             record[header] = value ? new Date(value) : null;
           } else {
             record[header] = value;
@@ -997,15 +2735,13 @@ export class ExcelStorage implements IStorage {
       
       return records;
     } catch (error) {
-      console.error("Error reading maintenance records from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "maintenance records");
     }
   }
 
   private async writeMaintenanceRecordsToExcel(records: MaintenanceRecord[]): Promise<void> {
     try {
-      const filePath = path.join(this.dataDirectory, "maintenance_records.xlsx");
-      const headers = ["id", "productionUnitId", "machineId", "machineName", "maintenanceType", "description", "cost", "date", "nextMaintenanceDate", "performedBy", "notes"];
+      const headers = ["id", "productionUnitId", "machineId", "machineName", "maintenanceType", "description", "cost", "date", "nextMaintenanceDate", "performedBy", "notes", "deletedAt"];
       
       const data: (string | number | null | undefined)[][] = [headers];
       
@@ -1021,562 +2757,21 @@ export class ExcelStorage implements IStorage {
           record.date instanceof Date 
             ? record.date.toISOString() 
             : new Date(record.date).toISOString(),
-          record.nextMaintenanceDate instanceof Date 
-            ? record.nextMaintenanceDate.toISOString() 
-            : record.nextMaintenanceDate ? new Date(record.nextMaintenanceDate).toISOString() : null,
-          record.performedBy,
-          record.notes
-        ];
-        data.push(row);
-      }
-      
-      await writeExcelFile(filePath, data, "Sheet1");
-    } catch (error) {
-      console.error("Error writing maintenance records to Excel:", error);
-      throw error;
-    }
-  }
-
-  // Dashboard data operations
-  async getStatSummary(): Promise<StatSummary> {
-    const expenses = await this.readExpensesFromExcel();
-    const revenues = await this.readRevenuesFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    
-    const now = new Date();
-    const currentMonth = now.getMonth();
-    const previousMonth = (currentMonth - 1 + 12) % 12;
-    const currentYear = now.getFullYear();
-    const previousYear = previousMonth > currentMonth ? currentYear - 1 : currentYear;
-    
-    // Current month data
-    const currentMonthExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.date);
-      return expenseDate.getMonth() === currentMonth && expenseDate.getFullYear() === currentYear;
-    });
-    
-    const currentMonthRevenues = revenues.filter(revenue => {
-      const revenueDate = new Date(revenue.date);
-      return revenueDate.getMonth() === currentMonth && revenueDate.getFullYear() === currentYear;
-    });
-    
-    // Previous month data
-    const previousMonthExpenses = expenses.filter(expense => {
-      const expenseDate = new Date(expense.date);
-      return expenseDate.getMonth() === previousMonth && expenseDate.getFullYear() === previousYear;
-    });
-    
-    const previousMonthRevenues = revenues.filter(revenue => {
-      const revenueDate = new Date(revenue.date);
-      return revenueDate.getMonth() === previousMonth && revenueDate.getFullYear() === previousYear;
-    });
-    
-    // Calculate totals
-    const currentMonthCost = currentMonthExpenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
-    const previousMonthCost = previousMonthExpenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
-    
-    const currentMonthRevenue = currentMonthRevenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
-    const previousMonthRevenue = previousMonthRevenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
-    
-    const totalRevenue = revenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
-    const totalExpenses = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
-    
-    // Calculate percent changes
-    const costPercentChange = previousMonthCost === 0 ? 0 : ((currentMonthCost - previousMonthCost) / previousMonthCost) * 100;
-    const revenuePercentChange = previousMonthRevenue === 0 ? 0 : ((currentMonthRevenue - previousMonthRevenue) / previousMonthRevenue) * 100;
-    
-    // Count active units from current and previous month
-    const activeUnits = units.filter(unit => unit.status === 'active').length;
-    const unitCountChange = 0; // In a real app, this would be calculated from historical data
-    
-    // Calculate profit margin
-    const profitMargin = totalExpenses === 0 ? 0 : ((totalRevenue - totalExpenses) / totalRevenue) * 100;
-    const profitMarginChange = -1.2; // Placeholder, in a real app would be calculated from historical data
-    
-    return {
-      monthlyCost: currentMonthCost,
-      totalRevenue: totalRevenue,
-      productionUnitCount: activeUnits,
-      profitMargin: profitMargin,
-      costPercentChange: costPercentChange,
-      revenuePercentChange: revenuePercentChange,
-      productionUnitChange: unitCountChange,
-      profitMarginChange: profitMarginChange,
-    };
-  }
-
-  async getRecentTransactions(limit: number): Promise<Transaction[]> {
-    const expenses = await this.readExpensesFromExcel();
-    const revenues = await this.readRevenuesFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    
-    // Create a map of production unit ids to names for quick lookup
-    const unitNameMap = new Map<number, string>();
-    units.forEach(unit => {
-      unitNameMap.set(unit.id, unit.name);
-    });
-    
-    // Convert expenses to transactions
-    const expenseTransactions: Transaction[] = expenses.map(expense => ({
-      id: expense.id,
-      description: expense.description,
-      amount: expense.amount,
-      date: expense.date,
-      productionUnitId: expense.productionUnitId,
-      productionUnitName: unitNameMap.get(expense.productionUnitId) || 'Unknown',
-      type: 'expense',
-      category: expense.category,
-    }));
-    
-    // Convert revenues to transactions
-    const revenueTransactions: Transaction[] = revenues.map(revenue => ({
-      id: revenue.id,
-      description: revenue.description,
-      amount: revenue.amount,
-      date: revenue.date,
-      productionUnitId: revenue.productionUnitId,
-      productionUnitName: unitNameMap.get(revenue.productionUnitId) || 'Unknown',
-      type: 'revenue',
-      category: revenue.category,
-    }));
-    
-    // Combine transactions and sort by date (most recent first)
-    const allTransactions = [...expenseTransactions, ...revenueTransactions].sort((a, b) => {
-      const dateA = new Date(a.date);
-      const dateB = new Date(b.date);
-      return dateB.getTime() - dateA.getTime();
-    });
-    
-    // Return the specified number of transactions
-    return allTransactions.slice(0, limit);
-  }
-
-  async getCostTrends(months: number): Promise<CostTrend[]> {
-    const expenses = await this.readExpensesFromExcel();
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-    
-    // Initialize the trends array with zeros for the past 'months'
-    const trends: CostTrend[] = [];
-    for (let i = 0; i < months; i++) {
-      const monthIndex = (currentMonth - i + 12) % 12;
-      const year = currentYear - Math.floor((i - currentMonth) / 12);
-      const monthName = new Date(year, monthIndex, 1).toLocaleString('default', { month: 'short' });
-      trends.unshift({
-        period: `${monthName} ${year}`,
-        amount: 0,
-      });
-    }
-    
-    // Populate the trends with actual expense data
-    expenses.forEach(expense => {
-      const expenseDate = new Date(expense.date);
-      const expenseMonth = expenseDate.getMonth();
-      const expenseYear = expenseDate.getFullYear();
-      
-      // Find the corresponding trend entry for this expense
-      const trendIndex = trends.findIndex(trend => {
-        const [month, year] = trend.period.split(' ');
-        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
-        return monthIndex === expenseMonth && parseInt(year) === expenseYear;
-      });
-      
-      if (trendIndex !== -1) {
-        trends[trendIndex].amount += parseFloat(expense.amount.toString());
-      }
-    });
-    
-    return trends;
-  }
-
-  async getProfitLossData(months: number): Promise<ProfitLossPeriod[]> {
-    const expenses = await this.readExpensesFromExcel();
-    const revenues = await this.readRevenuesFromExcel();
-    const now = new Date();
-    const currentYear = now.getFullYear();
-    const currentMonth = now.getMonth();
-    
-    // Initialize the data array with zeros for the past 'months'
-    const data: ProfitLossPeriod[] = [];
-    for (let i = 0; i < months; i++) {
-      const monthIndex = (currentMonth - i + 12) % 12;
-      const year = currentYear - Math.floor((i - currentMonth) / 12);
-      const monthName = new Date(year, monthIndex, 1).toLocaleString('default', { month: 'short' });
-      data.unshift({
-        period: `${monthName} ${year}`,
-        revenue: 0,
-        expenses: 0,
-        profit: 0,
-      });
-    }
-    
-    // Populate with expense data
-    expenses.forEach(expense => {
-      const expenseDate = new Date(expense.date);
-      const expenseMonth = expenseDate.getMonth();
-      const expenseYear = expenseDate.getFullYear();
-      
-      const periodIndex = data.findIndex(period => {
-        const [month, year] = period.period.split(' ');
-        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
-        return monthIndex === expenseMonth && parseInt(year) === expenseYear;
-      });
-      
-      if (periodIndex !== -1) {
-        data[periodIndex].expenses += parseFloat(expense.amount.toString());
-        data[periodIndex].profit -= parseFloat(expense.amount.toString());
-      }
-    });
-    
-    // Populate with revenue data
-    revenues.forEach(revenue => {
-      const revenueDate = new Date(revenue.date);
-      const revenueMonth = revenueDate.getMonth();
-      const revenueYear = revenueDate.getFullYear();
-      
-      const periodIndex = data.findIndex(period => {
-        const [month, year] = period.period.split(' ');
-        const monthIndex = new Date(`${month} 1, 2000`).getMonth();
-        return monthIndex === revenueMonth && parseInt(year) === revenueYear;
-      });
-      
-      if (periodIndex !== -1) {
-        data[periodIndex].revenue += parseFloat(revenue.amount.toString());
-        data[periodIndex].profit += parseFloat(revenue.amount.toString());
-      }
-    });
-    
-    return data;
-  }
-
-  // Excel file operations
-  async importFromExcel(fileBuffer: Buffer, type: string): Promise<number> {
-    let importedCount = 0;
-    
-    try {
-      const data = await readExcelFile(fileBuffer);
-      
-      if (!data || data.length <= 1) {
-        throw new Error("Invalid Excel file format or empty file");
-      }
-      
-      // First row should be headers
-      const headers = data[0];
-      const rows = data.slice(1);
-      
-      switch (type) {
-        case "production_units":
-          importedCount = await this.importProductionUnits(headers, rows);
-          break;
-        case "expenses":
-          importedCount = await this.importExpenses(headers, rows);
-          break;
-        case "revenues":
-          importedCount = await this.importRevenues(headers, rows);
-          break;
-        case "inventory":
-          importedCount = await this.importInventory(headers, rows);
-          break;
-        default:
-          throw new Error(`Unsupported import type: ${type}`);
-      }
-      
-      return importedCount;
-    } catch (error) {
-      console.error(`Error importing from Excel (${type}):`, error);
-      throw error;
-    }
-  }
-
-  private async importProductionUnits(headers: string[], rows: any[]): Promise<number> {
-    const requiredFields = ["name", "location", "status"];
-    this.validateHeaders(headers, requiredFields);
-    
-    let importedCount = 0;
-    const nameIndex = headers.indexOf("name");
-    const locationIndex = headers.indexOf("location");
-    const statusIndex = headers.indexOf("status");
-    
-    for (const row of rows) {
-      const unit: InsertProductionUnit = {
-        name: row[nameIndex],
-        location: row[locationIndex],
-        status: row[statusIndex] || "active",
-      };
-      
-      await this.createProductionUnit(unit);
-      importedCount++;
-    }
-    
-    return importedCount;
-  }
-
-  private async importExpenses(headers: string[], rows: any[]): Promise<number> {
-    const requiredFields = ["productionUnitId", "description", "amount", "category"];
-    this.validateHeaders(headers, requiredFields);
-    
-    let importedCount = 0;
-    const productionUnitIdIndex = headers.indexOf("productionUnitId");
-    const descriptionIndex = headers.indexOf("description");
-    const amountIndex = headers.indexOf("amount");
-    const dateIndex = headers.indexOf("date");
-    const categoryIndex = headers.indexOf("category");
-    const baseAmountIndex = headers.indexOf("baseAmount");
-    const gstRateIndex = headers.indexOf("gstRate");
-    const gstAmountIndex = headers.indexOf("gstAmount");
-    const hsnIndex = headers.indexOf("hsn");
-    const invoiceNumberIndex = headers.indexOf("invoiceNumber");
-    const currencyIndex = headers.indexOf("currency");
-    
-    for (const row of rows) {
-      const expense: InsertExpense = {
-        productionUnitId: parseInt(row[productionUnitIdIndex]),
-        description: row[descriptionIndex],
-        amount: row[amountIndex].toString(),
-        date: dateIndex >= 0 && row[dateIndex] ? new Date(row[dateIndex]) : new Date(),
-        category: row[categoryIndex],
-        baseAmount: baseAmountIndex >= 0 && row[baseAmountIndex] ? row[baseAmountIndex].toString() : null,
-        gstRate: gstRateIndex >= 0 && row[gstRateIndex] ? row[gstRateIndex].toString() : null,
-        gstAmount: gstAmountIndex >= 0 && row[gstAmountIndex] ? row[gstAmountIndex].toString() : null,
-        hsn: hsnIndex >= 0 && row[hsnIndex] ? row[hsnIndex] : null,
-        invoiceNumber: invoiceNumberIndex >= 0 && row[invoiceNumberIndex] ? row[invoiceNumberIndex] : null,
-        currency: currencyIndex >= 0 && row[currencyIndex] ? row[currencyIndex] : "INR"
-      };
-      
-      await this.createExpense(expense);
-      importedCount++;
-    }
-    
-    return importedCount;
-  }
-
-  private async importRevenues(headers: string[], rows: any[]): Promise<number> {
-    const requiredFields = ["productionUnitId", "description", "amount", "category"];
-    this.validateHeaders(headers, requiredFields);
-    
-    let importedCount = 0;
-    const productionUnitIdIndex = headers.indexOf("productionUnitId");
-    const descriptionIndex = headers.indexOf("description");
-    const amountIndex = headers.indexOf("amount");
-    const dateIndex = headers.indexOf("date");
-    const categoryIndex = headers.indexOf("category");
-    const baseAmountIndex = headers.indexOf("baseAmount");
-    const gstRateIndex = headers.indexOf("gstRate");
-    const gstAmountIndex = headers.indexOf("gstAmount");
-    const hsnIndex = headers.indexOf("hsn");
-    const invoiceNumberIndex = headers.indexOf("invoiceNumber");
-    const currencyIndex = headers.indexOf("currency");
-    
-    for (const row of rows) {
-      const revenue: InsertRevenue = {
-        productionUnitId: parseInt(row[productionUnitIdIndex]),
-        description: row[descriptionIndex],
-        amount: row[amountIndex].toString(),
-        date: dateIndex >= 0 && row[dateIndex] ? new Date(row[dateIndex]) : new Date(),
-        category: row[categoryIndex],
-        baseAmount: baseAmountIndex >= 0 && row[baseAmountIndex] ? row[baseAmountIndex].toString() : null,
-        gstRate: gstRateIndex >= 0 && row[gstRateIndex] ? row[gstRateIndex].toString() : null,
-        gstAmount: gstAmountIndex >= 0 && row[gstAmountIndex] ? row[gstAmountIndex].toString() : null,
-        hsn: hsnIndex >= 0 && row[hsnIndex] ? row[hsnIndex] : null,
-        invoiceNumber: invoiceNumberIndex >= 0 && row[invoiceNumberIndex] ? row[invoiceNumberIndex] : null,
-        currency: currencyIndex >= 0 && row[currencyIndex] ? row[currencyIndex] : "INR"
-      };
-      
-      await this.createRevenue(revenue);
-      importedCount++;
-    }
-    
-    return importedCount;
-  }
-
-  private async importInventory(headers: string[], rows: any[]): Promise<number> {
-    const requiredFields = ["name", "quantity", "unitCost"];
-    this.validateHeaders(headers, requiredFields);
-    
-    let importedCount = 0;
-    const nameIndex = headers.indexOf("name");
-    const descriptionIndex = headers.indexOf("description");
-    const quantityIndex = headers.indexOf("quantity");
-    const unitCostIndex = headers.indexOf("unitCost");
-    const productionUnitIdIndex = headers.indexOf("productionUnitId");
-    
-    for (const row of rows) {
-      const inventory: InsertInventoryItem = {
-        name: row[nameIndex],
-        description: descriptionIndex >= 0 ? row[descriptionIndex] : null,
-        quantity: row[quantityIndex].toString(),
-        unitCost: row[unitCostIndex].toString(),
-        productionUnitId: productionUnitIdIndex >= 0 ? parseInt(row[productionUnitIdIndex]) : null,
-      };
-      
-      await this.createInventoryItem(inventory);
-      importedCount++;
-    }
-    
-    return importedCount;
-  }
-
-  private validateHeaders(headers: string[], requiredFields: string[]) {
-    for (const field of requiredFields) {
-      if (!headers.includes(field)) {
-        throw new Error(`Required field missing in Excel file: ${field}`);
-      }
-    }
-  }
-
-  async exportToExcel(type: string): Promise<string> {
-    const reportsDir = path.join(this.dataDirectory, "reports");
-    await ensureDirectoryExists(reportsDir);
-    
-    const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
-    const fileName = `${type}_${timestamp}.xlsx`;
-    const filePath = path.join(reportsDir, fileName);
-    
-    let data: any[] = [];
-    
-    switch (type) {
-      case "production_units":
-        data = await this.prepareProductionUnitsForExport();
-        break;
-      case "expenses":
-        data = await this.prepareExpensesForExport();
-        break;
-      case "revenues":
-        data = await this.prepareRevenuesForExport();
-        break;
-      case "inventory":
-        data = await this.prepareInventoryForExport();
-        break;
-      case "financial_summary":
-        data = await this.prepareFinancialSummaryForExport();
-        break;
-      default:
-        throw new Error(`Unsupported export type: ${type}`);
-    }
-    
-    await writeExcelFile(filePath, data, `${type.charAt(0).toUpperCase() + type.slice(1)}`);
-    
-    // Create a report record
-    await this.createReport({
-      name: `${type.charAt(0).toUpperCase() + type.slice(1)} Report - ${timestamp}`,
-      type: type,
-      filePath: filePath,
-    });
-    
-    return filePath;
-  }
-
-  private async prepareProductionUnitsForExport(): Promise<any[]> {
-    const units = await this.readProductionUnitsFromExcel();
-    const headers = ["ID", "Name", "Location", "Status", "Cost To Date", "Created At"];
-    
-    const rows = units.map(unit => [
-      unit.id,
-      unit.name,
-      unit.location,
-      unit.status,
-      unit.costToDate,
-      new Date(unit.createdAt).toLocaleDateString(),
-    ]);
-    
-    return [headers, ...rows];
-  }
-
-  private async prepareExpensesForExport(): Promise<any[]> {
-    const expenses = await this.readExpensesFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
-    
-    const headers = ["ID", "Date", "Description", "Production Unit", "Amount", "Category", 
-                    "Base Amount", "GST Rate", "GST Amount", "HSN Code", "Invoice Number", "Currency"];
-    
-    const rows = expenses.map(expense => [
-      expense.id,
-      new Date(expense.date).toLocaleDateString(),
-      expense.description,
-      unitMap.get(expense.productionUnitId) || "Unknown",
-      expense.amount,
-      expense.category,
-      expense.baseAmount || "",
-      expense.gstRate || "",
-      expense.gstAmount || "",
-      expense.hsn || "",
-      expense.invoiceNumber || "",
-      expense.currency || "INR",
-    ]);
-    
-    return [headers, ...rows];
-  }
-
-  private async prepareRevenuesForExport(): Promise<any[]> {
-    const revenues = await this.readRevenuesFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
-    
-    const headers = ["ID", "Date", "Description", "Production Unit", "Amount", "Category",
-                    "Base Amount", "GST Rate", "GST Amount", "HSN Code", "Invoice Number", "Currency"];
-    
-    const rows = revenues.map(revenue => [
-      revenue.id,
-      new Date(revenue.date).toLocaleDateString(),
-      revenue.description,
-      unitMap.get(revenue.productionUnitId) || "Unknown",
-      revenue.amount,
-      revenue.category,
-      revenue.baseAmount || "",
-      revenue.gstRate || "",
-      revenue.gstAmount || "",
-      revenue.hsn || "",
-      revenue.invoiceNumber || "",
-      revenue.currency || "INR",
-    ]);
-    
-    return [headers, ...rows];
-  }
-
-  private async prepareInventoryForExport(): Promise<any[]> {
-    const inventory = await this.readInventoryFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    const unitMap = new Map(units.map(unit => [unit.id, unit.name]));
-    
-    const headers = ["ID", "Name", "Description", "Quantity", "Unit Cost", "Production Unit", "Created At"];
-    
-    const rows = inventory.map(item => [
-      item.id,
-      item.name,
-      item.description || "",
-      item.quantity,
-      item.unitCost,
-      item.productionUnitId ? unitMap.get(item.productionUnitId) || "Unknown" : "N/A",
-      new Date(item.createdAt).toLocaleDateString(),
-    ]);
-    
-    return [headers, ...rows];
-  }
-
-  private async prepareFinancialSummaryForExport(): Promise<any[]> {
-    const expenses = await this.readExpensesFromExcel();
-    const revenues = await this.readRevenuesFromExcel();
-    const units = await this.readProductionUnitsFromExcel();
-    
-    // Summary sheet
-    const totalExpense = expenses.reduce((sum, expense) => sum + parseFloat(expense.amount.toString()), 0);
-    const totalRevenue = revenues.reduce((sum, revenue) => sum + parseFloat(revenue.amount.toString()), 0);
-    const profit = totalRevenue - totalExpense;
-    const profitMargin = totalRevenue === 0 ? 0 : (profit / totalRevenue) * 100;
-    
-    const summaryHeaders = ["Metric", "Value"];
-    const summaryRows = [
-      ["Total Revenue", totalRevenue.toFixed(2)],
-      ["Total Expenses", totalExpense.toFixed(2)],
-      ["Profit", profit.toFixed(2)],
-      ["Profit Margin", `${profitMargin.toFixed(2)}%`],
-      ["Production Units", units.length],
-      ["Active Units", units.filter(u => u.status === "active").length],
-    ];
-    
-    return [summaryHeaders, ...summaryRows];
+          record.nextMaintenanceDate instanceof Date 
+            ? record.nextMaintenanceDate.toISOString() 
+            : record.nextMaintenanceDate ? new Date(record.nextMaintenanceDate).toISOString() : null,
+          record.performedBy,
+          record.notes,
+          record.deletedAt ? new Date(record.deletedAt).toISOString() : null
+        ];
+        data.push(row);
+      }
+      
+      await this.writeDataFile("maintenance_records.xlsx", data, "Sheet1");
+    } catch (error) {
+      console.error("Error writing maintenance records to Excel:", error);
+      throw error;
+    }
   }
 
   // Helper methods for reading/writing Excel files
@@ -1592,11 +2787,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating production_units.xlsx file...");
-        await this.initializeExcelFile("production_units.xlsx", ["id", "name", "location", "status", "costToDate", "createdAt"]);
+        await this.initializeExcelFile("production_units.xlsx", EXCEL_HEADERS["production_units.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("production_units.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -1608,6 +2803,8 @@ export class ExcelStorage implements IStorage {
       const locationIndex = headers.indexOf("location");
       const statusIndex = headers.indexOf("status");
       const costToDateIndex = headers.indexOf("costToDate");
+      const gstinIndex = headers.indexOf("gstin");
+      const stateCodeIndex = headers.indexOf("stateCode");
       const createdAtIndex = headers.indexOf("createdAt");
       
       const units: ProductionUnit[] = [];
@@ -1622,6 +2819,8 @@ export class ExcelStorage implements IStorage {
           location: row[locationIndex],
           status: row[statusIndex] || "active",
           costToDate: row[costToDateIndex] || "0",
+          gstin: row[gstinIndex] || null,
+          stateCode: stateCodeIndex >= 0 ? row[stateCodeIndex] || null : null,
           createdAt: row[createdAtIndex] ? new Date(row[createdAtIndex]) : new Date(),
         });
       
@@ -1633,14 +2832,12 @@ export class ExcelStorage implements IStorage {
       
       return units;
     } catch (error) {
-      console.error("Error reading production units from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "production units");
     }
   }
 
   private async writeProductionUnitsToExcel(units: ProductionUnit[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "production_units.xlsx");
-    const headers = ["id", "name", "location", "status", "costToDate", "createdAt"];
+    const headers = ["id", "name", "location", "status", "costToDate", "gstin", "stateCode", "createdAt"];
     
     const rows = units.map(unit => [
       unit.id,
@@ -1648,10 +2845,12 @@ export class ExcelStorage implements IStorage {
       unit.location,
       unit.status,
       unit.costToDate,
+      unit.gstin,
+      unit.stateCode || "",
       unit.createdAt instanceof Date ? unit.createdAt.toISOString() : unit.createdAt,
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Production Units");
+    await this.writeDataFile("production_units.xlsx", [headers, ...rows], "Production Units");
   }
 
   private async readExpensesFromExcel(): Promise<Expense[]> {
@@ -1666,11 +2865,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating expenses.xlsx file...");
-        await this.initializeExcelFile("expenses.xlsx", ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency"]);
+        await this.initializeExcelFile("expenses.xlsx", EXCEL_HEADERS["expenses.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("expenses.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -1686,9 +2885,19 @@ export class ExcelStorage implements IStorage {
       const baseAmountIndex = headers.indexOf("baseAmount");
       const gstRateIndex = headers.indexOf("gstRate");
       const gstAmountIndex = headers.indexOf("gstAmount");
+      const cgstAmountIndex = headers.indexOf("cgstAmount");
+      const sgstAmountIndex = headers.indexOf("sgstAmount");
+      const igstAmountIndex = headers.indexOf("igstAmount");
+      const supplierStateCodeIndex = headers.indexOf("supplierStateCode");
+      const supplierIdIndex = headers.indexOf("supplierId");
+      const gstRateVersionIdIndex = headers.indexOf("gstRateVersionId");
       const hsnIndex = headers.indexOf("hsn");
       const invoiceNumberIndex = headers.indexOf("invoiceNumber");
       const currencyIndex = headers.indexOf("currency");
+      const salaryPaymentIdIndex = headers.indexOf("salaryPaymentId");
+      const maintenanceRecordIdIndex = headers.indexOf("maintenanceRecordId");
+      const paidDateIndex = headers.indexOf("paidDate");
+      const deletedAtIndex = headers.indexOf("deletedAt");
       
       const expenses: Expense[] = [];
       
@@ -1706,9 +2915,19 @@ export class ExcelStorage implements IStorage {
           baseAmount: baseAmountIndex >= 0 ? row[baseAmountIndex] : null,
           gstRate: gstRateIndex >= 0 ? row[gstRateIndex] : null,
           gstAmount: gstAmountIndex >= 0 ? row[gstAmountIndex] : null,
+          cgstAmount: cgstAmountIndex >= 0 ? row[cgstAmountIndex] || null : null,
+          sgstAmount: sgstAmountIndex >= 0 ? row[sgstAmountIndex] || null : null,
+          igstAmount: igstAmountIndex >= 0 ? row[igstAmountIndex] || null : null,
+          supplierStateCode: supplierStateCodeIndex >= 0 ? row[supplierStateCodeIndex] || null : null,
+          supplierId: supplierIdIndex >= 0 && row[supplierIdIndex] ? parseInt(row[supplierIdIndex]) : null,
+          gstRateVersionId: gstRateVersionIdIndex >= 0 && row[gstRateVersionIdIndex] ? parseInt(row[gstRateVersionIdIndex]) : null,
           hsn: hsnIndex >= 0 ? row[hsnIndex] : null,
           invoiceNumber: invoiceNumberIndex >= 0 ? row[invoiceNumberIndex] : null,
-          currency: currencyIndex >= 0 ? row[currencyIndex] : "INR"
+          currency: currencyIndex >= 0 ? row[currencyIndex] : "INR",
+          salaryPaymentId: salaryPaymentIdIndex >= 0 && row[salaryPaymentIdIndex] ? parseInt(row[salaryPaymentIdIndex]) : null,
+          maintenanceRecordId: maintenanceRecordIdIndex >= 0 && row[maintenanceRecordIdIndex] ? parseInt(row[maintenanceRecordIdIndex]) : null,
+          paidDate: paidDateIndex >= 0 && row[paidDateIndex] ? new Date(row[paidDateIndex]) : null,
+          deletedAt: deletedAtIndex >= 0 && row[deletedAtIndex] ? new Date(row[deletedAtIndex]) : null
         });
         
         // Update the next ID counter
@@ -1719,15 +2938,14 @@ export class ExcelStorage implements IStorage {
       
       return expenses;
     } catch (error) {
-      console.error("Error reading expenses from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "expenses");
     }
   }
 
   private async writeExpensesToExcel(expenses: Expense[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "expenses.xlsx");
     const headers = ["id", "productionUnitId", "description", "amount", "date", "category", 
-                    "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency"];
+                    "baseAmount", "gstRate", "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "supplierStateCode",
+                    "supplierId", "gstRateVersionId", "hsn", "invoiceNumber", "currency", "salaryPaymentId", "maintenanceRecordId", "paidDate", "deletedAt"];
     
     const rows = expenses.map(expense => [
       expense.id,
@@ -1739,12 +2957,22 @@ export class ExcelStorage implements IStorage {
       expense.baseAmount || "",
       expense.gstRate || "",
       expense.gstAmount || "",
+      expense.cgstAmount || "",
+      expense.sgstAmount || "",
+      expense.igstAmount || "",
+      expense.supplierStateCode || "",
+      expense.supplierId || "",
+      expense.gstRateVersionId || "",
       expense.hsn || "",
       expense.invoiceNumber || "",
       expense.currency || "INR",
+      expense.salaryPaymentId || "",
+      expense.maintenanceRecordId || "",
+      expense.paidDate ? new Date(expense.paidDate).toISOString() : "",
+      expense.deletedAt ? new Date(expense.deletedAt).toISOString() : "",
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Expenses");
+    await this.writeDataFile("expenses.xlsx", [headers, ...rows], "Expenses");
   }
 
   private async readRevenuesFromExcel(): Promise<Revenue[]> {
@@ -1759,11 +2987,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating revenues.xlsx file...");
-        await this.initializeExcelFile("revenues.xlsx", ["id", "productionUnitId", "description", "amount", "date", "category", "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency", "orderId"]);
+        await this.initializeExcelFile("revenues.xlsx", EXCEL_HEADERS["revenues.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("revenues.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -1779,10 +3007,16 @@ export class ExcelStorage implements IStorage {
       const baseAmountIndex = headers.indexOf("baseAmount");
       const gstRateIndex = headers.indexOf("gstRate");
       const gstAmountIndex = headers.indexOf("gstAmount");
+      const cgstAmountIndex = headers.indexOf("cgstAmount");
+      const sgstAmountIndex = headers.indexOf("sgstAmount");
+      const igstAmountIndex = headers.indexOf("igstAmount");
+      const placeOfSupplyIndex = headers.indexOf("placeOfSupply");
+      const gstRateVersionIdIndex = headers.indexOf("gstRateVersionId");
       const hsnIndex = headers.indexOf("hsn");
       const invoiceNumberIndex = headers.indexOf("invoiceNumber");
       const currencyIndex = headers.indexOf("currency");
       const orderIdIndex = headers.indexOf("orderId");
+      const deletedAtIndex = headers.indexOf("deletedAt");
       
       const revenues: Revenue[] = [];
       
@@ -1800,10 +3034,16 @@ export class ExcelStorage implements IStorage {
           baseAmount: baseAmountIndex >= 0 ? row[baseAmountIndex] : null,
           gstRate: gstRateIndex >= 0 ? row[gstRateIndex] : null,
           gstAmount: gstAmountIndex >= 0 ? row[gstAmountIndex] : null,
+          cgstAmount: cgstAmountIndex >= 0 ? row[cgstAmountIndex] || null : null,
+          sgstAmount: sgstAmountIndex >= 0 ? row[sgstAmountIndex] || null : null,
+          igstAmount: igstAmountIndex >= 0 ? row[igstAmountIndex] || null : null,
+          placeOfSupply: placeOfSupplyIndex >= 0 ? row[placeOfSupplyIndex] || null : null,
+          gstRateVersionId: gstRateVersionIdIndex >= 0 && row[gstRateVersionIdIndex] ? parseInt(row[gstRateVersionIdIndex]) : null,
           hsn: hsnIndex >= 0 ? row[hsnIndex] : null,
           invoiceNumber: invoiceNumberIndex >= 0 ? row[invoiceNumberIndex] : null,
           currency: currencyIndex >= 0 ? row[currencyIndex] : "INR",
-          orderId: orderIdIndex >= 0 && row[orderIdIndex] ? parseInt(row[orderIdIndex]) : null
+          orderId: orderIdIndex >= 0 && row[orderIdIndex] ? parseInt(row[orderIdIndex]) : null,
+          deletedAt: deletedAtIndex >= 0 && row[deletedAtIndex] ? new Date(row[deletedAtIndex]) : null
         });
         
         // Update the next ID counter
@@ -1814,15 +3054,14 @@ export class ExcelStorage implements IStorage {
       
       return revenues;
     } catch (error) {
-      console.error("Error reading revenues from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "revenues");
     }
   }
 
   private async writeRevenuesToExcel(revenues: Revenue[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "revenues.xlsx");
     const headers = ["id", "productionUnitId", "description", "amount", "date", "category",
-                    "baseAmount", "gstRate", "gstAmount", "hsn", "invoiceNumber", "currency", "orderId"];
+                    "baseAmount", "gstRate", "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "placeOfSupply",
+                    "gstRateVersionId", "hsn", "invoiceNumber", "currency", "orderId", "deletedAt"];
     
     const rows = revenues.map(revenue => [
       revenue.id,
@@ -1834,13 +3073,19 @@ export class ExcelStorage implements IStorage {
       revenue.baseAmount || "",
       revenue.gstRate || "",
       revenue.gstAmount || "",
+      revenue.cgstAmount || "",
+      revenue.sgstAmount || "",
+      revenue.igstAmount || "",
+      revenue.placeOfSupply || "",
+      revenue.gstRateVersionId || "",
       revenue.hsn || "",
       revenue.invoiceNumber || "",
       revenue.currency || "INR",
-      revenue.orderId || ""
+      revenue.orderId || "",
+      revenue.deletedAt ? new Date(revenue.deletedAt).toISOString() : ""
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Revenues");
+    await this.writeDataFile("revenues.xlsx", [headers, ...rows], "Revenues");
   }
 
   private async readInventoryFromExcel(): Promise<InventoryItem[]> {
@@ -1855,11 +3100,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating inventory.xlsx file...");
-        await this.initializeExcelFile("inventory.xlsx", ["id", "name", "description", "quantity", "unitCost", "productionUnitId", "createdAt"]);
+        await this.initializeExcelFile("inventory.xlsx", EXCEL_HEADERS["inventory.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("inventory.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -1898,13 +3143,11 @@ export class ExcelStorage implements IStorage {
       
       return inventory;
     } catch (error) {
-      console.error("Error reading inventory from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "inventory");
     }
   }
 
   private async writeInventoryToExcel(inventory: InventoryItem[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "inventory.xlsx");
     const headers = ["id", "name", "description", "quantity", "unitCost", "productionUnitId", "createdAt"];
     
     const rows = inventory.map(item => [
@@ -1917,7 +3160,7 @@ export class ExcelStorage implements IStorage {
       item.createdAt instanceof Date ? item.createdAt.toISOString() : item.createdAt,
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Inventory");
+    await this.writeDataFile("inventory.xlsx", [headers, ...rows], "Inventory");
   }
 
   private async readReportsFromExcel(): Promise<Report[]> {
@@ -1932,11 +3175,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating reports.xlsx file...");
-        await this.initializeExcelFile("reports.xlsx", ["id", "name", "type", "generatedAt", "filePath"]);
+        await this.initializeExcelFile("reports.xlsx", EXCEL_HEADERS["reports.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("reports.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -1971,13 +3214,11 @@ export class ExcelStorage implements IStorage {
       
       return reports;
     } catch (error) {
-      console.error("Error reading reports from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "reports");
     }
   }
 
   private async writeReportsToExcel(reports: Report[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "reports.xlsx");
     const headers = ["id", "name", "type", "generatedAt", "filePath"];
     
     const rows = reports.map(report => [
@@ -1988,7 +3229,7 @@ export class ExcelStorage implements IStorage {
       report.filePath,
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Reports");
+    await this.writeDataFile("reports.xlsx", [headers, ...rows], "Reports");
   }
 
   private async readUsersFromExcel(): Promise<User[]> {
@@ -2003,35 +3244,14 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating users.xlsx file...");
-        await this.initializeExcelFile("users.xlsx", ["id", "username", "password", "name", "role"]);
-        
-        // Create a default admin user
-        const defaultUser: User = {
-          id: 1,
-          username: "admin",
-          password: "admin", // In a real app, this would be hashed
-          name: "Administrator",
-          role: "admin"
-        };
-        
-        await this.writeUsersToExcel([defaultUser]);
-        return [defaultUser]; // Return the default user
+        await this.initializeExcelFile("users.xlsx", EXCEL_HEADERS["users.xlsx"]);
+        return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("users.xlsx");
       
       if (!data || data.length <= 1) {
-        // Create a default admin user if the file is empty
-        const defaultUser: User = {
-          id: 1,
-          username: "admin",
-          password: "admin", // In a real app, this would be hashed
-          name: "Administrator",
-          role: "admin"
-        };
-        
-        await this.writeUsersToExcel([defaultUser]);
-        return [defaultUser];
+        return [];
       }
       
       const headers = data[0];
@@ -2040,6 +3260,8 @@ export class ExcelStorage implements IStorage {
       const passwordIndex = headers.indexOf("password");
       const nameIndex = headers.indexOf("name");
       const roleIndex = headers.indexOf("role");
+      const productionUnitIdIndex = headers.indexOf("productionUnitId");
+      const activeIndex = headers.indexOf("active");
       
       const users: User[] = [];
       
@@ -2053,6 +3275,9 @@ export class ExcelStorage implements IStorage {
           password: row[passwordIndex],
           name: row[nameIndex],
           role: row[roleIndex],
+          productionUnitId: productionUnitIdIndex >= 0 && row[productionUnitIdIndex] ? parseInt(row[productionUnitIdIndex]) : null,
+          // Users saved before accounts could be deactivated are active
+          active: activeIndex < 0 || row[activeIndex] !== "false",
         });
         
         // Update the next ID counter
@@ -2063,21 +3288,12 @@ export class ExcelStorage implements IStorage {
       
       return users;
     } catch (error) {
-      console.error("Error reading users from Excel:", error);
-      // Return a default admin user as fallback
-      return [{
-        id: 1,
-        username: "admin",
-        password: "admin",
-        name: "Administrator",
-        role: "admin"
-      }];
+      return emptyIfMissing(error, "users");
     }
   }
 
   private async writeUsersToExcel(users: User[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "users.xlsx");
-    const headers = ["id", "username", "password", "name", "role"];
+    const headers = ["id", "username", "password", "name", "role", "productionUnitId", "active"];
     
     const rows = users.map(user => [
       user.id,
@@ -2085,9 +3301,11 @@ export class ExcelStorage implements IStorage {
       user.password,
       user.name,
       user.role,
+      user.productionUnitId || "",
+      user.active ? "true" : "false",
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Users");
+    await this.writeDataFile("users.xlsx", [headers, ...rows], "Users");
   }
   
   // Private methods for reading/writing Customers from/to Excel
@@ -2103,11 +3321,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating customers.xlsx file...");
-        await this.initializeExcelFile("customers.xlsx", ["id", "name", "phone", "email", "address", "gstin", "notes", "createdAt"]);
+        await this.initializeExcelFile("customers.xlsx", EXCEL_HEADERS["customers.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("customers.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -2120,6 +3338,7 @@ export class ExcelStorage implements IStorage {
       const emailIndex = headers.indexOf("email");
       const addressIndex = headers.indexOf("address");
       const gstinIndex = headers.indexOf("gstin");
+      const stateCodeIndex = headers.indexOf("stateCode");
       const notesIndex = headers.indexOf("notes");
       const createdAtIndex = headers.indexOf("createdAt");
       
@@ -2136,6 +3355,7 @@ export class ExcelStorage implements IStorage {
           email: row[emailIndex] || null,
           address: row[addressIndex] || null,
           gstin: row[gstinIndex] || null,
+          stateCode: stateCodeIndex >= 0 ? row[stateCodeIndex] || null : null,
           notes: row[notesIndex] || null,
           createdAt: row[createdAtIndex] ? new Date(row[createdAtIndex]) : new Date(),
         });
@@ -2148,14 +3368,12 @@ export class ExcelStorage implements IStorage {
       
       return customers;
     } catch (error) {
-      console.error("Error reading customers from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "customers");
     }
   }
 
   private async writeCustomersToExcel(customers: Customer[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "customers.xlsx");
-    const headers = ["id", "name", "phone", "email", "address", "gstin", "notes", "createdAt"];
+    const headers = ["id", "name", "phone", "email", "address", "gstin", "stateCode", "notes", "createdAt"];
     
     const rows = customers.map(customer => [
       customer.id,
@@ -2164,11 +3382,306 @@ export class ExcelStorage implements IStorage {
       customer.email,
       customer.address,
       customer.gstin,
+      customer.stateCode,
       customer.notes,
       customer.createdAt instanceof Date ? customer.createdAt.toISOString() : customer.createdAt,
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Customers");
+    await this.writeDataFile("customers.xlsx", [headers, ...rows], "Customers");
+  }
+
+  private async readSuppliersFromExcel(): Promise<Supplier[]> {
+    try {
+      const filePath = path.join(this.dataDirectory, "suppliers.xlsx");
+      
+      // Make sure directory exists
+      await ensureDirectoryExists(this.dataDirectory);
+      
+      // Check if file exists, create it if not
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        console.log("Creating suppliers.xlsx file...");
+        await this.initializeExcelFile("suppliers.xlsx", EXCEL_HEADERS["suppliers.xlsx"]);
+        return []; // Return empty array since file was just created
+      }
+      
+      const data = await this.readDataFile("suppliers.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const idIndex = headers.indexOf("id");
+      const nameIndex = headers.indexOf("name");
+      const gstinIndex = headers.indexOf("gstin");
+      const stateCodeIndex = headers.indexOf("stateCode");
+      const contactPersonIndex = headers.indexOf("contactPerson");
+      const phoneIndex = headers.indexOf("phone");
+      const emailIndex = headers.indexOf("email");
+      const addressIndex = headers.indexOf("address");
+      const paymentTermsDaysIndex = headers.indexOf("paymentTermsDays");
+      const notesIndex = headers.indexOf("notes");
+      const createdAtIndex = headers.indexOf("createdAt");
+      
+      const suppliers: Supplier[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const id = parseInt(row[idIndex]);
+        
+        suppliers.push({
+          id: id,
+          name: row[nameIndex],
+          gstin: row[gstinIndex] || null,
+          stateCode: row[stateCodeIndex] || null,
+          contactPerson: row[contactPersonIndex] || null,
+          phone: row[phoneIndex] || null,
+          email: row[emailIndex] || null,
+          address: row[addressIndex] || null,
+          paymentTermsDays: parseInt(row[paymentTermsDaysIndex]) || 0,
+          notes: row[notesIndex] || null,
+          createdAt: row[createdAtIndex] ? new Date(row[createdAtIndex]) : new Date(),
+        });
+        
+        // Update the next ID counter
+        if (id >= this.supplierNextId) {
+          this.supplierNextId = id + 1;
+        }
+      }
+      
+      return suppliers;
+    } catch (error) {
+      return emptyIfMissing(error, "suppliers");
+    }
+  }
+
+  private async writeSuppliersToExcel(suppliers: Supplier[]): Promise<void> {
+    const headers = ["id", "name", "gstin", "stateCode", "contactPerson", "phone", "email", "address", "paymentTermsDays", "notes", "createdAt"];
+    
+    const rows = suppliers.map(supplier => [
+      supplier.id,
+      supplier.name,
+      supplier.gstin,
+      supplier.stateCode,
+      supplier.contactPerson,
+      supplier.phone,
+      supplier.email,
+      supplier.address,
+      supplier.paymentTermsDays,
+      supplier.notes,
+      supplier.createdAt instanceof Date ? supplier.createdAt.toISOString() : supplier.createdAt,
+    ]);
+    
+    await this.writeDataFile("suppliers.xlsx", [headers, ...rows], "Suppliers");
+  }
+
+  private async readHsnCodesFromExcel(): Promise<HsnCode[]> {
+    try {
+      const filePath = path.join(this.dataDirectory, "hsn_codes.xlsx");
+      
+      // Make sure directory exists
+      await ensureDirectoryExists(this.dataDirectory);
+      
+      // Check if file exists, create it if not
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        console.log("Creating hsn_codes.xlsx file...");
+        await this.initializeExcelFile("hsn_codes.xlsx", EXCEL_HEADERS["hsn_codes.xlsx"]);
+        return []; // Return empty array since file was just created
+      }
+      
+      const data = await this.readDataFile("hsn_codes.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const idIndex = headers.indexOf("id");
+      const codeIndex = headers.indexOf("code");
+      const descriptionIndex = headers.indexOf("description");
+      const gstRateIndex = headers.indexOf("gstRate");
+      
+      const hsnCodes: HsnCode[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const id = parseInt(row[idIndex]);
+        
+        hsnCodes.push({
+          id: id,
+          code: row[codeIndex],
+          description: row[descriptionIndex],
+          gstRate: row[gstRateIndex] || "0",
+        });
+        
+        // Update the next ID counter
+        if (id >= this.hsnCodeNextId) {
+          this.hsnCodeNextId = id + 1;
+        }
+      }
+      
+      return hsnCodes;
+    } catch (error) {
+      return emptyIfMissing(error, "HSN codes");
+    }
+  }
+
+  private async writeHsnCodesToExcel(hsnCodes: HsnCode[]): Promise<void> {
+    const headers = ["id", "code", "description", "gstRate"];
+    
+    const rows = hsnCodes.map(hsnCode => [
+      hsnCode.id,
+      hsnCode.code,
+      hsnCode.description,
+      hsnCode.gstRate,
+    ]);
+    
+    await this.writeDataFile("hsn_codes.xlsx", [headers, ...rows], "HSN Codes");
+  }
+
+  private async readTaxCategoriesFromExcel(): Promise<TaxCategory[]> {
+    try {
+      const filePath = path.join(this.dataDirectory, "tax_categories.xlsx");
+      
+      // Make sure directory exists
+      await ensureDirectoryExists(this.dataDirectory);
+      
+      // Check if file exists, create it if not
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        console.log("Creating tax_categories.xlsx file...");
+        await this.initializeExcelFile("tax_categories.xlsx", EXCEL_HEADERS["tax_categories.xlsx"]);
+        return []; // Return empty array since file was just created
+      }
+      
+      const data = await this.readDataFile("tax_categories.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const idIndex = headers.indexOf("id");
+      const kindIndex = headers.indexOf("kind");
+      const nameIndex = headers.indexOf("name");
+      const hsnCodeIndex = headers.indexOf("hsnCode");
+      const gstRateIndex = headers.indexOf("gstRate");
+      
+      const categories: TaxCategory[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const id = parseInt(row[idIndex]);
+        
+        categories.push({
+          id: id,
+          kind: row[kindIndex],
+          name: row[nameIndex],
+          hsnCode: row[hsnCodeIndex] || null,
+          gstRate: row[gstRateIndex] || null,
+        });
+        
+        // Update the next ID counter
+        if (id >= this.taxCategoryNextId) {
+          this.taxCategoryNextId = id + 1;
+        }
+      }
+      
+      return categories;
+    } catch (error) {
+      return emptyIfMissing(error, "tax categories");
+    }
+  }
+
+  private async writeTaxCategoriesToExcel(categories: TaxCategory[]): Promise<void> {
+    const headers = ["id", "kind", "name", "hsnCode", "gstRate"];
+    
+    const rows = categories.map(category => [
+      category.id,
+      category.kind,
+      category.name,
+      category.hsnCode,
+      category.gstRate,
+    ]);
+    
+    await this.writeDataFile("tax_categories.xlsx", [headers, ...rows], "Tax Categories");
+  }
+
+  private async readGstRateVersionsFromExcel(): Promise<GstRateVersion[]> {
+    try {
+      const filePath = path.join(this.dataDirectory, "gst_rate_versions.xlsx");
+      
+      // Make sure directory exists
+      await ensureDirectoryExists(this.dataDirectory);
+      
+      // Check if file exists, create it if not
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        console.log("Creating gst_rate_versions.xlsx file...");
+        await this.initializeExcelFile("gst_rate_versions.xlsx", EXCEL_HEADERS["gst_rate_versions.xlsx"]);
+        return []; // Return empty array since file was just created
+      }
+      
+      const data = await this.readDataFile("gst_rate_versions.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const idIndex = headers.indexOf("id");
+      const hsnCodeIndex = headers.indexOf("hsnCode");
+      const categoryIdIndex = headers.indexOf("categoryId");
+      const gstRateIndex = headers.indexOf("gstRate");
+      const effectiveFromIndex = headers.indexOf("effectiveFrom");
+      const notificationIndex = headers.indexOf("notification");
+      
+      const versions: GstRateVersion[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const id = parseInt(row[idIndex]);
+        
+        versions.push({
+          id: id,
+          hsnCode: row[hsnCodeIndex] || null,
+          categoryId: row[categoryIdIndex] ? parseInt(row[categoryIdIndex]) : null,
+          gstRate: row[gstRateIndex],
+          effectiveFrom: new Date(row[effectiveFromIndex]),
+          notification: row[notificationIndex] || null,
+        });
+        
+        // Update the next ID counter
+        if (id >= this.gstRateVersionNextId) {
+          this.gstRateVersionNextId = id + 1;
+        }
+      }
+      
+      return versions;
+    } catch (error) {
+      return emptyIfMissing(error, "GST rate versions");
+    }
+  }
+
+  private async writeGstRateVersionsToExcel(versions: GstRateVersion[]): Promise<void> {
+    const headers = ["id", "hsnCode", "categoryId", "gstRate", "effectiveFrom", "notification"];
+    
+    const rows = versions.map(version => [
+      version.id,
+      version.hsnCode,
+      version.categoryId,
+      version.gstRate,
+      new Date(version.effectiveFrom).toISOString(),
+      version.notification,
+    ]);
+    
+    await this.writeDataFile("gst_rate_versions.xlsx", [headers, ...rows], "GST Rate Versions");
   }
   
   // Private methods for reading/writing Orders from/to Excel
@@ -2184,17 +3697,11 @@ export class ExcelStorage implements IStorage {
         await fs.access(filePath);
       } catch (error) {
         console.log("Creating orders.xlsx file...");
-        await this.initializeExcelFile("orders.xlsx", [
-          "id", "orderNumber", "customerId", "productionUnitId", 
-          "description", "orderDate", "deliveryDate", "status", 
-          "totalAmount", "paidAmount", "baseAmount", "gstRate", 
-          "gstAmount", "hsn", "invoiceNumber", "currency", "category",
-          "measurements", "fabricDetails", "specialInstructions"
-        ]);
+        await this.initializeExcelFile("orders.xlsx", EXCEL_HEADERS["orders.xlsx"]);
         return []; // Return empty array since file was just created
       }
       
-      const data = await readExcelFile(filePath);
+      const data = await this.readDataFile("orders.xlsx");
       
       if (!data || data.length <= 1) {
         return [];
@@ -2214,6 +3721,11 @@ export class ExcelStorage implements IStorage {
       const baseAmountIndex = headers.indexOf("baseAmount");
       const gstRateIndex = headers.indexOf("gstRate");
       const gstAmountIndex = headers.indexOf("gstAmount");
+      const cgstAmountIndex = headers.indexOf("cgstAmount");
+      const sgstAmountIndex = headers.indexOf("sgstAmount");
+      const igstAmountIndex = headers.indexOf("igstAmount");
+      const placeOfSupplyIndex = headers.indexOf("placeOfSupply");
+      const gstRateVersionIdIndex = headers.indexOf("gstRateVersionId");
       const hsnIndex = headers.indexOf("hsn");
       const invoiceNumberIndex = headers.indexOf("invoiceNumber");
       const currencyIndex = headers.indexOf("currency");
@@ -2221,6 +3733,7 @@ export class ExcelStorage implements IStorage {
       const measurementsIndex = headers.indexOf("measurements");
       const fabricDetailsIndex = headers.indexOf("fabricDetails");
       const specialInstructionsIndex = headers.indexOf("specialInstructions");
+      const deletedAtIndex = headers.indexOf("deletedAt");
       
       const orders: Order[] = [];
       
@@ -2242,6 +3755,11 @@ export class ExcelStorage implements IStorage {
           baseAmount: row[baseAmountIndex] || null,
           gstRate: row[gstRateIndex] || null,
           gstAmount: row[gstAmountIndex] || null,
+          cgstAmount: cgstAmountIndex >= 0 ? row[cgstAmountIndex] || null : null,
+          sgstAmount: sgstAmountIndex >= 0 ? row[sgstAmountIndex] || null : null,
+          igstAmount: igstAmountIndex >= 0 ? row[igstAmountIndex] || null : null,
+          placeOfSupply: placeOfSupplyIndex >= 0 ? row[placeOfSupplyIndex] || null : null,
+          gstRateVersionId: gstRateVersionIdIndex >= 0 && row[gstRateVersionIdIndex] ? parseInt(row[gstRateVersionIdIndex]) : null,
           hsn: row[hsnIndex] || null,
           invoiceNumber: row[invoiceNumberIndex] || null,
           currency: row[currencyIndex] || "INR",
@@ -2249,6 +3767,7 @@ export class ExcelStorage implements IStorage {
           measurements: row[measurementsIndex] || null,
           fabricDetails: row[fabricDetailsIndex] || null,
           specialInstructions: row[specialInstructionsIndex] || null,
+          deletedAt: deletedAtIndex >= 0 && row[deletedAtIndex] ? new Date(row[deletedAtIndex]) : null,
         });
         
         // Update the next ID counter
@@ -2259,19 +3778,18 @@ export class ExcelStorage implements IStorage {
       
       return orders;
     } catch (error) {
-      console.error("Error reading orders from Excel:", error);
-      return [];
+      return emptyIfMissing(error, "orders");
     }
   }
 
   private async writeOrdersToExcel(orders: Order[]): Promise<void> {
-    const filePath = path.join(this.dataDirectory, "orders.xlsx");
     const headers = [
       "id", "orderNumber", "customerId", "productionUnitId", 
       "description", "orderDate", "deliveryDate", "status", 
       "totalAmount", "paidAmount", "baseAmount", "gstRate", 
-      "gstAmount", "hsn", "invoiceNumber", "currency", "category",
-      "measurements", "fabricDetails", "specialInstructions"
+      "gstAmount", "cgstAmount", "sgstAmount", "igstAmount", "placeOfSupply",
+      "gstRateVersionId", "hsn", "invoiceNumber", "currency", "category",
+      "measurements", "fabricDetails", "specialInstructions", "deletedAt"
     ];
     
     const rows = orders.map(order => [
@@ -2288,6 +3806,11 @@ export class ExcelStorage implements IStorage {
       order.baseAmount,
       order.gstRate,
       order.gstAmount,
+      order.cgstAmount,
+      order.sgstAmount,
+      order.igstAmount,
+      order.placeOfSupply,
+      order.gstRateVersionId,
       order.hsn,
       order.invoiceNumber,
       order.currency,
@@ -2295,10 +3818,105 @@ export class ExcelStorage implements IStorage {
       order.measurements,
       order.fabricDetails,
       order.specialInstructions,
+      order.deletedAt ? new Date(order.deletedAt).toISOString() : null,
+    ]);
+    
+    await this.writeDataFile("orders.xlsx", [headers, ...rows], "Orders");
+  }
+
+  // Private methods for reading/writing the audit log from/to Excel
+  private async readAuditLogFromExcel(): Promise<AuditEntry[]> {
+    const filePath = path.join(this.dataDirectory, "audit_log.xlsx");
+    
+    try {
+      try {
+        await fs.access(filePath);
+      } catch (error) {
+        await this.initializeExcelFile("audit_log.xlsx", EXCEL_HEADERS["audit_log.xlsx"]);
+        return [];
+      }
+      
+      const data = await this.readDataFile("audit_log.xlsx");
+      
+      if (!data || data.length <= 1) {
+        return [];
+      }
+      
+      const headers = data[0];
+      const idIndex = headers.indexOf("id");
+      const entityIndex = headers.indexOf("entity");
+      const entityIdIndex = headers.indexOf("entityId");
+      const actionIndex = headers.indexOf("action");
+      const changedAtIndex = headers.indexOf("changedAt");
+      const changedByIndex = headers.indexOf("changedBy");
+      const previousValuesIndex = headers.indexOf("previousValues");
+      const newValuesIndex = headers.indexOf("newValues");
+      
+      const entries: AuditEntry[] = [];
+      
+      for (let i = 1; i < data.length; i++) {
+        const row = data[i];
+        const id = parseInt(row[idIndex]);
+        
+        entries.push({
+          id: id,
+          entity: row[entityIndex],
+          entityId: parseInt(row[entityIdIndex]),
+          action: row[actionIndex],
+          changedAt: row[changedAtIndex] ? new Date(row[changedAtIndex]) : new Date(),
+          changedBy: row[changedByIndex] || null,
+          previousValues: row[previousValuesIndex] || null,
+          newValues: row[newValuesIndex] || null,
+        });
+        
+        // Update the next ID counter
+        if (id >= this.auditEntryNextId) {
+          this.auditEntryNextId = id + 1;
+        }
+      }
+      
+      return entries;
+    } catch (error) {
+      return emptyIfMissing(error, "audit log");
+    }
+  }
+
+  private async writeAuditLogToExcel(entries: AuditEntry[]): Promise<void> {
+    const headers = EXCEL_HEADERS["audit_log.xlsx"];
+    
+    const rows = entries.map(entry => [
+      entry.id,
+      entry.entity,
+      entry.entityId,
+      entry.action,
+      entry.changedAt instanceof Date ? entry.changedAt.toISOString() : entry.changedAt,
+      entry.changedBy,
+      entry.previousValues,
+      entry.newValues,
     ]);
     
-    await writeExcelFile(filePath, [headers, ...rows], "Orders");
+    await this.writeDataFile("audit_log.xlsx", [headers, ...rows], "Audit Log");
+  }
+}
+
+/**
+ * Picks the storage backend from STORAGE_BACKEND ("excel" by default, or
+ * "postgres" to use DrizzleStorage against DATABASE_URL)
+ */
+function createStorage(): IStorage {
+  const backend = (process.env.STORAGE_BACKEND || "excel").toLowerCase();
+
+  switch (backend) {
+    case "excel":
+      return new ExcelStorage();
+    case "postgres":
+      if (!process.env.DATABASE_URL) {
+        throw new Error("STORAGE_BACKEND=postgres requires DATABASE_URL to be set");
+      }
+      return new DrizzleStorage(createDatabase(process.env.DATABASE_URL));
+    default:
+      throw new Error(`Unsupported storage backend: ${backend}`);
   }
 }
 
-export const storage = new ExcelStorage();
+export const storage = createStorage();
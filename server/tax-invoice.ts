@@ -0,0 +1,200 @@
+import { format } from "date-fns";
+import { Invoice } from "@shared/schema";
+import { amountInWords, formatStateCode, getStateCodeFromGSTIN } from "@shared/gst-utils";
+import { parseInvoiceLines, summarizeByHsn } from "@shared/invoices";
+import { A4_HEIGHT, A4_WIDTH, PdfDocument } from "./pdf-writer";
+
+const MARGIN = 40;
+const CONTENT_WIDTH = A4_WIDTH - MARGIN * 2;
+
+type TableColumn = { label: string; width: number; align?: "left" | "right" };
+
+function formatAmount(amount: number | string): string {
+  return Number(amount).toLocaleString("en-IN", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+/**
+ * Lays out a GST tax invoice on A4 pages: seller and buyer with their GSTINs,
+ * place of supply, the invoice lines with CGST + SGST or IGST, the total in
+ * words and the HSN-wise tax summary
+ */
+export function renderInvoicePdf(invoice: Invoice): Buffer {
+  const pdf = new PdfDocument();
+  const lines = parseInvoiceLines(invoice.lines);
+  let y = MARGIN + 20;
+
+  // Starts a new page when the next block won't fit on this one
+  const ensureSpace = (height: number) => {
+    if (y + height > A4_HEIGHT - MARGIN) {
+      pdf.addPage();
+      y = MARGIN + 20;
+    }
+  };
+
+  // Header row and body rows of a ruled table; cells in the first wrapping column may wrap
+  const table = (columns: TableColumn[], rows: string[][], wrapColumn = -1) => {
+    const drawRow = (cells: string[], bold: boolean) => {
+      const wrapped = cells.map((cell, index) =>
+        index === wrapColumn ? pdf.wrapText(cell, columns[index].width - 8, 9) : [cell]
+      );
+      const height = Math.max(...wrapped.map(cellLines => cellLines.length)) * 12 + 6;
+      ensureSpace(height);
+
+      let x = MARGIN;
+      columns.forEach((column, index) => {
+        wrapped[index].forEach((text, lineIndex) => {
+          const textX = column.align === "right" ? x + column.width - 4 : x + 4;
+          pdf.text(text, textX, y + 12 + lineIndex * 12, { size: 9, font: bold ? "bold" : "regular", align: column.align });
+        });
+        x += column.width;
+      });
+      pdf.line(MARGIN, y + height, MARGIN + CONTENT_WIDTH, y + height);
+      y += height;
+    };
+
+    pdf.line(MARGIN, y, MARGIN + CONTENT_WIDTH, y);
+    drawRow(columns.map(column => column.label), true);
+    rows.forEach(row => drawRow(row, false));
+  };
+
+  // Title, with a stamp on cancelled invoices
+  pdf.text("TAX INVOICE", MARGIN + CONTENT_WIDTH / 2, y, { size: 18, font: "bold", align: "center" });
+  if (invoice.status === "cancelled") {
+    pdf.text("CANCELLED", MARGIN + CONTENT_WIDTH, y, { size: 14, font: "bold", align: "right" });
+  }
+  y += 30;
+
+  // Seller on the left, invoice details on the right
+  const sellerState = getStateCodeFromGSTIN(invoice.sellerGstin);
+  const sellerLines = [
+    ...(invoice.sellerAddress ? pdf.wrapText(invoice.sellerAddress, CONTENT_WIDTH / 2 - 10) : []),
+    `GSTIN: ${invoice.sellerGstin}`,
+    ...(sellerState ? [`State: ${formatStateCode(sellerState)}`] : []),
+  ];
+  pdf.text(invoice.sellerName, MARGIN, y, { size: 12, font: "bold" });
+  sellerLines.forEach((line, index) => pdf.text(line, MARGIN, y + 16 + index * 13));
+
+  const details: [string, string][] = [
+    ["Invoice No.", invoice.invoiceNumber],
+    ["Invoice Date", format(new Date(invoice.invoiceDate), "dd MMM yyyy")],
+    ["Place of Supply", formatStateCode(invoice.placeOfSupply)],
+    ["Reverse Charge", "No"],
+  ];
+  const detailsX = MARGIN + CONTENT_WIDTH / 2 + 20;
+  details.forEach(([label, value], index) => {
+    pdf.text(`${label}:`, detailsX, y + index * 14, { font: "bold" });
+    pdf.text(value, detailsX + 90, y + index * 14);
+  });
+  y += Math.max(16 + sellerLines.length * 13, details.length * 14) + 14;
+
+  // Buyer
+  const buyerState = getStateCodeFromGSTIN(invoice.buyerGstin);
+  pdf.line(MARGIN, y - 10, MARGIN + CONTENT_WIDTH, y - 10);
+  pdf.text("Bill To", MARGIN, y + 4, { size: 9, font: "bold" });
+  pdf.text(invoice.buyerName, MARGIN, y + 18, { size: 11, font: "bold" });
+  y += 32;
+  const buyerLines = [
+    ...(invoice.buyerAddress ? pdf.wrapText(invoice.buyerAddress, CONTENT_WIDTH) : []),
+    `GSTIN: ${invoice.buyerGstin || "Unregistered"}`,
+    ...(buyerState ? [`State: ${formatStateCode(buyerState)}`] : []),
+  ];
+  buyerLines.forEach(line => {
+    pdf.text(line, MARGIN, y);
+    y += 13;
+  });
+  y += 12;
+
+  // Invoice lines
+  const taxColumns: TableColumn[] = invoice.isInterState
+    ? [{ label: "IGST", width: 70, align: "right" }]
+    : [{ label: "CGST", width: 60, align: "right" }, { label: "SGST", width: 60, align: "right" }];
+  const fixedWidth = 22 + 55 + 75 + 40 + 75 + taxColumns.reduce((sum, column) => sum + column.width, 0);
+  table(
+    [
+      { label: "#", width: 22 },
+      { label: "Description", width: CONTENT_WIDTH - fixedWidth },
+      { label: "HSN/SAC", width: 55 },
+      { label: "Taxable Value", width: 75, align: "right" },
+      { label: "Rate", width: 40, align: "right" },
+      ...taxColumns,
+      { label: "Total", width: 75, align: "right" },
+    ],
+    lines.map((line, index) => [
+      String(index + 1),
+      line.description,
+      line.hsn || "-",
+      formatAmount(line.taxableValue),
+      `${line.gstRate}%`,
+      ...(invoice.isInterState ? [formatAmount(line.igst)] : [formatAmount(line.cgst), formatAmount(line.sgst)]),
+      formatAmount(line.total),
+    ]),
+    1
+  );
+
+  // Totals, right-aligned under the table
+  const totals: [string, string][] = [
+    ["Taxable Value", formatAmount(invoice.taxableValue)],
+    ...(invoice.isInterState
+      ? [["IGST", formatAmount(invoice.igstAmount)] as [string, string]]
+      : [["CGST", formatAmount(invoice.cgstAmount)], ["SGST", formatAmount(invoice.sgstAmount)]] as [string, string][]),
+    ["Invoice Total (Rs.)", formatAmount(invoice.totalAmount)],
+  ];
+  ensureSpace(totals.length * 15 + 40);
+  y += 16;
+  totals.forEach(([label, value], index) => {
+    const bold = index === totals.length - 1;
+    pdf.text(label, MARGIN + CONTENT_WIDTH - 110, y, { font: bold ? "bold" : "regular", align: "right" });
+    pdf.text(value, MARGIN + CONTENT_WIDTH - 4, y, { font: bold ? "bold" : "regular", align: "right" });
+    y += 15;
+  });
+
+  y += 6;
+  for (const line of pdf.wrapText(`Amount in words: ${amountInWords(parseFloat(invoice.totalAmount))}`, CONTENT_WIDTH, 10, "bold")) {
+    ensureSpace(14);
+    pdf.text(line, MARGIN, y, { font: "bold" });
+    y += 14;
+  }
+
+  // HSN-wise summary of the tax charged
+  ensureSpace(60);
+  y += 14;
+  pdf.text("HSN/SAC Summary", MARGIN, y, { size: 11, font: "bold" });
+  y += 8;
+  const summaryTaxColumns: TableColumn[] = invoice.isInterState
+    ? [{ label: "IGST", width: 90, align: "right" }]
+    : [{ label: "CGST", width: 80, align: "right" }, { label: "SGST", width: 80, align: "right" }];
+  const summaryFixedWidth = 100 + 50 + 90 + summaryTaxColumns.reduce((sum, column) => sum + column.width, 0);
+  table(
+    [
+      { label: "HSN/SAC", width: CONTENT_WIDTH - summaryFixedWidth },
+      { label: "Taxable Value", width: 100, align: "right" },
+      { label: "Rate", width: 50, align: "right" },
+      ...summaryTaxColumns,
+      { label: "Total Tax", width: 90, align: "right" },
+    ],
+    summarizeByHsn(lines).map(row => [
+      row.hsn,
+      formatAmount(row.taxableValue),
+      `${row.gstRate}%`,
+      ...(invoice.isInterState ? [formatAmount(row.igst)] : [formatAmount(row.cgst), formatAmount(row.sgst)]),
+      formatAmount(row.totalTax),
+    ])
+  );
+
+  if (invoice.status === "cancelled" && invoice.cancelReason) {
+    ensureSpace(20);
+    y += 16;
+    pdf.text(`Cancelled: ${invoice.cancelReason}`, MARGIN, y, { size: 9 });
+  }
+
+  // Signature block
+  ensureSpace(70);
+  y += 30;
+  pdf.text(`For ${invoice.sellerName}`, MARGIN + CONTENT_WIDTH, y, { font: "bold", align: "right" });
+  pdf.line(MARGIN + CONTENT_WIDTH - 150, y + 36, MARGIN + CONTENT_WIDTH, y + 36);
+  pdf.text("Authorised Signatory", MARGIN + CONTENT_WIDTH, y + 48, { size: 9, align: "right" });
+
+  pdf.text("This is a computer-generated invoice.", MARGIN, A4_HEIGHT - MARGIN / 2, { size: 8 });
+
+  return pdf.toBuffer();
+}
@@ -0,0 +1,40 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+
+// Workbook handling only ExcelStorage has
+describe("ExcelStorage workbooks", () => {
+  const originalDirectory = process.cwd();
+  let directory: string;
+
+  before(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "excel-storage-"));
+    process.chdir(directory);
+  });
+
+  after(async () => {
+    process.chdir(originalDirectory);
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it("fails a write rather than overwrite a workbook it can't read", async () => {
+    // A directory in the workbook's place can't be read, like a workbook locked by Excel
+    await fs.mkdir(path.join(directory, "data", "expenses.xlsx"), { recursive: true });
+    const { ExcelStorage } = await import("../storage");
+    const storage = new ExcelStorage();
+    await storage.ready;
+
+    await assert.rejects(storage.getAllExpenses(), { code: "EISDIR" });
+    await assert.rejects(storage.createExpense({
+      productionUnitId: 1,
+      description: "Cotton",
+      amount: "1050",
+      gstRate: "5",
+      category: "Fabric",
+      date: new Date()
+    }), { code: "EISDIR" });
+    assert.ok((await fs.stat(path.join(directory, "data", "expenses.xlsx"))).isDirectory());
+  });
+});
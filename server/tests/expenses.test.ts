@@ -0,0 +1,45 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("expenses", (context) => {
+  it("splits the GST of an intra-state expense into CGST and SGST", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const expense = await storage.createExpense({
+      productionUnitId: unit.id,
+      description: "Thread",
+      amount: "1050",
+      baseAmount: "1000",
+      gstRate: "5",
+      gstAmount: "50",
+      category: "Thread",
+      date: new Date()
+    });
+
+    assert.equal(parseFloat(expense.cgstAmount!), 25);
+    assert.equal(parseFloat(expense.sgstAmount!), 25);
+    assert.equal(parseFloat(expense.igstAmount!), 0);
+  });
+
+  it("moves deleted expenses to the recycle bin and restores them", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const expense = await storage.createExpense({
+      productionUnitId: unit.id,
+      description: "Buttons",
+      amount: "224",
+      gstRate: "12",
+      category: "Buttons",
+      date: new Date()
+    });
+
+    await storage.deleteExpense(expense.id);
+    assert.equal((await storage.getExpensesByProductionUnit(unit.id)).length, 0);
+    assert.ok((await storage.getDeletedRecords()).some(deleted => deleted.entity === "expenses" && deleted.id === expense.id));
+
+    const restored = await storage.restoreExpense(expense.id);
+    assert.equal(restored?.deletedAt, null);
+    assert.deepEqual((await storage.getExpensesByProductionUnit(unit.id)).map(found => found.id), [expense.id]);
+  });
+});
@@ -0,0 +1,36 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { format } from "date-fns";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("GST returns", (context) => {
+  it("claims input tax credit only on bills from suppliers with a GSTIN", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const registered = await storage.createSupplier({ name: "Registered mill", gstin: "24AAPFU0939F1ZV" });
+    const unregistered = await storage.createSupplier({ name: "Local trader", stateCode: "24" });
+    const fabric = (description: string, supplierId: number | null) => storage.createExpense({
+      productionUnitId: unit.id,
+      description,
+      amount: "1050",
+      baseAmount: "1000",
+      gstRate: "5",
+      gstAmount: "50",
+      category: "Fabric",
+      supplierId,
+      date: new Date()
+    });
+
+    await fabric("From the mill", registered.id);
+    const fromTrader = await fabric("From the trader", unregistered.id);
+    const withoutSupplier = await fabric("Cash purchase", null);
+
+    const report = await storage.getGstr3bReport(format(new Date(), "yyyy-MM"), unit.id);
+    assert.deepEqual(report.eligibleItc, { cgst: 25, sgst: 25, igst: 0 });
+    assert.equal(report.blockedItc, 100);
+    assert.deepEqual(
+      report.blockedExpenses.map(expense => [expense.expenseId, expense.reason]),
+      [[fromTrader.id, "unregistered_supplier"], [withoutSupplier.id, "unregistered_supplier"]]
+    );
+  });
+});
@@ -0,0 +1,29 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("invoices", (context) => {
+  it("numbers a unit's invoices consecutively, also when issued at the same time", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const orders = await Promise.all([1, 2, 3].map(() => context.createOrder(unit)));
+
+    const invoices = await Promise.all(orders.map(order => storage.issueInvoice({ orderId: order.id })));
+
+    assert.deepEqual(invoices.map(invoice => invoice.sequence).sort(), [1, 2, 3]);
+    assert.equal(new Set(invoices.map(invoice => invoice.invoiceNumber)).size, 3);
+  });
+
+  it("refuses a second invoice for the same order until the first is cancelled", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+    const invoice = await storage.issueInvoice({ orderId: order.id });
+
+    await assert.rejects(storage.issueInvoice({ orderId: order.id }), /already has an issued invoice/);
+
+    await storage.cancelInvoice(invoice.id, "Wrong buyer");
+    const reissued = await storage.issueInvoice({ orderId: order.id });
+    assert.equal(reissued.sequence, invoice.sequence + 1);
+  });
+});
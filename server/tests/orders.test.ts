@@ -0,0 +1,19 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("orders", (context) => {
+  it("books a revenue entry for a new order and voids it when the order is cancelled", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+
+    const revenues = await storage.getRevenuesByProductionUnit(unit.id);
+    assert.equal(revenues.length, 1);
+    assert.equal(revenues[0].orderId, order.id);
+    assert.equal(parseFloat(revenues[0].amount), 1050);
+
+    await storage.updateOrder(order.id, { status: "cancelled" });
+    assert.equal((await storage.getRevenuesByProductionUnit(unit.id)).length, 0);
+  });
+});
@@ -0,0 +1,52 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { OverpaymentError } from "../base-storage";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("payments", (context) => {
+  it("keeps the order's paid amount in step with its payments", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+
+    const first = await storage.createPayment({ orderId: order.id, amount: "300", method: "cash" });
+    await storage.createPayment({ orderId: order.id, amount: "200", method: "upi" });
+    assert.equal(parseFloat((await storage.getOrder(order.id))!.paidAmount!), 500);
+    assert.equal(await storage.getOrderOutstanding(order.id), 550);
+
+    await storage.deletePayment(first.id);
+    assert.equal(parseFloat((await storage.getOrder(order.id))!.paidAmount!), 200);
+  });
+
+  it("refuses a payment that would take the order past its total, also when two arrive at the same time", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+
+    const results = await Promise.allSettled([
+      storage.createPayment({ orderId: order.id, amount: "600", method: "cash" }),
+      storage.createPayment({ orderId: order.id, amount: "600", method: "upi" })
+    ]);
+
+    assert.equal(results.filter(result => result.status === "fulfilled").length, 1);
+    const rejected = results.find((result): result is PromiseRejectedResult => result.status === "rejected");
+    assert.ok(rejected?.reason instanceof OverpaymentError);
+    assert.equal(rejected.reason.outstanding, 450);
+    assert.equal(parseFloat((await storage.getOrder(order.id))!.paidAmount!), 600);
+  });
+
+  it("refuses to restore a payment the order's later payments leave no room for", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+
+    const first = await storage.createPayment({ orderId: order.id, amount: "600", method: "cash" });
+    await storage.deletePayment(first.id);
+    await storage.createPayment({ orderId: order.id, amount: "800", method: "upi" });
+
+    await assert.rejects(storage.restorePayment(first.id), (error: unknown) =>
+      error instanceof OverpaymentError && error.outstanding === 250);
+    assert.equal(parseFloat((await storage.getOrder(order.id))!.paidAmount!), 800);
+    assert.ok((await storage.getDeletedRecords()).some(record => record.entity === "payments" && record.id === first.id));
+  });
+});
@@ -0,0 +1,25 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("production units", (context) => {
+  it("adds expenses to the unit's cost and takes them off again when deleted", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const expense = await storage.createExpense({
+      productionUnitId: unit.id,
+      description: "Cotton",
+      amount: "1050",
+      gstRate: "5",
+      category: "Fabric",
+      date: new Date()
+    });
+
+    assert.equal(parseFloat((await storage.getProductionUnit(unit.id))!.costToDate), 1050);
+
+    assert.equal(await storage.deleteExpense(expense.id), true);
+    assert.equal(parseFloat((await storage.getProductionUnit(unit.id))!.costToDate), 0);
+    const discrepancies = await storage.checkProductionUnitCosts();
+    assert.equal(discrepancies.some(discrepancy => discrepancy.productionUnitId === unit.id), false);
+  });
+});
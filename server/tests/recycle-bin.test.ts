@@ -0,0 +1,49 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("recycle bin", (context) => {
+  it("keeps an order's revenue in the bin until the order itself is restored", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+    const [revenue] = await storage.getRevenuesByProductionUnit(unit.id);
+
+    await storage.deleteOrder(order.id);
+    assert.equal((await storage.getRevenuesByProductionUnit(unit.id)).length, 0);
+    assert.equal(await storage.isRevenueOrderDeleted(revenue.id), true);
+    assert.equal(await storage.isRevenueVoided(revenue.id), false);
+
+    await storage.restoreOrder(order.id);
+    assert.deepEqual((await storage.getRevenuesByProductionUnit(unit.id)).map(found => found.id), [revenue.id]);
+  });
+
+  it("lets revenue not booked by an order be restored on its own", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const revenue = await storage.createRevenue({
+      productionUnitId: unit.id,
+      description: "Walk-in alteration",
+      amount: "105",
+      gstRate: "5",
+      category: "Alteration Services",
+      date: new Date()
+    });
+
+    await storage.deleteRevenue(revenue.id);
+    assert.equal(await storage.isRevenueOrderDeleted(revenue.id), false);
+  });
+
+  it("keeps a deleted order's payments in the bin until the order is restored", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const order = await context.createOrder(unit);
+    const payment = await storage.createPayment({ orderId: order.id, amount: "500", method: "cash" });
+
+    await storage.deleteOrder(order.id);
+    assert.equal(await storage.isPaymentOrderDeleted(payment.id), true);
+
+    await storage.restoreOrder(order.id);
+    assert.equal(parseFloat((await storage.getOrder(order.id))!.paidAmount!), 500);
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Runs storage tests against both backends. Every case runs against
+ * ExcelStorage in a scratch data directory, and against DrizzleStorage when
+ * TEST_DATABASE_URL points at a Postgres database with the schema pushed
+ * (DATABASE_URL=<same url> npm run db:push). Cases create their own records,
+ * so the database doesn't have to be empty.
+ */
+import { after, before, describe } from "node:test";
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import type { IStorage } from "../storage";
+import type { Order, ProductionUnit } from "@shared/schema";
+
+type Backend = {
+  name: string;
+  skip?: string;
+  open: () => Promise<{ storage: IStorage; close: () => Promise<void> }>;
+};
+
+const backends: Backend[] = [
+  {
+    name: "ExcelStorage",
+    open: async () => {
+      // ExcelStorage keeps its workbooks under <cwd>/data, and importing the module
+      // creates the default instance, so move into a scratch directory first
+      const originalDirectory = process.cwd();
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), "storage-contract-"));
+      process.chdir(directory);
+      const { ExcelStorage } = await import("../storage");
+      const storage = new ExcelStorage();
+      await storage.ready;
+      return {
+        storage,
+        close: async () => {
+          process.chdir(originalDirectory);
+          await fs.rm(directory, { recursive: true, force: true });
+        }
+      };
+    }
+  },
+  {
+    name: "DrizzleStorage",
+    skip: process.env.TEST_DATABASE_URL ? undefined : "TEST_DATABASE_URL is not set",
+    open: async () => {
+      const { createDatabase } = await import("../db");
+      const { DrizzleStorage } = await import("../drizzle-storage");
+      const db = createDatabase(process.env.TEST_DATABASE_URL!);
+      const storage = new DrizzleStorage(db);
+      return {
+        storage,
+        close: async () => {
+          (storage.sessionStore as { close?: () => void }).close?.();
+          await db.$client.end();
+        }
+      };
+    }
+  }
+];
+
+// The backend under test and records most cases start from
+export type StorageContext = {
+  readonly storage: IStorage;
+  // A unit of its own per case, registered for GST in Gujarat so it can invoice
+  createUnit: () => Promise<ProductionUnit>;
+  // A pending order for a new customer, billed at the default tax master's 5% tailoring rate
+  createOrder: (unit: ProductionUnit, totalAmount?: string) => Promise<Order>;
+};
+
+/**
+ * Declares a suite that runs once per backend, with the tax master seeded
+ */
+export function describeStorage(title: string, cases: (context: StorageContext) => void) {
+  for (const backend of backends) {
+    describe(`${title} (${backend.name})`, { skip: backend.skip }, () => {
+      let storage: IStorage | undefined;
+      let close: (() => Promise<void>) | undefined;
+
+      before(async () => {
+        ({ storage, close } = await backend.open());
+        await storage.seedTaxMaster();
+      });
+
+      after(async () => {
+        await close?.();
+      });
+
+      const context: StorageContext = {
+        get storage() {
+          if (!storage) {
+            throw new Error(`${backend.name} is not open`);
+          }
+          return storage;
+        },
+        createUnit: () =>
+          context.storage.createProductionUnit({
+            name: `Contract unit ${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+            location: "Surat",
+            status: "active",
+            gstin: "24ABCDE1234F1Z5",
+            stateCode: "24"
+          }),
+        createOrder: async (unit, totalAmount = "1050") => {
+          const customer = await context.storage.createCustomer({ name: "Contract customer", stateCode: "24" });
+          return context.storage.createOrder({
+            customerId: customer.id,
+            productionUnitId: unit.id,
+            totalAmount,
+            gstRate: "5",
+            category: "Custom Tailoring",
+            orderDate: new Date()
+          });
+        }
+      };
+
+      cases(context);
+    });
+  }
+}
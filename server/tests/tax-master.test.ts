@@ -0,0 +1,69 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { GstRateMismatchError } from "../base-storage";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("tax master", (context) => {
+  it("takes the rate in effect on the entry's date and records the rate change", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+    const code = await storage.createHsnCode({
+      code: String(10000000 + Math.floor(Math.random() * 89999999)),
+      description: "Contract fabric",
+      gstRate: "5"
+    });
+    const category = await storage.createTaxCategory({
+      kind: "expense",
+      name: `Contract fabric ${code.code}`,
+      hsnCode: code.code,
+      gstRate: null
+    });
+    const version = await storage.createGstRateVersion({
+      hsnCode: code.code,
+      categoryId: null,
+      gstRate: "12",
+      effectiveFrom: new Date("2026-01-01")
+    });
+
+    const before = await storage.createExpense({
+      productionUnitId: unit.id, description: "Old rate", amount: "1050", gstRate: "5",
+      category: category.name, date: new Date("2025-12-15")
+    });
+    const after = await storage.createExpense({
+      productionUnitId: unit.id, description: "New rate", amount: "1120", gstRate: "12",
+      category: category.name, date: new Date("2026-01-15")
+    });
+
+    assert.equal(before.gstRateVersionId, null);
+    assert.equal(after.gstRateVersionId, version.id);
+    await assert.rejects(storage.createExpense({
+      productionUnitId: unit.id, description: "Old rate after the change", amount: "1050", gstRate: "5",
+      category: category.name, date: new Date("2026-01-15")
+    }), (error: unknown) => error instanceof GstRateMismatchError && error.gstRate === 12);
+    assert.equal(await storage.deleteGstRateVersion(version.id), false);
+  });
+
+  it("refuses entries at a rate other than their category's on their date, and takes the code from the master", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+
+    await assert.rejects(storage.createExpense({
+      productionUnitId: unit.id, description: "Hand-entered rate", amount: "1180", gstRate: "18",
+      category: "Fabric", date: new Date()
+    }), (error: unknown) => error instanceof GstRateMismatchError && error.gstRate === 5);
+    await assert.rejects(storage.createRevenue({
+      productionUnitId: unit.id, description: "Hand-entered rate", amount: "1120", gstRate: "12",
+      category: "Custom Tailoring", date: new Date()
+    }), GstRateMismatchError);
+    assert.equal((await storage.getExpensesByProductionUnit(unit.id)).length, 0);
+    assert.equal((await storage.getRevenuesByProductionUnit(unit.id)).length, 0);
+
+    const expense = await storage.createExpense({
+      productionUnitId: unit.id, description: "Buttons", amount: "1120", gstRate: "12",
+      category: "Buttons", hsn: "0000", date: new Date()
+    });
+    assert.equal(expense.hsn, "9606");
+    await assert.rejects(storage.updateExpense(expense.id, { category: "Fabric" }), GstRateMismatchError);
+    assert.equal((await storage.updateExpense(expense.id, { description: "Shirt buttons" }))?.gstRate, "12");
+  });
+});
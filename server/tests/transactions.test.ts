@@ -0,0 +1,25 @@
+import { it } from "node:test";
+import assert from "node:assert/strict";
+import { describeStorage } from "./storage-backends";
+
+describeStorage("transactions", (context) => {
+  it("undoes every write of a transaction that fails", async () => {
+    const { storage } = context;
+    const unit = await context.createUnit();
+
+    await assert.rejects(storage.runInTransaction(async () => {
+      await storage.createExpense({
+        productionUnitId: unit.id,
+        description: "Rolled back",
+        amount: "105",
+        gstRate: "5",
+        category: "Fabric",
+        date: new Date()
+      });
+      throw new Error("Abort");
+    }), /Abort/);
+
+    assert.equal((await storage.getExpensesByProductionUnit(unit.id)).length, 0);
+    assert.equal(parseFloat((await storage.getProductionUnit(unit.id))!.costToDate), 0);
+  });
+});
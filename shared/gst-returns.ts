@@ -0,0 +1,124 @@
+/**
+ * Tax periods, labels and rules shared by the GST return reports
+ * Used by the return builders on the server and the return pages
+ */
+
+import type { GstTaxHeads, Gstr1Issue, Gstr1Section, Gstr2bMatchStatus, ItcBlockReason } from "./schema";
+import { normalizeCategoryName } from "./tax-master";
+
+// Inter-state invoices to unregistered buyers above this value are reported one by one (B2CL)
+export const B2CL_INVOICE_LIMIT = 100000;
+
+export const GSTR1_SECTION_LABELS: Record<Gstr1Section, string> = {
+  b2b: "B2B",
+  b2cl: "B2C Large",
+  b2cs: "B2C Small",
+};
+
+export const GSTR1_ISSUE_LABELS: Record<Gstr1Issue, string> = {
+  missing_gstin: "Unit has no GSTIN",
+  missing_hsn: "No HSN/SAC code",
+  missing_invoice_number: "No invoice number",
+};
+
+export const GSTR2B_STATUS_LABELS: Record<Gstr2bMatchStatus, string> = {
+  matched: "Matched",
+  mismatched: "Mismatched",
+  missing_in_books: "Missing in Books",
+  missing_in_2b: "Missing in 2B",
+};
+
+export const ITC_BLOCK_REASON_LABELS: Record<ItcBlockReason, string> = {
+  blocked_category: "Blocked category",
+  unregistered_supplier: "No supplier GSTIN",
+};
+
+// Differences in tax up to this many rupees are taken as rounding
+export const GSTR2B_TAX_TOLERANCE = 1;
+
+const TAX_PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+/**
+ * Whether a tax period is a month written as "YYYY-MM"
+ */
+export function isValidTaxPeriod(period: string): boolean {
+  return TAX_PERIOD_PATTERN.test(period);
+}
+
+/**
+ * Whether a date falls in a "YYYY-MM" tax period, in local time
+ */
+export function isInTaxPeriod(date: Date | string, period: string): boolean {
+  const value = new Date(date);
+  const [year, month] = period.split("-").map(Number);
+  return value.getFullYear() === year && value.getMonth() + 1 === month;
+}
+
+/**
+ * The return period as the GST portal writes it, "MMYYYY"
+ */
+export function toReturnPeriod(period: string): string {
+  const [year, month] = period.split("-");
+  return `${month}${year}`;
+}
+
+/**
+ * A portal return period, "MMYYYY", as a "YYYY-MM" tax period
+ * @returns The tax period, or undefined when the value isn't a return period
+ */
+export function fromReturnPeriod(returnPeriod: string): string | undefined {
+  const period = `${returnPeriod.slice(2)}-${returnPeriod.slice(0, 2)}`;
+  return returnPeriod.length === 6 && isValidTaxPeriod(period) ? period : undefined;
+}
+
+/**
+ * An invoice number reduced to its letters and digits, upper-cased, so that
+ * "inv/24-25/007" in the books matches "INV-24-25-007" on the portal
+ */
+export function normalizeInvoiceNumber(invoiceNumber: string): string {
+  return invoiceNumber.toUpperCase().replace(/[^0-9A-Z]/g, "");
+}
+
+// Expense categories whose GST can't be claimed as input tax credit. Salaries
+// carry no GST, so whatever is booked against them is never claimable.
+export const ITC_BLOCKED_CATEGORIES = ["salary", "salaries"];
+
+/**
+ * Whether an expense category's GST is blocked from input tax credit;
+ * categories are matched however they are cased or spaced
+ */
+export function isItcBlockedCategory(category: string): boolean {
+  return ITC_BLOCKED_CATEGORIES.includes(normalizeCategoryName(category));
+}
+
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Sets input tax credit off against output tax in the order the GST law sets:
+ * IGST credit first against IGST, then CGST and SGST; CGST credit against CGST,
+ * then IGST; SGST credit against SGST, then IGST. CGST and SGST credit never
+ * cross over.
+ * @returns The tax left to pay in cash and the credit carried forward
+ */
+export function setOffItc(outputTax: GstTaxHeads, itc: GstTaxHeads): { payable: GstTaxHeads; carriedForward: GstTaxHeads } {
+  const payable = { ...outputTax };
+  const credit = { ...itc };
+
+  const use = (from: keyof GstTaxHeads, against: keyof GstTaxHeads) => {
+    const amount = Math.min(credit[from], payable[against]);
+    credit[from] = roundToPaise(credit[from] - amount);
+    payable[against] = roundToPaise(payable[against] - amount);
+  };
+
+  use("igst", "igst");
+  use("igst", "cgst");
+  use("igst", "sgst");
+  use("cgst", "cgst");
+  use("cgst", "igst");
+  use("sgst", "sgst");
+  use("sgst", "igst");
+
+  return { payable, carriedForward: credit };
+}
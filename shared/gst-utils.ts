@@ -3,99 +3,6 @@
  * All monetary values are in Indian Rupees (INR)
  */
 
-// GST rates in India
-export enum GSTRates {
-  ZERO = 0,
-  FIVE = 5,
-  TWELVE = 12,
-  EIGHTEEN = 18,
-  TWENTYEIGHT = 28
-}
-
-// HSN code categories with standard GST rates
-export interface HSNCode {
-  code: string;
-  description: string;
-  defaultRate: GSTRates;
-}
-
-// Common HSN codes and their default GST rates
-export const commonHSNCodes: HSNCode[] = [
-  { code: '1001', description: 'Agricultural Products', defaultRate: GSTRates.ZERO },
-  { code: '2201', description: 'Water', defaultRate: GSTRates.FIVE },
-  { code: '3004', description: 'Medicaments', defaultRate: GSTRates.TWELVE },
-  { code: '4901', description: 'Books, Printed Material', defaultRate: GSTRates.ZERO },
-  { code: '5208', description: 'Cotton Fabrics', defaultRate: GSTRates.FIVE },
-  { code: '6101', description: 'Apparel and Clothing', defaultRate: GSTRates.FIVE },
-  { code: '7108', description: 'Gold, Precious Metals', defaultRate: GSTRates.FIVE },
-  { code: '8415', description: 'Air Conditioners', defaultRate: GSTRates.TWENTYEIGHT },
-  { code: '8471', description: 'Computers', defaultRate: GSTRates.EIGHTEEN },
-  { code: '8517', description: 'Mobile Phones', defaultRate: GSTRates.EIGHTEEN },
-  { code: '9401', description: 'Furniture', defaultRate: GSTRates.EIGHTEEN },
-  { code: '9503', description: 'Toys', defaultRate: GSTRates.TWELVE },
-];
-
-// Common expense categories with default GST rates
-export interface ExpenseCategory {
-  name: string;
-  defaultRate: GSTRates;
-  defaultHSN?: string;
-}
-
-export const expenseCategories: ExpenseCategory[] = [
-  // Stitching unit specific materials
-  { name: 'Fabric', defaultRate: GSTRates.FIVE, defaultHSN: '5208' },
-  { name: 'Thread', defaultRate: GSTRates.FIVE, defaultHSN: '5401' },
-  { name: 'Buttons', defaultRate: GSTRates.TWELVE, defaultHSN: '9606' },
-  { name: 'Zippers', defaultRate: GSTRates.TWELVE, defaultHSN: '9607' },
-  { name: 'Elastic', defaultRate: GSTRates.FIVE, defaultHSN: '5604' },
-  { name: 'Lace', defaultRate: GSTRates.FIVE, defaultHSN: '5804' },
-  { name: 'Labels', defaultRate: GSTRates.TWELVE, defaultHSN: '5807' },
-  { name: 'Packaging', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '4819' },
-  
-  // Equipment and operations
-  { name: 'Sewing Machines', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '8452' },
-  { name: 'Cutting Tools', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '8208' },
-  { name: 'Pressing Equipment', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '8451' },
-  { name: 'Machine Parts', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '8452' },
-  { name: 'Machine Maintenance', defaultRate: GSTRates.EIGHTEEN, defaultHSN: '8452' },
-  
-  // Standard business expenses
-  { name: 'Salaries', defaultRate: GSTRates.ZERO }, // Salaries are not subject to GST
-  { name: 'Contractor Payments', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Rent', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Electricity', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Water', defaultRate: GSTRates.FIVE },
-  { name: 'Transportation', defaultRate: GSTRates.FIVE },
-  { name: 'Office Supplies', defaultRate: GSTRates.TWELVE },
-  { name: 'Insurance', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Professional Services', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Marketing', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Miscellaneous', defaultRate: GSTRates.EIGHTEEN },
-];
-
-// Stitching unit revenue categories with default GST rates
-export const revenueCategories: ExpenseCategory[] = [
-  // Garment/product categories
-  { name: 'Ready-made Garments', defaultRate: GSTRates.FIVE, defaultHSN: '6101' },
-  { name: 'Custom Tailoring', defaultRate: GSTRates.FIVE, defaultHSN: '6101' },
-  { name: 'Embroidery Services', defaultRate: GSTRates.FIVE, defaultHSN: '5810' },
-  { name: 'Alteration Services', defaultRate: GSTRates.FIVE, defaultHSN: '9988' },
-  { name: 'Industrial Stitching', defaultRate: GSTRates.FIVE, defaultHSN: '6307' },
-  { name: 'Fabric Printing', defaultRate: GSTRates.TWELVE, defaultHSN: '5801' },
-  { name: 'Pattern Making', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Uniform Orders', defaultRate: GSTRates.FIVE, defaultHSN: '6103' },
-  { name: 'Bulk Orders', defaultRate: GSTRates.FIVE, defaultHSN: '6101' },
-  
-  // Other income streams
-  { name: 'Design Services', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Machine Rental', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Material Resale', defaultRate: GSTRates.FIVE, defaultHSN: '5208' },
-  { name: 'Consultation Fees', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Training Fees', defaultRate: GSTRates.EIGHTEEN },
-  { name: 'Export Sales', defaultRate: GSTRates.ZERO, defaultHSN: '6101' }, // Exports are typically zero-rated
-];
-
 /**
  * Calculate GST amount from total amount (inclusive of GST)
  * @param totalAmount - The total amount including GST
@@ -142,39 +49,242 @@ export function calculateTotalFromBase(baseAmount: number, gstRate: number): num
   return Number((baseAmount + gstAmount).toFixed(2));
 }
 
+// GSTIN layout: 2-digit state code, PAN, entity number, "Z", check character
+export const GSTIN_PATTERN = /^[0-9]{2}[A-Z]{5}[0-9]{4}[A-Z][1-9A-Z]Z[0-9A-Z]$/;
+
+const GSTIN_CHARACTERS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+/**
+ * Check whether a GSTIN is well-formed and its check character matches
+ * @param gstin - The 15-character GSTIN, in upper case
+ * @returns True when the GSTIN is valid
+ */
+export function isValidGSTIN(gstin: string): boolean {
+  if (!GSTIN_PATTERN.test(gstin)) {
+    return false;
+  }
+
+  // Base-36 checksum over the first 14 characters, weighting every other one by 2
+  let sum = 0;
+  for (let i = 0; i < 14; i++) {
+    const product = GSTIN_CHARACTERS.indexOf(gstin[i]) * (i % 2 === 0 ? 1 : 2);
+    sum += Math.floor(product / 36) + (product % 36);
+  }
+
+  const checkCharacter = GSTIN_CHARACTERS[(36 - (sum % 36)) % 36];
+  return gstin[14] === checkCharacter;
+}
+
+// GST state codes, as used in the first two digits of a GSTIN and for place of supply
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh',
+  '97': 'Other Territory',
+};
+
+/**
+ * Get the state code a GSTIN is registered in
+ * @param gstin - The GSTIN
+ * @returns The two-digit state code, or undefined if it is not a known state
+ */
+export function getStateCodeFromGSTIN(gstin: string | null | undefined): string | undefined {
+  const stateCode = gstin?.slice(0, 2);
+  return stateCode && GST_STATE_CODES[stateCode] ? stateCode : undefined;
+}
+
+/**
+ * Format a state code with its name, e.g. "27 - Maharashtra"
+ * @param stateCode - The two-digit state code
+ * @returns The formatted place of supply
+ */
+export function formatStateCode(stateCode: string): string {
+  return GST_STATE_CODES[stateCode] ? `${stateCode} - ${GST_STATE_CODES[stateCode]}` : stateCode;
+}
+
+/**
+ * Get the state a party is in. A GSTIN's state code wins over an entered state.
+ * @param stateCode - The entered two-digit state code, if any
+ * @param gstin - The party's GSTIN, if registered
+ * @returns The two-digit state code, or undefined if not known
+ */
+export function resolveStateCode(stateCode: string | null | undefined, gstin: string | null | undefined): string | undefined {
+  return getStateCodeFromGSTIN(gstin) || (stateCode && GST_STATE_CODES[stateCode] ? stateCode : undefined);
+}
+
 /**
- * Find GST rate for a given expense category
- * @param category - The expense category
- * @returns The default GST rate for the category
+ * Check whether a supply crosses state lines, which makes it liable to IGST
+ * rather than CGST + SGST. Supplies with either state unknown are treated as
+ * intra-state.
+ * @param unitStateCode - The production unit's state
+ * @param otherStateCode - The place of supply, or the supplier's state for purchases
+ * @returns True for an inter-state supply
  */
-export function getGSTRateForExpenseCategory(category: string): number {
-  const foundCategory = expenseCategories.find(c => c.name === category);
-  return foundCategory ? foundCategory.defaultRate : GSTRates.EIGHTEEN;
+export function isInterStateSupply(unitStateCode: string | null | undefined, otherStateCode: string | null | undefined): boolean {
+  return !!unitStateCode && !!otherStateCode && unitStateCode !== otherStateCode;
+}
+
+// GST amount split into its central, state and integrated parts
+export interface GSTSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
 }
 
 /**
- * Find GST rate for a given revenue category
- * @param category - The revenue category
- * @returns The default GST rate for the category
+ * Split a GST amount into CGST + SGST (intra-state) or IGST (inter-state).
+ * An odd paisa goes to CGST so the parts always add up to the amount.
+ * @param gstAmount - The total GST amount
+ * @param isInterState - Whether the supply crosses state lines
+ * @returns The split
  */
-export function getGSTRateForRevenueCategory(category: string): number {
-  const foundCategory = revenueCategories.find(c => c.name === category);
-  return foundCategory ? foundCategory.defaultRate : GSTRates.EIGHTEEN;
+export function splitGST(gstAmount: number, isInterState: boolean): GSTSplit {
+  const totalPaise = Math.round(gstAmount * 100);
+  if (isInterState) {
+    return { cgst: 0, sgst: 0, igst: totalPaise / 100 };
+  }
+  const sgstPaise = Math.floor(totalPaise / 2);
+  return { cgst: (totalPaise - sgstPaise) / 100, sgst: sgstPaise / 100, igst: 0 };
 }
 
 /**
- * Find default HSN code for a given expense category
- * @param category - The expense category
- * @returns The default HSN code for the category or undefined
+ * Get the stored split of a record's GST. Records saved before the split was
+ * stored are read as intra-state.
+ * @param record - An expense, revenue or order
+ * @returns The split, all zero when the record carries no GST
  */
-export function getHSNForCategory(category: string): string | undefined {
-  const foundExpenseCategory = expenseCategories.find(c => c.name === category);
-  if (foundExpenseCategory?.defaultHSN) {
-    return foundExpenseCategory.defaultHSN;
+export function getGSTSplit(record: {
+  gstAmount?: string | null;
+  cgstAmount?: string | null;
+  sgstAmount?: string | null;
+  igstAmount?: string | null;
+}): GSTSplit {
+  if (record.cgstAmount || record.sgstAmount || record.igstAmount) {
+    return {
+      cgst: parseFloat(record.cgstAmount || '0'),
+      sgst: parseFloat(record.sgstAmount || '0'),
+      igst: parseFloat(record.igstAmount || '0'),
+    };
   }
-  
-  const foundRevenueCategory = revenueCategories.find(c => c.name === category);
-  return foundRevenueCategory?.defaultHSN;
+  return splitGST(parseFloat(record.gstAmount || '0'), false);
+}
+
+/**
+ * Get the Indian financial year (April to March) a date falls in
+ * @param date - The date
+ * @returns The financial year, e.g. "2026-27"
+ */
+export function getFinancialYear(date: Date): string {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${((startYear + 1) % 100).toString().padStart(2, '0')}`;
+}
+
+/**
+ * Build a tax invoice number. Numbers run in one series per production
+ * unit and financial year, e.g. "U1/26-27/0001".
+ * @param productionUnitId - The issuing production unit
+ * @param financialYear - The financial year, e.g. "2026-27"
+ * @param sequence - The invoice's position in the series, starting at 1
+ * @returns The invoice number (at most 16 characters, as GST requires)
+ */
+export function formatInvoiceNumber(productionUnitId: number, financialYear: string, sequence: number): string {
+  return `U${productionUnitId}/${financialYear.slice(2)}/${sequence.toString().padStart(4, '0')}`;
+}
+
+const ONES = [
+  '', 'One', 'Two', 'Three', 'Four', 'Five', 'Six', 'Seven', 'Eight', 'Nine', 'Ten',
+  'Eleven', 'Twelve', 'Thirteen', 'Fourteen', 'Fifteen', 'Sixteen', 'Seventeen', 'Eighteen', 'Nineteen'
+];
+const TENS = ['', '', 'Twenty', 'Thirty', 'Forty', 'Fifty', 'Sixty', 'Seventy', 'Eighty', 'Ninety'];
+
+// Words for a number below 1000
+function hundredsInWords(num: number): string {
+  const words: string[] = [];
+  if (num >= 100) {
+    words.push(`${ONES[Math.floor(num / 100)]} Hundred`);
+    num %= 100;
+  }
+  if (num >= 20) {
+    words.push(TENS[Math.floor(num / 10)] + (num % 10 ? `-${ONES[num % 10]}` : ''));
+  } else if (num > 0) {
+    words.push(ONES[num]);
+  }
+  return words.join(' ');
+}
+
+// Words for a whole number in the Indian system of lakhs and crores
+function integerInWords(num: number): string {
+  if (num === 0) {
+    return 'Zero';
+  }
+
+  const words: string[] = [];
+  const crores = Math.floor(num / 10000000);
+  if (crores > 0) {
+    words.push(`${integerInWords(crores)} Crore`);
+  }
+  const lakhs = Math.floor((num % 10000000) / 100000);
+  if (lakhs > 0) {
+    words.push(`${hundredsInWords(lakhs)} Lakh`);
+  }
+  const thousands = Math.floor((num % 100000) / 1000);
+  if (thousands > 0) {
+    words.push(`${hundredsInWords(thousands)} Thousand`);
+  }
+  if (num % 1000 > 0) {
+    words.push(hundredsInWords(num % 1000));
+  }
+  return words.join(' ');
+}
+
+/**
+ * Spell out a rupee amount the way Indian invoices do
+ * @param amount - The amount in rupees
+ * @returns e.g. "Rupees One Lakh Five Thousand and Fifty Paise Only"
+ */
+export function amountInWords(amount: number): string {
+  const totalPaise = Math.round(Math.abs(amount) * 100);
+  const rupees = Math.floor(totalPaise / 100);
+  const paise = totalPaise % 100;
+
+  let words = `Rupees ${integerInWords(rupees)}`;
+  if (paise > 0) {
+    words += ` and ${integerInWords(paise)} Paise`;
+  }
+  return `${words} Only`;
 }
 
 /**
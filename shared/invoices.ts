@@ -0,0 +1,60 @@
+/**
+ * Reading tax invoice lines and summarising them by HSN code
+ * Used by the invoice PDF and the invoice print view
+ */
+
+import type { InvoiceLine } from "./schema";
+
+// Tax on every line of an invoice sharing an HSN code and GST rate
+export type HsnSummaryRow = {
+  hsn: string;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+};
+
+function roundToPaise(amount: number): number {
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Reads an invoice's stored lines; anything unreadable gives no lines
+ */
+export function parseInvoiceLines(json: string | null | undefined): InvoiceLine[] {
+  if (!json) {
+    return [];
+  }
+
+  try {
+    const lines = JSON.parse(json);
+    return Array.isArray(lines) ? lines : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Groups invoice lines by HSN code and GST rate, in the order they first appear.
+ * Lines without an HSN code are grouped under "-".
+ */
+export function summarizeByHsn(lines: InvoiceLine[]): HsnSummaryRow[] {
+  const rows = new Map<string, HsnSummaryRow>();
+
+  for (const line of lines) {
+    const hsn = line.hsn || "-";
+    const key = `${hsn}@${line.gstRate}`;
+    const row = rows.get(key) || { hsn, gstRate: line.gstRate, taxableValue: 0, cgst: 0, sgst: 0, igst: 0, totalTax: 0 };
+
+    row.taxableValue = roundToPaise(row.taxableValue + line.taxableValue);
+    row.cgst = roundToPaise(row.cgst + line.cgst);
+    row.sgst = roundToPaise(row.sgst + line.sgst);
+    row.igst = roundToPaise(row.igst + line.igst);
+    row.totalTax = roundToPaise(row.cgst + row.sgst + row.igst);
+    rows.set(key, row);
+  }
+
+  return Array.from(rows.values());
+}
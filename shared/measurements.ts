@@ -0,0 +1,197 @@
+/**
+ * Garment types and the body measurements taken for each
+ * Used by customer measurement profiles and the measurements copied onto orders
+ */
+
+export const garmentTypes = ["shirt", "trouser", "kurta", "blouse", "suit", "other"] as const;
+export type GarmentType = typeof garmentTypes[number];
+
+export const measurementUnits = ["in", "cm"] as const;
+export type MeasurementUnit = typeof measurementUnits[number];
+
+export type MeasurementField = { key: string; label: string };
+
+export const GARMENT_LABELS: Record<GarmentType, string> = {
+  shirt: "Shirt",
+  trouser: "Trouser",
+  kurta: "Kurta",
+  blouse: "Blouse",
+  suit: "Suit / Sherwani",
+  other: "Other",
+};
+
+export const MEASUREMENT_UNIT_LABELS: Record<MeasurementUnit, string> = {
+  in: "Inches",
+  cm: "Centimetres",
+};
+
+export const GARMENT_MEASUREMENT_FIELDS: Record<GarmentType, readonly MeasurementField[]> = {
+  shirt: [
+    { key: "neck", label: "Neck" },
+    { key: "chest", label: "Chest" },
+    { key: "waist", label: "Waist" },
+    { key: "shoulder", label: "Shoulder" },
+    { key: "sleeve", label: "Sleeve Length" },
+    { key: "cuff", label: "Cuff" },
+    { key: "length", label: "Length" },
+  ],
+  trouser: [
+    { key: "waist", label: "Waist" },
+    { key: "hip", label: "Hip" },
+    { key: "thigh", label: "Thigh" },
+    { key: "knee", label: "Knee" },
+    { key: "bottom", label: "Bottom" },
+    { key: "inseam", label: "Inseam" },
+    { key: "length", label: "Length" },
+  ],
+  kurta: [
+    { key: "neck", label: "Neck" },
+    { key: "chest", label: "Chest" },
+    { key: "waist", label: "Waist" },
+    { key: "hip", label: "Hip" },
+    { key: "shoulder", label: "Shoulder" },
+    { key: "sleeve", label: "Sleeve Length" },
+    { key: "length", label: "Length" },
+  ],
+  blouse: [
+    { key: "bust", label: "Bust" },
+    { key: "underbust", label: "Under Bust" },
+    { key: "waist", label: "Waist" },
+    { key: "shoulder", label: "Shoulder" },
+    { key: "armhole", label: "Armhole" },
+    { key: "sleeve", label: "Sleeve Length" },
+    { key: "frontNeck", label: "Front Neck Depth" },
+    { key: "backNeck", label: "Back Neck Depth" },
+    { key: "length", label: "Length" },
+  ],
+  suit: [
+    { key: "neck", label: "Neck" },
+    { key: "chest", label: "Chest" },
+    { key: "waist", label: "Waist" },
+    { key: "hip", label: "Hip" },
+    { key: "shoulder", label: "Shoulder" },
+    { key: "sleeve", label: "Sleeve Length" },
+    { key: "length", label: "Length" },
+  ],
+  // The fields orders were measured with before garment types existed
+  other: [
+    { key: "chest", label: "Chest" },
+    { key: "waist", label: "Waist" },
+    { key: "hip", label: "Hip" },
+    { key: "shoulder", label: "Shoulder" },
+    { key: "sleeve", label: "Sleeve Length" },
+    { key: "length", label: "Length" },
+    { key: "neck", label: "Neck" },
+    { key: "inseam", label: "Inseam" },
+  ],
+};
+
+// Measurement values by field key
+export type MeasurementValues = Record<string, number>;
+
+// What an order's measurements JSON holds, including the profile version it was copied from
+export type OrderMeasurements = {
+  garmentType: GarmentType;
+  unit: MeasurementUnit;
+  values: MeasurementValues;
+  profileId?: number;
+  profileVersion?: number;
+};
+
+export function isGarmentType(value: unknown): value is GarmentType {
+  return garmentTypes.includes(value as GarmentType);
+}
+
+/**
+ * Names of the keys in `values` that aren't measured for the garment, or
+ * whose value isn't a positive number; empty when the values are valid
+ */
+export function findInvalidMeasurements(garmentType: GarmentType, values: Record<string, unknown>): string[] {
+  const fieldKeys = GARMENT_MEASUREMENT_FIELDS[garmentType].map(field => field.key);
+  return Object.entries(values)
+    .filter(([key, value]) => !fieldKeys.includes(key) || typeof value !== "number" || !(value > 0))
+    .map(([key]) => key);
+}
+
+// Keeps the numeric values of a parsed measurements object
+function toMeasurementValues(rawValues: Record<string, unknown>): MeasurementValues {
+  const values: MeasurementValues = {};
+  Object.entries(rawValues).forEach(([key, value]) => {
+    const number = typeof value === "number" ? value : parseFloat(String(value));
+    if (!isNaN(number)) values[key] = number;
+  });
+  return values;
+}
+
+/**
+ * Reads the measurements JSON stored on a measurement profile
+ */
+export function parseProfileMeasurements(measurements: string): MeasurementValues {
+  try {
+    const parsed = JSON.parse(measurements);
+    return parsed && typeof parsed === "object" ? toMeasurementValues(parsed) : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Reads the measurements JSON stored on an order, ignoring malformed values.
+ * Orders saved before garment types existed hold a flat map of fields, which
+ * is read as an "other" garment in inches.
+ */
+export function parseOrderMeasurements(measurements: string | null | undefined): OrderMeasurements | null {
+  if (!measurements) return null;
+
+  let parsed: any;
+  try {
+    parsed = JSON.parse(measurements);
+  } catch {
+    return null;
+  }
+  if (!parsed || typeof parsed !== "object") return null;
+
+  const isStructured = isGarmentType(parsed.garmentType) && parsed.values && typeof parsed.values === "object";
+  const values = toMeasurementValues(isStructured ? parsed.values : parsed);
+
+  return isStructured
+    ? {
+        garmentType: parsed.garmentType,
+        unit: parsed.unit === "cm" ? "cm" : "in",
+        values,
+        profileId: typeof parsed.profileId === "number" ? parsed.profileId : undefined,
+        profileVersion: typeof parsed.profileVersion === "number" ? parsed.profileVersion : undefined,
+      }
+    : { garmentType: "other", unit: "in", values };
+}
+
+export type MeasurementChange = {
+  key: string;
+  label: string;
+  previous: number | undefined;
+  current: number | undefined;
+  change: number; // current minus previous; 0 when either is missing
+};
+
+/**
+ * Field-by-field comparison of two sets of measurements of the same garment
+ */
+export function diffMeasurements(
+  garmentType: GarmentType,
+  previous: MeasurementValues,
+  current: MeasurementValues
+): MeasurementChange[] {
+  return GARMENT_MEASUREMENT_FIELDS[garmentType]
+    .filter(field => previous[field.key] !== undefined || current[field.key] !== undefined)
+    .map(field => {
+      const before = previous[field.key];
+      const after = current[field.key];
+      return {
+        key: field.key,
+        label: field.label,
+        previous: before,
+        current: after,
+        change: before !== undefined && after !== undefined ? Math.round((after - before) * 100) / 100 : 0,
+      };
+    });
+}
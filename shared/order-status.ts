@@ -0,0 +1,57 @@
+import type { OrderStatus } from "./schema";
+
+/**
+ * Statuses an order may move to from each status. Delivered and cancelled
+ * orders are final; a ready order can go back to in-progress for rework.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, readonly OrderStatus[]> = {
+  pending: ["in-progress", "cancelled"],
+  "in-progress": ["pending", "ready", "cancelled"],
+  ready: ["in-progress", "delivered", "cancelled"],
+  delivered: [],
+  cancelled: [],
+};
+
+export function canTransitionOrder(from: string, to: string): boolean {
+  const allowed: readonly string[] = ORDER_STATUS_TRANSITIONS[from as OrderStatus] || [];
+  return allowed.includes(to);
+}
+
+// The status an order is taken to be in before it is first saved
+export const ORDER_START_STATUS: OrderStatus = "pending";
+
+/**
+ * Statuses a new order may be saved with: the start status, or one a pending
+ * order may move to. A new order can't be saved as cancelled.
+ */
+export function canCreateOrderWithStatus(status: string): boolean {
+  if (isOrderLocked(status)) {
+    return false;
+  }
+  return status === ORDER_START_STATUS || canTransitionOrder(ORDER_START_STATUS, status);
+}
+
+// Cancelled orders can't be edited at all
+export function isOrderLocked(status: string): boolean {
+  return status === "cancelled";
+}
+
+// Orders not yet handed over to the customer
+export function isOrderOpen(status: string): boolean {
+  return status !== "delivered" && status !== "cancelled";
+}
+
+/**
+ * Whether an order is past its delivery date and still being worked on.
+ * Ready orders are only waiting for the customer, so they don't count.
+ */
+export function isOrderOverdue(
+  order: { status: string; deliveryDate: Date | string | null },
+  asOf: Date = new Date()
+): boolean {
+  if (!order.deliveryDate || (order.status !== "pending" && order.status !== "in-progress")) {
+    return false;
+  }
+  const startOfToday = new Date(asOf.getFullYear(), asOf.getMonth(), asOf.getDate());
+  return new Date(order.deliveryDate).getTime() < startOfToday.getTime();
+}
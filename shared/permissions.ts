@@ -0,0 +1,137 @@
+/**
+ * Roles and what each of them may do
+ * Checked by the API routes and used by the client to hide controls
+ */
+
+export const userRoles = ["admin", "accountant", "unit_supervisor", "data_entry_clerk"] as const;
+export type UserRole = typeof userRoles[number];
+
+export const USER_ROLE_LABELS: Record<UserRole, string> = {
+  admin: "Administrator",
+  accountant: "Accountant",
+  unit_supervisor: "Unit Supervisor",
+  data_entry_clerk: "Data Entry Clerk",
+};
+
+export const permissionResources = [
+  "production_units",
+  "expenses",
+  "revenues",
+  "inventory",
+  "customers",
+  "suppliers", // Vendors and what is owed to them
+  "tax_master", // HSN/SAC codes and categories with their GST rates; every role reads it to fill in forms
+  "orders",
+  "payments", // Customer receipts against orders; they are deleted and re-entered rather than edited
+  "invoices", // GST tax invoices; update cancels one, and they are never deleted
+  "salary_payments",
+  "maintenance_records",
+  "reports",
+  "financial_summary", // Dashboard, profit & loss and the financial summary report
+  "ar_aging", // Receivables aging page and report
+  "gst_returns", // GST return working reports and their portal exports
+  "recycle_bin", // update restores a record, delete purges it
+  "audit",
+  "users",
+] as const;
+export type PermissionResource = typeof permissionResources[number];
+
+export const permissionActions = ["view", "create", "update", "delete", "export"] as const;
+export type PermissionAction = typeof permissionActions[number];
+
+type PermissionMatrix = Partial<Record<PermissionResource, readonly PermissionAction[]>>;
+
+const ALL_ACTIONS = permissionActions;
+const EDIT_ACTIONS = ["view", "create", "update"] as const;
+
+// Resources not listed for a role are off limits to it
+export const ROLE_PERMISSIONS: Record<UserRole, PermissionMatrix> = {
+  admin: Object.fromEntries(permissionResources.map(resource => [resource, ALL_ACTIONS])),
+  accountant: {
+    production_units: ["view", "export"],
+    expenses: ALL_ACTIONS,
+    revenues: ALL_ACTIONS,
+    inventory: ALL_ACTIONS,
+    customers: ALL_ACTIONS,
+    suppliers: ALL_ACTIONS,
+    tax_master: ALL_ACTIONS,
+    orders: ALL_ACTIONS,
+    payments: ALL_ACTIONS,
+    invoices: ALL_ACTIONS,
+    salary_payments: ALL_ACTIONS,
+    maintenance_records: ALL_ACTIONS,
+    reports: ALL_ACTIONS,
+    financial_summary: ["view", "export"],
+    ar_aging: ["view", "export"],
+    gst_returns: ["view", "export"],
+    recycle_bin: ["view", "update"],
+    audit: ["view"],
+  },
+  // Only sees and changes records of the production unit they are assigned to
+  unit_supervisor: {
+    production_units: ["view", "update"],
+    expenses: ["view", "create", "update", "delete"],
+    revenues: EDIT_ACTIONS,
+    inventory: ["view", "create", "update", "delete"],
+    customers: EDIT_ACTIONS,
+    suppliers: EDIT_ACTIONS,
+    tax_master: ["view"],
+    orders: ["view", "create", "update", "delete"],
+    payments: ["view", "create", "delete"],
+    invoices: ["view", "create"],
+    salary_payments: EDIT_ACTIONS,
+    maintenance_records: ["view", "create", "update", "delete"],
+    ar_aging: ["view"],
+  },
+  data_entry_clerk: {
+    production_units: ["view"],
+    expenses: EDIT_ACTIONS,
+    revenues: EDIT_ACTIONS,
+    inventory: EDIT_ACTIONS,
+    customers: EDIT_ACTIONS,
+    suppliers: EDIT_ACTIONS,
+    tax_master: ["view"],
+    orders: EDIT_ACTIONS,
+    payments: ["view", "create"],
+    salary_payments: EDIT_ACTIONS,
+    maintenance_records: EDIT_ACTIONS,
+  },
+};
+
+export function isUserRole(role: string | null | undefined): role is UserRole {
+  return userRoles.includes(role as UserRole);
+}
+
+// Role values saved before roles were enforced, by the role each now stands for
+const LEGACY_ROLES: Record<string, UserRole> = {
+  "financial manager": "accountant",
+};
+
+/**
+ * The role a stored value stands for: a role, its label (e.g. "Unit Supervisor")
+ * or a legacy value such as the old seed's "Financial Manager". Matching ignores
+ * case and surrounding spaces. Undefined for values that match none of them.
+ */
+export function resolveUserRole(role: string | null | undefined): UserRole | undefined {
+  if (isUserRole(role)) {
+    return role;
+  }
+  const value = (role || "").trim().toLowerCase();
+  return userRoles.find(userRole => userRole === value || USER_ROLE_LABELS[userRole].toLowerCase() === value)
+    || LEGACY_ROLES[value];
+}
+
+/**
+ * Whether a role may perform an action on a resource
+ * Unknown roles are allowed nothing
+ */
+export function hasPermission(
+  role: string | null | undefined,
+  resource: PermissionResource,
+  action: PermissionAction,
+): boolean {
+  if (!isUserRole(role)) {
+    return false;
+  }
+  return ROLE_PERMISSIONS[role][resource]?.includes(action) ?? false;
+}
@@ -1,6 +1,30 @@
 import { pgTable, text, serial, integer, numeric, timestamp, boolean } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import { userRoles } from "./permissions";
+import { GST_STATE_CODES, isValidGSTIN } from "./gst-utils";
+import { garmentTypes, measurementUnits, findInvalidMeasurements, type OrderMeasurements } from "./measurements";
+
+// Saved in upper case; a blank GSTIN means the party isn't GST-registered
+const gstinSchema = z.preprocess(
+  value => typeof value === "string" ? value.trim().toUpperCase() || null : value,
+  z.string().refine(isValidGSTIN, "Enter a valid 15-character GSTIN").nullable().optional()
+);
+
+// Two-digit GST state code; blank means not known
+const stateCodeSchema = z.preprocess(
+  value => value === "" ? null : value,
+  z.string().refine(code => !!GST_STATE_CODES[code], "Choose a valid GST state code").nullable().optional()
+);
+
+// The GST split is worked out by storage from the states involved,
+// and the rate version from the tax master's rate changes
+const derivedGstColumns = {
+  cgstAmount: true,
+  sgstAmount: true,
+  igstAmount: true,
+  gstRateVersionId: true,
+} as const;
 
 // Production Units
 export const productionUnits = pgTable("production_units", {
@@ -9,6 +33,8 @@ export const productionUnits = pgTable("production_units", {
   location: text("location").notNull(),
   status: text("status").notNull().default("active"),
   costToDate: numeric("cost_to_date").notNull().default("0"),
+  gstin: text("gstin"), // Printed as the seller's GSTIN on the unit's tax invoices
+  stateCode: text("state_code"), // GST state the unit supplies from; taken from the GSTIN when it has one
   createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
@@ -16,6 +42,9 @@ export const insertProductionUnitSchema = createInsertSchema(productionUnits).om
   id: true,
   createdAt: true,
   costToDate: true,
+}).extend({
+  gstin: gstinSchema,
+  stateCode: stateCodeSchema,
 });
 
 // Expenses
@@ -27,15 +56,30 @@ export const expenses = pgTable("expenses", {
   baseAmount: numeric("base_amount"),
   gstRate: numeric("gst_rate"),
   gstAmount: numeric("gst_amount"),
+  cgstAmount: numeric("cgst_amount"),
+  sgstAmount: numeric("sgst_amount"),
+  igstAmount: numeric("igst_amount"),
+  supplierStateCode: text("supplier_state_code"), // IGST is charged when this differs from the unit's state
+  supplierId: integer("supplier_id"), // The vendor billed; their state replaces supplierStateCode
+  gstRateVersionId: integer("gst_rate_version_id"), // The rate change gstRate was taken from (see gstRateVersions)
   hsn: text("hsn"),
   invoiceNumber: text("invoice_number"),
   date: timestamp("date").defaultNow().notNull(),
   category: text("category").notNull(),
   currency: text("currency").default("INR"),
+  salaryPaymentId: integer("salary_payment_id"), // Set when the expense was booked by a salary payment
+  maintenanceRecordId: integer("maintenance_record_id"), // Set when the expense was booked by a maintenance record
+  paidDate: timestamp("paid_date"), // When the supplier was paid; a supplier's expense without one is still owed
+  deletedAt: timestamp("deleted_at"), // Set when the expense is moved to the recycle bin
 });
 
 export const insertExpenseSchema = createInsertSchema(expenses).omit({
   id: true,
+  deletedAt: true,
+  ...derivedGstColumns,
+}).extend({
+  supplierStateCode: stateCodeSchema,
+  paidDate: z.coerce.date().nullable().optional(),
 });
 
 // Revenue
@@ -47,16 +91,26 @@ export const revenues = pgTable("revenues", {
   baseAmount: numeric("base_amount"),
   gstRate: numeric("gst_rate"),
   gstAmount: numeric("gst_amount"),
+  cgstAmount: numeric("cgst_amount"),
+  sgstAmount: numeric("sgst_amount"),
+  igstAmount: numeric("igst_amount"),
+  placeOfSupply: text("place_of_supply"), // GST state code; the unit's own state when not given
+  gstRateVersionId: integer("gst_rate_version_id"), // The rate change gstRate was taken from (see gstRateVersions)
   hsn: text("hsn"),
   invoiceNumber: text("invoice_number"),
   date: timestamp("date").defaultNow().notNull(),
   category: text("category").notNull(),
   currency: text("currency").default("INR"),
   orderId: integer("order_id"), // Reference to an order if applicable
+  deletedAt: timestamp("deleted_at"), // Set when the revenue is moved to the recycle bin
 });
 
 export const insertRevenueSchema = createInsertSchema(revenues).omit({
   id: true,
+  deletedAt: true,
+  ...derivedGstColumns,
+}).extend({
+  placeOfSupply: stateCodeSchema,
 });
 
 // Inventory Items
@@ -83,6 +137,7 @@ export const customers = pgTable("customers", {
   email: text("email"),
   address: text("address"),
   gstin: text("gstin"), // For B2B customers with GST registration
+  stateCode: text("state_code"), // GST state, the default place of supply; taken from the GSTIN when it has one
   createdAt: timestamp("created_at").defaultNow().notNull(),
   notes: text("notes"),
 });
@@ -90,9 +145,156 @@ export const customers = pgTable("customers", {
 export const insertCustomerSchema = createInsertSchema(customers).omit({
   id: true,
   createdAt: true,
+}).extend({
+  gstin: gstinSchema,
+  stateCode: stateCodeSchema,
+});
+
+// Suppliers (vendors) that expenses are bought from
+export const suppliers = pgTable("suppliers", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  gstin: text("gstin"), // Blank for unregistered vendors, whose purchases earn no ITC
+  stateCode: text("state_code"), // GST state the vendor supplies from; taken from the GSTIN when it has one
+  contactPerson: text("contact_person"),
+  phone: text("phone"),
+  email: text("email"),
+  address: text("address"),
+  paymentTermsDays: integer("payment_terms_days").notNull().default(0), // Days after the bill date payment is due
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertSupplierSchema = createInsertSchema(suppliers).omit({
+  id: true,
+  createdAt: true,
+}).extend({
+  gstin: gstinSchema,
+  stateCode: stateCodeSchema,
+  paymentTermsDays: z.coerce.number().int().min(0, "Payment terms can't be negative").optional(),
+});
+
+// Tax master: HSN (goods) and SAC (services) codes with the GST rate charged on
+// them, and the expense and revenue categories billed under them
+export const taxCategoryKinds = ["expense", "revenue"] as const;
+export type TaxCategoryKind = typeof taxCategoryKinds[number];
+
+export const hsnCodes = pgTable("hsn_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  description: text("description").notNull(),
+  gstRate: numeric("gst_rate").notNull(),
+});
+
+// GST rates are a percentage of the taxable value
+const gstRateSchema = z.coerce.number()
+  .min(0, "GST rate can't be negative")
+  .max(100, "GST rate can't be over 100%")
+  .transform(String);
+
+export const insertHsnCodeSchema = createInsertSchema(hsnCodes).omit({
+  id: true,
+}).extend({
+  code: z.string().trim().regex(/^\d{4,8}$/, "HSN/SAC codes are 4 to 8 digits"),
+  description: z.string().trim().min(2, "Description must be at least 2 characters"),
+  gstRate: gstRateSchema,
+});
+
+export const taxCategories = pgTable("tax_categories", {
+  id: serial("id").primaryKey(),
+  kind: text("kind").notNull(), // expense, revenue
+  name: text("name").notNull(), // Saved as the category of expenses, revenues and orders
+  hsnCode: text("hsn_code"), // The category is charged at this code's rate
+  gstRate: numeric("gst_rate"), // Charged instead of the code's rate, e.g. 0 for salaries or zero-rated exports
+});
+
+export const insertTaxCategorySchema = createInsertSchema(taxCategories).omit({
+  id: true,
+}).extend({
+  kind: z.enum(taxCategoryKinds),
+  name: z.string().trim().min(2, "Name must be at least 2 characters"),
+  hsnCode: z.preprocess(value => value === "" ? null : value, z.string().nullable().optional()),
+  gstRate: gstRateSchema.nullable().optional(),
+});
+
+// GST rate changes by notification. From effectiveFrom on, the HSN/SAC code or
+// category is charged at gstRate instead of its master rate, which still applies
+// to earlier dates. Each record keeps the version its rate was taken from; none
+// means the master rate applied.
+export const gstRateVersions = pgTable("gst_rate_versions", {
+  id: serial("id").primaryKey(),
+  hsnCode: text("hsn_code"), // The code whose rate changed
+  categoryId: integer("category_id"), // Or the category whose own rate changed
+  gstRate: numeric("gst_rate").notNull(),
+  effectiveFrom: timestamp("effective_from").notNull(),
+  notification: text("notification"), // e.g. "09/2025-Central Tax (Rate)"
+});
+
+export const insertGstRateVersionSchema = createInsertSchema(gstRateVersions).omit({
+  id: true,
+}).extend({
+  hsnCode: z.preprocess(value => value === "" ? null : value, z.string().nullable().optional()),
+  categoryId: z.coerce.number().int().positive().nullable().optional(),
+  gstRate: gstRateSchema,
+  effectiveFrom: z.coerce.date(),
+  notification: z.string().trim().nullable().optional(),
+}).refine(version => !version.hsnCode !== !version.categoryId, {
+  message: "Choose either an HSN/SAC code or a category",
+  path: ["hsnCode"],
+});
+
+// Measurement profiles: each visit's measurements of a customer for one garment type.
+// A new visit adds the next version rather than changing an earlier one.
+export const measurementProfiles = pgTable("measurement_profiles", {
+  id: serial("id").primaryKey(),
+  customerId: integer("customer_id").notNull(),
+  garmentType: text("garment_type").notNull(), // shirt, trouser, kurta, blouse, suit, other
+  version: integer("version").notNull(), // Counts up from 1 per customer and garment type
+  unit: text("unit").notNull().default("in"), // in, cm
+  measurements: text("measurements").notNull(), // JSON object of field key to value
+  notes: text("notes"),
+  takenAt: timestamp("taken_at").defaultNow().notNull(),
+});
+
+export const insertMeasurementProfileSchema = createInsertSchema(measurementProfiles).omit({
+  id: true,
+  version: true,
+}).extend({
+  garmentType: z.enum(garmentTypes),
+  unit: z.enum(measurementUnits),
+  takenAt: z.coerce.date().optional(),
+}).superRefine((profile, ctx) => {
+  let values: unknown;
+  try {
+    values = JSON.parse(profile.measurements);
+  } catch {
+    values = null;
+  }
+  
+  if (!values || typeof values !== "object" || Object.keys(values).length === 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["measurements"], message: "Enter at least one measurement" });
+    return;
+  }
+  
+  const invalid = findInvalidMeasurements(profile.garmentType, values as Record<string, unknown>);
+  if (invalid.length > 0) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ["measurements"],
+      message: `Invalid measurements for a ${profile.garmentType}: ${invalid.join(", ")}`,
+    });
+  }
 });
 
 // New Orders table for stitching orders
+export const orderStatuses = [
+  "pending",
+  "in-progress",
+  "ready",
+  "delivered",
+  "cancelled",
+] as const;
+
 export const orders = pgTable("orders", {
   id: serial("id").primaryKey(),
   orderNumber: text("order_number").notNull().unique(),
@@ -106,20 +308,124 @@ export const orders = pgTable("orders", {
   baseAmount: numeric("base_amount"),
   gstRate: numeric("gst_rate"),
   gstAmount: numeric("gst_amount"),
+  cgstAmount: numeric("cgst_amount"),
+  sgstAmount: numeric("sgst_amount"),
+  igstAmount: numeric("igst_amount"),
+  placeOfSupply: text("place_of_supply"), // GST state code; the customer's state when not given
+  gstRateVersionId: integer("gst_rate_version_id"), // The rate change gstRate was taken from (see gstRateVersions)
   hsn: text("hsn"),
   invoiceNumber: text("invoice_number"),
   description: text("description"),
   currency: text("currency").default("INR"),
   category: text("category").notNull(),
-  measurements: text("measurements"), // JSON string with measurements
+  measurements: text("measurements"), // JSON OrderMeasurements (see ./measurements), optionally copied from a profile
   fabricDetails: text("fabric_details"),
   specialInstructions: text("special_instructions"),
+  deletedAt: timestamp("deleted_at"), // Set when the order is moved to the recycle bin
 });
 
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
+  // Derived from the order's payments
+  paidAmount: true,
+  deletedAt: true,
+  ...derivedGstColumns,
+}).extend({
+  placeOfSupply: stateCodeSchema,
+  // Left out to number the order automatically
+  orderNumber: z.string().optional(),
+  status: z.enum(orderStatuses).optional(),
+  // Dates arrive as ISO strings in JSON bodies
+  orderDate: z.coerce.date().optional(),
+  deliveryDate: z.coerce.date().nullable().optional(),
+});
+
+// Customer payments (receipts) recorded against orders
+export const paymentMethods = ["cash", "upi", "card", "bank"] as const;
+
+export const payments = pgTable("payments", {
+  id: serial("id").primaryKey(),
+  orderId: integer("order_id").notNull(),
+  customerId: integer("customer_id").notNull(), // Taken from the order
+  amount: numeric("amount").notNull(),
+  paymentDate: timestamp("payment_date").defaultNow().notNull(),
+  method: text("method").notNull().default("cash"), // cash, upi, card, bank
+  reference: text("reference"), // UPI/card transaction ID, cheque or bank reference
+  notes: text("notes"),
+  deletedAt: timestamp("deleted_at"), // Set when the payment is moved to the recycle bin
+});
+
+export const insertPaymentSchema = createInsertSchema(payments).omit({
+  id: true,
+  customerId: true,
+  deletedAt: true,
+}).extend({
+  amount: z.string().refine(value => parseFloat(value) > 0, "Amount must be greater than zero"),
+  paymentDate: z.coerce.date().optional(),
+  method: z.enum(paymentMethods),
+});
+
+// GST tax invoices issued for orders and revenue entries. Each production unit
+// numbers its invoices in one unbroken series per financial year, so invoices
+// are never deleted, only cancelled.
+export const invoiceStatuses = ["issued", "cancelled"] as const;
+
+export const invoices = pgTable("invoices", {
+  id: serial("id").primaryKey(),
+  invoiceNumber: text("invoice_number").notNull().unique(),
+  financialYear: text("financial_year").notNull(), // e.g. "2026-27"
+  sequence: integer("sequence").notNull(), // Position in the unit's series for the financial year
+  productionUnitId: integer("production_unit_id").notNull(),
+  orderId: integer("order_id"),
+  revenueId: integer("revenue_id"), // Set for revenue entries not booked by an order
+  invoiceDate: timestamp("invoice_date").defaultNow().notNull(),
+  sellerName: text("seller_name").notNull(),
+  sellerAddress: text("seller_address"),
+  sellerGstin: text("seller_gstin").notNull(),
+  buyerName: text("buyer_name").notNull(),
+  buyerAddress: text("buyer_address"),
+  buyerGstin: text("buyer_gstin"), // Blank for unregistered (B2C) buyers
+  placeOfSupply: text("place_of_supply").notNull(), // Two-digit GST state code
+  isInterState: boolean("is_inter_state").notNull(), // IGST when true, CGST + SGST otherwise
+  lines: text("lines").notNull(), // JSON InvoiceLine[]
+  taxableValue: numeric("taxable_value").notNull(),
+  cgstAmount: numeric("cgst_amount").notNull().default("0"),
+  sgstAmount: numeric("sgst_amount").notNull().default("0"),
+  igstAmount: numeric("igst_amount").notNull().default("0"),
+  totalAmount: numeric("total_amount").notNull(),
+  status: text("status").notNull().default("issued"), // issued, cancelled
+  cancelledAt: timestamp("cancelled_at"),
+  cancelReason: text("cancel_reason"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// The number is assigned by storage when the invoice is saved
+export const insertInvoiceSchema = createInsertSchema(invoices).omit({
+  id: true,
+  invoiceNumber: true,
+  financialYear: true,
+  sequence: true,
+  status: true,
+  cancelledAt: true,
+  cancelReason: true,
+  createdAt: true,
 });
 
+// Request to issue an invoice for an order or a revenue entry. Buyer details
+// default to the order's customer, and place of supply to the buyer's state.
+export const issueInvoiceSchema = z.object({
+  orderId: z.number().int().positive().optional(),
+  revenueId: z.number().int().positive().optional(),
+  invoiceDate: z.coerce.date().optional(),
+  buyerName: z.string().trim().min(1).optional(),
+  buyerAddress: z.string().trim().optional(),
+  buyerGstin: gstinSchema,
+  placeOfSupply: z.string().regex(/^\d{2}$/, "Place of supply must be a two-digit state code").optional(),
+}).refine(
+  request => (request.orderId === undefined) !== (request.revenueId === undefined),
+  "Choose either an order or a revenue entry to invoice"
+);
+
 // New Salary Payments table
 export const salaryPayments = pgTable("salary_payments", {
   id: serial("id").primaryKey(),
@@ -132,10 +438,12 @@ export const salaryPayments = pgTable("salary_payments", {
   notes: text("notes"),
   month: text("month").notNull(), // The month this salary is for
   year: text("year").notNull(), // The year this salary is for
+  deletedAt: timestamp("deleted_at"), // Set when the payment is moved to the recycle bin
 });
 
 export const insertSalaryPaymentSchema = createInsertSchema(salaryPayments).omit({
   id: true,
+  deletedAt: true,
 });
 
 // New Maintenance Records table
@@ -151,10 +459,12 @@ export const maintenanceRecords = pgTable("maintenance_records", {
   nextMaintenanceDate: timestamp("next_maintenance_date"),
   performedBy: text("performed_by"),
   notes: text("notes"),
+  deletedAt: timestamp("deleted_at"), // Set when the record is moved to the recycle bin
 });
 
 export const insertMaintenanceRecordSchema = createInsertSchema(maintenanceRecords).omit({
   id: true,
+  deletedAt: true,
 });
 
 // Reports
@@ -177,7 +487,9 @@ export const users = pgTable("users", {
   username: text("username").notNull().unique(),
   password: text("password").notNull(),
   name: text("name").notNull(),
-  role: text("role").notNull(),
+  role: text("role").notNull(), // One of userRoles in shared/permissions.ts
+  productionUnitId: integer("production_unit_id"), // Unit a unit supervisor is limited to
+  active: boolean("active").notNull().default(true), // Deactivated users can't sign in
 });
 
 export const insertUserSchema = createInsertSchema(users).pick({
@@ -185,8 +497,63 @@ export const insertUserSchema = createInsertSchema(users).pick({
   password: true,
   name: true,
   role: true,
+  productionUnitId: true,
+  active: true,
+});
+
+// User accounts as created and edited on the Users page
+export const userAccountSchema = insertUserSchema.extend({
+  username: z.string().min(3, "Username must be at least 3 characters"),
+  password: z.string().min(8, "Password must be at least 8 characters"),
+  name: z.string().min(2, "Name must be at least 2 characters"),
+  role: z.enum(userRoles),
+  productionUnitId: z.number().int().positive().nullable().optional(),
 });
 
+// Audit log (append-only history of changes to records)
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  entity: text("entity").notNull(), // Table name of the changed record, e.g. "expenses"
+  entityId: integer("entity_id").notNull(),
+  action: text("action").notNull(), // create, update, delete, restore, purge
+  changedAt: timestamp("changed_at").defaultNow().notNull(),
+  changedBy: text("changed_by"), // Username, null when no user was signed in
+  previousValues: text("previous_values"), // JSON snapshot before the change
+  newValues: text("new_values"), // JSON snapshot after the change
+});
+
+export const insertAuditEntrySchema = createInsertSchema(auditLog).omit({
+  id: true,
+});
+
+export const auditEntities = [
+  "production_units",
+  "expenses",
+  "revenues",
+  "inventory_items",
+  "customers",
+  "suppliers",
+  "hsn_codes",
+  "tax_categories",
+  "gst_rate_versions",
+  "measurement_profiles",
+  "orders",
+  "payments",
+  "invoices",
+  "salary_payments",
+  "maintenance_records",
+] as const;
+
+// Entities whose deletions go to the recycle bin instead of removing the row
+export const recycleBinEntities = [
+  "expenses",
+  "revenues",
+  "orders",
+  "payments",
+  "salary_payments",
+  "maintenance_records",
+] as const;
+
 // Export types
 export type ProductionUnit = typeof productionUnits.$inferSelect;
 export type InsertProductionUnit = z.infer<typeof insertProductionUnitSchema>;
@@ -203,9 +570,40 @@ export type InsertInventoryItem = z.infer<typeof insertInventoryItemSchema>;
 export type Customer = typeof customers.$inferSelect;
 export type InsertCustomer = z.infer<typeof insertCustomerSchema>;
 
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
+export type HsnCode = typeof hsnCodes.$inferSelect;
+export type InsertHsnCode = z.infer<typeof insertHsnCodeSchema>;
+
+export type TaxCategory = typeof taxCategories.$inferSelect;
+export type InsertTaxCategory = z.infer<typeof insertTaxCategorySchema>;
+
+export type GstRateVersion = typeof gstRateVersions.$inferSelect;
+export type InsertGstRateVersion = z.infer<typeof insertGstRateVersionSchema>;
+
+// The whole tax master, as the forms load it
+export type TaxMaster = {
+  hsnCodes: HsnCode[];
+  categories: TaxCategory[];
+  rateVersions: GstRateVersion[];
+};
+
+export type MeasurementProfile = typeof measurementProfiles.$inferSelect;
+export type InsertMeasurementProfile = z.infer<typeof insertMeasurementProfileSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+export type Payment = typeof payments.$inferSelect;
+export type InsertPayment = z.infer<typeof insertPaymentSchema>;
+export type PaymentMethod = typeof paymentMethods[number];
+
+export type Invoice = typeof invoices.$inferSelect;
+export type InsertInvoice = z.infer<typeof insertInvoiceSchema>;
+export type IssueInvoiceRequest = z.infer<typeof issueInvoiceSchema>;
+export type InvoiceStatus = typeof invoiceStatuses[number];
+
 export type SalaryPayment = typeof salaryPayments.$inferSelect;
 export type InsertSalaryPayment = z.infer<typeof insertSalaryPaymentSchema>;
 
@@ -218,6 +616,13 @@ export type InsertReport = z.infer<typeof insertReportSchema>;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuditEntry = typeof auditLog.$inferSelect;
+export type InsertAuditEntry = z.infer<typeof insertAuditEntrySchema>;
+export type AuditEntity = typeof auditEntities[number];
+export type AuditAction = "create" | "update" | "delete" | "restore" | "purge";
+export type RecycleBinEntity = typeof recycleBinEntities[number];
+export type OrderStatus = typeof orderStatuses[number];
+
 // Common types for frontend and backend
 export type Transaction = {
   id: number;
@@ -252,3 +657,290 @@ export type CostTrend = {
   period: string;
   amount: number;
 };
+
+// A production unit whose stored costToDate disagrees with its expense ledger
+export type CostDiscrepancy = {
+  productionUnitId: number;
+  productionUnitName: string;
+  storedCostToDate: number;
+  derivedCostToDate: number;
+  difference: number;
+};
+
+// A soft-deleted record as listed in the recycle bin
+export type DeletedRecord = {
+  entity: RecycleBinEntity;
+  id: number;
+  description: string;
+  amount: number;
+  productionUnitId: number;
+  deletedAt: Date | string;
+};
+
+// One step of an order's status timeline; fromStatus is null when the order was created
+export type OrderStatusChange = {
+  fromStatus: string | null;
+  toStatus: string;
+  changedAt: Date | string;
+  changedBy: string | null;
+};
+
+// An open order due for delivery; daysUntilDue is negative once it is past due
+export type DueOrder = {
+  orderId: number;
+  orderNumber: string;
+  customerId: number;
+  customerName: string;
+  productionUnitId: number;
+  deliveryDate: Date | string;
+  status: string;
+  daysUntilDue: number;
+  isOverdue: boolean;
+};
+
+// Open orders due within the given number of days, including any already past due
+export type DueOrdersReport = {
+  asOf: Date | string;
+  withinDays: number;
+  orders: DueOrder[];
+  overdueCount: number;
+};
+
+// What a stitching job card prints for an order
+export type JobCard = {
+  order: Order;
+  customerName: string;
+  customerPhone: string | null;
+  productionUnitName: string;
+  measurements: OrderMeasurements | null;
+};
+
+// One line of a tax invoice; an invoice's HSN summary groups these by HSN code and rate
+export type InvoiceLine = {
+  description: string;
+  hsn: string | null;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+};
+
+// A customer's orders and payments with what they were billed, have paid and still owe
+export type CustomerLedger = {
+  customer: Customer;
+  orders: Order[];
+  payments: Payment[];
+  totalBilled: number;
+  totalPaid: number;
+  outstanding: number;
+};
+
+// A supplier's expenses (purchases) with the GST paid on them and what is still owed.
+// A purchase is due paymentTermsDays after its date and overdue when unpaid after that.
+export type SupplierBalance = {
+  supplierId: number;
+  purchaseCount: number;
+  totalPurchases: number;
+  gstPaid: number;
+  outstanding: number;
+  overdue: number;
+};
+
+export type SupplierLedger = SupplierBalance & {
+  supplier: Supplier;
+  expenses: Expense[];
+};
+
+// Accounts receivable aging: how long unpaid balances have been overdue
+export const agingBuckets = ["current", "1-30", "31-60", "61-90", "90+"] as const;
+export type AgingBucket = typeof agingBuckets[number];
+
+// An order with a balance still owed; its due date is the delivery date, or the order date without one
+export type ArAgingOrder = {
+  orderId: number;
+  orderNumber: string;
+  productionUnitId: number;
+  dueDate: Date | string;
+  daysOverdue: number;
+  bucket: AgingBucket;
+  outstanding: number;
+};
+
+export type ArAgingCustomer = {
+  customerId: number;
+  customerName: string;
+  buckets: Record<AgingBucket, number>;
+  total: number;
+  orders: ArAgingOrder[];
+};
+
+export type ArAgingReport = {
+  asOf: Date | string;
+  customers: ArAgingCustomer[];
+  totals: Record<AgingBucket, number>;
+  total: number;
+};
+
+// GSTR-1 outward supplies return for one tax period (month)
+export const gstr1Sections = ["b2b", "b2cl", "b2cs"] as const;
+export type Gstr1Section = typeof gstr1Sections[number];
+
+// What keeps a row from being filed as it stands
+export const gstr1Issues = ["missing_gstin", "missing_hsn", "missing_invoice_number"] as const;
+export type Gstr1Issue = typeof gstr1Issues[number];
+
+// A revenue entry as it is reported: B2B when the customer has a GSTIN,
+// B2CL for large inter-state sales to unregistered customers, B2CS otherwise
+export type Gstr1Document = {
+  revenueId: number;
+  orderId: number | null;
+  productionUnitId: number;
+  sellerGstin: string | null;
+  section: Gstr1Section;
+  invoiceNumber: string | null;
+  invoiceDate: Date | string;
+  customerName: string;
+  customerGstin: string | null;
+  placeOfSupply: string | null;
+  isInterState: boolean;
+  hsn: string | null;
+  gstRate: number;
+  gstRateVersion: GstRateVersion | null; // The rate change the rate was taken from
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  invoiceValue: number;
+  issues: Gstr1Issue[];
+};
+
+// B2CS supplies are reported summed by place of supply and rate
+export type Gstr1B2csRow = {
+  placeOfSupply: string | null;
+  gstRate: number;
+  isInterState: boolean;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+};
+
+export type Gstr1HsnRow = {
+  hsn: string;
+  gstRate: number;
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalValue: number;
+};
+
+export type Gstr1Report = {
+  period: string; // "YYYY-MM"
+  productionUnitId: number | null;
+  sellerGstins: string[];
+  documents: Gstr1Document[];
+  b2cs: Gstr1B2csRow[];
+  hsn: Gstr1HsnRow[];
+  totals: { taxableValue: number; cgst: number; sgst: number; igst: number };
+  flaggedCount: number;
+};
+
+// Tax split into its central, state and integrated heads
+export type GstTaxHeads = { cgst: number; sgst: number; igst: number };
+
+// GSTR-3B for one tax period: output tax on sales, input tax credit on
+// purchases and what is left to pay, broken down by rate slab
+export type Gstr3bSlab = {
+  gstRate: number;
+  outwardTaxableValue: number;
+  outputTax: GstTaxHeads;
+  inwardTaxableValue: number;
+  eligibleItc: GstTaxHeads;
+  net: GstTaxHeads; // Output tax less ITC at this rate; negative where credit exceeds tax
+  rateVersions: GstRateVersion[]; // Rate changes the slab's sales and purchases were charged under
+};
+
+// Why an expense's GST can't be claimed: its category is blocked, or it wasn't
+// billed by a supplier with a GSTIN on record
+export const itcBlockReasons = ["blocked_category", "unregistered_supplier"] as const;
+export type ItcBlockReason = typeof itcBlockReasons[number];
+
+// An expense whose GST can't be claimed as input tax credit
+export type Gstr3bBlockedExpense = {
+  expenseId: number;
+  date: Date | string;
+  description: string;
+  category: string;
+  gstAmount: number;
+  gstRateVersion: GstRateVersion | null;
+  reason: ItcBlockReason;
+};
+
+export type Gstr3bReport = {
+  period: string; // "YYYY-MM"
+  productionUnitId: number | null;
+  slabs: Gstr3bSlab[];
+  outputTax: GstTaxHeads;
+  eligibleItc: GstTaxHeads;
+  blockedItc: number;
+  blockedExpenses: Gstr3bBlockedExpense[];
+  payable: GstTaxHeads; // Paid in cash once ITC is set off
+  creditCarriedForward: GstTaxHeads;
+};
+
+// GSTR-2B reconciliation: the purchase invoices suppliers filed, as the portal
+// reports them, matched against the expenses booked for the same period
+export const gstr2bMatchStatuses = ["matched", "mismatched", "missing_in_books", "missing_in_2b"] as const;
+export type Gstr2bMatchStatus = typeof gstr2bMatchStatuses[number];
+
+// What differs between a filed invoice and the expense booked for it
+export type Gstr2bMismatch = "date" | "tax";
+
+// A B2B invoice as the supplier filed it
+export type Gstr2bInvoice = {
+  supplierGstin: string;
+  supplierName: string;
+  invoiceNumber: string;
+  invoiceDate: string; // "YYYY-MM-DD"
+  invoiceValue: number;
+  taxableValue: number;
+  igst: number;
+  cgst: number;
+  sgst: number;
+  itcAvailable: boolean; // The portal marks some credit as not available, e.g. for place-of-supply reasons
+};
+
+// The expense an invoice was booked as
+export type Gstr2bBookEntry = {
+  expenseId: number;
+  supplierId: number;
+  productionUnitId: number;
+  date: Date | string;
+  description: string;
+  amount: number;
+  gstAmount: number;
+};
+
+export type Gstr2bRow = {
+  status: Gstr2bMatchStatus;
+  supplierGstin: string;
+  supplierName: string;
+  invoiceNumber: string;
+  portal: Gstr2bInvoice | null;
+  book: Gstr2bBookEntry | null;
+  mismatches: Gstr2bMismatch[];
+  taxDifference: number; // Tax in 2B less tax in the books
+};
+
+export type Gstr2bReconciliation = {
+  period: string; // "YYYY-MM"
+  productionUnitId: number | null;
+  rows: Gstr2bRow[];
+  counts: Record<Gstr2bMatchStatus, number>;
+  portalTax: number;
+  bookTax: number;
+  itcAtRisk: number; // Booked GST the 2B doesn't back: unfiled invoices and tax booked above what was filed
+};
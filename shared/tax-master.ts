@@ -0,0 +1,169 @@
+/**
+ * Lookups in the HSN/SAC and category master, and the master a new install starts with
+ * Used by the expense, revenue and order forms and by storage to seed the master
+ */
+
+import { format } from "date-fns";
+import type { GstRateVersion, InsertHsnCode, TaxCategory, TaxCategoryKind, TaxMaster } from "./schema";
+
+// Charged on categories that aren't in the master
+export const DEFAULT_GST_RATE = 18;
+
+/**
+ * A category name in lower snake case, so "Raw Materials" and the
+ * "raw_materials" of older records are the same category
+ */
+export function normalizeCategoryName(name: string): string {
+  return name.trim().toLowerCase().replace(/[\s-]+/g, "_");
+}
+
+/**
+ * The master's category of the given kind with the given name, however it is cased or spaced
+ */
+export function findTaxCategory(master: TaxMaster, kind: TaxCategoryKind, name: string): TaxCategory | undefined {
+  const key = normalizeCategoryName(name);
+  return master.categories.find(category => category.kind === kind && normalizeCategoryName(category.name) === key);
+}
+
+/**
+ * The rate change in effect on the date: the latest of the versions that
+ * took effect by then, or none while the master rate still applies
+ */
+export function findRateVersion(versions: GstRateVersion[], date: Date | string): GstRateVersion | undefined {
+  const time = new Date(date).getTime();
+  return versions
+    .filter(version => new Date(version.effectiveFrom).getTime() <= time)
+    .reduce<GstRateVersion | undefined>((latest, version) =>
+      !latest || new Date(version.effectiveFrom) > new Date(latest.effectiveFrom) ? version : latest, undefined);
+}
+
+/**
+ * A rate change as reports name it, e.g. "12% from 01-Jan-2026 (09/2025-Central Tax (Rate))"
+ */
+export function formatRateVersion(version: GstRateVersion): string {
+  const label = `${parseFloat(version.gstRate)}% from ${format(new Date(version.effectiveFrom), "dd-MMM-yyyy")}`;
+  return version.notification ? `${label} (${version.notification})` : label;
+}
+
+/**
+ * The GST rate and HSN/SAC code a category is billed at on the date, with the
+ * rate change it was taken from. The category's own rate wins where it has
+ * one or has had it changed; otherwise it takes its code's rate.
+ */
+export function getCategoryTax(
+  master: TaxMaster,
+  kind: TaxCategoryKind,
+  name: string,
+  date: Date | string = new Date()
+): { gstRate: number; hsn: string | null; version: GstRateVersion | null } {
+  const category = findTaxCategory(master, kind, name);
+  if (!category) {
+    return { gstRate: DEFAULT_GST_RATE, hsn: null, version: null };
+  }
+
+  const categoryVersion = findRateVersion(master.rateVersions.filter(version => version.categoryId === category.id), date);
+  const codeVersion = category.hsnCode && category.gstRate === null
+    ? findRateVersion(master.rateVersions.filter(version => version.hsnCode === category.hsnCode), date)
+    : undefined;
+  const version = categoryVersion ?? codeVersion;
+  if (version) {
+    return { gstRate: parseFloat(version.gstRate), hsn: category.hsnCode, version };
+  }
+
+  const hsnCode = category.hsnCode ? master.hsnCodes.find(code => code.code === category.hsnCode) : undefined;
+  const gstRate = category.gstRate ?? hsnCode?.gstRate;
+  return { gstRate: gstRate ? parseFloat(gstRate) : DEFAULT_GST_RATE, hsn: category.hsnCode, version: null };
+}
+
+// HSN/SAC codes of a new install
+export const DEFAULT_HSN_CODES: InsertHsnCode[] = [
+  { code: "4819", description: "Cartons, boxes and bags of paper", gstRate: "18" },
+  { code: "4820", description: "Registers, notebooks and stationery", gstRate: "12" },
+  { code: "5208", description: "Woven cotton fabrics", gstRate: "5" },
+  { code: "5401", description: "Sewing thread", gstRate: "5" },
+  { code: "5604", description: "Elastic thread and cord", gstRate: "5" },
+  { code: "5801", description: "Woven pile fabrics", gstRate: "12" },
+  { code: "5804", description: "Lace", gstRate: "5" },
+  { code: "5807", description: "Labels and badges of textiles", gstRate: "12" },
+  { code: "5810", description: "Embroidery", gstRate: "5" },
+  { code: "6101", description: "Garments", gstRate: "5" },
+  { code: "6103", description: "Suits and uniforms", gstRate: "5" },
+  { code: "6307", description: "Other made up textile articles", gstRate: "5" },
+  { code: "8208", description: "Knives and cutting blades", gstRate: "18" },
+  { code: "8451", description: "Pressing and finishing machinery", gstRate: "18" },
+  { code: "8452", description: "Sewing machines and parts", gstRate: "18" },
+  { code: "9606", description: "Buttons", gstRate: "12" },
+  { code: "9607", description: "Slide fasteners (zippers)", gstRate: "12" },
+  { code: "9965", description: "Goods transport services", gstRate: "5" },
+  { code: "9972", description: "Real estate services, including rent", gstRate: "18" },
+  { code: "9983", description: "Professional, technical and business services", gstRate: "18" },
+  { code: "9987", description: "Maintenance and repair services", gstRate: "18" },
+  { code: "9988", description: "Manufacturing services on goods owned by others", gstRate: "5" },
+];
+
+type DefaultCategory = { name: string; hsnCode?: string; gstRate?: number };
+
+// Expense and revenue categories of a new install
+export const DEFAULT_TAX_CATEGORIES: Record<TaxCategoryKind, DefaultCategory[]> = {
+  expense: [
+    // Stitching unit specific materials
+    { name: "Raw Materials", hsnCode: "5208" },
+    { name: "Fabric", hsnCode: "5208" },
+    { name: "Thread", hsnCode: "5401" },
+    { name: "Buttons", hsnCode: "9606" },
+    { name: "Zippers", hsnCode: "9607" },
+    { name: "Elastic", hsnCode: "5604" },
+    { name: "Lace", hsnCode: "5804" },
+    { name: "Labels", hsnCode: "5807" },
+    { name: "Packaging", hsnCode: "4819" },
+
+    // Equipment and operations
+    { name: "Equipment", hsnCode: "8452" },
+    { name: "Sewing Machines", hsnCode: "8452" },
+    { name: "Cutting Tools", hsnCode: "8208" },
+    { name: "Pressing Equipment", hsnCode: "8451" },
+    { name: "Machine Parts", hsnCode: "8452" },
+    { name: "Machine Maintenance", hsnCode: "8452" },
+    { name: "Maintenance", hsnCode: "9987" },
+
+    // Standard business expenses
+    { name: "Salaries", gstRate: 0 }, // Salaries are not subject to GST
+    { name: "Contractor Payments", gstRate: 18 },
+    { name: "Rent", hsnCode: "9972" },
+    { name: "Utilities", gstRate: 18 },
+    { name: "Electricity", gstRate: 18 },
+    { name: "Water", gstRate: 5 },
+    { name: "Transportation", hsnCode: "9965" },
+    { name: "Office Supplies", hsnCode: "4820" },
+    { name: "Insurance", gstRate: 18 },
+    { name: "Professional Services", hsnCode: "9983" },
+    { name: "Marketing", hsnCode: "9983" },
+    { name: "Miscellaneous", gstRate: 18 },
+  ],
+  revenue: [
+    // Garment/product categories
+    { name: "Ready-made Garments", hsnCode: "6101" },
+    { name: "Custom Tailoring", hsnCode: "6101" },
+    { name: "Embroidery Services", hsnCode: "5810" },
+    { name: "Alteration Services", hsnCode: "9988" },
+    { name: "Industrial Stitching", hsnCode: "6307" },
+    { name: "Fabric Printing", hsnCode: "5801" },
+    { name: "Pattern Making", gstRate: 18 },
+    { name: "Uniform Orders", hsnCode: "6103" },
+    { name: "Bulk Orders", hsnCode: "6101" },
+    { name: "Product Sales", hsnCode: "6101" },
+
+    // Other income streams
+    { name: "Service Fee", gstRate: 18 },
+    { name: "Maintenance Contract", hsnCode: "9987" },
+    { name: "Design Services", gstRate: 18 },
+    { name: "Machine Rental", gstRate: 18 },
+    { name: "Rental Income", hsnCode: "9972" },
+    { name: "Material Resale", hsnCode: "5208" },
+    { name: "Consulting", hsnCode: "9983" },
+    { name: "Consultation Fees", hsnCode: "9983" },
+    { name: "Training Fees", gstRate: 18 },
+    { name: "Export Sales", hsnCode: "6101", gstRate: 0 }, // Exports are zero-rated
+    { name: "Other", gstRate: 18 },
+  ],
+};